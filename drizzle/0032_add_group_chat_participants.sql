@@ -0,0 +1,35 @@
+CREATE TABLE "chat_thread_participants" (
+	"thread_id" integer NOT NULL,
+	"user_id" text NOT NULL,
+	"role" text DEFAULT 'member' NOT NULL,
+	"last_read_message_id" integer,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "chat_thread_participants_thread_id_user_id_pk" PRIMARY KEY("thread_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "chat_threads" ALTER COLUMN "user1_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_threads" ALTER COLUMN "user2_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "direct_messages" ALTER COLUMN "recipient_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_threads" ADD COLUMN "is_group" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "chat_threads" ADD COLUMN "name" text;--> statement-breakpoint
+ALTER TABLE "chat_threads" ADD COLUMN "created_by" text;--> statement-breakpoint
+ALTER TABLE "chat_thread_participants" ADD CONSTRAINT "chat_thread_participants_thread_id_chat_threads_id_fk" FOREIGN KEY ("thread_id") REFERENCES "public"."chat_threads"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_thread_participants" ADD CONSTRAINT "chat_thread_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_threads" ADD CONSTRAINT "chat_threads_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Backfill participants for existing one-to-one threads, carrying read state over from direct_messages.is_read
+INSERT INTO "chat_thread_participants" ("thread_id", "user_id", "role", "last_read_message_id", "joined_at")
+SELECT
+	t."id",
+	p."user_id",
+	'member',
+	COALESCE(
+		(SELECT MIN(m."id") - 1 FROM "direct_messages" m WHERE m."thread_id" = t."id" AND m."recipient_id" = p."user_id" AND m."is_read" = false),
+		(SELECT MAX(m."id") FROM "direct_messages" m WHERE m."thread_id" = t."id")
+	),
+	t."created_at"
+FROM "chat_threads" t
+CROSS JOIN LATERAL (VALUES (t."user1_id"), (t."user2_id")) AS p("user_id")
+WHERE p."user_id" IS NOT NULL
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+UPDATE "chat_threads" SET "created_by" = "user1_id" WHERE "created_by" IS NULL;--> statement-breakpoint
+ALTER TABLE "direct_messages" DROP COLUMN "is_read";
\ No newline at end of file
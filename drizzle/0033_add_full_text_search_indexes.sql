@@ -0,0 +1,3 @@
+CREATE INDEX "comments_search_idx" ON "comments" USING gin (to_tsvector('english', regexp_replace("content", '<[^>]*>', ' ', 'g')));--> statement-breakpoint
+CREATE INDEX "posts_search_idx" ON "posts" USING gin ((setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', regexp_replace("content", '<[^>]*>', ' ', 'g')), 'B')));--> statement-breakpoint
+CREATE INDEX "qa_answers_search_idx" ON "qa_answers" USING gin (to_tsvector('english', regexp_replace("content", '<[^>]*>', ' ', 'g')));
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "email_digest_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"frequency" text NOT NULL,
+	"period_key" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"item_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"sent_at" timestamp,
+	CONSTRAINT "email_digest_deliveries_user_period_unique" UNIQUE("user_id","frequency","period_key")
+);
+--> statement-breakpoint
+CREATE TABLE "email_digest_preferences" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"frequency" text DEFAULT 'weekly' NOT NULL,
+	"unsubscribe_token" text NOT NULL,
+	"last_sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_digest_preferences_unsubscribe_token_unique" UNIQUE("unsubscribe_token")
+);
+--> statement-breakpoint
+ALTER TABLE "email_digest_deliveries" ADD CONSTRAINT "email_digest_deliveries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "email_digest_preferences" ADD CONSTRAINT "email_digest_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "notification_channel_preferences" (
+	"user_id" text NOT NULL,
+	"event_type" text NOT NULL,
+	"channel" text NOT NULL,
+	"enabled" boolean NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_channel_preferences_user_id_event_type_channel_pk" PRIMARY KEY("user_id","event_type","channel")
+);
+--> statement-breakpoint
+ALTER TABLE "notification_channel_preferences" ADD CONSTRAINT "notification_channel_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
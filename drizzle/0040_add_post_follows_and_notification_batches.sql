@@ -0,0 +1,21 @@
+CREATE TABLE "notification_batches" (
+	"recipient_id" text NOT NULL,
+	"batch_key" text NOT NULL,
+	"pending_count" integer DEFAULT 0 NOT NULL,
+	"last_delivered_at" timestamp NOT NULL,
+	CONSTRAINT "notification_batches_recipient_id_batch_key_pk" PRIMARY KEY("recipient_id","batch_key")
+);
+--> statement-breakpoint
+CREATE TABLE "post_follows" (
+	"user_id" text NOT NULL,
+	"post_id" integer NOT NULL,
+	"is_following" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "post_follows_user_id_post_id_pk" PRIMARY KEY("user_id","post_id")
+);
+--> statement-breakpoint
+ALTER TABLE "notification_batches" ADD CONSTRAINT "notification_batches_recipient_id_users_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_follows" ADD CONSTRAINT "post_follows_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_follows" ADD CONSTRAINT "post_follows_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "post_follows_post_idx" ON "post_follows" USING btree ("post_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "chat_threads" ALTER COLUMN "org_id" DROP NOT NULL;
\ No newline at end of file
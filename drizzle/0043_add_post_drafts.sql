@@ -0,0 +1,21 @@
+CREATE TABLE "post_drafts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"author_id" text NOT NULL,
+	"community_id" integer,
+	"title" text DEFAULT '' NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"tag_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"poll" jsonb,
+	"qa" jsonb,
+	"publish_at" timestamp,
+	"publish_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "draft_id" integer;--> statement-breakpoint
+ALTER TABLE "post_drafts" ADD CONSTRAINT "post_drafts_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_drafts" ADD CONSTRAINT "post_drafts_community_id_communities_id_fk" FOREIGN KEY ("community_id") REFERENCES "public"."communities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "post_drafts_author_idx" ON "post_drafts" USING btree ("author_id","updated_at");--> statement-breakpoint
+CREATE INDEX "post_drafts_publish_at_idx" ON "post_drafts" USING btree ("publish_at");--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_draft_id_post_drafts_id_fk" FOREIGN KEY ("draft_id") REFERENCES "public"."post_drafts"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
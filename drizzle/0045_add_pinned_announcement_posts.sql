@@ -0,0 +1,5 @@
+ALTER TABLE "post_drafts" ADD COLUMN "is_announcement" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "is_announcement" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "pin_position" integer;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "pinned_until" timestamp;--> statement-breakpoint
+CREATE INDEX "posts_community_pin_idx" ON "posts" USING btree ("community_id","pin_position");
\ No newline at end of file
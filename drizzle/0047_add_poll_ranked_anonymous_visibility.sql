@@ -0,0 +1,14 @@
+CREATE TABLE "poll_participants" (
+	"poll_id" integer NOT NULL,
+	"user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "poll_participants_poll_id_user_id_pk" PRIMARY KEY("poll_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "poll_votes" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD COLUMN "ballot_id" text;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD COLUMN "rank" integer;--> statement-breakpoint
+ALTER TABLE "polls" ADD COLUMN "is_anonymous" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "polls" ADD COLUMN "results_visibility" text DEFAULT 'always' NOT NULL;--> statement-breakpoint
+ALTER TABLE "poll_participants" ADD CONSTRAINT "poll_participants_poll_id_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_participants" ADD CONSTRAINT "poll_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"dedupe_key" text,
+	"locked_at" timestamp,
+	"locked_by" text,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	CONSTRAINT "jobs_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+ALTER TABLE "qa_questions" ADD COLUMN "answers_revealed_at" timestamp;--> statement-breakpoint
+CREATE INDEX "jobs_status_run_at_idx" ON "jobs" USING btree ("status","run_at");--> statement-breakpoint
+-- Deadlines that passed before the reveal job existed need no notification
+UPDATE "qa_questions" SET "answers_revealed_at" = "answers_visible_at" WHERE "answers_visible_at" <= now();
@@ -0,0 +1,2 @@
+ALTER TABLE "attachments" ADD COLUMN "conversion_status" text;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "conversion_error" text;
\ No newline at end of file
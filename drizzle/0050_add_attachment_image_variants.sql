@@ -0,0 +1,4 @@
+ALTER TABLE "attachments" ADD COLUMN "width" integer;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "height" integer;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "variants" jsonb;--> statement-breakpoint
+ALTER TABLE "attachments" ADD COLUMN "blurhash" text;
\ No newline at end of file
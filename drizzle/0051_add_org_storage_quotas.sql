@@ -0,0 +1,5 @@
+ALTER TABLE "attachments" DROP CONSTRAINT "attachments_draft_id_post_drafts_id_fk";
+--> statement-breakpoint
+ALTER TABLE "orgs" ADD COLUMN "storage_quota_mb" integer;--> statement-breakpoint
+ALTER TABLE "orgs" ADD COLUMN "user_storage_quota_mb" integer;--> statement-breakpoint
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_draft_id_post_drafts_id_fk" FOREIGN KEY ("draft_id") REFERENCES "public"."post_drafts"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "link_previews" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"url" text NOT NULL,
+	"preview" jsonb,
+	"fetched_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	CONSTRAINT "link_previews_url_unique" UNIQUE("url")
+);
+--> statement-breakpoint
+ALTER TABLE "direct_messages" ADD COLUMN "link_preview" jsonb;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "link_preview" jsonb;--> statement-breakpoint
+CREATE INDEX "link_previews_expires_at_idx" ON "link_previews" USING btree ("expires_at");
\ No newline at end of file
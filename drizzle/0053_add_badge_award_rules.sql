@@ -0,0 +1,3 @@
+ALTER TABLE "user_badge_assignments" ADD COLUMN "awarded_by_rule" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_badges" ADD COLUMN "award_rule" jsonb;--> statement-breakpoint
+ALTER TABLE "user_badges" ADD COLUMN "revoke_when_unmet" boolean DEFAULT false NOT NULL;
\ No newline at end of file
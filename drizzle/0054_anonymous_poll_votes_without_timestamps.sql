@@ -0,0 +1,3 @@
+ALTER TABLE "poll_votes" ALTER COLUMN "created_at" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "poll_participants" DROP COLUMN "created_at";--> statement-breakpoint
+UPDATE "poll_votes" SET "created_at" = NULL WHERE "user_id" IS NULL;
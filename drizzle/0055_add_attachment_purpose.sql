@@ -0,0 +1 @@
+ALTER TABLE "attachments" ADD COLUMN "purpose" text;
\ No newline at end of file
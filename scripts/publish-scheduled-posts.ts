@@ -0,0 +1,20 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { publishScheduledDrafts } from '../src/server/trpc/services/post-draft-service.js';
+
+// Usage: pnpm publish:scheduled
+async function main() {
+    console.log('🗓️  Publishing scheduled posts...');
+    const result = await publishScheduledDrafts();
+
+    console.log(`✅ Published: ${result.published}`);
+    console.log(`❌ Failed: ${result.failed}`);
+
+    process.exit(result.failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error('💥 Scheduled post run failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,52 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { runDueJobs } from '../src/server/jobs/index.js';
+
+const POLL_INTERVAL_MS = 15 * 1000;
+
+// Usage: pnpm jobs:run [--once] [--queue <name>]
+// Without --once, keeps polling for due jobs until stopped (Ctrl+C). Video
+// transcoding runs on its own queue: pnpm jobs:run --queue video
+async function main() {
+    const once = process.argv.includes('--once');
+    const queueIndex = process.argv.indexOf('--queue');
+    const queue = queueIndex > -1 ? process.argv[queueIndex + 1] : undefined;
+    if (queueIndex > -1 && !queue) {
+        console.error('Usage: pnpm jobs:run [--once] [--queue <name>]');
+        process.exit(1);
+    }
+    let stopping = false;
+
+    const stop = () => {
+        console.log('\n🛑 Finishing the current batch, then stopping...');
+        stopping = true;
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+
+    const queueName = queue ?? 'default';
+    console.log(
+        once
+            ? `⚙️  Running due jobs on the ${queueName} queue...`
+            : `⚙️  Job runner started on the ${queueName} queue`,
+    );
+    do {
+        const result = await runDueJobs({ queue });
+        if (once || result.succeeded + result.retried + result.failed > 0) {
+            console.log(
+                `✅ Succeeded: ${result.succeeded}  🔁 Retrying: ${result.retried}  ❌ Failed: ${result.failed}`,
+            );
+        }
+        if (once) process.exit(result.failed > 0 ? 1 : 0);
+
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    } while (!stopping);
+
+    process.exit(0);
+}
+
+main().catch((error) => {
+    console.error('💥 Job runner failed:', error);
+    process.exit(1);
+});
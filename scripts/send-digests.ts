@@ -0,0 +1,29 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { runEmailDigests } from '../src/lib/email-digest.js';
+
+// Usage: pnpm send:digests daily | weekly
+async function main() {
+    const frequency = process.argv[2];
+    if (frequency !== 'daily' && frequency !== 'weekly') {
+        console.error('Usage: pnpm send:digests <daily|weekly>');
+        process.exit(1);
+    }
+
+    console.log(`📧 Sending ${frequency} digests...`);
+    const result = await runEmailDigests(frequency);
+
+    console.log(`\n📊 Digest run for ${result.periodKey}:`);
+    console.log(`✅ Sent: ${result.sent}`);
+    console.log(`⏭️  Nothing to report: ${result.skipped}`);
+    console.log(`🔁 Already sent this period: ${result.alreadySent}`);
+    console.log(`❌ Failed: ${result.failed}`);
+
+    process.exit(result.failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error('💥 Digest run failed:', error);
+    process.exit(1);
+});
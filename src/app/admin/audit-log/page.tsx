@@ -0,0 +1,64 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { AuditLogViewer } from '@/components/audit-log-viewer';
+import { Loading } from '@/components/ui/loading';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from '@/components/ui/card';
+
+function AuditLogContent() {
+    const searchParams = useSearchParams();
+    const communityParam = searchParams.get('community');
+    const initialCommunityId = communityParam
+        ? Number(communityParam)
+        : undefined;
+
+    return (
+        <div className="container mx-auto p-4">
+            <div className="mb-6">
+                <Button asChild variant="ghost">
+                    <Link href="/">
+                        <ArrowLeft className="mr-2 h-4 w-4" />
+                        Back
+                    </Link>
+                </Button>
+            </div>
+            <Card>
+                <CardHeader>
+                    <CardTitle>Audit Log</CardTitle>
+                    <CardDescription>
+                        Administrative actions taken in the organizations and
+                        communities you manage.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <AuditLogViewer
+                        initialCommunityId={
+                            initialCommunityId &&
+                            !Number.isNaN(initialCommunityId)
+                                ? initialCommunityId
+                                : undefined
+                        }
+                    />
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
+
+export default function AuditLogPage() {
+    return (
+        <Suspense fallback={<Loading message="Loading audit log..." />}>
+            <AuditLogContent />
+        </Suspense>
+    );
+}
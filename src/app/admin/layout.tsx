@@ -2,7 +2,7 @@
 
 import { usePermission } from '@/hooks/use-permission';
 import { useSession } from '@/server/auth/client';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useEffect } from 'react';
 import { Loading } from '@/components/ui/loading';
 
@@ -13,16 +13,22 @@ export default function AdminLayout({
 }) {
     const session = useSession();
     const router = useRouter();
+    const pathname = usePathname();
     const { appRole } = usePermission();
 
+    // The audit log is also open to org and community admins; its API
+    // scopes the entries to what each of them may see
+    const isOpenToNonAppAdmins = pathname === '/admin/audit-log';
+
     useEffect(() => {
+        if (isOpenToNonAppAdmins) return;
         if (appRole && appRole.length > 0) {
             const isAdmin = appRole.includes('admin');
             if (!isAdmin) {
                 router.push('/');
             }
         }
-    }, [appRole, router]);
+    }, [appRole, router, isOpenToNonAppAdmins]);
 
     useEffect(() => {
         if (!session.isPending) {
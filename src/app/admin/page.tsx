@@ -78,6 +78,7 @@ import { InviteUserDialog } from '@/components/invite-user-dialog';
 import { InviteOrgEmailDialog } from '@/components/invite-org-email-dialog';
 import { usePermission } from '@/hooks/use-permission';
 import { BadgeManagement } from '@/components/badge-management';
+import { AuditLogViewer } from '@/components/audit-log-viewer';
 import {
     useCsvBulkUpload,
     CsvValidationRule,
@@ -517,6 +518,7 @@ export default function AdminDashboard() {
                         Organizations
                     </TabsTrigger>
                     <TabsTrigger value="badges">Badges</TabsTrigger>
+                    <TabsTrigger value="audit-log">Audit Log</TabsTrigger>
                     <TabsTrigger value="tools">Admin Tools</TabsTrigger>
                 </TabsList>
                 <TabsContent value="users">
@@ -2136,6 +2138,20 @@ export default function AdminDashboard() {
                         </CardContent>
                     </Card>
                 </TabsContent>
+                <TabsContent value="audit-log">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Audit Log</CardTitle>
+                            <CardDescription>
+                                Role changes, removals, bans, mutes and badge
+                                assignments across all organizations.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <AuditLogViewer />
+                        </CardContent>
+                    </Card>
+                </TabsContent>
                 <TabsContent value="tools">
                     <div className="grid gap-6 md:grid-cols-2">
                         {/* Verify Email Card */}
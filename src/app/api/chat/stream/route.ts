@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import superjson from 'superjson';
+import { getUserSession } from '@/server/auth/server';
+import { subscribeToChatEvents, type ChatStreamEvent } from '@/lib/chat-events';
+import { getTotalUnreadCount } from '@/server/trpc/services/chat-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export async function GET(request: NextRequest) {
+    const session = await getUserSession(request.headers);
+    if (!session?.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false;
+
+            // Events are serialized with superjson so dates arrive the same
+            // way they do through tRPC
+            const send = (event: ChatStreamEvent) => {
+                if (closed) return;
+                controller.enqueue(
+                    encoder.encode(
+                        `event: ${event.type}\ndata: ${superjson.stringify(event)}\n\n`,
+                    ),
+                );
+            };
+
+            const unsubscribe = subscribeToChatEvents(userId, send);
+            const heartbeat = setInterval(() => {
+                if (!closed) {
+                    controller.enqueue(encoder.encode(': heartbeat\n\n'));
+                }
+            }, HEARTBEAT_INTERVAL_MS);
+
+            cleanup = () => {
+                if (closed) return;
+                closed = true;
+                clearInterval(heartbeat);
+                unsubscribe();
+                try {
+                    controller.close();
+                } catch {
+                    // Stream already closed by the client
+                }
+            };
+
+            request.signal.addEventListener('abort', () => cleanup?.());
+
+            try {
+                send({
+                    type: 'ready',
+                    totalUnreadCount: await getTotalUnreadCount(userId),
+                });
+            } catch (error) {
+                console.error('Error opening chat stream:', error);
+                cleanup();
+            }
+        },
+        cancel() {
+            cleanup?.();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
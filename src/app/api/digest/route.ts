@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runEmailDigests, type DigestFrequency } from '@/lib/email-digest';
+
+// Triggered by cron, e.g. daily: /api/digest?frequency=daily and weekly:
+// /api/digest?frequency=weekly, with "Authorization: Bearer $CRON_SECRET"
+async function handleDigestRun(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (
+        !secret ||
+        request.headers.get('authorization') !== `Bearer ${secret}`
+    ) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const frequency = request.nextUrl.searchParams.get('frequency');
+    if (frequency !== 'daily' && frequency !== 'weekly') {
+        return NextResponse.json(
+            { error: 'frequency must be "daily" or "weekly"' },
+            { status: 400 },
+        );
+    }
+
+    try {
+        const result = await runEmailDigests(frequency as DigestFrequency);
+        console.log('Email digest run completed:', result);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error running email digests:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 },
+        );
+    }
+}
+
+export const GET = handleDigestRun;
+export const POST = handleDigestRun;
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unsubscribeFromDigest } from '@/lib/email-digest';
+
+function renderPage(title: string, body: string, status = 200) {
+    return new NextResponse(
+        `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title}</title>
+</head>
+<body style="margin: 0; padding: 60px 20px; background-color: #f2f2f2; font-family: Arial, sans-serif; text-align: center; color: #333333;">
+    <h1 style="font-size: 24px;">${title}</h1>
+    ${body}
+</body>
+</html>`,
+        { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } },
+    );
+}
+
+// Tokens are 32 random bytes, hex encoded
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+const invalidLinkPage = () =>
+    renderPage(
+        'Invalid link',
+        '<p>This unsubscribe link is invalid or has expired.</p>',
+        404,
+    );
+
+// Mail scanners follow links in emails, so GET only asks for confirmation
+export async function GET(request: NextRequest) {
+    const token = request.nextUrl.searchParams.get('token');
+    if (!token || !TOKEN_PATTERN.test(token)) {
+        return invalidLinkPage();
+    }
+
+    return renderPage(
+        'Unsubscribe from digest emails?',
+        `<p>You will no longer receive activity digests from CommunityX.</p>
+    <form method="POST">
+        <input type="hidden" name="token" value="${token}">
+        <button type="submit" style="padding: 12px 24px; background-color: #625A96; color: #ffffff; border: none; border-radius: 8px; font-size: 16px; cursor: pointer;">Unsubscribe</button>
+    </form>`,
+    );
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const formData = await request.formData();
+        const token = String(formData.get('token') ?? '');
+        if (
+            !TOKEN_PATTERN.test(token) ||
+            !(await unsubscribeFromDigest(token))
+        ) {
+            return invalidLinkPage();
+        }
+
+        return renderPage(
+            "You've been unsubscribed",
+            `<p>You won't receive digest emails anymore. You can turn them back on from your <a href="/profile" style="color: #625A96;">profile</a>.</p>`,
+        );
+    } catch (error) {
+        console.error('Error unsubscribing from digest:', error);
+        return renderPage(
+            'Something went wrong',
+            '<p>Please try again later.</p>',
+            500,
+        );
+    }
+}
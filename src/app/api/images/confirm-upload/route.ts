@@ -4,261 +4,14 @@ import { db } from '@/server/db';
 import { attachments } from '@/server/db/schema';
 import { eq } from 'drizzle-orm';
 import { encodeR2KeyForUrl } from '@/lib/utils';
-
-// Video conversion service interfaces
-interface VideoConversionRequest {
-    attachmentId: number;
-    originalKey: string;
-    convertedKey: string;
-    originalUrl: string;
-}
-
-interface VideoConversionService {
-    convert(request: VideoConversionRequest): Promise<any>;
-    isConfigured(): boolean;
-}
-
-// Coconut.co implementation
-class CoconutVideoService implements VideoConversionService {
-    isConfigured(): boolean {
-        return !!(
-            process.env.COCONUT_API_KEY && process.env.COCONUT_WEBHOOK_URL
-        );
-    }
-
-    async convert(request: VideoConversionRequest): Promise<any> {
-        const { attachmentId, originalKey, originalUrl } = request;
-
-        const response = await fetch('https://api.coconut.co/v1/jobs', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Basic ${Buffer.from(process.env.COCONUT_API_KEY + ':').toString('base64')}`,
-            },
-            body: JSON.stringify({
-                input: originalUrl,
-                webhook: process.env.COCONUT_WEBHOOK_URL,
-                outputs: {
-                    mp4: {
-                        path: originalKey.replace(/\.[^/.]+$/, '.mp4'),
-                        video_codec: 'h264',
-                        audio_codec: 'aac',
-                        quality: 'web_optimized',
-                        size: '1280x720',
-                    },
-                },
-                metadata: {
-                    attachmentId: attachmentId.toString(),
-                    originalKey,
-                    service: 'coconut',
-                },
-            }),
-        });
-
-        if (!response.ok) {
-            throw new Error(`Coconut API failed: ${response.statusText}`);
-        }
-
-        return await response.json();
-    }
-}
-
-// Zencoder implementation
-class ZencoderVideoService implements VideoConversionService {
-    isConfigured(): boolean {
-        return !!(
-            process.env.ZENCODER_API_KEY && process.env.ZENCODER_WEBHOOK_URL
-        );
-    }
-
-    async convert(request: VideoConversionRequest): Promise<any> {
-        const { attachmentId, originalKey, originalUrl } = request;
-
-        const response = await fetch('https://app.zencoder.com/api/v2/jobs', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Zencoder-Api-Key': process.env.ZENCODER_API_KEY!,
-            },
-            body: JSON.stringify({
-                input: originalUrl,
-                outputs: [
-                    {
-                        url: originalKey.replace(/\.[^/.]+$/, '.mp4'),
-                        video_codec: 'h264',
-                        audio_codec: 'aac',
-                        quality: 'web_optimized',
-                        width: 1280,
-                        height: 720,
-                        notifications: [process.env.ZENCODER_WEBHOOK_URL],
-                        metadata: {
-                            attachmentId: attachmentId.toString(),
-                            originalKey,
-                            service: 'zencoder',
-                        },
-                    },
-                ],
-            }),
-        });
-
-        if (!response.ok) {
-            throw new Error(`Zencoder API failed: ${response.statusText}`);
-        }
-
-        return await response.json();
-    }
-}
-
-// AWS MediaConvert implementation
-class AWSMediaConvertService implements VideoConversionService {
-    isConfigured(): boolean {
-        return !!(
-            process.env.AWS_ACCESS_KEY_ID &&
-            process.env.AWS_SECRET_ACCESS_KEY &&
-            process.env.AWS_REGION &&
-            process.env.MEDIACONVERT_ENDPOINT
-        );
-    }
-
-    async convert(request: VideoConversionRequest): Promise<any> {
-        const { attachmentId, originalKey, originalUrl } = request;
-
-        // Note: This is a simplified example. In production, you'd use the AWS SDK
-        // and implement proper Signature V4 authentication
-        const response = await fetch(
-            `${process.env.MEDIACONVERT_ENDPOINT}/2017-08-29/jobs`,
-            {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'X-Amz-Target': 'MediaConvert.CreateJob',
-                },
-                body: JSON.stringify({
-                    Role: process.env.MEDIACONVERT_ROLE_ARN,
-                    Settings: {
-                        Inputs: [
-                            {
-                                FileInput: originalUrl,
-                                AudioSelectors: {},
-                                VideoSelector: {},
-                            },
-                        ],
-                        OutputGroups: [
-                            {
-                                Name: 'File Group',
-                                Outputs: [
-                                    {
-                                        NameModifier: '_converted',
-                                        ContainerSettings: {
-                                            Container: 'MP4',
-                                            Mp4Settings: {},
-                                        },
-                                        VideoDescription: {
-                                            CodecSettings: {
-                                                Codec: 'H_264',
-                                                H264Settings: {
-                                                    MaxBitrate: 2000000,
-                                                    QvbrQualityLevel: 7,
-                                                },
-                                            },
-                                        },
-                                        AudioDescriptions: [
-                                            {
-                                                CodecSettings: {
-                                                    Codec: 'AAC',
-                                                    AacSettings: {
-                                                        Bitrate: 128000,
-                                                        CodecProfile: 'LC',
-                                                    },
-                                                },
-                                            },
-                                        ],
-                                    },
-                                ],
-                            },
-                        ],
-                    },
-                    UserMetadata: {
-                        attachmentId: attachmentId.toString(),
-                        originalKey,
-                        service: 'aws-mediaconvert',
-                    },
-                }),
-            },
-        );
-
-        if (!response.ok) {
-            throw new Error(
-                `AWS MediaConvert API failed: ${response.statusText}`,
-            );
-        }
-
-        return await response.json();
-    }
-}
-
-// CloudFlare Stream implementation
-class CloudFlareStreamService implements VideoConversionService {
-    isConfigured(): boolean {
-        return !!(
-            process.env.CLOUDFLARE_STREAM_API_TOKEN &&
-            process.env.CLOUDFLARE_ACCOUNT_ID
-        );
-    }
-
-    async convert(request: VideoConversionRequest): Promise<any> {
-        const { attachmentId, originalKey, originalUrl } = request;
-
-        const response = await fetch(
-            `https://api.cloudflare.com/client/v4/accounts/${process.env.CLOUDFLARE_ACCOUNT_ID}/stream`,
-            {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    Authorization: `Bearer ${process.env.CLOUDFLARE_STREAM_API_TOKEN}`,
-                },
-                body: JSON.stringify({
-                    url: originalUrl,
-                    meta: {
-                        name: originalKey,
-                        attachmentId: attachmentId.toString(),
-                        originalKey,
-                        service: 'cloudflare-stream',
-                    },
-                    requireSignedURLs: false,
-                    watermark: null,
-                    thumbnailTimestampPct: 0,
-                }),
-            },
-        );
-
-        if (!response.ok) {
-            throw new Error(
-                `CloudFlare Stream API failed: ${response.statusText}`,
-            );
-        }
-
-        return await response.json();
-    }
-}
-
-// Video conversion service factory
-class VideoConversionServiceFactory {
-    private static services: VideoConversionService[] = [
-        new CoconutVideoService(),
-        new ZencoderVideoService(),
-        new AWSMediaConvertService(),
-        new CloudFlareStreamService(),
-    ];
-
-    static getConfiguredService(): VideoConversionService | null {
-        return this.services.find((service) => service.isConfigured()) || null;
-    }
-
-    static getAllConfiguredServices(): VideoConversionService[] {
-        return this.services.filter((service) => service.isConfigured());
-    }
-}
+import { startVideoTranscoding } from '@/server/trpc/services/video-transcoding-service';
+import {
+    PROCESS_IMAGE_JOB,
+    processImageAttachment,
+} from '@/server/trpc/services/image-processing-service';
+import { enqueueJob } from '@/server/jobs';
+import { deleteObject, getObjectSize } from '@/lib/r2-objects';
+import { checkStorageQuota } from '@/server/trpc/services/storage-service';
 
 export async function POST(request: NextRequest) {
     try {
@@ -272,7 +25,8 @@ export async function POST(request: NextRequest) {
         }
 
         const body = await request.json();
-        const { name, url, postId, communityId, mimetype, type } = body;
+        const { name, url, postId, communityId, mimetype, type, purpose } =
+            body;
 
         if (!name || !url) {
             return NextResponse.json(
@@ -329,6 +83,39 @@ export async function POST(request: NextRequest) {
             }
         }
 
+        // One row per stored file, or deleting one would break the other
+        const existing = await db.query.attachments.findFirst({
+            where: eq(attachments.r2Key, finalR2Key),
+            columns: { id: true },
+        });
+        if (existing) {
+            return NextResponse.json(
+                { error: 'This upload was already confirmed' },
+                { status: 409 },
+            );
+        }
+
+        // Storage quotas are counted from the stored size, not the size the
+        // client reports, and checked again now that it is known
+        const storedSize = await getObjectSize(finalR2Key).catch((error) => {
+            console.error(`Could not read the size of ${finalR2Key}:`, error);
+            return null;
+        });
+        if (storedSize === null) {
+            return NextResponse.json(
+                { error: 'Uploaded file not found' },
+                { status: 400 },
+            );
+        }
+
+        const quotaError = await checkStorageQuota(session.user.id, storedSize);
+        if (quotaError) {
+            await deleteObject(finalR2Key).catch((error) =>
+                console.error(`Failed to delete ${finalR2Key}:`, error),
+            );
+            return NextResponse.json({ error: quotaError }, { status: 413 });
+        }
+
         // Save attachment metadata to database
         const insertData = {
             filename: needsVideoConversion
@@ -336,7 +123,7 @@ export async function POST(request: NextRequest) {
                 : filename,
             mimetype: attachmentMimetype,
             type: attachmentType,
-            size: 0, // Will be updated if needed
+            size: storedSize,
             r2Key: finalR2Key,
             r2Url: url,
             // URL-encode the key to handle characters like @ and & while preserving path slashes
@@ -345,55 +132,42 @@ export async function POST(request: NextRequest) {
             uploadedBy: session.user.id,
             postId: postId || null,
             communityId: communityId || null,
+            purpose: purpose === 'chat' ? 'chat' : null,
         };
 
-        const [attachmentRecord] = await db
+        let [attachmentRecord] = await db
             .insert(attachments)
             .values(insertData)
             .returning();
 
-        // If video needs conversion, trigger background conversion
-        if (needsVideoConversion) {
+        // Strip metadata and build variants before the image is shared. If
+        // that fails, the job retries it; the original is served meanwhile.
+        if (attachmentRecord.type === 'image') {
             try {
-                const conversionService =
-                    VideoConversionServiceFactory.getConfiguredService();
-
-                if (conversionService) {
-                    console.log(
-                        `Using ${conversionService.constructor.name} for video conversion`,
-                    );
-
-                    // Trigger video conversion service
-                    await triggerVideoConversion(
-                        {
-                            attachmentId: attachmentRecord.id,
-                            originalKey: name,
-                            convertedKey: finalR2Key,
-                            originalUrl: url,
-                        },
-                        conversionService,
-                    );
-                } else {
-                    // No conversion service configured - but file is already renamed to .mp4
-                    console.log(
-                        `Video ${name} uploaded with .mp4 extension for better web compatibility. No conversion service configured.`,
-                    );
-                    console.log(
-                        'Available services:',
-                        VideoConversionServiceFactory.getAllConfiguredServices().map(
-                            (s) => s.constructor.name,
-                        ),
-                    );
-                }
-            } catch (conversionError) {
-                console.error('Video conversion failed:', conversionError);
-                // File is already stored with .mp4 extension and mimetype, so no action needed
-                console.log(
-                    `Video ${name} will be served as-is with MP4 mimetype for better browser compatibility.`,
+                attachmentRecord =
+                    (await processImageAttachment(attachmentRecord.id)) ??
+                    attachmentRecord;
+            } catch (processingError) {
+                console.error(
+                    `Image processing failed for attachment ${attachmentRecord.id}:`,
+                    processingError,
+                );
+                await enqueueJob(
+                    PROCESS_IMAGE_JOB,
+                    { attachmentId: attachmentRecord.id },
+                    {
+                        dedupeKey: `${PROCESS_IMAGE_JOB}:${attachmentRecord.id}`,
+                    },
                 );
             }
         }
 
+        // The file is already stored as .mp4, so it is served as-is until
+        // (and unless) a transcoder replaces it with a web-friendly encode
+        const conversionStatus = needsVideoConversion
+            ? await startVideoTranscoding(attachmentRecord)
+            : null;
+
         return NextResponse.json({
             message: 'success',
             attachment: {
@@ -405,7 +179,12 @@ export async function POST(request: NextRequest) {
                 key: attachmentRecord.r2Key,
                 url: `${process.env.R2_PUBLIC_URL}/${encodeR2KeyForUrl(attachmentRecord.r2Key)}`,
                 thumbnailUrl: attachmentRecord.thumbnailUrl,
+                width: attachmentRecord.width,
+                height: attachmentRecord.height,
+                variants: attachmentRecord.variants,
+                blurhash: attachmentRecord.blurhash,
                 needsConversion: needsVideoConversion,
+                conversionStatus,
             },
         });
     } catch (error) {
@@ -416,24 +195,3 @@ export async function POST(request: NextRequest) {
         );
     }
 }
-
-// Video conversion service integration
-async function triggerVideoConversion(
-    request: VideoConversionRequest,
-    service: VideoConversionService,
-): Promise<any> {
-    try {
-        console.log(
-            `Starting video conversion with ${service.constructor.name}`,
-        );
-        const result = await service.convert(request);
-        console.log(`Video conversion initiated successfully:`, result);
-        return result;
-    } catch (error) {
-        console.error(
-            `Video conversion failed with ${service.constructor.name}:`,
-            error,
-        );
-        throw error;
-    }
-}
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserSession } from '@/server/auth/server';
-import { generatePresignedUploadUrl, validateAttachmentFile } from '@/lib/r2';
+import {
+    generatePresignedUploadUrl,
+    validateAttachmentFile,
+    validateChatAttachmentFile,
+} from '@/lib/r2';
 import { TRPCError } from '@trpc/server';
+import { checkStorageQuota } from '@/server/trpc/services/storage-service';
 
 export async function GET(request: NextRequest) {
     try {
@@ -17,6 +22,10 @@ export async function GET(request: NextRequest) {
         const { searchParams } = new URL(request.url);
         const key = searchParams.get('key');
         const contentType = searchParams.get('contentType');
+        // Chat accepts documents as well as images
+        const purpose = searchParams.get('purpose');
+        // Declared size in bytes, checked against size limits and quotas
+        const size = Number(searchParams.get('size'));
 
         if (!key || !contentType) {
             return NextResponse.json(
@@ -25,6 +34,13 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        if (!Number.isInteger(size) || size <= 0) {
+            return NextResponse.json(
+                { error: 'Missing or invalid size parameter' },
+                { status: 400 },
+            );
+        }
+
         // Validate that the key starts with the user's email
         const userEmail = session.user.email?.toLowerCase();
         if (!userEmail || !key.toLowerCase().startsWith(userEmail)) {
@@ -34,13 +50,16 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // Validate file type (create a mock File object for validation)
+        // Validate file type and size (create a mock File object for validation)
         const mockFile = {
             type: contentType,
-            size: 0, // Size will be validated during actual upload
+            size,
         } as File;
 
-        const validation = validateAttachmentFile(mockFile);
+        const validation =
+            purpose === 'chat'
+                ? validateChatAttachmentFile(mockFile)
+                : validateAttachmentFile(mockFile);
         if (!validation.valid) {
             return NextResponse.json(
                 { error: validation.error },
@@ -48,11 +67,17 @@ export async function GET(request: NextRequest) {
             );
         }
 
+        const quotaError = await checkStorageQuota(session.user.id, size);
+        if (quotaError) {
+            return NextResponse.json({ error: quotaError }, { status: 413 });
+        }
+
         // Generate presigned URL
         try {
             const presignedUrl = await generatePresignedUploadUrl(
                 key,
                 contentType,
+                size,
             );
             return NextResponse.json({ url: presignedUrl });
         } catch (error) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getUserSession } from '@/server/auth/server';
+import { checkStorageQuota } from '@/server/trpc/services/storage-service';
 
 export async function PUT(request: NextRequest) {
     try {
@@ -25,6 +26,14 @@ export async function PUT(request: NextRequest) {
         // Get the image data from the request
         const imageData = await request.arrayBuffer();
 
+        const quotaError = await checkStorageQuota(
+            session.user.id,
+            imageData.byteLength,
+        );
+        if (quotaError) {
+            return NextResponse.json({ error: quotaError }, { status: 413 });
+        }
+
         // Forward the image to R2 using the presigned URL
         const uploadResponse = await fetch(proxyUrl, {
             method: 'PUT',
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueJobs } from '@/server/jobs';
+
+// Triggered by cron, e.g. every minute: /api/jobs
+// with "Authorization: Bearer $CRON_SECRET". Long-running hosts can use
+// `pnpm jobs:run` instead.
+async function handleJobsRun(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (
+        !secret ||
+        request.headers.get('authorization') !== `Bearer ${secret}`
+    ) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await runDueJobs();
+        console.log('Job run completed:', result);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error running jobs:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 },
+        );
+    }
+}
+
+export const GET = handleJobsRun;
+export const POST = handleJobsRun;
@@ -1,104 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/server/auth/server';
+import type { LinkPreview } from '@/lib/link-preview';
+import {
+    normalizeLinkUrl,
+    unfurlLink,
+} from '@/server/trpc/services/link-unfurl-service';
 
-export interface LinkPreview {
-    title?: string;
-    description?: string;
-    image?: string;
-    url: string;
-    domain: string;
-}
+export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
-    try {
-        const { searchParams } = new URL(request.url);
-        const url = searchParams.get('url');
-
-        if (!url) {
-            return NextResponse.json(
-                { error: 'URL parameter is required' },
-                { status: 400 },
-            );
-        }
-
-        // Validate URL format
-        try {
-            new URL(url);
-        } catch {
-            return NextResponse.json(
-                { error: 'Invalid URL format' },
-                { status: 400 },
-            );
-        }
-
-        // Fetch the URL content
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent':
-                    'Mozilla/5.0 (compatible; CommunityX-LinkPreview/1.0)',
-                Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            },
-            // Add timeout to prevent hanging requests
-            signal: AbortSignal.timeout(10000), // 10 second timeout
-        });
-
-        if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const html = await response.text();
-
-        // Parse the HTML to extract meta tags
-        const parser = new DOMParser();
-        const doc = parser.parseFromString(html, 'text/html');
-        const getMetaContent = (propName: string) => {
-            return doc
-                .querySelector(
-                    `meta[property="${propName}"], meta[name="${propName}"]`,
-                )
-                ?.getAttribute('content');
-        };
-        const title = doc.querySelector('title')?.textContent?.trim() || '';
-        const description = getMetaContent('description')?.trim() || '';
-        const image =
-            (
-                getMetaContent('og:image') || getMetaContent('twitter:image')
-            )?.trim() || '';
-
-        // Extract domain from URL
-        const domain = new URL(url).hostname;
+    const session = await getUserSession(request.headers);
+    if (!session?.user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
 
-        const linkPreview: LinkPreview = {
-            title: title || domain,
-            description,
-            image,
-            url,
-            domain,
-        };
+    const url = normalizeLinkUrl(request.nextUrl.searchParams.get('url') ?? '');
+    if (!url) {
+        return NextResponse.json(
+            { error: 'An http(s) URL is required' },
+            { status: 400 },
+        );
+    }
 
-        return NextResponse.json(linkPreview);
+    try {
+        const preview = await unfurlLink(url);
+        if (preview) return NextResponse.json(preview);
     } catch (error) {
         console.error('Error fetching link preview:', error);
-
-        // If we have a URL, return basic info even if preview fails
-        const url = new URL(request.url).searchParams.get('url');
-        if (url) {
-            try {
-                const domain = new URL(url).hostname;
-                return NextResponse.json({
-                    title: domain,
-                    description: '',
-                    image: '',
-                    url,
-                    domain,
-                });
-            } catch {
-                // If URL is invalid, return error
-            }
-        }
-
-        return NextResponse.json(
-            { error: 'Failed to fetch link preview' },
-            { status: 500 },
-        );
     }
+
+    // Basic info when the page could not be unfurled
+    const domain = new URL(url).hostname;
+    return NextResponse.json({ title: domain, url, domain } as LinkPreview);
 }
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { publishScheduledDrafts } from '@/server/trpc/services/post-draft-service';
+
+// Triggered by cron, e.g. every minute: /api/scheduled-posts
+// with "Authorization: Bearer $CRON_SECRET"
+async function handleScheduledPostsRun(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (
+        !secret ||
+        request.headers.get('authorization') !== `Bearer ${secret}`
+    ) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await publishScheduledDrafts();
+        console.log('Scheduled posts run completed:', result);
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error publishing scheduled posts:', error);
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 },
+        );
+    }
+}
+
+export const GET = handleScheduledPostsRun;
+export const POST = handleScheduledPostsRun;
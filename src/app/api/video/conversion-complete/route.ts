@@ -1,33 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/server/db';
-import { attachments } from '@/server/db/schema';
-import { eq } from 'drizzle-orm';
+import {
+    completeVideoTranscoding,
+    failVideoTranscoding,
+    readCallbackFailure,
+    verifyVideoCallback,
+} from '@/server/trpc/services/video-transcoding-service';
 
+// Called by the transcoding backend through the signed URL it was given
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { attachmentId, convertedKey, convertedUrl, thumbnailUrl } = body;
-
-        if (!attachmentId || !convertedKey) {
+        const attachmentId = verifyVideoCallback(
+            'complete',
+            request.nextUrl.searchParams,
+        );
+        if (attachmentId === null) {
             return NextResponse.json(
-                { error: 'Missing required parameters' },
-                { status: 400 },
+                { error: 'Invalid or expired signature' },
+                { status: 401 },
             );
         }
 
-        // Update attachment record with converted video details
-        await db
-            .update(attachments)
-            .set({
-                r2Key: convertedKey,
-                r2Url: convertedUrl,
-                thumbnailUrl: thumbnailUrl || null,
-                updatedAt: new Date(),
-            })
-            .where(eq(attachments.id, attachmentId));
+        const body = await request.json().catch(() => ({}));
+
+        // Hosted services send failures to the same webhook
+        const failure = readCallbackFailure(body);
+        if (failure) {
+            await failVideoTranscoding(attachmentId, failure);
+            console.error(
+                `Video conversion failed for attachment ${attachmentId}:`,
+                failure,
+            );
+            return NextResponse.json({ success: true });
+        }
+
+        const updated = await completeVideoTranscoding(attachmentId, {
+            hasThumbnail: body?.hasThumbnail === true,
+        });
 
         console.log(
-            `Video conversion completed for attachment ${attachmentId}`,
+            updated
+                ? `Video conversion completed for attachment ${attachmentId}`
+                : `Ignoring completion for attachment ${attachmentId}, conversion already finished`,
         );
 
         return NextResponse.json({
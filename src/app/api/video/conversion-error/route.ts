@@ -1,31 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/server/db';
-import { attachments } from '@/server/db/schema';
-import { eq } from 'drizzle-orm';
+import {
+    failVideoTranscoding,
+    readCallbackFailure,
+    verifyVideoCallback,
+} from '@/server/trpc/services/video-transcoding-service';
 
+// Called by the transcoding backend through the signed URL it was given. The
+// original upload stays in place, so the video is still served as uploaded.
 export async function POST(request: NextRequest) {
     try {
-        const body = await request.json();
-        const { attachmentId, error, originalKey, originalUrl } = body;
-
-        if (!attachmentId) {
+        const attachmentId = verifyVideoCallback(
+            'error',
+            request.nextUrl.searchParams,
+        );
+        if (attachmentId === null) {
             return NextResponse.json(
-                { error: 'Missing attachment ID' },
-                { status: 400 },
+                { error: 'Invalid or expired signature' },
+                { status: 401 },
             );
         }
 
-        // Revert to original file if conversion failed
-        if (originalKey && originalUrl) {
-            await db
-                .update(attachments)
-                .set({
-                    r2Key: originalKey,
-                    r2Url: originalUrl,
-                    updatedAt: new Date(),
-                })
-                .where(eq(attachments.id, attachmentId));
-        }
+        const body = await request.json().catch(() => ({}));
+        const error = readCallbackFailure(body) ?? 'Video conversion failed';
+
+        await failVideoTranscoding(attachmentId, error);
 
         console.error(
             `Video conversion failed for attachment ${attachmentId}:`,
@@ -34,8 +32,7 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({
             success: true,
-            message:
-                'Video conversion error handled, reverted to original file',
+            message: 'Video conversion error recorded',
         });
     } catch (error) {
         console.error('Error handling video conversion error:', error);
@@ -3,7 +3,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, MessageSquare, Plus, Search } from 'lucide-react';
+import { ArrowLeft, MessageSquare, Plus, Search, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useChat } from '@/providers/chat-provider';
@@ -11,6 +11,10 @@ import { useSession } from '@/server/auth/client';
 import { trpc } from '@/providers/trpc-provider';
 import NewChatDialog from '@/components/chat/new-chat-dialog';
 import { Loading } from '@/components/ui/loading';
+import { useChatStream } from '@/hooks/use-chat-stream';
+import { getChatThreadTitle } from '@/components/chat/chat-utils';
+import { MentionSuggestions } from '@/components/chat/mention-suggestions';
+import { useChatMentions } from '@/hooks/use-chat-mentions';
 
 export default function ChatPage() {
     const router = useRouter();
@@ -20,6 +24,9 @@ export default function ChatPage() {
     const [searchQuery, setSearchQuery] = useState('');
     const [isClient, setIsClient] = useState(false);
 
+    // Keep the thread list and open conversation up to date in real time
+    useChatStream({ openThreadId: activeThreadId });
+
     useEffect(() => {
         setIsClient(true);
     }, []);
@@ -105,6 +112,7 @@ export default function ChatPage() {
 // Chat List Component
 function ChatList({ searchQuery }: { searchQuery: string }) {
     const { setActiveThreadId } = useChat();
+    const { data: session } = useSession();
     const { data: threads, isLoading, error } = trpc.chat.getThreads.useQuery();
 
     if (isLoading) {
@@ -121,8 +129,8 @@ function ChatList({ searchQuery }: { searchQuery: string }) {
 
     const filteredThreads = (threads || []).filter(
         (thread) =>
-            thread.otherUser?.name
-                ?.toLowerCase()
+            getChatThreadTitle(thread, session?.user?.id)
+                .toLowerCase()
                 .includes(searchQuery.toLowerCase()) ||
             thread.lastMessagePreview
                 ?.toLowerCase()
@@ -154,18 +162,22 @@ function ChatList({ searchQuery }: { searchQuery: string }) {
                     onClick={() => setActiveThreadId(thread.id)}
                 >
                     <div className="bg-primary text-primary-foreground flex h-10 w-10 items-center justify-center rounded-full text-sm font-medium">
-                        {thread.otherUser?.name
-                            ? thread.otherUser.name
-                                  .split(' ')
-                                  .map((n: string) => n[0])
-                                  .join('')
-                                  .toUpperCase()
-                            : '??'}
+                        {thread.isGroup ? (
+                            <Users className="h-5 w-5" />
+                        ) : thread.otherUser?.name ? (
+                            thread.otherUser.name
+                                .split(' ')
+                                .map((n: string) => n[0])
+                                .join('')
+                                .toUpperCase()
+                        ) : (
+                            '??'
+                        )}
                     </div>
                     <div className="min-w-0 flex-1">
                         <div className="flex items-center justify-between">
                             <p className="text-foreground truncate text-sm font-medium">
-                                {thread.otherUser?.name || 'Unknown'}
+                                {getChatThreadTitle(thread, session?.user?.id)}
                             </p>
                             <p className="text-muted-foreground text-xs">
                                 {thread.lastMessageAt
@@ -203,6 +215,8 @@ function ChatThread({ threadId }: { threadId: number }) {
     const [loadingOlder, setLoadingOlder] = useState(false);
     const utils = trpc.useUtils();
     const messagesContainerRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const mentions = useChatMentions(threadId, message, setMessage);
 
     // Fetch messages for this thread
     const { data, isLoading, error, refetch } = trpc.chat.getMessages.useQuery({
@@ -210,7 +224,7 @@ function ChatThread({ threadId }: { threadId: number }) {
         limit: 50,
     });
 
-    // Fetch thread details for header and recipientId
+    // Fetch thread details for header
     const { data: thread } = trpc.chat.getThreadById.useQuery({ threadId });
 
     // Get current user session
@@ -220,6 +234,7 @@ function ChatThread({ threadId }: { threadId: number }) {
     const sendMessageMutation = trpc.chat.sendMessage.useMutation({
         onSuccess: async () => {
             setMessage('');
+            mentions.reset();
             await refetch();
             utils.chat.getThreads.invalidate();
         },
@@ -308,31 +323,18 @@ function ChatThread({ threadId }: { threadId: number }) {
         );
     }
 
-    // Compute recipientId (the other user in the thread)
     const currentUserId = session?.user?.id;
-    let recipientId: string | undefined;
-    if (currentUserId && thread) {
-        recipientId =
-            thread.user1Id === currentUserId ? thread.user2Id : thread.user1Id;
-    }
 
     const handleSendMessage = () => {
-        if (message.trim() && recipientId) {
+        if (message.trim()) {
             sendMessageMutation.mutate({
-                recipientId,
                 content: message,
                 threadId,
+                mentionedUserIds: mentions.getMentionedUserIds(),
             });
         }
     };
 
-    // Compute otherUser based on the current user and thread.user1/user2
-    let otherUser;
-    if (currentUserId && thread) {
-        otherUser =
-            thread.user1Id === currentUserId ? thread.user2 : thread.user1;
-    }
-
     return (
         <div className="flex h-full flex-col">
             {/* Thread Header */}
@@ -349,8 +351,13 @@ function ChatThread({ threadId }: { threadId: number }) {
                         </Button>
                         <div className="flex flex-col">
                             <span className="text-foreground text-sm font-medium">
-                                {otherUser?.name || 'Unknown'}
+                                {getChatThreadTitle(thread, currentUserId)}
                             </span>
+                            {thread.isGroup && (
+                                <span className="text-muted-foreground text-xs">
+                                    {thread.participants.length} participants
+                                </span>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -410,6 +417,12 @@ function ChatThread({ threadId }: { threadId: number }) {
                                     : 'bg-muted text-foreground'
                             }`}
                         >
+                            {thread.isGroup &&
+                                msg.senderId !== currentUserId && (
+                                    <p className="mb-1 text-xs font-medium opacity-70">
+                                        {msg.sender?.name}
+                                    </p>
+                                )}
                             {msg.content}
                         </div>
                     </div>
@@ -419,13 +432,24 @@ function ChatThread({ threadId }: { threadId: number }) {
 
             {/* Message Input */}
             <div className="border-border bg-background/95 border-t p-4">
+                {mentions.isOpen && (
+                    <MentionSuggestions
+                        suggestions={mentions.suggestions}
+                        activeIndex={mentions.activeIndex}
+                        onSelect={(user) =>
+                            mentions.selectSuggestion(user, inputRef.current)
+                        }
+                    />
+                )}
                 <div className="flex items-center">
                     <Input
+                        ref={inputRef}
                         placeholder="Type your message..."
                         value={message}
-                        onChange={(e) => setMessage(e.target.value)}
+                        onChange={mentions.handleChange}
                         className="flex-1"
                         onKeyDown={(e) => {
+                            if (mentions.handleKeyDown(e)) return;
                             if (e.key === 'Enter') {
                                 e.preventDefault();
                                 handleSendMessage();
@@ -208,6 +208,12 @@ export default function CommunityDetailPage() {
         community?.orgId,
     );
 
+    const canPinPosts = checkCommunityPermission(
+        community?.id?.toString() ?? '',
+        PERMISSIONS.PIN_POST,
+        community?.orgId,
+    );
+
     const canManageCommunityMembers = checkCommunityPermission(
         community?.id?.toString() ?? '',
         PERMISSIONS.MANAGE_COMMUNITY_MEMBERS,
@@ -223,6 +229,16 @@ export default function CommunityDetailPage() {
         PERMISSIONS.REMOVE_COMMUNITY_ADMIN,
         community?.orgId,
     );
+    const canModerateContent = checkCommunityPermission(
+        community?.id?.toString() ?? '',
+        PERMISSIONS.MODERATE_CONTENT,
+        community?.orgId,
+    );
+    const canViewAuditLog = checkCommunityPermission(
+        community?.id?.toString() ?? '',
+        PERMISSIONS.VIEW_AUDIT_LOG,
+        community?.orgId,
+    );
     const canInviteCommunityMembers = checkCommunityPermission(
         community?.id?.toString() ?? '',
         PERMISSIONS.INVITE_COMMUNITY_MEMBERS,
@@ -851,6 +867,7 @@ export default function CommunityDetailPage() {
                             isMember={isMember}
                             canInteract={canInteract}
                             canCreatePost={canCreatePost}
+                            canPinPosts={canPinPosts}
                             filteredPosts={filteredPosts}
                             showMyPosts={showMyPosts}
                             selectedTagFilters={selectedTagFilters}
@@ -870,6 +887,10 @@ export default function CommunityDetailPage() {
 
                         {canManageCommunityMembers && (
                             <CommunityManage
+                                communityId={community!.id}
+                                communitySlug={community!.slug}
+                                canModerateContent={canModerateContent}
+                                canViewAuditLog={canViewAuditLog}
                                 pendingRequests={pendingRequests || []}
                                 onApproveRequest={handleApproveRequest}
                                 onRejectRequest={handleRejectRequest}
@@ -936,6 +957,10 @@ export default function CommunityDetailPage() {
                         availableOrgMembers={availableOrgMembers || []}
                         onAddMembers={handleAddMember}
                         isAddingMembers={isAddingMembers}
+                        onMembersChanged={() => {
+                            refetch();
+                            refetchAvailableMembers();
+                        }}
                     />
                 </DialogContent>
             </Dialog>
@@ -32,7 +32,11 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { isHtmlContentEmpty } from '@/lib/utils';
 import { PollDisplay } from '@/components/polls';
 import { PollCreator } from '@/components/polls';
-import type { CreatePollData } from '@/types/poll';
+import type {
+    CreatePollData,
+    PollResultVisibility,
+    PollType,
+} from '@/types/poll';
 
 export default function EditCommunityPostPage() {
     const params = useParams();
@@ -89,7 +93,10 @@ export default function EditCommunityPostPage() {
             if (post.poll) {
                 const pollData = {
                     question: post.poll.question,
-                    pollType: post.poll.pollType as 'single' | 'multiple',
+                    pollType: post.poll.pollType as PollType,
+                    isAnonymous: post.poll.isAnonymous,
+                    resultsVisibility: post.poll
+                        .resultsVisibility as PollResultVisibility,
                     options: post.poll.options.map((option) => option.text),
                     expiresAt: post.poll.expiresAt
                         ? new Date(post.poll.expiresAt)
@@ -120,6 +127,8 @@ export default function EditCommunityPostPage() {
                     isCreating: true,
                     question: pollData.question,
                     pollType: pollData.pollType,
+                    isAnonymous: pollData.isAnonymous,
+                    resultsVisibility: pollData.resultsVisibility,
                     options: pollData.options,
                     expiresAt: pollData.expiresAt,
                     hasExpiration: !!pollData.expiresAt,
@@ -364,9 +373,9 @@ export default function EditCommunityPostPage() {
                             <PollDisplay
                                 poll={{
                                     ...post.poll,
-                                    pollType: post.poll.pollType as
-                                        | 'single'
-                                        | 'multiple',
+                                    pollType: post.poll.pollType as PollType,
+                                    resultsVisibility: post.poll
+                                        .resultsVisibility as PollResultVisibility,
                                     expiresAt:
                                         post.poll.expiresAt?.toISOString() ||
                                         null,
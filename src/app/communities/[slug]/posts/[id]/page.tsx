@@ -13,6 +13,8 @@ import {
     Share2,
     Bookmark,
     BookmarkCheck,
+    Flag,
+    SmilePlus,
 } from 'lucide-react';
 import CommentItem from '@/components/CommentItem';
 import type { CommentWithReplies } from '@/components/CommentItem';
@@ -25,26 +27,22 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { isHtmlContentEmpty } from '@/lib/utils';
 import { MixedMediaCarousel } from '@/components/ui/mixed-media-carousel';
 import { SafeHtmlWithoutImages } from '@/components/ui/safe-html-without-images';
-import { LikeButton } from '@/components/ui/like-button';
+import {
+    ReactionPicker,
+    ReactionSummaryButton,
+    useCommentReactions,
+    usePostReactions,
+} from '@/components/posts/ReactionPicker';
+import { REACTIONS } from '@/lib/reactions';
 import { PollDisplay } from '@/components/polls';
+import type { PollResultVisibility, PollType } from '@/types/poll';
 import { toast } from 'sonner';
 import { QnADisplay } from '@/components/qna/QnADisplay';
+import { ReportContentDialog } from '@/components/report-content-dialog';
+import { PostRevisionHistoryDialog } from '@/components/posts/PostRevisionHistoryDialog';
+import FollowPostButton from '@/components/posts/FollowPostButton';
 import { qaQuestions } from '@/server/db/schema';
 
-// Utility function to format like count message
-function formatLikeMessage(likeCount: number, isLiked: boolean): string {
-    if (likeCount === 0) return '';
-
-    if (isLiked) {
-        if (likeCount === 1) {
-            return 'You liked this';
-        }
-        return `You & ${likeCount - 1} ${likeCount - 1 === 1 ? 'other' : 'others'} liked this`;
-    }
-
-    return `${likeCount} ${likeCount === 1 ? 'person' : 'people'} liked this`;
-}
-
 type User = {
     id: string;
     name: string | null;
@@ -58,9 +56,11 @@ type Post = {
     authorId: string;
     createdAt: Date;
     updatedAt: Date;
+    editedAt: Date | null;
     author: User;
     comments: CommentWithReplies[];
     isDeleted: boolean;
+    isHidden?: boolean;
     community?: {
         id: number;
         name: string;
@@ -88,6 +88,8 @@ type Post = {
         postId: number;
         question: string;
         pollType: string;
+        isAnonymous: boolean;
+        resultsVisibility: string;
         expiresAt: Date | null;
         isClosed: boolean;
         createdAt: Date;
@@ -111,6 +113,8 @@ export default function CommunityPostPage() {
     const [comment, setComment] = useState('');
     const router = useRouter();
     const [isClient, setIsClient] = useState(false);
+    const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+    const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
     const editorRef = useRef<{ reset: () => void } | null>(null);
     const [autoExpandedComments, setAutoExpandedComments] = useState<
         Set<number>
@@ -141,15 +145,9 @@ export default function CommunityPostPage() {
             enabled: !!session,
         },
     );
-    // Like count, reaction and saved status for this single post
-    const likeCountsQuery = trpc.community.getPostLikeCounts.useQuery(
-        { postIds: [postId] },
-        { enabled: !!session && !!postId },
-    );
-    const userReactionsQuery = trpc.community.getUserReactions.useQuery(
-        { postIds: [postId] },
-        { enabled: !!session && !!postId },
-    );
+    // Reactions and saved status for this single post
+    const postReactions = usePostReactions(postId);
+    const myReaction = postReactions.summary.mine[0];
     const userSavedMapQuery = trpc.community.getUserSavedMap.useQuery(
         { postIds: [postId] },
         { enabled: !!session && !!postId },
@@ -186,6 +184,8 @@ export default function CommunityPostPage() {
         return extractCommentIds(post.comments);
     }, [post?.comments]);
 
+    const commentReactions = useCommentReactions(commentIds);
+
     // Helpful vote queries for comments
     const commentHelpfulCountsQuery =
         trpc.community.getCommentHelpfulCounts.useQuery(
@@ -224,8 +224,6 @@ export default function CommunityPostPage() {
             onError: () => toast.error('Failed to toggle helpful vote'),
         });
 
-    const likeCount = likeCountsQuery.data?.[postId] ?? 0;
-    const isLiked = (userReactionsQuery.data?.[postId] ?? false) as boolean;
     const isSaved = (userSavedMapQuery.data?.[postId] ?? false) as boolean;
 
     const handleToggleSave = () => {
@@ -306,6 +304,8 @@ export default function CommunityPostPage() {
             setReplyContent(''); // Clear reply content on success
             setReplyingToCommentId(null); // Reset replying state
             utils.community.getPost.invalidate({ postId });
+            // Commenting follows the thread
+            utils.community.getPostFollowStatus.invalidate({ postId });
         },
     });
 
@@ -555,6 +555,21 @@ export default function CommunityPostPage() {
                         </h1>
                     </div>
                 </div>
+                {postData.editedAt && !postData.isDeleted && (
+                    <button
+                        type="button"
+                        className="text-muted-foreground mb-4 block text-sm hover:underline"
+                        onClick={() => setIsHistoryDialogOpen(true)}
+                    >
+                        Edited {new Date(postData.editedAt).toLocaleString()}
+                    </button>
+                )}
+                {postData.isHidden && (
+                    <p className="text-muted-foreground mb-4 text-sm italic">
+                        This post has been hidden by moderators and is only
+                        visible to you and the moderators.
+                    </p>
+                )}
                 <div className="prose prose-ul:list-disc prose-ol:list-decimal dark:prose-invert dark:prose-headings:text-white dark:prose-a:text-blue-400 max-w-none rounded-lg shadow-sm">
                     {postData.isDeleted ? (
                         <div className="space-y-2">
@@ -590,9 +605,9 @@ export default function CommunityPostPage() {
                         <PollDisplay
                             poll={{
                                 ...postData.poll,
-                                pollType: postData.poll.pollType as
-                                    | 'single'
-                                    | 'multiple',
+                                pollType: postData.poll.pollType as PollType,
+                                resultsVisibility: postData.poll
+                                    .resultsVisibility as PollResultVisibility,
                                 expiresAt:
                                     postData.poll.expiresAt?.toISOString() ||
                                     null,
@@ -612,9 +627,17 @@ export default function CommunityPostPage() {
                             userVotes={pollResultsQuery.data?.userVotes}
                             canVote={!!session && !!community}
                             hasUserVoted={
-                                !!pollResultsQuery.data?.userVotes?.length
+                                pollResultsQuery.data?.hasUserVoted || false
                             }
                             totalVotes={pollResultsQuery.data?.totalVotes || 0}
+                            resultsVisible={
+                                pollResultsQuery.data?.resultsVisible ?? true
+                            }
+                            rounds={pollResultsQuery.data?.rounds}
+                            winnerId={pollResultsQuery.data?.winnerId}
+                            canExport={
+                                pollResultsQuery.data?.canManage || false
+                            }
                             onVote={handlePollVote}
                             isVoting={votePollMutation.isPending}
                         />
@@ -641,11 +664,12 @@ export default function CommunityPostPage() {
                 />
             )}
 
-            {/* Like count and comments summary */}
+            {/* Reactions and comments summary */}
             <div className="mt-2 flex items-center justify-between">
-                <span className="text-muted-foreground text-xs">
-                    {formatLikeMessage(likeCount, isLiked)}
-                </span>
+                <ReactionSummaryButton
+                    target={{ kind: 'post', id: postId }}
+                    summary={postReactions.summary}
+                />
                 <span className="text-muted-foreground text-xs">
                     {Array.isArray(postData.comments)
                         ? postData.comments.length
@@ -654,17 +678,33 @@ export default function CommunityPostPage() {
                 </span>
             </div>
 
-            {/* Actions: Like, Save, Share */}
+            {/* Actions: React, Save, Share */}
             {!postData.isDeleted && (
                 <div className="mt-4 flex flex-wrap items-center gap-2">
-                    <LikeButton
-                        postId={postId}
-                        initialLikeCount={likeCount}
-                        initialIsLiked={isLiked}
-                        size="sm"
-                        variant="ghost"
-                        showCount={false}
-                    />
+                    <ReactionPicker
+                        mine={postReactions.summary.mine}
+                        onToggle={postReactions.toggle}
+                        disabled={!session || postReactions.isPending}
+                    >
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className={
+                                myReaction
+                                    ? 'text-blue-500 hover:text-blue-600'
+                                    : ''
+                            }
+                        >
+                            {myReaction ? (
+                                <span className="mr-2 text-base">
+                                    {REACTIONS[myReaction].emoji}
+                                </span>
+                            ) : (
+                                <SmilePlus className="mr-2 h-4 w-4" />
+                            )}
+                            {myReaction ? REACTIONS[myReaction].label : 'React'}
+                        </Button>
+                    </ReactionPicker>
                     <Button
                         variant="ghost"
                         size="sm"
@@ -684,9 +724,21 @@ export default function CommunityPostPage() {
                             </span>
                         )}
                     </Button>
+                    {session && <FollowPostButton postId={postId} />}
                     <Button variant="ghost" size="sm" onClick={handleShare}>
                         <Share2 className="mr-2 h-4 w-4" /> Share
                     </Button>
+                    {session &&
+                        !postData.isHidden &&
+                        session.user.id !== postData.authorId && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setIsReportDialogOpen(true)}
+                            >
+                                <Flag className="mr-2 h-4 w-4" /> Report
+                            </Button>
+                        )}
                 </div>
             )}
 
@@ -764,10 +816,25 @@ export default function CommunityPostPage() {
                             helpfulMutationPending={
                                 toggleHelpfulMutation.isPending
                             }
+                            reactionSummaries={commentReactions.summaries}
+                            onToggleReaction={commentReactions.toggle}
+                            reactionMutationPending={commentReactions.isPending}
                         />
                     ))}
                 </div>
             </div>
+
+            <ReportContentDialog
+                open={isReportDialogOpen}
+                onOpenChange={setIsReportDialogOpen}
+                targetType="post"
+                targetId={postId}
+            />
+            <PostRevisionHistoryDialog
+                postId={postId}
+                open={isHistoryDialogOpen}
+                onOpenChange={setIsHistoryDialogOpen}
+            />
         </div>
     );
 }
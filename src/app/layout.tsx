@@ -12,6 +12,7 @@ import { ProfileCompletionGuard } from '@/components/profile-completion-guard';
 import { PWAInstaller } from '@/components/pwa-installer';
 import Script from 'next/script';
 import { SentryUserProvider } from '@/providers/sentry-user-provider';
+import { ChatStreamProvider } from '@/providers/chat-stream-provider';
 
 const geistSans = Geist({
     variable: '--font-geist-sans',
@@ -88,20 +89,22 @@ export default function RootLayout({
                 >
                     <TRPCProvider>
                         <SentryUserProvider>
-                            <div className="flex h-screen">
-                                <div className="hidden md:block">
-                                    <LeftSidebar />
+                            <ChatStreamProvider>
+                                <div className="flex h-screen">
+                                    <div className="hidden md:block">
+                                        <LeftSidebar />
+                                    </div>
+                                    <div className="flex-1 overflow-auto">
+                                        <ProfileCompletionGuard>
+                                            <Topbar />
+                                            <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
+                                                <main>{children}</main>
+                                                <Toaster />
+                                            </div>
+                                        </ProfileCompletionGuard>
+                                    </div>
                                 </div>
-                                <div className="flex-1 overflow-auto">
-                                    <ProfileCompletionGuard>
-                                        <Topbar />
-                                        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
-                                            <main>{children}</main>
-                                            <Toaster />
-                                        </div>
-                                    </ProfileCompletionGuard>
-                                </div>
-                            </div>
+                            </ChatStreamProvider>
                         </SentryUserProvider>
                     </TRPCProvider>
                 </ThemeProvider>
@@ -0,0 +1,175 @@
+'use client';
+
+import Link from 'next/link';
+import { AtSign, FileText, Loader2, MessageSquare } from 'lucide-react';
+import { trpc } from '@/providers/trpc-provider';
+import { useSession } from '@/server/auth/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Loading } from '@/components/ui/loading';
+import { formatRelativeTime, getInitials } from '@/lib/utils';
+import { getHtmlPreview } from '@/lib/sanitize';
+
+const PAGE_SIZE = 20;
+
+function MentionsList() {
+    const mentionsQuery = trpc.mentions.getMyMentions.useInfiniteQuery(
+        { limit: PAGE_SIZE },
+        { getNextPageParam: (lastPage) => lastPage.nextCursor },
+    );
+
+    if (mentionsQuery.isLoading) {
+        return <Loading message="Loading mentions..." />;
+    }
+
+    const items = mentionsQuery.data?.pages.flatMap((page) => page.items) ?? [];
+
+    if (items.length === 0) {
+        return (
+            <div className="py-12 text-center">
+                <AtSign className="text-muted-foreground mx-auto mb-3 h-8 w-8" />
+                <p className="text-muted-foreground">
+                    Nobody has mentioned you yet.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {items.map((mention) => {
+                const isComment = mention.sourceType === 'comment';
+                const isRemoved = isComment
+                    ? !mention.comment ||
+                      mention.comment.isDeleted ||
+                      mention.comment.isHidden
+                    : !mention.post ||
+                      mention.post.isDeleted ||
+                      mention.post.isHidden;
+                const href = mention.post
+                    ? mention.community
+                        ? `/communities/${mention.community.slug}/posts/${mention.post.id}`
+                        : `/posts/${mention.post.id}`
+                    : null;
+
+                const card = (
+                    <Card className="hover:bg-muted/50 gap-2 p-4 transition-colors">
+                        <div className="text-muted-foreground flex items-center gap-2 text-xs">
+                            {isComment ? (
+                                <MessageSquare className="h-3.5 w-3.5" />
+                            ) : (
+                                <FileText className="h-3.5 w-3.5" />
+                            )}
+                            <span className="truncate">
+                                {isComment ? 'Comment on ' : 'Post '}
+                                <span className="text-foreground font-medium">
+                                    {mention.post?.title}
+                                </span>
+                            </span>
+                            {mention.community && (
+                                <>
+                                    <span>•</span>
+                                    <span className="truncate">
+                                        {mention.community.name}
+                                    </span>
+                                </>
+                            )}
+                        </div>
+
+                        {isRemoved ? (
+                            <p className="text-muted-foreground text-sm italic">
+                                This content is no longer available.
+                            </p>
+                        ) : (
+                            isComment &&
+                            mention.comment && (
+                                <p className="text-muted-foreground line-clamp-3 text-sm">
+                                    {getHtmlPreview(
+                                        mention.comment.content,
+                                        240,
+                                    )}
+                                </p>
+                            )
+                        )}
+
+                        <div className="flex items-center gap-2 text-xs">
+                            <span className="flex items-center gap-1.5">
+                                <Avatar className="h-5 w-5">
+                                    <AvatarImage
+                                        src={mention.author?.image || undefined}
+                                    />
+                                    <AvatarFallback className="text-[10px]">
+                                        {getInitials(
+                                            mention.author?.name ?? undefined,
+                                        )}
+                                    </AvatarFallback>
+                                </Avatar>
+                                {mention.author?.name || 'Unknown'}
+                            </span>
+                            <span className="text-muted-foreground">
+                                {formatRelativeTime(mention.createdAt)}
+                            </span>
+                        </div>
+                    </Card>
+                );
+
+                return href && !isRemoved ? (
+                    <Link key={mention.id} href={href} className="block">
+                        {card}
+                    </Link>
+                ) : (
+                    <div key={mention.id}>{card}</div>
+                );
+            })}
+
+            {mentionsQuery.hasNextPage && (
+                <div className="flex justify-center pt-2">
+                    <Button
+                        variant="outline"
+                        onClick={() => mentionsQuery.fetchNextPage()}
+                        disabled={mentionsQuery.isFetchingNextPage}
+                    >
+                        {mentionsQuery.isFetchingNextPage && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Load more
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function MentionsPage() {
+    const { data: session, isPending } = useSession();
+
+    if (isPending) {
+        return <Loading message="Loading mentions..." />;
+    }
+
+    if (!session) {
+        return (
+            <div className="flex h-screen items-center justify-center">
+                <div className="mx-auto max-w-md p-4 text-center">
+                    <h1 className="mb-4 text-3xl font-bold dark:text-white">
+                        Access Denied
+                    </h1>
+                    <p className="mb-4 text-gray-600 dark:text-gray-400">
+                        Please sign in to see your mentions.
+                    </p>
+                    <Button asChild>
+                        <a href="/auth/login">Sign In</a>
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mx-auto max-w-3xl px-4 py-8">
+            <h1 className="mb-6 text-2xl font-bold">Mentions</h1>
+            <MentionsList />
+        </div>
+    );
+}
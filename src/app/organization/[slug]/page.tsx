@@ -31,6 +31,7 @@ import {
     ChevronsRight,
     Plus,
     UserMinus,
+    Settings,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import Link from 'next/link';
@@ -46,6 +47,8 @@ import { UserBadgesInTable } from '@/components/ui/user-badges-in-table';
 import { usePermission } from '@/hooks/use-permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
 import { BadgeManagement } from '@/components/badge-management';
+import { OrgMessagingSettings } from '@/components/org-messaging-settings';
+import { OrgStorageSettings } from '@/components/org-storage-settings';
 import { Loading } from '@/components/ui/loading';
 import { Label } from '@/components/ui/label';
 import {
@@ -334,6 +337,7 @@ export default function OrganizationCommunitiesPage() {
     const canInviteMembers = checkOrgPermission(PERMISSIONS.INVITE_ORG_MEMBERS);
     const canManageBadges = checkOrgPermission('view_badge');
     const canCreateUsers = checkOrgPermission(PERMISSIONS.CREATE_ORG_USERS);
+    const canUpdateOrg = checkOrgPermission(PERMISSIONS.UPDATE_ORG);
 
     if (isLoading) return <Loading />;
     if (!orgData) return <div>Organization not found</div>;
@@ -378,6 +382,17 @@ export default function OrganizationCommunitiesPage() {
                                 <span className="hidden sm:inline">Badges</span>
                             </TabsTrigger>
                         )}
+                        {canUpdateOrg && (
+                            <TabsTrigger
+                                value="settings"
+                                className="data-[state=active]:border-primary flex items-center gap-2 rounded-none border-b-2 border-transparent px-4 py-3 data-[state=active]:bg-transparent data-[state=active]:shadow-none"
+                            >
+                                <Settings className="h-4 w-4" />
+                                <span className="hidden sm:inline">
+                                    Settings
+                                </span>
+                            </TabsTrigger>
+                        )}
                     </TabsList>
                 </div>
 
@@ -1608,6 +1623,20 @@ export default function OrganizationCommunitiesPage() {
                             <BadgeManagement orgId={orgData.id} />
                         </TabsContent>
                     )}
+
+                    {canUpdateOrg && (
+                        <TabsContent
+                            value="settings"
+                            className="mt-0 space-y-6"
+                        >
+                            <OrgMessagingSettings
+                                orgId={orgData.id}
+                                slug={orgData.slug}
+                                allowCrossOrgDM={orgData.allowCrossOrgDM}
+                            />
+                            <OrgStorageSettings orgId={orgData.id} />
+                        </TabsContent>
+                    )}
                 </div>
             </Tabs>
 
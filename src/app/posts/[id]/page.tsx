@@ -1,7 +1,7 @@
 'use client';
 
 import { useParams, useRouter } from 'next/navigation';
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { trpc } from '@/providers/trpc-provider';
 import { useSession } from '@/server/auth/client';
 import { Button } from '@/components/ui/button';
@@ -15,6 +15,9 @@ import { isHtmlContentEmpty } from '@/lib/utils';
 import { MixedMediaCarousel } from '@/components/ui/mixed-media-carousel';
 import { SafeHtmlWithoutImages } from '@/components/ui/safe-html-without-images';
 import { QnADisplay } from '@/components/qna/QnADisplay';
+import { ReportContentDialog } from '@/components/report-content-dialog';
+import { PostRevisionHistoryDialog } from '@/components/posts/PostRevisionHistoryDialog';
+import { useCommentReactions } from '@/components/posts/ReactionPicker';
 
 type User = {
     id: string;
@@ -29,9 +32,11 @@ type Post = {
     authorId: string;
     createdAt: Date;
     updatedAt: Date;
+    editedAt: Date | null;
     author: User;
     comments: CommentWithReplies[];
     isDeleted: boolean;
+    isHidden?: boolean;
     attachments?: Array<{
         id: number;
         filename: string;
@@ -57,6 +62,8 @@ export default function PostPage() {
     const [comment, setComment] = useState('');
     const router = useRouter();
     const [isClient, setIsClient] = useState(false);
+    const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+    const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
     const editorRef = useRef<{ reset: () => void } | null>(null);
     const [autoExpandedComments, setAutoExpandedComments] = useState<
         Set<number>
@@ -88,6 +95,17 @@ export default function PostPage() {
         },
     );
 
+    // Every comment and reply id, for the batched reaction query
+    const commentIds = useMemo(() => {
+        const collect = (comments: CommentWithReplies[]): number[] =>
+            comments.flatMap((comment) => [
+                comment.id,
+                ...collect(comment.replies ?? []),
+            ]);
+        return collect((post?.comments ?? []) as CommentWithReplies[]);
+    }, [post?.comments]);
+    const commentReactions = useCommentReactions(commentIds);
+
     // Use useEffect to mark when component is hydrated on client
     React.useEffect(() => {
         setIsClient(true);
@@ -296,8 +314,38 @@ export default function PostPage() {
                                     </Button>
                                 }
                             />
+                            {session &&
+                                !postData.isDeleted &&
+                                !postData.isHidden &&
+                                session.user.id !== postData.authorId && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() =>
+                                            setIsReportDialogOpen(true)
+                                        }
+                                    >
+                                        Report
+                                    </Button>
+                                )}
                         </div>
                     </div>
+                    {postData.editedAt && !postData.isDeleted && (
+                        <button
+                            type="button"
+                            className="text-muted-foreground mb-4 block text-sm hover:underline"
+                            onClick={() => setIsHistoryDialogOpen(true)}
+                        >
+                            Edited{' '}
+                            {new Date(postData.editedAt).toLocaleString()}
+                        </button>
+                    )}
+                    {postData.isHidden && (
+                        <p className="text-muted-foreground mb-4 text-sm italic">
+                            This post has been hidden by moderators and is only
+                            visible to you and the moderators.
+                        </p>
+                    )}
                     <div className="prose prose-ul:list-disc prose-ol:list-decimal dark:prose-invert dark:prose-headings:text-white dark:prose-a:text-blue-400 max-w-none">
                         {postData.isDeleted ? (
                             <div className="space-y-2">
@@ -425,12 +473,31 @@ export default function PostPage() {
                                     onExpansionChange={
                                         handleCommentExpansionChange
                                     }
+                                    reactionSummaries={
+                                        commentReactions.summaries
+                                    }
+                                    onToggleReaction={commentReactions.toggle}
+                                    reactionMutationPending={
+                                        commentReactions.isPending
+                                    }
                                 />
                             ),
                         )}
                     </div>
                 </div>
             </div>
+
+            <ReportContentDialog
+                open={isReportDialogOpen}
+                onOpenChange={setIsReportDialogOpen}
+                targetType="post"
+                targetId={postId}
+            />
+            <PostRevisionHistoryDialog
+                postId={postId}
+                open={isHistoryDialogOpen}
+                onOpenChange={setIsHistoryDialogOpen}
+            />
         </div>
     );
 }
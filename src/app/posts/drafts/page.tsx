@@ -0,0 +1,252 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import {
+    AlertCircle,
+    CalendarClock,
+    FileText,
+    MoreHorizontal,
+    Paperclip,
+    Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { useSession } from '@/server/auth/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Loading } from '@/components/ui/loading';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { formatRelativeTime } from '@/lib/utils';
+import { getHtmlPreview } from '@/lib/sanitize';
+
+function DraftsList() {
+    const utils = trpc.useUtils();
+    const [draftToDelete, setDraftToDelete] = useState<number | null>(null);
+    const { data: drafts, isLoading } = trpc.community.getDrafts.useQuery();
+
+    const unscheduleDraft = trpc.community.unscheduleDraft.useMutation({
+        onSuccess: () => {
+            utils.community.getDrafts.invalidate();
+            toast.success('Post unscheduled');
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const deleteDraft = trpc.community.deleteDraft.useMutation({
+        onSuccess: () => {
+            utils.community.getDrafts.invalidate();
+            toast.success('Draft deleted');
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    if (isLoading) {
+        return <Loading message="Loading drafts..." />;
+    }
+
+    if (!drafts || drafts.length === 0) {
+        return (
+            <div className="py-12 text-center">
+                <FileText className="text-muted-foreground mx-auto mb-3 h-8 w-8" />
+                <p className="text-muted-foreground">
+                    You don&apos;t have any drafts. Posts you start writing are
+                    saved here automatically.
+                </p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {drafts.map((draft) => {
+                const href = draft.community
+                    ? `/posts/new?communityId=${draft.community.id}&communitySlug=${draft.community.slug}&draftId=${draft.id}`
+                    : null;
+                const preview = getHtmlPreview(draft.content, 200);
+
+                return (
+                    <Card key={draft.id} className="gap-2 p-4">
+                        <div className="flex items-start justify-between gap-2">
+                            <div className="min-w-0 space-y-1">
+                                {href ? (
+                                    <Link
+                                        href={href}
+                                        className="block truncate font-medium hover:underline"
+                                    >
+                                        {draft.title.trim() ||
+                                            draft.poll?.question ||
+                                            'Untitled draft'}
+                                    </Link>
+                                ) : (
+                                    <span className="block truncate font-medium">
+                                        {draft.title.trim() || 'Untitled draft'}
+                                    </span>
+                                )}
+                                <div className="text-muted-foreground flex flex-wrap items-center gap-2 text-xs">
+                                    {draft.community && (
+                                        <>
+                                            <span>{draft.community.name}</span>
+                                            <span>•</span>
+                                        </>
+                                    )}
+                                    <span>
+                                        Edited{' '}
+                                        {formatRelativeTime(draft.updatedAt)}
+                                    </span>
+                                    {draft.attachmentCount > 0 && (
+                                        <span className="flex items-center gap-1">
+                                            <Paperclip className="h-3 w-3" />
+                                            {draft.attachmentCount}
+                                        </span>
+                                    )}
+                                    {draft.poll && (
+                                        <Badge variant="outline">Poll</Badge>
+                                    )}
+                                    {draft.qa && (
+                                        <Badge variant="outline">Q&A</Badge>
+                                    )}
+                                </div>
+                            </div>
+
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-8 w-8 p-0"
+                                        aria-label="Draft actions"
+                                    >
+                                        <MoreHorizontal className="h-4 w-4" />
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                    {draft.publishAt && (
+                                        <DropdownMenuItem
+                                            onClick={() =>
+                                                unscheduleDraft.mutate({
+                                                    draftId: draft.id,
+                                                })
+                                            }
+                                        >
+                                            <CalendarClock className="mr-2 h-4 w-4" />
+                                            Unschedule
+                                        </DropdownMenuItem>
+                                    )}
+                                    <DropdownMenuItem
+                                        onClick={() =>
+                                            setDraftToDelete(draft.id)
+                                        }
+                                        className="text-red-600"
+                                    >
+                                        <Trash2 className="mr-2 h-4 w-4" />
+                                        Delete
+                                    </DropdownMenuItem>
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                        </div>
+
+                        {preview && (
+                            <p className="text-muted-foreground line-clamp-2 text-sm">
+                                {preview}
+                            </p>
+                        )}
+
+                        {draft.publishAt && (
+                            <div className="flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400">
+                                <CalendarClock className="h-4 w-4" />
+                                Scheduled for {draft.publishAt.toLocaleString()}
+                            </div>
+                        )}
+
+                        {draft.publishError && !draft.publishAt && (
+                            <div className="flex items-center gap-2 text-sm text-red-600">
+                                <AlertCircle className="h-4 w-4" />
+                                Scheduled publish failed: {draft.publishError}
+                            </div>
+                        )}
+                    </Card>
+                );
+            })}
+
+            <AlertDialog
+                open={draftToDelete !== null}
+                onOpenChange={(open) => !open && setDraftToDelete(null)}
+            >
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete draft</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            The draft and any files uploaded to it will be
+                            deleted. This can&apos;t be undone.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() => {
+                                if (draftToDelete !== null) {
+                                    deleteDraft.mutate({
+                                        draftId: draftToDelete,
+                                    });
+                                }
+                            }}
+                            className="bg-red-600 hover:bg-red-700"
+                        >
+                            Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
+
+export default function DraftsPage() {
+    const { data: session, isPending } = useSession();
+
+    if (isPending) {
+        return <Loading message="Loading drafts..." />;
+    }
+
+    if (!session) {
+        return (
+            <div className="flex h-screen items-center justify-center">
+                <div className="mx-auto max-w-md p-4 text-center">
+                    <h1 className="mb-4 text-3xl font-bold dark:text-white">
+                        Access Denied
+                    </h1>
+                    <p className="mb-4 text-gray-600 dark:text-gray-400">
+                        Please sign in to see your drafts.
+                    </p>
+                    <Button asChild>
+                        <a href="/auth/login">Sign In</a>
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mx-auto max-w-3xl px-4 py-8">
+            <h1 className="mb-6 text-2xl font-bold">Drafts</h1>
+            <DraftsList />
+        </div>
+    );
+}
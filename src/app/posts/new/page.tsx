@@ -1,7 +1,7 @@
 'use client';
 
 import { useRouter, useSearchParams } from 'next/navigation';
-import React, { useState, useEffect, Suspense } from 'react';
+import React, { useState, useEffect, useRef, Suspense } from 'react';
 import { trpc } from '@/providers/trpc-provider';
 import { useSession } from '@/server/auth/client';
 import Link from 'next/link';
@@ -9,6 +9,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
     Command,
     CommandEmpty,
@@ -24,17 +25,29 @@ import {
 } from '@/components/ui/popover';
 import TipTapEditor from '@/components/TipTapEditor';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { AlertCircle, Check, ChevronsUpDown, X } from 'lucide-react';
+import {
+    AlertCircle,
+    CalendarClock,
+    Check,
+    ChevronsUpDown,
+    X,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Loading } from '@/components/ui/loading';
 import { isOrgAdminForCommunity } from '@/lib/utils';
 import { usePermission } from '@/hooks/use-permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
-import { isHtmlContentEmpty } from '@/lib/utils';
+import { isHtmlContentEmpty, toDateTimeLocalValue } from '@/lib/utils';
 import { Loader2 } from 'lucide-react';
 import { PollCreator } from '@/components/polls';
-import type { CreatePollData, PollCreationState } from '@/types/poll';
+import type {
+    CreatePollData,
+    PollCreationState,
+    PollResultVisibility,
+    PollType,
+} from '@/types/poll';
 import { QnACreator, type QnAConfig } from '@/components/qna/QnACreator';
+import { toast } from 'sonner';
 
 interface Tag {
     id: number;
@@ -43,6 +56,33 @@ interface Tag {
     communityId: number;
 }
 
+// Wait for a pause in typing before autosaving the draft
+const AUTOSAVE_DELAY_MS = 1500;
+
+type DraftPoll = {
+    question: string;
+    pollType: PollType;
+    isAnonymous?: boolean;
+    resultsVisibility?: PollResultVisibility;
+    options: string[];
+    expiresAt: string | null;
+};
+
+function toPollCreationState(poll: DraftPoll): PollCreationState {
+    return {
+        isCreating: true,
+        question: poll.question,
+        pollType: poll.pollType,
+        isAnonymous: poll.isAnonymous ?? false,
+        resultsVisibility: poll.resultsVisibility ?? 'always',
+        options: poll.options,
+        expiresAt: poll.expiresAt ? new Date(poll.expiresAt) : null,
+        hasExpiration: !!poll.expiresAt,
+        expirationValue: 24,
+        expirationUnit: 'hours',
+    };
+}
+
 function NewPostForm() {
     const router = useRouter();
     const searchParams = useSearchParams();
@@ -50,6 +90,9 @@ function NewPostForm() {
         ? parseInt(searchParams.get('communityId')!)
         : null;
     const communitySlug = searchParams.get('communitySlug');
+    const initialDraftId = searchParams.get('draftId')
+        ? parseInt(searchParams.get('draftId')!)
+        : null;
     const { data: session } = useSession();
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
@@ -58,6 +101,18 @@ function NewPostForm() {
     const [open, setOpen] = useState(false);
     const [pollData, setPollData] = useState<CreatePollData | null>(null);
     const [qaData, setQaData] = useState<QnAConfig | null>(null);
+    const [isAnnouncement, setIsAnnouncement] = useState(false);
+
+    // Draft state: the editor autosaves to a server-side draft
+    const [draftId, setDraftId] = useState<number | null>(initialDraftId);
+    const [isDraftLoaded, setIsDraftLoaded] = useState(!initialDraftId);
+    const [initialPoll, setInitialPoll] = useState<PollCreationState>();
+    const [initialQa, setInitialQa] = useState<QnAConfig | null>(null);
+    const [hasDraftMedia, setHasDraftMedia] = useState(false);
+    const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+    const [scheduledFor, setScheduledFor] = useState<Date | null>(null);
+    const [scheduleAt, setScheduleAt] = useState('');
+    const lastSavedSnapshot = useRef<string | null>(null);
 
     // Fetch community to check membership status if communityId is provided
     const { data: community, isLoading: isLoadingCommunity } =
@@ -125,9 +180,114 @@ function NewPostForm() {
         isAppAdmin,
     ]);
 
+    // Community admins can post announcements, which notify every member
+    const canPostAnnouncement =
+        !!community?.id &&
+        checkCommunityPermission(
+            community.id.toString(),
+            PERMISSIONS.PIN_POST,
+            community.orgId,
+        );
+
     // Get available tags for the community
     const availableTags = community?.tags || [];
 
+    const { data: draft, isLoading: isLoadingDraft } =
+        trpc.community.getDraft.useQuery(
+            { draftId: initialDraftId! },
+            {
+                enabled: !!initialDraftId && !isDraftLoaded,
+                refetchOnWindowFocus: false,
+            },
+        );
+
+    // Restore the draft into the form once, after tags are available
+    useEffect(() => {
+        if (isDraftLoaded || !draft || !community) return;
+
+        setTitle(draft.title);
+        setContent(draft.content);
+        setSelectedTags(
+            (community.tags || []).filter((tag: Tag) =>
+                draft.tagIds.includes(tag.id),
+            ),
+        );
+        if (draft.poll) {
+            setInitialPoll(toPollCreationState(draft.poll));
+            setPollData({
+                question: draft.poll.question,
+                pollType: draft.poll.pollType,
+                isAnonymous: draft.poll.isAnonymous ?? false,
+                resultsVisibility: draft.poll.resultsVisibility ?? 'always',
+                options: draft.poll.options,
+                expiresAt: draft.poll.expiresAt
+                    ? new Date(draft.poll.expiresAt)
+                    : undefined,
+            });
+        }
+        if (draft.qa) {
+            const qa = {
+                answersVisibleAt: draft.qa.answersVisibleAt
+                    ? new Date(draft.qa.answersVisibleAt)
+                    : null,
+                allowEditsUntil: draft.qa.allowEditsUntil
+                    ? new Date(draft.qa.allowEditsUntil)
+                    : null,
+            };
+            setInitialQa(qa);
+            setQaData(qa);
+        }
+        setIsAnnouncement(draft.isAnnouncement);
+        setHasDraftMedia(draft.attachmentCount > 0);
+        setLastSavedAt(draft.updatedAt);
+        setScheduledFor(draft.publishAt);
+        if (draft.publishAt) {
+            setScheduleAt(toDateTimeLocalValue(draft.publishAt));
+        }
+        setIsDraftLoaded(true);
+    }, [draft, community, isDraftLoaded]);
+
+    const saveDraft = trpc.community.saveDraft.useMutation();
+    const scheduleDraft = trpc.community.scheduleDraft.useMutation();
+
+    const draftSnapshot = JSON.stringify({
+        title,
+        content,
+        tagIds: selectedTags.map((tag) => tag.id),
+        poll: pollData,
+        qa: qaData,
+        isAnnouncement,
+    });
+
+    const persistDraft = async () => {
+        const snapshot = draftSnapshot;
+        const saved = await saveDraft.mutateAsync({
+            draftId: draftId ?? undefined,
+            communityId: communityId!,
+            title: title.slice(0, 200),
+            content,
+            tagIds: selectedTags.map((tag) => tag.id),
+            poll: pollData,
+            qa: qaData
+                ? {
+                      answersVisibleAt: qaData.answersVisibleAt ?? undefined,
+                      allowEditsUntil: qaData.allowEditsUntil ?? undefined,
+                  }
+                : null,
+            isAnnouncement,
+        });
+        lastSavedSnapshot.current = snapshot;
+        setLastSavedAt(saved.updatedAt);
+        if (!draftId) {
+            setDraftId(saved.id);
+            // Keep the draft across reloads
+            const params = new URLSearchParams(searchParams.toString());
+            params.set('draftId', saved.id.toString());
+            router.replace(`/posts/new?${params.toString()}`);
+        }
+        return saved.id;
+    };
+
     const createPost = trpc.community.createPost.useMutation({
         onSuccess: (post) => {
             // If post was created from a community, redirect to the community-specific post view
@@ -139,6 +299,40 @@ function NewPostForm() {
         },
     });
 
+    // Autosave after a pause in editing, once there is something to keep
+    const hasDraftContent =
+        !!title.trim() || !isHtmlContentEmpty(content) || !!pollData;
+    useEffect(() => {
+        if (!isDraftLoaded || !communityId || !canCreatePost) return;
+        if (saveDraft.isPending || createPost.isPending || createPost.isSuccess)
+            return;
+        if (lastSavedSnapshot.current === null && draftId) {
+            // A restored draft starts out saved
+            lastSavedSnapshot.current = draftSnapshot;
+            return;
+        }
+        if (draftSnapshot === lastSavedSnapshot.current) return;
+        if (!draftId && !hasDraftContent) return;
+
+        const timer = setTimeout(() => {
+            persistDraft().catch(() => {
+                // Shown in the status line; the next edit retries
+            });
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [
+        draftSnapshot,
+        isDraftLoaded,
+        communityId,
+        canCreatePost,
+        draftId,
+        hasDraftContent,
+        saveDraft.isPending,
+        createPost.isPending,
+        createPost.isSuccess,
+    ]);
+
     // If community ID is provided but user cannot create posts, redirect back to community page
     useEffect(() => {
         if (
@@ -198,6 +392,25 @@ function NewPostForm() {
         return <Loading message="Loading community information..." />;
     }
 
+    if (initialDraftId && !isDraftLoaded) {
+        if (isLoadingDraft) {
+            return <Loading message="Loading draft..." />;
+        }
+        if (!draft) {
+            return (
+                <div className="mx-auto max-w-4xl p-4">
+                    <h1 className="mb-4 text-3xl font-bold">Draft Not Found</h1>
+                    <p className="mb-4 text-gray-600">
+                        This draft may have been published or deleted.
+                    </p>
+                    <Button asChild>
+                        <Link href="/posts/drafts">Back to Drafts</Link>
+                    </Button>
+                </div>
+            );
+        }
+    }
+
     // Show access denied if user is not a member of the community or cannot create posts
     if (communityId && !canCreatePost) {
         let alertTitle = 'Membership Required';
@@ -263,7 +476,10 @@ function NewPostForm() {
         const hasPoll =
             pollData && pollData.question.trim() && pollData.options.length > 0;
         const hasTitleOrContent =
-            title.trim() || !isHtmlContentEmpty(content) || hasMedia;
+            title.trim() ||
+            !isHtmlContentEmpty(content) ||
+            hasMedia ||
+            hasDraftMedia;
 
         if (!hasPoll && !hasTitleOrContent) {
             return;
@@ -281,12 +497,60 @@ function NewPostForm() {
                       allowEditsUntil: qaData.allowEditsUntil ?? undefined,
                   }
                 : undefined,
+            isAnnouncement: isAnnouncement || undefined,
+            draftId: draftId ?? undefined, // Publishing removes the draft
         });
     };
 
+    const handleSchedule = async () => {
+        const publishAt = new Date(scheduleAt);
+        try {
+            const id =
+                draftId && draftSnapshot === lastSavedSnapshot.current
+                    ? draftId
+                    : await persistDraft();
+            await scheduleDraft.mutateAsync({ draftId: id, publishAt });
+            toast.success(`Post scheduled for ${publishAt.toLocaleString()}`);
+            router.push('/posts/drafts');
+        } catch (error) {
+            toast.error(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to schedule post',
+            );
+        }
+    };
+
+    const canPublish =
+        !!pollData ||
+        !!title.trim() ||
+        !isHtmlContentEmpty(content) ||
+        hasMedia ||
+        hasDraftMedia;
+
+    let draftStatus: string | null = null;
+    if (saveDraft.isPending) {
+        draftStatus = 'Saving draft...';
+    } else if (saveDraft.isError) {
+        draftStatus = "Couldn't save draft";
+    } else if (lastSavedAt) {
+        draftStatus = `Draft saved at ${lastSavedAt.toLocaleTimeString([], {
+            hour: 'numeric',
+            minute: '2-digit',
+        })}`;
+    }
+
     return (
         <div className="mx-auto max-w-4xl py-4">
-            <h1 className="text-3xl font-bold">Create New Post</h1>
+            <div className="flex items-center justify-between gap-4">
+                <h1 className="text-3xl font-bold">Create New Post</h1>
+                <div className="text-muted-foreground flex items-center gap-3 text-sm">
+                    {draftStatus && <span>{draftStatus}</span>}
+                    <Link href="/posts/drafts" className="underline">
+                        My drafts
+                    </Link>
+                </div>
+            </div>
             {communityId && communitySlug && (
                 <div className="text-muted-foreground mb-4 text-sm">
                     Creating post in community:{' '}
@@ -421,19 +685,74 @@ function NewPostForm() {
                     </div>
                 )}
 
+                {canPostAnnouncement && (
+                    <div className="flex items-start gap-2 rounded-md border p-4">
+                        <Checkbox
+                            id="is-announcement"
+                            checked={isAnnouncement}
+                            onCheckedChange={(checked) =>
+                                setIsAnnouncement(checked === true)
+                            }
+                        />
+                        <div className="space-y-1">
+                            <Label htmlFor="is-announcement">
+                                Post as announcement
+                            </Label>
+                            <p className="text-muted-foreground text-sm">
+                                Every member is notified, even if they turned
+                                off notifications for this community, and the
+                                post is shown in a banner.
+                            </p>
+                        </div>
+                    </div>
+                )}
+
                 {/* Poll Creation */}
-                <QnACreator onChange={setQaData} />
-                <PollCreator onPollChange={setPollData} />
+                <QnACreator onChange={setQaData} initialConfig={initialQa} />
+                <PollCreator
+                    onPollChange={setPollData}
+                    initialPoll={initialPoll}
+                />
+
+                {/* Scheduling */}
+                <div className="space-y-2 rounded-md border p-4">
+                    <Label htmlFor="schedule-at">Schedule for later</Label>
+                    {scheduledFor && (
+                        <p className="text-muted-foreground text-sm">
+                            This draft is scheduled to publish on{' '}
+                            {scheduledFor.toLocaleString()}.
+                        </p>
+                    )}
+                    <div className="flex gap-2">
+                        <Input
+                            id="schedule-at"
+                            type="datetime-local"
+                            value={scheduleAt}
+                            min={toDateTimeLocalValue(new Date())}
+                            onChange={(e) => setScheduleAt(e.target.value)}
+                        />
+                        <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleSchedule}
+                            disabled={
+                                !scheduleAt ||
+                                !canPublish ||
+                                (!title.trim() && !pollData) ||
+                                saveDraft.isPending ||
+                                scheduleDraft.isPending ||
+                                createPost.isPending
+                            }
+                        >
+                            <CalendarClock className="mr-2 h-4 w-4" />
+                            {scheduledFor ? 'Reschedule' : 'Schedule'}
+                        </Button>
+                    </div>
+                </div>
 
                 <Button
                     type="submit"
-                    disabled={
-                        createPost.isPending ||
-                        (!pollData &&
-                            !title.trim() &&
-                            isHtmlContentEmpty(content) &&
-                            !hasMedia)
-                    }
+                    disabled={createPost.isPending || !canPublish}
                     className="w-full"
                 >
                     {createPost.isPending ? (
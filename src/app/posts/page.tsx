@@ -20,7 +20,15 @@ import { PostsFilter } from '@/components/post-filter';
 import { usePermission } from '@/hooks/use-permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
 import { Input } from '@/components/ui/input';
-import { SortSelect, type SortOption } from '@/components/ui/sort-select';
+import { SortSelect } from '@/components/ui/sort-select';
+import {
+    BASIC_SORTS,
+    FEED_SORTS,
+    FOR_ME_SORTS,
+    type BasicSort,
+    type FeedSort,
+    type ForMeSort,
+} from '@/lib/feed-sorts';
 import { DateFilterState } from '@/components/date-filter';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
@@ -29,6 +37,7 @@ import PostSkeleton from '@/components/posts/PostSkeleton';
 import PostCard from '@/components/posts/PostCard';
 import { useSavedPostsSync } from '@/hooks/use-saved-posts-sync';
 import { formatRelativeTime } from '@/lib/utils';
+import type { ImageVariants } from '@/lib/image-variants';
 
 // Updated Post type to match the backend and include all fields from posts schema
 // and correctly typed author from users schema
@@ -63,6 +72,7 @@ export type PostDisplay = PostFromDb & {
         orgId?: string;
         communityId?: number;
         reason: string;
+        explanation?: string;
     };
     comments?: CommentFromDb[]; // Properly typed comments array
     tags?: PostTag[]; // Add tags to the type
@@ -76,6 +86,9 @@ export type PostDisplay = PostFromDb & {
         r2Url: string | null;
         publicUrl: string | null;
         thumbnailUrl: string | null;
+        conversionStatus?: string | null;
+        variants?: ImageVariants | null;
+        blurhash?: string | null;
         uploadedBy: string;
         postId: number | null;
         communityId: number | null;
@@ -87,6 +100,8 @@ export type PostDisplay = PostFromDb & {
         postId: number;
         question: string;
         pollType: string;
+        isAnonymous: boolean;
+        resultsVisibility: string;
         expiresAt: Date | null;
         isClosed: boolean;
         createdAt: Date;
@@ -145,10 +160,9 @@ export default function PostsPage() {
 
     // State for infinite scrolling
     const [posts, setPosts] = useState<PostDisplay[]>([]);
-    const [offset, setOffset] = useState(0);
+    const [cursor, setCursor] = useState<string | null>(null);
     const [hasNextPage, setHasNextPage] = useState(true);
     const [isFetchingNextPage, setIsFetchingNextPage] = useState(false);
-    const [totalCount, setTotalCount] = useState(0);
 
     // Filter state
     const [activeFilters, setActiveFilters] = useState<FilterState>({
@@ -160,7 +174,7 @@ export default function PostsPage() {
     });
 
     // Sort state
-    const [sortOption, setSortOption] = useState<SortOption>('latest');
+    const [sortOption, setSortOption] = useState<ForMeSort>('recommended');
 
     // Tab state
     const [activeTab, setActiveTab] = useState<'for-me' | 'from-communities'>(
@@ -248,11 +262,14 @@ export default function PostsPage() {
         return true;
     };
 
+    // Only the For me feed can be ranked; other feeds fall back to latest
+    const feedSort: FeedSort =
+        sortOption === 'recommended' ? 'latest' : sortOption;
+
     // Use different queries based on active tab
     const forMePostsQuery = trpc.community.getForMePosts.useQuery(
         {
             limit: 10,
-            offset: 0,
             sort: sortOption,
             dateFilter: activeFilters.dateFilter,
         },
@@ -266,8 +283,7 @@ export default function PostsPage() {
         trpc.community.getMemberCommunityPosts.useQuery(
             {
                 limit: 10,
-                offset: 0,
-                sort: sortOption,
+                sort: feedSort,
                 dateFilter: activeFilters.dateFilter,
             },
             {
@@ -286,16 +302,20 @@ export default function PostsPage() {
 
         setIsFetchingNextPage(true);
         try {
-            const queryToUse =
+            const data =
                 activeTab === 'for-me'
-                    ? 'getForMePosts'
-                    : 'getMemberCommunityPosts';
-            const data = await utils.community[queryToUse].fetch({
-                limit: 10,
-                offset: offset,
-                sort: sortOption,
-                dateFilter: activeFilters.dateFilter,
-            });
+                    ? await utils.community.getForMePosts.fetch({
+                          limit: 10,
+                          cursor,
+                          sort: sortOption,
+                          dateFilter: activeFilters.dateFilter,
+                      })
+                    : await utils.community.getMemberCommunityPosts.fetch({
+                          limit: 10,
+                          cursor,
+                          sort: feedSort,
+                          dateFilter: activeFilters.dateFilter,
+                      });
 
             // Get like counts and user reactions for new posts
             const newPostIds = data.posts.map((post) => post.id);
@@ -319,9 +339,8 @@ export default function PostsPage() {
             }));
 
             setPosts((prev) => [...prev, ...postsWithLikes]);
-            setOffset((prev) => prev + data.posts.length);
+            setCursor(data.nextCursor);
             setHasNextPage(data.hasNextPage);
-            setTotalCount(data.totalCount);
         } catch (error) {
             console.error('Error fetching more posts:', error);
         } finally {
@@ -331,11 +350,13 @@ export default function PostsPage() {
         session,
         hasNextPage,
         isFetchingNextPage,
-        offset,
+        cursor,
         sortOption,
+        feedSort,
+        activeFilters.dateFilter,
         activeTab,
         utils.community.getForMePosts,
-        utils.community.getAllRelevantPosts,
+        utils.community.getMemberCommunityPosts,
         utils.community.getPostLikeCounts,
         utils.community.getUserReactions,
     ]);
@@ -471,16 +492,15 @@ export default function PostsPage() {
     useEffect(() => {
         if (postsQuery.data) {
             setPosts(postsQuery.data.posts);
-            setOffset(postsQuery.data.posts.length);
+            setCursor(postsQuery.data.nextCursor);
             setHasNextPage(postsQuery.data.hasNextPage);
-            setTotalCount(postsQuery.data.totalCount);
         }
     }, [activeTab, postsQuery.data]);
 
     // Clear list and invalidate when switching tabs
     useEffect(() => {
         setPosts([]);
-        setOffset(0);
+        setCursor(null);
         setHasNextPage(true);
         if (activeTab === 'for-me') {
             utils.community.getForMePosts.invalidate();
@@ -497,7 +517,7 @@ export default function PostsPage() {
         onSuccess: () => {
             // Reset pagination and refetch
             setPosts([]);
-            setOffset(0);
+            setCursor(null);
             setHasNextPage(true);
             // Invalidate the posts query to refresh the list
             if (activeTab === 'for-me') {
@@ -714,7 +734,10 @@ export default function PostsPage() {
             search: searchTerm,
             limit: 50,
             offset: 0,
-            sort: sortOption,
+            // Search only supports the basic sorts
+            sort: (BASIC_SORTS as readonly string[]).includes(sortOption)
+                ? (sortOption as BasicSort)
+                : 'latest',
             dateFilter: activeFilters.dateFilter,
         }, // Increased limit for better search results
         {
@@ -894,27 +917,14 @@ export default function PostsPage() {
                             </div>
                         ) : hasNextPage ? (
                             <div className="flex flex-col items-center">
-                                <span className="text-muted-foreground text-sm">
-                                    Showing {filteredPosts.length} of{' '}
-                                    {totalCount} posts
-                                </span>
                                 <Button
                                     variant="ghost"
                                     size="sm"
-                                    className="mt-2"
                                     onClick={() => fetchNextPage()}
                                 >
                                     <ChevronDown className="mr-1 h-4 w-4" />
                                     Load more
                                 </Button>
-                                {/* Debug info */}
-                                {process.env.NODE_ENV === 'development' && (
-                                    <div className="text-muted-foreground mt-2 text-xs">
-                                        offset: {offset}, hasNextPage:{' '}
-                                        {hasNextPage.toString()}, totalCount:{' '}
-                                        {totalCount}
-                                    </div>
-                                )}
                             </div>
                         ) : filteredPosts.length > 0 ? (
                             <span className="text-muted-foreground text-sm"></span>
@@ -930,11 +940,11 @@ export default function PostsPage() {
     };
 
     // Handle sort change
-    const handleSortChange = (newSort: SortOption) => {
+    const handleSortChange = (newSort: ForMeSort) => {
         setSortOption(newSort);
         // Reset pagination when sort changes
         setPosts([]);
-        setOffset(0);
+        setCursor(null);
         setHasNextPage(true);
         // Invalidate both the posts query and search query to refresh with new sort
         if (activeTab === 'for-me') {
@@ -950,13 +960,13 @@ export default function PostsPage() {
         setActiveFilters((prev) => ({ ...prev, dateFilter }));
         // Reset pagination when date filter changes
         setPosts([]);
-        setOffset(0);
+        setCursor(null);
         setHasNextPage(true);
         // Invalidate queries to refresh with new date filter
         if (activeTab === 'for-me') {
             utils.community.getForMePosts.invalidate();
         } else {
-            utils.community.getAllRelevantPosts.invalidate();
+            utils.community.getMemberCommunityPosts.invalidate();
         }
         utils.community.searchRelevantPost.invalidate();
     };
@@ -999,9 +1009,18 @@ export default function PostsPage() {
                                     </div>
                                 </div>
                                 <div className="md:basis-auto">
-                                    <SortSelect
-                                        value={sortOption}
+                                    <SortSelect<ForMeSort>
+                                        value={
+                                            activeTab === 'for-me'
+                                                ? sortOption
+                                                : feedSort
+                                        }
                                         onValueChange={handleSortChange}
+                                        options={
+                                            activeTab === 'for-me'
+                                                ? FOR_ME_SORTS
+                                                : FEED_SORTS
+                                        }
                                     />
                                 </div>
                                 <div className="md:basis-auto">
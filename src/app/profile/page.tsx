@@ -17,6 +17,8 @@ import {
     IndustriesSection,
     AchievementsSection,
     CertificationsSection,
+    EmailDigestSection,
+    NotificationPreferencesSection,
     ResumeUploadBanner,
     SaveButtons,
     ProfileSkeleton,
@@ -232,6 +234,12 @@ export default function ProfilePage() {
                 </form>
             </Form>
 
+            {/* Notification settings (saved on change, outside the profile form) */}
+            <div className="space-y-6 pb-24 sm:pb-4">
+                <NotificationPreferencesSection />
+                <EmailDigestSection />
+            </div>
+
             {/* Save Buttons */}
             <SaveButtons
                 hasUnsavedChanges={hasUnsavedChanges}
@@ -0,0 +1,515 @@
+'use client';
+
+import Link from 'next/link';
+import React, { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { trpc } from '@/providers/trpc-provider';
+import { useSession } from '@/server/auth/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Loading } from '@/components/ui/loading';
+import { DateFilter, type DateFilterState } from '@/components/date-filter';
+import {
+    FileText,
+    Loader2,
+    MessageSquare,
+    MessageSquareText,
+    Search,
+    X,
+} from 'lucide-react';
+import { formatRelativeTime, getInitials } from '@/lib/utils';
+
+type SearchType = 'all' | 'post' | 'comment' | 'answer';
+
+type HighlightSegment = {
+    text: string;
+    highlighted: boolean;
+};
+
+type SearchResultItem = {
+    id: number;
+    type: 'post' | 'comment' | 'answer';
+    createdAt: string | Date;
+    highlights: HighlightSegment[];
+    title?: string;
+    titleHighlights?: HighlightSegment[];
+    post?: { id: number; title: string };
+    tags?: { id: number; name: string }[];
+    author: { id: string; name: string; image: string | null } | null;
+    community: { id: number; name: string; slug: string } | null;
+};
+
+const PAGE_SIZE = 10;
+// Number of results shown per group on the "All" tab
+const PREVIEW_SIZE = 5;
+
+const TYPE_LABELS: Record<Exclude<SearchType, 'all'>, string> = {
+    post: 'Posts',
+    comment: 'Comments',
+    answer: 'Answers',
+};
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+    return (
+        <>
+            {segments.map((segment, index) =>
+                segment.highlighted ? (
+                    <mark
+                        key={index}
+                        className="rounded bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-800"
+                    >
+                        {segment.text}
+                    </mark>
+                ) : (
+                    <React.Fragment key={index}>{segment.text}</React.Fragment>
+                ),
+            )}
+        </>
+    );
+}
+
+function getResultHref(result: SearchResultItem) {
+    const postId = result.type === 'post' ? result.id : result.post?.id;
+    const anchor = result.type === 'post' ? '' : '#comments';
+    return result.community
+        ? `/communities/${result.community.slug}/posts/${postId}${anchor}`
+        : `/posts/${postId}${anchor}`;
+}
+
+function SearchResultCard({ result }: { result: SearchResultItem }) {
+    const Icon =
+        result.type === 'post'
+            ? FileText
+            : result.type === 'comment'
+              ? MessageSquare
+              : MessageSquareText;
+
+    return (
+        <Link href={getResultHref(result)} className="block">
+            <Card className="hover:bg-muted/50 gap-2 p-4 transition-colors">
+                <div className="text-muted-foreground flex items-center gap-2 text-xs">
+                    <Icon className="h-3.5 w-3.5" />
+                    {result.type === 'post' ? (
+                        <span>Post</span>
+                    ) : (
+                        <span className="truncate">
+                            {result.type === 'comment'
+                                ? 'Comment on '
+                                : 'Answer to '}
+                            <span className="text-foreground font-medium">
+                                {result.post?.title}
+                            </span>
+                        </span>
+                    )}
+                    {result.community && (
+                        <>
+                            <span>•</span>
+                            <span className="truncate">
+                                {result.community.name}
+                            </span>
+                        </>
+                    )}
+                </div>
+
+                {result.type === 'post' && (
+                    <h3 className="text-base font-semibold">
+                        {result.titleHighlights?.length ? (
+                            <Highlighted segments={result.titleHighlights} />
+                        ) : (
+                            result.title
+                        )}
+                    </h3>
+                )}
+
+                {result.highlights.length > 0 && (
+                    <p className="text-muted-foreground line-clamp-3 text-sm">
+                        <Highlighted segments={result.highlights} />
+                    </p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {result.author && (
+                        <span className="flex items-center gap-1.5">
+                            <Avatar className="h-5 w-5">
+                                <AvatarImage
+                                    src={result.author.image || undefined}
+                                />
+                                <AvatarFallback className="text-[10px]">
+                                    {getInitials(result.author.name)}
+                                </AvatarFallback>
+                            </Avatar>
+                            {result.author.name}
+                        </span>
+                    )}
+                    <span className="text-muted-foreground">
+                        {formatRelativeTime(result.createdAt)}
+                    </span>
+                    {result.tags?.map((tag) => (
+                        <Badge key={tag.id} variant="secondary">
+                            {tag.name}
+                        </Badge>
+                    ))}
+                </div>
+            </Card>
+        </Link>
+    );
+}
+
+function SearchResults() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const { data: session } = useSession();
+
+    const query = searchParams.get('q')?.trim() || '';
+    const typeParam = searchParams.get('type');
+    const type: SearchType =
+        typeParam === 'post' ||
+        typeParam === 'comment' ||
+        typeParam === 'answer'
+            ? typeParam
+            : 'all';
+    const communityId = searchParams.get('community')
+        ? parseInt(searchParams.get('community')!)
+        : undefined;
+    const tagId = searchParams.get('tag')
+        ? parseInt(searchParams.get('tag')!)
+        : undefined;
+    const authorId = searchParams.get('author') || undefined;
+
+    const [input, setInput] = useState(query);
+    const [offset, setOffset] = useState(0);
+    const [dateFilter, setDateFilter] = useState<DateFilterState>({
+        type: 'all',
+    });
+
+    useEffect(() => {
+        setInput(query);
+    }, [query]);
+
+    // Start from the first page whenever the search changes
+    useEffect(() => {
+        setOffset(0);
+    }, [query, type, communityId, tagId, authorId, dateFilter]);
+
+    const { data: filterOptions } = trpc.search.getFilterOptions.useQuery(
+        undefined,
+        { enabled: !!session },
+    );
+
+    const searchQuery = trpc.search.search.useQuery(
+        {
+            query,
+            type,
+            communityId,
+            tagId,
+            authorId,
+            startDate: dateFilter.startDate,
+            endDate: dateFilter.endDate,
+            limit: type === 'all' ? PREVIEW_SIZE : PAGE_SIZE,
+            offset: type === 'all' ? 0 : offset,
+        },
+        { enabled: !!session && query.length > 0 },
+    );
+
+    const updateParams = (updates: Record<string, string | undefined>) => {
+        const params = new URLSearchParams(searchParams.toString());
+        Object.entries(updates).forEach(([key, value]) => {
+            if (value) {
+                params.set(key, value);
+            } else {
+                params.delete(key);
+            }
+        });
+        router.push(`/search?${params.toString()}`);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        updateParams({ q: input.trim() || undefined });
+    };
+
+    const selectedCommunity = filterOptions?.communities.find(
+        (community) => community.id === communityId,
+    );
+
+    const groups = searchQuery.data
+        ? {
+              post: searchQuery.data.posts,
+              comment: searchQuery.data.comments,
+              answer: searchQuery.data.answers,
+          }
+        : null;
+
+    const renderGroup = (groupType: Exclude<SearchType, 'all'>) => {
+        const group = groups?.[groupType];
+        if (!group || group.results.length === 0) return null;
+
+        return (
+            <section key={groupType} className="space-y-3">
+                {type === 'all' && (
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-lg font-semibold">
+                            {TYPE_LABELS[groupType]}
+                        </h2>
+                        {group.totalCount > group.results.length && (
+                            <Button
+                                variant="link"
+                                size="sm"
+                                onClick={() =>
+                                    updateParams({ type: groupType })
+                                }
+                            >
+                                See all {group.totalCount}
+                            </Button>
+                        )}
+                    </div>
+                )}
+                {group.results.map((result) => (
+                    <SearchResultCard
+                        key={`${groupType}-${result.id}`}
+                        result={result as SearchResultItem}
+                    />
+                ))}
+                {type !== 'all' && (
+                    <div className="flex items-center justify-between pt-2">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={offset === 0 || searchQuery.isFetching}
+                            onClick={() =>
+                                setOffset((prev) =>
+                                    Math.max(0, prev - PAGE_SIZE),
+                                )
+                            }
+                        >
+                            Previous
+                        </Button>
+                        <span className="text-muted-foreground text-sm">
+                            {offset + 1}–{offset + group.results.length} of{' '}
+                            {group.totalCount}
+                        </span>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={
+                                !group.hasNextPage || searchQuery.isFetching
+                            }
+                            onClick={() =>
+                                setOffset(group.nextOffset ?? offset)
+                            }
+                        >
+                            Next
+                        </Button>
+                    </div>
+                )}
+            </section>
+        );
+    };
+
+    const totalCount = groups
+        ? groups.post.totalCount +
+          groups.comment.totalCount +
+          groups.answer.totalCount
+        : 0;
+
+    return (
+        <div className="mx-auto max-w-3xl space-y-6 px-4 py-6">
+            <form onSubmit={handleSubmit} className="flex gap-2">
+                <div className="relative flex-1">
+                    <Search className="text-muted-foreground absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2" />
+                    <Input
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder="Search posts, comments and answers..."
+                        className="pl-9"
+                        maxLength={200}
+                        autoFocus
+                    />
+                </div>
+                <Button type="submit" disabled={!input.trim()}>
+                    Search
+                </Button>
+            </form>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2">
+                <Select
+                    value={communityId ? communityId.toString() : 'all'}
+                    onValueChange={(value) =>
+                        updateParams({
+                            community: value === 'all' ? undefined : value,
+                            tag: undefined,
+                        })
+                    }
+                >
+                    <SelectTrigger className="w-48">
+                        <SelectValue placeholder="All communities" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">All communities</SelectItem>
+                        {filterOptions?.communities.map((community) => (
+                            <SelectItem
+                                key={community.id}
+                                value={community.id.toString()}
+                            >
+                                {community.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+
+                {selectedCommunity && selectedCommunity.tags.length > 0 && (
+                    <Select
+                        value={tagId ? tagId.toString() : 'all'}
+                        onValueChange={(value) =>
+                            updateParams({
+                                tag: value === 'all' ? undefined : value,
+                            })
+                        }
+                    >
+                        <SelectTrigger className="w-40">
+                            <SelectValue placeholder="All tags" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All tags</SelectItem>
+                            {selectedCommunity.tags.map((tag) => (
+                                <SelectItem
+                                    key={tag.id}
+                                    value={tag.id.toString()}
+                                >
+                                    {tag.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+
+                <DateFilter value={dateFilter} onChange={setDateFilter} />
+
+                {authorId && (
+                    <Badge variant="secondary" className="gap-1">
+                        {authorId === session?.user?.id
+                            ? 'By you'
+                            : 'By selected author'}
+                        <button
+                            type="button"
+                            aria-label="Clear author filter"
+                            onClick={() => updateParams({ author: undefined })}
+                        >
+                            <X className="h-3 w-3" />
+                        </button>
+                    </Badge>
+                )}
+                {!authorId && session?.user?.id && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                            updateParams({ author: session.user.id })
+                        }
+                    >
+                        Only mine
+                    </Button>
+                )}
+            </div>
+
+            {query && (
+                <Tabs
+                    value={type}
+                    onValueChange={(value) =>
+                        updateParams({
+                            type: value === 'all' ? undefined : value,
+                        })
+                    }
+                >
+                    <TabsList>
+                        <TabsTrigger value="all">
+                            All{groups ? ` (${totalCount})` : ''}
+                        </TabsTrigger>
+                        {(['post', 'comment', 'answer'] as const).map(
+                            (groupType) => (
+                                <TabsTrigger key={groupType} value={groupType}>
+                                    {TYPE_LABELS[groupType]}
+                                    {groups
+                                        ? ` (${groups[groupType].totalCount})`
+                                        : ''}
+                                </TabsTrigger>
+                            ),
+                        )}
+                    </TabsList>
+                </Tabs>
+            )}
+
+            {!query ? (
+                <div className="text-muted-foreground py-12 text-center">
+                    Search across posts, comments and Q&A answers. Use quotes
+                    for exact phrases and a leading - to exclude words.
+                </div>
+            ) : searchQuery.isLoading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="text-muted-foreground h-6 w-6 animate-spin" />
+                </div>
+            ) : searchQuery.error ? (
+                <div className="py-12 text-center text-red-500">
+                    {searchQuery.error.message}
+                </div>
+            ) : totalCount === 0 ||
+              (type !== 'all' && groups?.[type].results.length === 0) ? (
+                <div className="text-muted-foreground py-12 text-center">
+                    No results for &ldquo;{query}&rdquo;
+                </div>
+            ) : (
+                <div className="space-y-8">
+                    {type === 'all'
+                        ? (['post', 'comment', 'answer'] as const).map(
+                              renderGroup,
+                          )
+                        : renderGroup(type)}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function SearchPage() {
+    const { data: session, isPending } = useSession();
+
+    if (isPending) {
+        return <Loading message="Loading search..." />;
+    }
+
+    if (!session) {
+        return (
+            <div className="flex h-screen items-center justify-center">
+                <div className="mx-auto max-w-md p-4 text-center">
+                    <h1 className="mb-4 text-3xl font-bold dark:text-white">
+                        Access Denied
+                    </h1>
+                    <p className="mb-4 text-gray-600 dark:text-gray-400">
+                        Please sign in to search.
+                    </p>
+                    <Button asChild>
+                        <a href="/auth/login">Sign In</a>
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <Suspense fallback={<Loading message="Loading search..." />}>
+            <SearchResults />
+        </Suspense>
+    );
+}
@@ -1,7 +1,15 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { Edit, Trash2, Plus, Minus, Reply, BadgeCheck } from 'lucide-react';
+import {
+    Edit,
+    Trash2,
+    Plus,
+    Minus,
+    Reply,
+    BadgeCheck,
+    Flag,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import type { users } from '@/server/db/schema'; // Assuming UserFromDb is similar or can be imported
@@ -10,6 +18,16 @@ import TipTapEditor from '@/components/TipTapEditor';
 import { UserProfilePopover } from '@/components/ui/user-profile-popover';
 import { SafeHtml } from '@/lib/sanitize';
 import { isHtmlContentEmpty } from '@/lib/utils';
+import { ReportContentDialog } from '@/components/report-content-dialog';
+import {
+    ReactionPicker,
+    ReactionSummaryButton,
+} from '@/components/posts/ReactionPicker';
+import {
+    EMPTY_REACTION_SUMMARY,
+    type ReactionSummary,
+    type ReactionType,
+} from '@/lib/reactions';
 
 type SessionData = ReturnType<typeof useSession>['data'];
 
@@ -25,6 +43,7 @@ export type CommentWithReplies = {
     author: UserFromDb | null;
     parentId: number | null;
     isDeleted: boolean;
+    isHidden?: boolean;
     replies?: CommentWithReplies[];
 };
 
@@ -54,6 +73,9 @@ interface CommentItemProps {
     isHelpfulMap?: Record<number, boolean>;
     onToggleHelpful?: (commentId: number) => void;
     helpfulMutationPending?: boolean;
+    reactionSummaries?: Record<number, ReactionSummary>;
+    onToggleReaction?: (commentId: number, type: ReactionType) => void;
+    reactionMutationPending?: boolean;
 }
 
 const CommentItem: React.FC<CommentItemProps> = ({
@@ -82,9 +104,13 @@ const CommentItem: React.FC<CommentItemProps> = ({
     isHelpfulMap,
     onToggleHelpful,
     helpfulMutationPending = false,
+    reactionSummaries,
+    onToggleReaction,
+    reactionMutationPending = false,
 }) => {
     const shouldAutoExpand = autoExpandedComments.has(comment.id);
     const [isExpanded, setIsExpanded] = useState(shouldAutoExpand);
+    const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
     const isEditingThisComment = editingCommentId === comment.id;
     const isReplyingToThisComment = replyingToCommentId === comment.id;
     const canEdit =
@@ -92,16 +118,25 @@ const CommentItem: React.FC<CommentItemProps> = ({
     const canDelete =
         !comment.isDeleted && session?.user?.id === comment.authorId;
     const canReply = !!session?.user;
+    const canReact =
+        !!session?.user && !comment.isDeleted && !!onToggleReaction;
     const canMarkHelpful =
         !!session?.user &&
         !comment.isDeleted &&
         session?.user?.id !== comment.authorId;
+    const canReport =
+        !!session?.user &&
+        !comment.isDeleted &&
+        !comment.isHidden &&
+        session?.user?.id !== comment.authorId;
     const replies = comment.replies || [];
     const hasReplies = replies.length > 0;
 
     // Get helpful data for this specific comment
     const helpfulCount = helpfulCounts?.[comment.id] || 0;
     const isHelpful = isHelpfulMap?.[comment.id] || false;
+    const reactionSummary =
+        reactionSummaries?.[comment.id] ?? EMPTY_REACTION_SUMMARY;
 
     // Update expansion state when autoExpandedComments changes
     useEffect(() => {
@@ -243,6 +278,10 @@ const CommentItem: React.FC<CommentItemProps> = ({
                                         <p className="text-muted-foreground text-sm italic">
                                             [Comment deleted]
                                         </p>
+                                    ) : comment.isHidden && !comment.content ? (
+                                        <p className="text-muted-foreground text-sm italic">
+                                            [Comment hidden by moderators]
+                                        </p>
                                     ) : (
                                         <SafeHtml
                                             html={comment.content}
@@ -253,6 +292,28 @@ const CommentItem: React.FC<CommentItemProps> = ({
 
                                 {/* Comment actions */}
                                 <div className="flex flex-wrap items-center gap-1.5">
+                                    <ReactionSummaryButton
+                                        target={{
+                                            kind: 'comment',
+                                            id: comment.id,
+                                        }}
+                                        summary={reactionSummary}
+                                        className="px-1.5 py-0.5"
+                                    />
+
+                                    {canReact && (
+                                        <ReactionPicker
+                                            mine={reactionSummary.mine}
+                                            onToggle={(type) =>
+                                                onToggleReaction?.(
+                                                    comment.id,
+                                                    type,
+                                                )
+                                            }
+                                            disabled={reactionMutationPending}
+                                        />
+                                    )}
+
                                     {canMarkHelpful && (
                                         <button
                                             onClick={() =>
@@ -324,6 +385,19 @@ const CommentItem: React.FC<CommentItemProps> = ({
                                             <span>Delete</span>
                                         </button>
                                     )}
+
+                                    {canReport && (
+                                        <button
+                                            onClick={() =>
+                                                setIsReportDialogOpen(true)
+                                            }
+                                            className="text-muted-foreground hover:text-destructive hover:bg-destructive/10 flex items-center gap-0.5 rounded px-1.5 py-0.5 text-xs transition-colors sm:opacity-0 sm:group-hover:opacity-100"
+                                            title="Report comment"
+                                        >
+                                            <Flag className="h-2.5 w-2.5" />
+                                            <span>Report</span>
+                                        </button>
+                                    )}
                                 </div>
                             </>
                         )}
@@ -367,6 +441,15 @@ const CommentItem: React.FC<CommentItemProps> = ({
                 </div>
             </div>
 
+            {canReport && (
+                <ReportContentDialog
+                    open={isReportDialogOpen}
+                    onOpenChange={setIsReportDialogOpen}
+                    targetType="comment"
+                    targetId={comment.id}
+                />
+            )}
+
             {/* Nested replies */}
             {hasReplies && isExpanded && (
                 <div>
@@ -400,6 +483,9 @@ const CommentItem: React.FC<CommentItemProps> = ({
                             isHelpfulMap={isHelpfulMap}
                             onToggleHelpful={onToggleHelpful}
                             helpfulMutationPending={helpfulMutationPending}
+                            reactionSummaries={reactionSummaries}
+                            onToggleReaction={onToggleReaction}
+                            reactionMutationPending={reactionMutationPending}
                         />
                     ))}
                 </div>
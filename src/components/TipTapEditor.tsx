@@ -7,6 +7,10 @@ import Link from '@tiptap/extension-link';
 import Placeholder from '@tiptap/extension-placeholder';
 import Image from '@tiptap/extension-image';
 import Youtube from '@tiptap/extension-youtube';
+import type { Editor } from '@tiptap/react';
+import { Mention, MENTION_TRIGGER_PATTERN } from '@/components/tiptap-mention';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { trpc } from '@/providers/trpc-provider';
 import { Button } from '@/components/ui/button';
 import {
     Bold,
@@ -31,6 +35,10 @@ import { cn, isHtmlContentEmpty } from '@/lib/utils';
 import { uploadAttachmentWithPresignedFlow } from '@/lib/image-upload-utils';
 import { useSession } from '@/server/auth/client';
 import { validateAttachmentFile } from '@/lib/r2';
+import {
+    isVideoConverting,
+    type VideoConversionStatus,
+} from '@/lib/video-conversion';
 
 interface TipTapEditorProps {
     content: string;
@@ -60,6 +68,7 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
         type: 'image' | 'video';
         url: string;
         thumbnailUrl?: string | null;
+        conversionStatus?: VideoConversionStatus | null;
     };
     const [uploadedMedia, setUploadedMedia] = useState<UploadedMediaItem[]>([]);
 
@@ -71,6 +80,56 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
     }, [uploadedMedia, onMediaChange]);
     const { data: session } = useSession();
 
+    // Active @mention being typed: the query and the document range it spans
+    const [mentionQuery, setMentionQuery] = useState<{
+        query: string;
+        from: number;
+        to: number;
+    } | null>(null);
+    const [mentionIndex, setMentionIndex] = useState(0);
+    // Read by the editor's keydown handler, which is only bound once
+    const mentionKeyDownRef = useRef<(event: KeyboardEvent) => boolean>(
+        () => false,
+    );
+
+    const { data: mentionResults = [] } = trpc.mentions.searchUsers.useQuery(
+        {
+            query: mentionQuery?.query ?? '',
+            communityId,
+            postId,
+        },
+        { enabled: !!session && mentionQuery !== null },
+    );
+
+    const updateMentionQuery = (editor: Editor) => {
+        const { from, empty } = editor.state.selection;
+        if (!empty) {
+            setMentionQuery(null);
+            return;
+        }
+
+        const $from = editor.state.selection.$from;
+        const textBefore = $from.parent.textBetween(
+            Math.max(0, $from.parentOffset - 32),
+            $from.parentOffset,
+            undefined,
+            '\ufffc',
+        );
+        const match = textBefore.match(MENTION_TRIGGER_PATTERN);
+        if (!match) {
+            setMentionQuery(null);
+            return;
+        }
+
+        const query = match[1];
+        setMentionQuery((previous) =>
+            previous?.query === query && previous.to === from
+                ? previous
+                : { query, from: from - query.length - 1, to: from },
+        );
+        setMentionIndex(0);
+    };
+
     const MAX_FILES_PER_BATCH = 10;
     const MAX_TOTAL_SIZE_BYTES = 50 * 1024 * 1024; // 50MB total
 
@@ -127,10 +186,15 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
                     class: 'max-w-full rounded-md',
                 },
             }),
+            Mention,
         ],
         content,
         onUpdate: ({ editor }) => {
             onChange(editor.getHTML());
+            updateMentionQuery(editor);
+        },
+        onSelectionUpdate: ({ editor }) => {
+            updateMentionQuery(editor);
         },
         editorProps: {
             attributes: {
@@ -138,6 +202,9 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
                 spellcheck: 'true',
             },
             handleKeyDown: (view, event) => {
+                if (mentionKeyDownRef.current(event)) {
+                    return true;
+                }
                 // Fix for space bar issue
                 if (event.key === ' ') {
                     view.dispatch(view.state.tr.insertText(' '));
@@ -155,6 +222,56 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
         },
     });
 
+    const showMentionSuggestions =
+        mentionQuery !== null && mentionResults.length > 0;
+
+    const insertMention = (user: { id: string; name: string | null }) => {
+        if (!editor || !mentionQuery) return;
+        editor
+            .chain()
+            .focus()
+            .insertContentAt({ from: mentionQuery.from, to: mentionQuery.to }, [
+                {
+                    type: 'mention',
+                    attrs: { id: user.id, label: user.name || 'Unknown' },
+                },
+                { type: 'text', text: ' ' },
+            ])
+            .run();
+        setMentionQuery(null);
+    };
+
+    mentionKeyDownRef.current = (event) => {
+        if (!showMentionSuggestions) return false;
+
+        switch (event.key) {
+            case 'ArrowDown':
+                setMentionIndex((index) => (index + 1) % mentionResults.length);
+                return true;
+            case 'ArrowUp':
+                setMentionIndex(
+                    (index) =>
+                        (index - 1 + mentionResults.length) %
+                        mentionResults.length,
+                );
+                return true;
+            case 'Enter':
+            case 'Tab': {
+                const user =
+                    mentionResults[
+                        Math.min(mentionIndex, mentionResults.length - 1)
+                    ];
+                if (user) insertMention(user);
+                return true;
+            }
+            case 'Escape':
+                setMentionQuery(null);
+                return true;
+            default:
+                return false;
+        }
+    };
+
     useEffect(() => {
         // Avoid resetting editor content while uploads are in progress,
         // which can clobber programmatic insertions (multi-file case)
@@ -337,6 +454,7 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
                             type: 'video' as const,
                             url: result.thumbnailUrl || result.url,
                             thumbnailUrl: result.thumbnailUrl,
+                            conversionStatus: result.conversionStatus,
                         },
                     ]);
                 }
@@ -477,8 +595,22 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
                                         className="h-24 w-full object-cover"
                                     />
                                 ) : (
-                                    <div className="bg-muted flex h-24 w-full items-center justify-center text-xs">
-                                        Video
+                                    <div className="bg-muted flex h-24 w-full flex-col items-center justify-center gap-1 text-xs">
+                                        <span>Video</span>
+                                        {isVideoConverting(
+                                            m.conversionStatus,
+                                        ) && (
+                                            <span className="text-muted-foreground">
+                                                Processing, it will be playable
+                                                everywhere shortly
+                                            </span>
+                                        )}
+                                        {m.conversionStatus === 'failed' && (
+                                            <span className="text-destructive">
+                                                Conversion failed, the original
+                                                file will be shown
+                                            </span>
+                                        )}
                                     </div>
                                 )}
                             </div>
@@ -718,6 +850,37 @@ const TipTapEditor: React.FC<TipTapEditorProps> = ({
             </div>
             <EditorContent editor={editor} className={contentClasses} />
 
+            {/* @mention suggestions */}
+            {showMentionSuggestions && (
+                <div className="border-input bg-popover border-t p-1">
+                    {mentionResults.map((user, index) => (
+                        <button
+                            key={user.id}
+                            type="button"
+                            className={cn(
+                                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                                index === mentionIndex
+                                    ? 'bg-accent text-accent-foreground'
+                                    : 'hover:bg-accent',
+                            )}
+                            onMouseDown={(e) => {
+                                // Keep editor focus and selection
+                                e.preventDefault();
+                                insertMention(user);
+                            }}
+                        >
+                            <Avatar className="h-6 w-6">
+                                <AvatarImage src={user.image || undefined} />
+                                <AvatarFallback className="text-xs">
+                                    {user.name.charAt(0).toUpperCase()}
+                                </AvatarFallback>
+                            </Avatar>
+                            <span className="font-medium">{user.name}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+
             {/* Content validation indicator */}
             <div className="text-muted-foreground mt-2 text-xs">
                 {editor && (
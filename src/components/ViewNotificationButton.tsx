@@ -9,7 +9,15 @@ import {
     MessageCircle,
     Check,
     CheckCheck,
+    AtSign,
+    FileText,
+    MessageSquare,
+    HelpCircle,
+    BarChart3,
+    UserPlus,
+    Megaphone,
 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -23,6 +31,8 @@ interface NotificationData {
     threadId?: number;
     messageId?: number;
     senderId?: string;
+    postId?: number;
+    communitySlug?: string | null;
 }
 
 interface Notification {
@@ -45,6 +55,7 @@ export function ViewNotificationButton() {
     const scrollAreaRef = useRef<HTMLDivElement>(null);
     const observerTarget = useRef<HTMLDivElement>(null);
     const { openChat, setActiveThreadId } = useChat();
+    const router = useRouter();
 
     // Get unread count
     const { data: unreadCount = 0, refetch: refetchUnreadCount } =
@@ -185,6 +196,37 @@ export function ViewNotificationButton() {
                     setIsOpen(false); // Optionally close the notification panel
                     return;
                 }
+                if (notification.type === 'mention') {
+                    if (data.threadId) {
+                        openChat();
+                        setActiveThreadId(Number(data.threadId));
+                    } else if (data.postId) {
+                        router.push(
+                            data.communitySlug
+                                ? `/communities/${data.communitySlug}/posts/${data.postId}`
+                                : `/posts/${data.postId}`,
+                        );
+                    }
+                    setIsOpen(false);
+                    return;
+                }
+                if (data.postId) {
+                    router.push(
+                        data.communitySlug
+                            ? `/communities/${data.communitySlug}/posts/${data.postId}`
+                            : `/posts/${data.postId}`,
+                    );
+                    setIsOpen(false);
+                    return;
+                }
+                if (
+                    notification.type === 'join_request' &&
+                    data.communitySlug
+                ) {
+                    router.push(`/communities/${data.communitySlug}`);
+                    setIsOpen(false);
+                    return;
+                }
             } catch (error) {
                 console.error('Error parsing notification data:', error);
             }
@@ -199,6 +241,22 @@ export function ViewNotificationButton() {
         switch (type) {
             case 'dm':
                 return <MessageCircle className="h-4 w-4 text-blue-500" />;
+            case 'mention':
+                return <AtSign className="h-4 w-4 text-purple-500" />;
+            case 'post':
+                return <FileText className="h-4 w-4 text-green-500" />;
+            case 'announcement':
+                return <Megaphone className="h-4 w-4 text-rose-500" />;
+            case 'comment':
+            case 'reply':
+                return <MessageSquare className="h-4 w-4 text-orange-500" />;
+            case 'qa_answer':
+            case 'qa_revealed':
+                return <HelpCircle className="h-4 w-4 text-teal-500" />;
+            case 'poll_closed':
+                return <BarChart3 className="h-4 w-4 text-indigo-500" />;
+            case 'join_request':
+                return <UserPlus className="h-4 w-4 text-amber-500" />;
             default:
                 return <Bell className="h-4 w-4 text-gray-500" />;
         }
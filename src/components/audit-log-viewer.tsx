@@ -0,0 +1,314 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loading } from '@/components/ui/loading';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { DateFilter, type DateFilterState } from '@/components/date-filter';
+import { trpc } from '@/providers/trpc-provider';
+import { getRelativeTime } from '@/lib/utils';
+import {
+    AUDIT_ACTIONS,
+    AUDIT_ACTION_LABELS,
+    type AuditAction,
+} from '@/lib/audit-actions';
+
+const PAGE_SIZE = 25;
+const ALL = 'all';
+
+type ChangeSet = Record<string, unknown> | null;
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    // Dates come back from jsonb as ISO strings
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        return new Date(value).toLocaleString();
+    }
+    return String(value);
+};
+
+function ChangeSummary({
+    before,
+    after,
+}: {
+    before: ChangeSet;
+    after: ChangeSet;
+}) {
+    const keys = Array.from(
+        new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]),
+    );
+
+    if (keys.length === 0) {
+        return <span className="text-muted-foreground text-xs">—</span>;
+    }
+
+    return (
+        <div className="space-y-0.5 text-xs">
+            {keys.map((key) => (
+                <div key={key}>
+                    <span className="text-muted-foreground">{key}: </span>
+                    {before && key in before && (
+                        <span className="line-through">
+                            {formatValue(before[key])}
+                        </span>
+                    )}
+                    {before && key in before && after && key in after && ' → '}
+                    {after && key in after && (
+                        <span>{formatValue(after[key])}</span>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+interface AuditLogViewerProps {
+    initialCommunityId?: number;
+}
+
+export function AuditLogViewer({ initialCommunityId }: AuditLogViewerProps) {
+    const [orgId, setOrgId] = useState<string>(ALL);
+    const [communityId, setCommunityId] = useState<string>(
+        initialCommunityId ? String(initialCommunityId) : ALL,
+    );
+    const [action, setAction] = useState<string>(ALL);
+    const [dateFilter, setDateFilter] = useState<DateFilterState>({
+        type: 'all',
+    });
+    const [offset, setOffset] = useState(0);
+
+    const filterOptionsQuery = trpc.auditLog.getFilterOptions.useQuery();
+    const filterOptions = filterOptionsQuery.data;
+
+    const logsQuery = trpc.auditLog.list.useQuery(
+        {
+            orgId: orgId === ALL ? undefined : orgId,
+            communityId: communityId === ALL ? undefined : Number(communityId),
+            action: action === ALL ? undefined : (action as AuditAction),
+            startDate: dateFilter.startDate,
+            endDate: dateFilter.endDate,
+            limit: PAGE_SIZE,
+            offset,
+        },
+        { enabled: !!filterOptions?.hasAccess },
+    );
+
+    // Any filter change starts again from the first page
+    const withReset =
+        <T,>(setter: (value: T) => void) =>
+        (value: T) => {
+            setter(value);
+            setOffset(0);
+        };
+
+    if (filterOptionsQuery.isLoading) {
+        return <Loading message="Loading audit log..." />;
+    }
+
+    if (!filterOptions?.hasAccess) {
+        return (
+            <div className="py-8 text-center">
+                <p className="text-muted-foreground">
+                    You do not have access to the audit log.
+                </p>
+            </div>
+        );
+    }
+
+    const communityOptions =
+        orgId === ALL
+            ? filterOptions.communities
+            : filterOptions.communities.filter(
+                  (community) => community.orgId === orgId,
+              );
+    const logs = logsQuery.data;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+                {filterOptions.orgs.length > 1 && (
+                    <Select
+                        value={orgId}
+                        onValueChange={withReset((value: string) => {
+                            setOrgId(value);
+                            setCommunityId(ALL);
+                        })}
+                    >
+                        <SelectTrigger className="w-[200px]">
+                            <SelectValue placeholder="Organization" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>
+                                All organizations
+                            </SelectItem>
+                            {filterOptions.orgs.map((org) => (
+                                <SelectItem key={org.id} value={org.id}>
+                                    {org.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+                {communityOptions.length > 0 && (
+                    <Select
+                        value={communityId}
+                        onValueChange={withReset(setCommunityId)}
+                    >
+                        <SelectTrigger className="w-[200px]">
+                            <SelectValue placeholder="Community" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>All communities</SelectItem>
+                            {communityOptions.map((community) => (
+                                <SelectItem
+                                    key={community.id}
+                                    value={String(community.id)}
+                                >
+                                    {community.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                )}
+                <Select value={action} onValueChange={withReset(setAction)}>
+                    <SelectTrigger className="w-[220px]">
+                        <SelectValue placeholder="Action" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>All actions</SelectItem>
+                        {AUDIT_ACTIONS.map((auditAction) => (
+                            <SelectItem key={auditAction} value={auditAction}>
+                                {AUDIT_ACTION_LABELS[auditAction]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <DateFilter
+                    value={dateFilter}
+                    onChange={withReset(setDateFilter)}
+                />
+            </div>
+
+            {logsQuery.isLoading ? (
+                <Loading message="Loading audit log..." />
+            ) : !logs || logs.logs.length === 0 ? (
+                <div className="py-8 text-center">
+                    <p className="text-muted-foreground">
+                        No audit log entries match these filters.
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <div className="rounded-md border">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Action</TableHead>
+                                    <TableHead>Actor</TableHead>
+                                    <TableHead>Target</TableHead>
+                                    <TableHead>Changes</TableHead>
+                                    <TableHead>When</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {logs.logs.map((entry) => (
+                                    <TableRow key={entry.id}>
+                                        <TableCell>
+                                            <Badge variant="outline">
+                                                {AUDIT_ACTION_LABELS[
+                                                    entry.action as AuditAction
+                                                ] ?? entry.action}
+                                            </Badge>
+                                            {entry.community && (
+                                                <Link
+                                                    href={`/communities/${entry.community.slug}`}
+                                                    className="text-muted-foreground mt-1 block text-xs hover:underline"
+                                                >
+                                                    {entry.community.name}
+                                                </Link>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            {entry.actorName || 'Unknown'}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="text-sm">
+                                                {entry.targetLabel ||
+                                                    entry.targetId}
+                                            </div>
+                                            <div className="text-muted-foreground text-xs">
+                                                {entry.targetType}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <ChangeSummary
+                                                before={
+                                                    entry.before as ChangeSet
+                                                }
+                                                after={entry.after as ChangeSet}
+                                            />
+                                        </TableCell>
+                                        <TableCell>
+                                            {new Date(
+                                                entry.createdAt,
+                                            ).toLocaleString()}
+                                            <div className="text-muted-foreground mt-1 text-xs">
+                                                {getRelativeTime(
+                                                    new Date(entry.createdAt),
+                                                )}
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+
+                    {(offset > 0 || logs.hasNextPage) && (
+                        <div className="flex justify-between">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={offset === 0}
+                                onClick={() =>
+                                    setOffset(Math.max(0, offset - PAGE_SIZE))
+                                }
+                            >
+                                Previous
+                            </Button>
+                            <span className="text-muted-foreground text-sm">
+                                {logs.totalCount} entries
+                            </span>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={!logs.hasNextPage}
+                                onClick={() =>
+                                    setOffset(logs.nextOffset ?? offset)
+                                }
+                            >
+                                Next
+                            </Button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -9,6 +9,7 @@ import { BadgeFormDialog } from '@/components/ui/badge-form-dialog';
 import { BadgeCard } from '@/components/ui/badge-card';
 import { BadgeAssignmentDialog } from '@/components/ui/badge-assignment-dialog';
 import { usePermission } from '@/hooks/use-permission';
+import { describeBadgeRule } from '@/lib/badge-rules';
 
 interface BadgeManagementProps {
     orgId: string;
@@ -37,6 +38,10 @@ export function BadgeManagement({ orgId }: BadgeManagementProps) {
     const { data: users = [], isLoading: isLoadingUsers } =
         trpc.badges.getOrgUsers.useQuery({ orgId });
 
+    const { data: ruleCommunities } = trpc.badges.getRuleCommunities.useQuery({
+        orgId,
+    });
+
     // TRPC Mutations
     const createBadgeMutation = trpc.badges.createBadge.useMutation({
         onSuccess: () => {
@@ -190,6 +195,18 @@ export function BadgeManagement({ orgId }: BadgeManagementProps) {
                             onEdit={() => setEditingBadge(badge)}
                             onDelete={() => handleDeleteBadge(badge.id)}
                             onManageUsers={() => setManagingBadge(badge)}
+                            awardRuleDescription={
+                                badge.awardRule
+                                    ? describeBadgeRule(
+                                          badge.awardRule,
+                                          ruleCommunities?.find(
+                                              (community) =>
+                                                  community.id ===
+                                                  badge.awardRule?.communityId,
+                                          )?.name,
+                                      )
+                                    : undefined
+                            }
                             canEdit={canEditBadge}
                             canDelete={canDeleteBadge}
                         />
@@ -219,6 +236,7 @@ export function BadgeManagement({ orgId }: BadgeManagementProps) {
             <BadgeFormDialog
                 open={showCreateDialog}
                 onOpenChange={setShowCreateDialog}
+                communities={ruleCommunities}
                 onSubmit={handleCreateBadge}
                 isSubmitting={createBadgeMutation.isPending}
             />
@@ -228,6 +246,7 @@ export function BadgeManagement({ orgId }: BadgeManagementProps) {
                 open={!!editingBadge}
                 onOpenChange={(open) => !open && setEditingBadge(null)}
                 badge={editingBadge}
+                communities={ruleCommunities}
                 onSubmit={handleUpdateBadge}
                 isSubmitting={updateBadgeMutation.isPending}
             />
@@ -0,0 +1,343 @@
+'use client';
+
+import React, { useState } from 'react';
+import { trpc } from '@/providers/trpc-provider';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { LinkPreviewCard } from '@/components/ui/link-preview-card';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+    Edit,
+    FileText,
+    MoreHorizontal,
+    SmilePlus,
+    Trash2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { MESSAGE_REACTIONS, type MessageReaction } from '@/lib/chat-messages';
+import type { ChatStreamMessage } from '@/lib/chat-events';
+
+type ChatMessageBubbleProps = {
+    message: ChatStreamMessage;
+    currentUserId?: string;
+    // Called after a change when the chat stream isn't there to deliver it
+    onChanged: () => void;
+};
+
+function formatFileSize(bytes: number | null) {
+    if (!bytes) return '';
+    if (bytes < 1024 * 1024)
+        return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function ChatMessageBubble({
+    message,
+    currentUserId,
+    onChanged,
+}: ChatMessageBubbleProps) {
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(message.content);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+    const isCurrentUser = message.senderId === currentUserId;
+    const isDeleted = !!message.deletedAt;
+
+    const editMutation = trpc.chat.editMessage.useMutation({
+        onSuccess: () => {
+            setIsEditing(false);
+            onChanged();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const deleteMutation = trpc.chat.deleteMessage.useMutation({
+        onSuccess: onChanged,
+        onError: (error) => toast.error(error.message),
+    });
+
+    const reactionMutation = trpc.chat.toggleMessageReaction.useMutation({
+        onSuccess: onChanged,
+        onError: (error) => toast.error(error.message),
+    });
+
+    // Count each emoji and note whether the current user added it
+    const reactionGroups = MESSAGE_REACTIONS.map((emoji) => {
+        const reactions = message.reactions.filter((r) => r.emoji === emoji);
+        return {
+            emoji,
+            count: reactions.length,
+            reacted: reactions.some((r) => r.userId === currentUserId),
+        };
+    }).filter((group) => group.count > 0);
+
+    const toggleReaction = (emoji: MessageReaction) =>
+        reactionMutation.mutate({ messageId: message.id, emoji });
+
+    const startEditing = () => {
+        setDraft(message.content);
+        setIsEditing(true);
+    };
+
+    const saveEdit = () => {
+        if (draft === message.content) {
+            setIsEditing(false);
+            return;
+        }
+        editMutation.mutate({ messageId: message.id, content: draft.trim() });
+    };
+
+    const handleEditKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            saveEdit();
+        } else if (e.key === 'Escape') {
+            setIsEditing(false);
+        }
+    };
+
+    if (isDeleted) {
+        return (
+            <div className="text-muted-foreground max-w-[300px] rounded-lg border border-dashed p-3">
+                <p className="text-sm italic">This message was deleted</p>
+            </div>
+        );
+    }
+
+    return (
+        <div
+            className={cn(
+                'group flex items-start gap-1',
+                isCurrentUser && 'flex-row-reverse',
+            )}
+        >
+            <div className="space-y-1">
+                <div
+                    className={cn(
+                        'max-w-[300px] space-y-2 rounded-lg p-3',
+                        isCurrentUser
+                            ? 'bg-primary text-primary-foreground'
+                            : 'bg-muted text-muted-foreground',
+                    )}
+                >
+                    {isEditing ? (
+                        <div className="space-y-2">
+                            <Textarea
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onKeyDown={handleEditKeyDown}
+                                maxLength={2000}
+                                className="text-foreground bg-background min-h-[60px] resize-none"
+                                autoFocus
+                            />
+                            <div className="flex justify-end gap-2">
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={() => setIsEditing(false)}
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={saveEdit}
+                                    disabled={
+                                        editMutation.isPending ||
+                                        (!draft.trim() &&
+                                            message.attachments.length === 0)
+                                    }
+                                >
+                                    Save
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        message.content && (
+                            <p className="text-sm break-words whitespace-pre-wrap">
+                                {message.content}
+                            </p>
+                        )
+                    )}
+
+                    {message.attachments.map((attachment) =>
+                        attachment.type === 'image' ? (
+                            <a
+                                key={attachment.id}
+                                href={attachment.publicUrl ?? undefined}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="block"
+                            >
+                                {/* eslint-disable-next-line @next/next/no-img-element */}
+                                <img
+                                    src={attachment.publicUrl ?? undefined}
+                                    alt={attachment.filename}
+                                    className="max-h-60 rounded-md object-cover"
+                                />
+                            </a>
+                        ) : (
+                            <a
+                                key={attachment.id}
+                                href={attachment.publicUrl ?? undefined}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="bg-background/20 flex items-center gap-2 rounded-md p-2 text-sm hover:underline"
+                            >
+                                <FileText className="h-4 w-4 shrink-0" />
+                                <span className="truncate">
+                                    {attachment.filename}
+                                </span>
+                                <span className="shrink-0 text-xs opacity-70">
+                                    {formatFileSize(attachment.size)}
+                                </span>
+                            </a>
+                        ),
+                    )}
+
+                    {!isEditing &&
+                        message.linkPreview &&
+                        message.attachments.length === 0 && (
+                            <LinkPreviewCard
+                                preview={message.linkPreview}
+                                className="bg-background text-foreground"
+                            />
+                        )}
+                </div>
+
+                {reactionGroups.length > 0 && (
+                    <div
+                        className={cn(
+                            'flex flex-wrap gap-1',
+                            isCurrentUser && 'justify-end',
+                        )}
+                    >
+                        {reactionGroups.map((group) => (
+                            <button
+                                key={group.emoji}
+                                type="button"
+                                onClick={() => toggleReaction(group.emoji)}
+                                disabled={reactionMutation.isPending}
+                                className={cn(
+                                    'rounded-full border px-2 py-0.5 text-xs',
+                                    group.reacted
+                                        ? 'border-primary bg-primary/10'
+                                        : 'hover:bg-muted',
+                                )}
+                            >
+                                {group.emoji} {group.count}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Message actions, shown on hover */}
+            {!isEditing && (
+                <div className="flex opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+                    <Popover>
+                        <PopoverTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0"
+                                aria-label="Add reaction"
+                            >
+                                <SmilePlus className="h-4 w-4" />
+                            </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="flex w-auto gap-1 p-1">
+                            {MESSAGE_REACTIONS.map((emoji) => (
+                                <button
+                                    key={emoji}
+                                    type="button"
+                                    className="hover:bg-accent rounded-md p-1 text-lg"
+                                    onClick={() => toggleReaction(emoji)}
+                                >
+                                    {emoji}
+                                </button>
+                            ))}
+                        </PopoverContent>
+                    </Popover>
+
+                    {isCurrentUser && (
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 w-7 p-0"
+                                    aria-label="Message actions"
+                                >
+                                    <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={startEditing}>
+                                    <Edit className="mr-2 h-4 w-4" />
+                                    Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                    onClick={() => setShowDeleteDialog(true)}
+                                    className="text-red-600"
+                                >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                </DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                    )}
+                </div>
+            )}
+
+            <AlertDialog
+                open={showDeleteDialog}
+                onOpenChange={setShowDeleteDialog}
+            >
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete message</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            The message and its attachments will be removed for
+                            everyone in this conversation.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() =>
+                                deleteMutation.mutate({
+                                    messageId: message.id,
+                                })
+                            }
+                            className="bg-red-600 hover:bg-red-700"
+                        >
+                            Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
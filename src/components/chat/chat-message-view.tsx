@@ -7,11 +7,23 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Send, ArrowDown } from 'lucide-react';
+import { Send, ArrowDown, Users, Paperclip, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { UserProfilePopover } from '@/components/ui/user-profile-popover';
 import { Loading } from '@/components/ui/loading';
+import { useChatStream } from '@/hooks/use-chat-stream';
+import { GroupChatSettingsDialog } from './group-chat-settings-dialog';
+import { getChatThreadTitle } from './chat-utils';
+import { MentionSuggestions } from './mention-suggestions';
+import { useChatMentions } from '@/hooks/use-chat-mentions';
+import { ChatMessageBubble } from './chat-message-bubble';
+import {
+    uploadChatAttachmentWithPresignedFlow,
+    type ChatAttachmentUploadResult,
+} from '@/lib/image-upload-utils';
+import { MAX_MESSAGE_ATTACHMENTS } from '@/lib/chat-messages';
 
 type ChatMessageViewProps = {
     threadId: number;
@@ -25,6 +37,12 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const messagesContainerRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // Uploaded files waiting to go out with the next message
+    const [pendingAttachments, setPendingAttachments] = useState<
+        ChatAttachmentUploadResult[]
+    >([]);
+    const [isUploading, setIsUploading] = useState(false);
     const [paginatedMessages, setPaginatedMessages] = useState<any[]>([]); // For older messages
     const [oldestMessageId, setOldestMessageId] = useState<number | null>(null);
     const [hasMore, setHasMore] = useState(true);
@@ -48,10 +66,37 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
         { refetchInterval: 0 }, // We'll handle polling manually
     );
 
-    // Get new messages via polling
+    const mentions = useChatMentions(threadId, message, setMessage);
+
+    // New messages are pushed over the chat stream while it is connected
+    const { isConnected: isStreamConnected } = useChatStream({
+        openThreadId: threadId,
+        onMessage: (event) => {
+            if (event.threadId !== threadId) return;
+
+            // Only auto-scroll if user is already at the bottom
+            if (isAtBottom()) {
+                setTimeout(() => scrollToBottom(true), 50);
+            }
+        },
+        // Older pages live outside the query cache
+        onMessageUpdated: (event) => {
+            if (event.threadId !== threadId) return;
+            setPaginatedMessages((prev) =>
+                prev.map((m) =>
+                    m.id === event.message.id ? event.message : m,
+                ),
+            );
+        },
+    });
+
+    // Fall back to polling for new messages when the stream is down
     const { data: newMessages = [] } = trpc.chat.getNewMessages.useQuery(
         { threadId, since: lastPolled },
-        { refetchInterval: 2000 }, // Poll every 2 seconds
+        {
+            enabled: !isStreamConnected,
+            refetchInterval: isStreamConnected ? false : 2000, // Poll every 2 seconds
+        },
     );
 
     // Check if user is at the bottom of the chat
@@ -81,7 +126,12 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
     const sendMessageMutation = trpc.chat.sendMessage.useMutation({
         onSuccess: () => {
             setMessage('');
-            refetch();
+            setPendingAttachments([]);
+            mentions.reset();
+            // The stream already delivered the sent message to the cache
+            if (!isStreamConnected) {
+                refetch();
+            }
             setLastPolled(new Date());
             setTimeout(() => {
                 scrollToBottom(true);
@@ -114,57 +164,71 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
         }
     };
 
-    // Determine the recipient ID
-    const getRecipientId = (): string | null => {
-        if (!session?.user) return null;
-
-        // If we have thread data, use it to determine the recipient
-        if (threadData) {
-            return threadData.user1Id === session.user.id
-                ? threadData.user2Id
-                : threadData.user1Id;
-        }
-
-        // If we have messages, use the first message to determine the recipient
-        if (messagesData?.messages && messagesData.messages.length > 0) {
-            const firstMessage = messagesData.messages[0];
-            return firstMessage.senderId === session.user.id
-                ? firstMessage.recipientId
-                : firstMessage.senderId;
-        }
-
-        return null;
-    };
-
-    // Get the other user's data
-    const getOtherUserData = () => {
-        if (!session?.user || !threadData) return null;
-
-        return threadData.user1Id === session.user.id
-            ? threadData.user2
-            : threadData.user1;
-    };
+    const canSend =
+        (!!message.trim() || pendingAttachments.length > 0) && !isUploading;
 
     // Handle sending a message
     const handleSendMessage = () => {
-        if (!message.trim() || !session?.user) return;
-
-        const recipientId = getRecipientId();
-
-        if (!recipientId) {
-            console.error('Could not determine recipient ID');
-            return;
-        }
+        if (!canSend || !session?.user || !threadData) return;
 
         sendMessageMutation.mutate({
             threadId,
-            recipientId,
             content: message.trim(),
+            mentionedUserIds: mentions.getMentionedUserIds(),
+            attachmentIds: pendingAttachments.length
+                ? pendingAttachments.map((attachment) => attachment.id)
+                : undefined,
         });
     };
 
+    // Upload picked files right away; they are sent with the next message
+    const handleFilesSelected = async (
+        e: React.ChangeEvent<HTMLInputElement>,
+    ) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        if (files.length === 0 || !session?.user?.email) return;
+
+        const room = MAX_MESSAGE_ATTACHMENTS - pendingAttachments.length;
+        if (files.length > room) {
+            toast.error(
+                `You can attach up to ${MAX_MESSAGE_ATTACHMENTS} files per message`,
+            );
+        }
+
+        setIsUploading(true);
+        try {
+            for (const file of files.slice(0, Math.max(room, 0))) {
+                try {
+                    const uploaded =
+                        await uploadChatAttachmentWithPresignedFlow(
+                            file,
+                            session.user.email,
+                        );
+                    setPendingAttachments((prev) => [...prev, uploaded]);
+                } catch (error) {
+                    toast.error(`Failed to upload ${file.name}`, {
+                        description:
+                            error instanceof Error ? error.message : undefined,
+                    });
+                }
+            }
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    // Without the stream, reload to pick up edits, deletions and reactions
+    const handleMessageChanged = () => {
+        if (!isStreamConnected) {
+            refetch();
+        }
+    };
+
     // Handle pressing Enter to send (Shift+Enter for new line)
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (mentions.handleKeyDown(e)) return;
+
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             handleSendMessage();
@@ -226,8 +290,9 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
         }
     }, []);
 
-    // Get the other user in the conversation
-    const otherUser = getOtherUserData();
+    // Get the other user in one-to-one conversations
+    const otherUser = threadData?.otherUser ?? null;
+    const isGroup = !!threadData?.isGroup;
 
     // Check if user has scrolled away from bottom
     const handleScroll = () => {
@@ -327,11 +392,36 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
         <div className="flex h-full w-full flex-col">
             {/* Chat Header */}
             <div className="flex items-center border-b p-3">
-                {isLoading || !otherUser ? (
+                {isLoading || !threadData ? (
                     <div className="flex items-center space-x-2">
                         <Skeleton className="h-8 w-8 rounded-full" />
                         <Skeleton className="h-4 w-32" />
                     </div>
+                ) : isGroup ? (
+                    <div className="flex w-full items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                            <Avatar className="h-8 w-8">
+                                <AvatarFallback>
+                                    <Users className="h-4 w-4" />
+                                </AvatarFallback>
+                            </Avatar>
+                            <div>
+                                <p className="text-sm font-medium">
+                                    {getChatThreadTitle(
+                                        threadData,
+                                        session?.user?.id,
+                                    )}
+                                </p>
+                                <p className="text-muted-foreground text-xs">
+                                    {threadData.participants.length}{' '}
+                                    participants
+                                </p>
+                            </div>
+                        </div>
+                        <GroupChatSettingsDialog threadId={threadId} />
+                    </div>
+                ) : !otherUser ? (
+                    <p className="text-sm font-medium">Unknown User</p>
                 ) : (
                     <div className="flex items-center space-x-2">
                         <UserProfilePopover userId={otherUser.id}>
@@ -350,6 +440,8 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
                             </p>
                             <p className="text-muted-foreground text-xs">
                                 {otherUser.email}
+                                {threadData.participantOrgNames[otherUser.id] &&
+                                    ` · ${threadData.participantOrgNames[otherUser.id]}`}
                             </p>
                         </div>
                     </div>
@@ -465,20 +557,26 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
                                         </Avatar>
                                     )}
                                     <div>
-                                        <div
+                                        {isGroup && !isCurrentUser && (
+                                            <p className="text-muted-foreground mb-1 text-xs font-medium">
+                                                {msg.sender?.name}
+                                            </p>
+                                        )}
+                                        <ChatMessageBubble
+                                            message={msg}
+                                            currentUserId={session?.user?.id}
+                                            onChanged={handleMessageChanged}
+                                        />
+                                        <p
                                             className={cn(
-                                                'max-w-[300px] rounded-lg p-3',
-                                                isCurrentUser
-                                                    ? 'bg-primary text-primary-foreground'
-                                                    : 'bg-muted text-muted-foreground',
+                                                'text-muted-foreground mt-1 text-xs',
+                                                isCurrentUser && 'text-right',
                                             )}
                                         >
-                                            <p className="text-sm break-words whitespace-pre-wrap">
-                                                {msg.content}
-                                            </p>
-                                        </div>
-                                        <p className="text-muted-foreground mt-1 text-xs">
                                             {formatTime(msg.createdAt)}
+                                            {msg.editedAt &&
+                                                !msg.deletedAt &&
+                                                ' · edited'}
                                         </p>
                                     </div>
                                 </div>
@@ -498,11 +596,70 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
 
             {/* Message Input */}
             <div className="border-t p-3">
+                {mentions.isOpen && (
+                    <MentionSuggestions
+                        suggestions={mentions.suggestions}
+                        activeIndex={mentions.activeIndex}
+                        onSelect={(user) =>
+                            mentions.selectSuggestion(user, textareaRef.current)
+                        }
+                    />
+                )}
+                {pendingAttachments.length > 0 && (
+                    <div className="mb-2 flex flex-wrap gap-2">
+                        {pendingAttachments.map((attachment) => (
+                            <div
+                                key={attachment.id}
+                                className="bg-muted flex max-w-[200px] items-center gap-1 rounded-md px-2 py-1 text-xs"
+                            >
+                                <span className="truncate">
+                                    {attachment.filename}
+                                </span>
+                                <button
+                                    type="button"
+                                    aria-label={`Remove ${attachment.filename}`}
+                                    onClick={() =>
+                                        setPendingAttachments((prev) =>
+                                            prev.filter(
+                                                (a) => a.id !== attachment.id,
+                                            ),
+                                        )
+                                    }
+                                >
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
                 <div className="flex items-end space-x-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={handleFilesSelected}
+                    />
+                    <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Attach files"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={
+                            isUploading ||
+                            pendingAttachments.length >= MAX_MESSAGE_ATTACHMENTS
+                        }
+                    >
+                        {isUploading ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                            <Paperclip className="h-4 w-4" />
+                        )}
+                    </Button>
                     <Textarea
                         ref={textareaRef}
                         value={message}
-                        onChange={(e) => setMessage(e.target.value)}
+                        onChange={mentions.handleChange}
                         onKeyDown={handleKeyDown}
                         placeholder="Type a message..."
                         className="max-h-[120px] min-h-[40px] resize-none"
@@ -512,9 +669,9 @@ export function ChatMessageView({ threadId }: ChatMessageViewProps) {
                         size="icon"
                         onClick={handleSendMessage}
                         disabled={
-                            !message.trim() ||
+                            !canSend ||
                             sendMessageMutation.isPending ||
-                            !getRecipientId()
+                            !threadData
                         }
                     >
                         <Send className="h-4 w-4" />
@@ -7,16 +7,22 @@ import { Button } from '@/components/ui/button';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { MessageSquarePlus } from 'lucide-react';
+import { MessageSquarePlus, Users } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { UserProfilePopover } from '@/components/ui/user-profile-popover';
+import { useChatStream } from '@/hooks/use-chat-stream';
+import { useSession } from '@/server/auth/client';
+import { getChatThreadTitle } from './chat-utils';
 
 export function ChatThreadList() {
     const { setActiveThreadId, openNewChat } = useChat();
+    const { data: session } = useSession();
+    // Thread previews and unread counts are pushed while the stream is up
+    const { isConnected: isStreamConnected } = useChatStream();
     const { data: threads, isLoading } = trpc.chat.getThreads.useQuery(
         undefined,
         {
-            refetchInterval: 10000, // Poll every 10 seconds
+            refetchInterval: isStreamConnected ? false : 10000, // Poll every 10 seconds as a fallback
         },
     );
 
@@ -85,36 +91,55 @@ export function ChatThreadList() {
                                 onClick={() => setActiveThreadId(thread.id)}
                             >
                                 <div className="flex w-full items-center space-x-3">
-                                    <UserProfilePopover
-                                        userId={thread.otherUser?.id || ''}
-                                    >
+                                    {thread.isGroup ? (
                                         <Avatar className="h-10 w-10">
-                                            <AvatarImage
-                                                src={
-                                                    thread.otherUser?.image ||
-                                                    undefined
-                                                }
-                                            />
                                             <AvatarFallback>
-                                                {getInitials(
-                                                    thread.otherUser?.name ||
-                                                        '',
-                                                )}
+                                                <Users className="h-5 w-5" />
                                             </AvatarFallback>
                                         </Avatar>
-                                    </UserProfilePopover>
+                                    ) : (
+                                        <UserProfilePopover
+                                            userId={thread.otherUser?.id || ''}
+                                        >
+                                            <Avatar className="h-10 w-10">
+                                                <AvatarImage
+                                                    src={
+                                                        thread.otherUser
+                                                            ?.image || undefined
+                                                    }
+                                                />
+                                                <AvatarFallback>
+                                                    {getInitials(
+                                                        thread.otherUser
+                                                            ?.name || '',
+                                                    )}
+                                                </AvatarFallback>
+                                            </Avatar>
+                                        </UserProfilePopover>
+                                    )}
                                     <div className="flex-1 overflow-hidden">
                                         <div className="flex items-center justify-between">
-                                            <UserProfilePopover
-                                                userId={
-                                                    thread.otherUser?.id || ''
-                                                }
-                                            >
+                                            {thread.isGroup ? (
                                                 <p className="truncate font-medium">
-                                                    {thread.otherUser?.name ||
-                                                        'Unknown User'}
+                                                    {getChatThreadTitle(
+                                                        thread,
+                                                        session?.user?.id,
+                                                    )}
                                                 </p>
-                                            </UserProfilePopover>
+                                            ) : (
+                                                <UserProfilePopover
+                                                    userId={
+                                                        thread.otherUser?.id ||
+                                                        ''
+                                                    }
+                                                >
+                                                    <p className="truncate font-medium">
+                                                        {getChatThreadTitle(
+                                                            thread,
+                                                        )}
+                                                    </p>
+                                                </UserProfilePopover>
+                                            )}
                                             <span className="text-muted-foreground text-xs">
                                                 {formatTime(
                                                     thread.lastMessageAt,
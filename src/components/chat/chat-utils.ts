@@ -0,0 +1,29 @@
+type ChatThreadLike = {
+    isGroup: boolean;
+    name: string | null;
+    participants: { id: string; name: string | null }[];
+    otherUser: { name: string | null } | null;
+};
+
+// Group threads without a name are titled after their other participants
+export function getChatThreadTitle(
+    thread: ChatThreadLike,
+    currentUserId?: string,
+) {
+    if (!thread.isGroup) {
+        return thread.otherUser?.name || 'Unknown User';
+    }
+
+    if (thread.name) {
+        return thread.name;
+    }
+
+    const names = thread.participants
+        .filter((participant) => participant.id !== currentUserId)
+        .map((participant) => participant.name?.split(' ')[0] || 'Unknown');
+
+    if (names.length <= 3) {
+        return names.join(', ') || 'Group chat';
+    }
+    return `${names.slice(0, 3).join(', ')} +${names.length - 3}`;
+}
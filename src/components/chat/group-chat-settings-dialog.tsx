@@ -0,0 +1,308 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '@/server/auth/client';
+import { trpc } from '@/providers/trpc-provider';
+import { useChat } from '@/providers/chat-provider';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Settings, UserMinus, UserPlus, LogOut } from 'lucide-react';
+import { toast } from 'sonner';
+
+type GroupChatSettingsDialogProps = {
+    threadId: number;
+};
+
+export function GroupChatSettingsDialog({
+    threadId,
+}: GroupChatSettingsDialogProps) {
+    const { data: session } = useSession();
+    const { setActiveThreadId } = useChat();
+    const utils = trpc.useUtils();
+    const [open, setOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [searchQuery, setSearchQuery] = useState('');
+
+    const { data: thread } = trpc.chat.getThreadById.useQuery(
+        { threadId },
+        { enabled: open },
+    );
+    const { data: orgUsers } = trpc.chat.getOrgUsers.useQuery(undefined, {
+        enabled: open,
+    });
+
+    useEffect(() => {
+        if (thread) {
+            setName(thread.name || '');
+        }
+    }, [thread]);
+
+    const invalidateThread = () => {
+        utils.chat.getThreadById.invalidate({ threadId });
+        utils.chat.getThreads.invalidate();
+    };
+
+    const renameMutation = trpc.chat.renameThread.useMutation({
+        onSuccess: () => {
+            toast.success('Group renamed');
+            invalidateThread();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const addParticipantsMutation = trpc.chat.addParticipants.useMutation({
+        onSuccess: () => {
+            setSearchQuery('');
+            invalidateThread();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const removeParticipantMutation = trpc.chat.removeParticipant.useMutation({
+        onSuccess: (_, variables) => {
+            if (variables.userId === session?.user?.id) {
+                setOpen(false);
+                setActiveThreadId(null);
+                utils.chat.getThreads.invalidate();
+                return;
+            }
+            invalidateThread();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const currentUserId = session?.user?.id;
+    const participants = thread?.participants || [];
+    const participantIds = new Set(participants.map((p) => p.id));
+    const isOwner = participants.some(
+        (p) => p.id === currentUserId && p.role === 'owner',
+    );
+    const hasOwner = participants.some((p) => p.role === 'owner');
+    const canManage = isOwner || !hasOwner;
+
+    const candidates = (orgUsers || []).filter((user) => {
+        if (participantIds.has(user.id)) return false;
+        if (!searchQuery.trim()) return false;
+        const query = searchQuery.toLowerCase();
+        return (
+            user.name?.toLowerCase().includes(query) ||
+            user.email?.toLowerCase().includes(query)
+        );
+    });
+
+    // Function to get initials from name
+    const getInitials = (value: string) => {
+        if (!value) return '?';
+        return value
+            .split(' ')
+            .map((part) => part[0])
+            .join('')
+            .toUpperCase()
+            .substring(0, 2);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    aria-label="Group settings"
+                >
+                    <Settings className="h-4 w-4" />
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Group settings</DialogTitle>
+                    <DialogDescription>
+                        Rename the group and manage who is in the conversation
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Group Name */}
+                <div className="space-y-2">
+                    <Label htmlFor="group-name">Group name</Label>
+                    <div className="flex space-x-2">
+                        <Input
+                            id="group-name"
+                            value={name}
+                            maxLength={100}
+                            placeholder="Untitled group"
+                            onChange={(e) => setName(e.target.value)}
+                        />
+                        <Button
+                            variant="outline"
+                            disabled={
+                                renameMutation.isPending ||
+                                name.trim() === (thread?.name || '')
+                            }
+                            onClick={() =>
+                                renameMutation.mutate({ threadId, name })
+                            }
+                        >
+                            Save
+                        </Button>
+                    </div>
+                </div>
+
+                {/* Participants */}
+                <div className="space-y-2">
+                    <Label>Participants ({participants.length})</Label>
+                    <ScrollArea className="h-48">
+                        <div className="space-y-1">
+                            {participants.map((participant) => (
+                                <div
+                                    key={participant.id}
+                                    className="flex items-center justify-between rounded-md p-1"
+                                >
+                                    <div className="flex items-center space-x-3">
+                                        <Avatar className="h-8 w-8">
+                                            <AvatarImage
+                                                src={
+                                                    participant.image ||
+                                                    undefined
+                                                }
+                                            />
+                                            <AvatarFallback>
+                                                {getInitials(
+                                                    participant.name || '',
+                                                )}
+                                            </AvatarFallback>
+                                        </Avatar>
+                                        <div>
+                                            <p className="text-sm font-medium">
+                                                {participant.name}
+                                                {participant.id ===
+                                                    currentUserId && ' (you)'}
+                                            </p>
+                                            <p className="text-muted-foreground text-xs">
+                                                {participant.email}
+                                                {thread?.participantOrgNames[
+                                                    participant.id
+                                                ] &&
+                                                    ` · ${thread.participantOrgNames[participant.id]}`}
+                                            </p>
+                                        </div>
+                                        {participant.role === 'owner' && (
+                                            <Badge variant="secondary">
+                                                Owner
+                                            </Badge>
+                                        )}
+                                    </div>
+                                    {canManage &&
+                                        participant.id !== currentUserId && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="h-8 w-8 p-0"
+                                                aria-label={`Remove ${participant.name}`}
+                                                disabled={
+                                                    removeParticipantMutation.isPending
+                                                }
+                                                onClick={() =>
+                                                    removeParticipantMutation.mutate(
+                                                        {
+                                                            threadId,
+                                                            userId: participant.id,
+                                                        },
+                                                    )
+                                                }
+                                            >
+                                                <UserMinus className="h-4 w-4" />
+                                            </Button>
+                                        )}
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                </div>
+
+                {/* Add Participants */}
+                {canManage && (
+                    <div className="space-y-2">
+                        <Label htmlFor="add-participant">Add people</Label>
+                        <Input
+                            id="add-participant"
+                            placeholder="Search users..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                        {candidates.length > 0 && (
+                            <div className="max-h-32 space-y-1 overflow-y-auto">
+                                {candidates.map((user) => (
+                                    <Button
+                                        key={user.id}
+                                        variant="ghost"
+                                        className="w-full justify-start"
+                                        disabled={
+                                            addParticipantsMutation.isPending
+                                        }
+                                        onClick={() =>
+                                            addParticipantsMutation.mutate({
+                                                threadId,
+                                                userIds: [user.id],
+                                            })
+                                        }
+                                    >
+                                        <UserPlus className="mr-2 h-4 w-4" />
+                                        {user.name}
+                                        <span className="text-muted-foreground ml-2 text-xs">
+                                            {user.email}
+                                        </span>
+                                        {user.isExternal && user.orgName && (
+                                            <Badge
+                                                variant="outline"
+                                                className="ml-2"
+                                            >
+                                                {user.orgName}
+                                            </Badge>
+                                        )}
+                                    </Button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex justify-between">
+                    <Button
+                        variant="destructive"
+                        disabled={
+                            !currentUserId ||
+                            removeParticipantMutation.isPending
+                        }
+                        onClick={() =>
+                            currentUserId &&
+                            removeParticipantMutation.mutate({
+                                threadId,
+                                userId: currentUserId,
+                            })
+                        }
+                    >
+                        <LogOut className="mr-2 h-4 w-4" />
+                        Leave group
+                    </Button>
+                    <Button variant="outline" onClick={() => setOpen(false)}>
+                        Close
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+export default GroupChatSettingsDialog;
@@ -0,0 +1,47 @@
+'use client';
+
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import type { MentionSuggestion } from '@/hooks/use-chat-mentions';
+
+type MentionSuggestionsProps = {
+    suggestions: MentionSuggestion[];
+    activeIndex: number;
+    onSelect: (user: MentionSuggestion) => void;
+};
+
+export function MentionSuggestions({
+    suggestions,
+    activeIndex,
+    onSelect,
+}: MentionSuggestionsProps) {
+    return (
+        <div className="bg-popover mb-2 rounded-md border p-1">
+            {suggestions.map((user, index) => (
+                <button
+                    key={user.id}
+                    type="button"
+                    className={cn(
+                        'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                        index === activeIndex
+                            ? 'bg-accent text-accent-foreground'
+                            : 'hover:bg-accent',
+                    )}
+                    onMouseDown={(e) => {
+                        // Keep focus in the composer
+                        e.preventDefault();
+                        onSelect(user);
+                    }}
+                >
+                    <Avatar className="h-6 w-6">
+                        <AvatarImage src={user.image || undefined} />
+                        <AvatarFallback className="text-xs">
+                            {user.name.charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                    </Avatar>
+                    <span className="font-medium">{user.name}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
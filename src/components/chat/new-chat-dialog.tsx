@@ -13,15 +13,21 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
-import { Search, Loader2 } from 'lucide-react';
+import { Search, Loader2, Users } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { UserProfilePopover } from '@/components/ui/user-profile-popover';
 
 export function NewChatDialog() {
     const { isNewChatOpen, closeNewChat, setActiveThreadId } = useChat();
+    const utils = trpc.useUtils();
     const [searchQuery, setSearchQuery] = useState('');
+    const [mode, setMode] = useState<'direct' | 'group'>('direct');
+    const [selectedUserIds, setSelectedUserIds] = useState<string[]>([]);
+    const [groupName, setGroupName] = useState('');
 
-    // Get users from the same org
+    // Get users from the same org and from shared communities
     const { data: orgUsers, isLoading } = trpc.chat.getOrgUsers.useQuery();
 
     // Send message mutation to create a new thread
@@ -32,6 +38,18 @@ export function NewChatDialog() {
         },
     });
 
+    // Create a group conversation with the selected users
+    const createGroupMutation = trpc.chat.findOrCreateThread.useMutation({
+        onSuccess: (data) => {
+            utils.chat.getThreads.invalidate();
+            setActiveThreadId(data.threadId);
+            setSelectedUserIds([]);
+            setGroupName('');
+            setMode('direct');
+            closeNewChat();
+        },
+    });
+
     // Filter users based on search query
     const filteredUsers = orgUsers?.filter((user) => {
         if (!searchQuery.trim()) return true;
@@ -62,6 +80,24 @@ export function NewChatDialog() {
         });
     };
 
+    const toggleSelectedUser = (userId: string) => {
+        setSelectedUserIds((prev) =>
+            prev.includes(userId)
+                ? prev.filter((id) => id !== userId)
+                : [...prev, userId],
+        );
+    };
+
+    const createGroup = () => {
+        createGroupMutation.mutate({
+            participantIds: selectedUserIds,
+            name: groupName.trim() || undefined,
+        });
+    };
+
+    const isPending =
+        sendMessageMutation.isPending || createGroupMutation.isPending;
+
     return (
         <Dialog
             open={isNewChatOpen}
@@ -71,11 +107,40 @@ export function NewChatDialog() {
                 <DialogHeader>
                     <DialogTitle>New Message</DialogTitle>
                     <DialogDescription>
-                        Select a user from your organization to start a
-                        conversation
+                        {mode === 'direct'
+                            ? 'Select someone from your organization or a shared community to start a conversation'
+                            : 'Select at least two people to start a group conversation'}
                     </DialogDescription>
                 </DialogHeader>
 
+                {/* Conversation Type */}
+                <div className="flex space-x-2">
+                    <Button
+                        variant={mode === 'direct' ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setMode('direct')}
+                    >
+                        Direct message
+                    </Button>
+                    <Button
+                        variant={mode === 'group' ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setMode('group')}
+                    >
+                        <Users className="mr-2 h-4 w-4" />
+                        Group
+                    </Button>
+                </div>
+
+                {mode === 'group' && (
+                    <Input
+                        placeholder="Group name (optional)"
+                        maxLength={100}
+                        value={groupName}
+                        onChange={(e) => setGroupName(e.target.value)}
+                    />
+                )}
+
                 {/* Search Input */}
                 <div className="relative">
                     <Search className="text-muted-foreground absolute top-2.5 left-2.5 h-4 w-4" />
@@ -100,10 +165,23 @@ export function NewChatDialog() {
                                     key={user.id}
                                     variant="ghost"
                                     className="w-full justify-start"
-                                    onClick={() => startChat(user.id)}
-                                    disabled={sendMessageMutation.isPending}
+                                    onClick={() =>
+                                        mode === 'direct'
+                                            ? startChat(user.id)
+                                            : toggleSelectedUser(user.id)
+                                    }
+                                    disabled={isPending}
                                 >
                                     <div className="flex items-center space-x-3">
+                                        {mode === 'group' && (
+                                            <Checkbox
+                                                checked={selectedUserIds.includes(
+                                                    user.id,
+                                                )}
+                                                tabIndex={-1}
+                                                aria-hidden
+                                            />
+                                        )}
                                         <UserProfilePopover userId={user.id}>
                                             <Avatar className="h-8 w-8">
                                                 <AvatarImage
@@ -124,6 +202,15 @@ export function NewChatDialog() {
                                             >
                                                 <p className="text-sm font-medium">
                                                     {user.name}
+                                                    {user.isExternal &&
+                                                        user.orgName && (
+                                                            <Badge
+                                                                variant="outline"
+                                                                className="ml-2"
+                                                            >
+                                                                {user.orgName}
+                                                            </Badge>
+                                                        )}
                                                 </p>
                                             </UserProfilePopover>
                                             <p className="text-muted-foreground text-xs">
@@ -142,22 +229,34 @@ export function NewChatDialog() {
                             <p className="text-muted-foreground text-xs">
                                 {searchQuery
                                     ? 'Try a different search term'
-                                    : 'There are no other users in your organization'}
+                                    : 'There is nobody in your organization or shared communities yet'}
                             </p>
                         </div>
                     )}
                 </ScrollArea>
 
-                {sendMessageMutation.isError && (
+                {(sendMessageMutation.isError ||
+                    createGroupMutation.isError) && (
                     <p className="text-destructive text-xs">
                         Failed to start conversation. Please try again.
                     </p>
                 )}
 
-                <div className="flex justify-end">
+                <div className="flex justify-end space-x-2">
                     <Button variant="outline" onClick={closeNewChat}>
                         Cancel
                     </Button>
+                    {mode === 'group' && (
+                        <Button
+                            onClick={createGroup}
+                            disabled={selectedUserIds.length < 2 || isPending}
+                        >
+                            {createGroupMutation.isPending && (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            )}
+                            Create group ({selectedUserIds.length})
+                        </Button>
+                    )}
                 </div>
             </DialogContent>
         </Dialog>
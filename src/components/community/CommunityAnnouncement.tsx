@@ -0,0 +1,94 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { Megaphone, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getHtmlPreview } from '@/lib/sanitize';
+import type { PostDisplay } from '@/app/posts/page';
+
+const DISMISSED_KEY = 'dismissed-announcements';
+
+const readDismissed = (): number[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        return JSON.parse(localStorage.getItem(DISMISSED_KEY) ?? '[]');
+    } catch {
+        return [];
+    }
+};
+
+interface CommunityAnnouncementProps {
+    communitySlug: string;
+    posts: PostDisplay[];
+}
+
+// Banner for the community's newest announcement until the viewer dismisses it
+export function CommunityAnnouncement({
+    communitySlug,
+    posts,
+}: CommunityAnnouncementProps) {
+    const [dismissed, setDismissed] = useState<number[]>([]);
+
+    useEffect(() => {
+        setDismissed(readDismissed());
+    }, []);
+
+    const announcement = useMemo(
+        () =>
+            posts
+                .filter(
+                    (post) =>
+                        post.isAnnouncement && !dismissed.includes(post.id),
+                )
+                .sort(
+                    (a, b) =>
+                        new Date(b.createdAt).getTime() -
+                        new Date(a.createdAt).getTime(),
+                )[0],
+        [posts, dismissed],
+    );
+
+    if (!announcement) return null;
+
+    const handleDismiss = () => {
+        // Keep the list short; old announcements rarely come back
+        const next = [...dismissed, announcement.id].slice(-50);
+        try {
+            localStorage.setItem(DISMISSED_KEY, JSON.stringify(next));
+        } catch (error) {
+            console.error('Failed to write to localStorage:', error);
+        }
+        setDismissed(next);
+    };
+
+    const preview = getHtmlPreview(announcement.content, 160);
+
+    return (
+        <div className="mb-4 flex items-start gap-3 rounded-lg border border-rose-200 bg-rose-50 p-4 dark:border-rose-900 dark:bg-rose-950/40">
+            <Megaphone className="mt-0.5 h-5 w-5 shrink-0 text-rose-600" />
+            <div className="min-w-0 flex-1">
+                <Link
+                    href={`/communities/${communitySlug}/posts/${announcement.id}`}
+                    className="font-medium hover:underline"
+                >
+                    {announcement.title}
+                </Link>
+                {preview && (
+                    <p className="text-muted-foreground line-clamp-2 text-sm">
+                        {preview}
+                    </p>
+                )}
+            </div>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                aria-label="Dismiss announcement"
+                onClick={handleDismiss}
+            >
+                <X className="h-4 w-4" />
+            </Button>
+        </div>
+    );
+}
@@ -14,6 +14,9 @@ import {
     Crown,
     UserMinus,
     MoreHorizontal,
+    Ban,
+    VolumeX,
+    Volume2,
 } from 'lucide-react';
 import {
     Table,
@@ -51,6 +54,12 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 import { Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import {
+    MemberRestrictionDialog,
+    type RestrictionType,
+} from './MemberRestrictionDialog';
 import type {
     User,
     CommunityMember,
@@ -82,6 +91,7 @@ interface CommunityMembersProps {
         users: { userId: string; role: 'member' | 'moderator' }[],
     ) => Promise<void>;
     isAddingMembers: boolean;
+    onMembersChanged?: () => void;
 }
 
 export function CommunityMembers({
@@ -103,6 +113,7 @@ export function CommunityMembers({
     availableOrgMembers,
     onAddMembers,
     isAddingMembers,
+    onMembersChanged,
 }: CommunityMembersProps) {
     const [isInviteEmailDialogOpen, setIsInviteEmailDialogOpen] =
         useState(false);
@@ -112,6 +123,50 @@ export function CommunityMembers({
         'member' | 'moderator'
     >('member');
     const [memberSearchTerm, setMemberSearchTerm] = useState('');
+    const [restrictionTarget, setRestrictionTarget] = useState<{
+        type: RestrictionType;
+        user: { id: string; name: string | null };
+    } | null>(null);
+
+    const utils = trpc.useUtils();
+    const { data: restrictions } = trpc.communities.getRestrictions.useQuery(
+        { communityId: community.id },
+        { enabled: canManageCommunityMembers },
+    );
+    const mutedUntilByUserId = useMemo(
+        () =>
+            new Map(
+                (restrictions?.mutes ?? []).map((mute) => [
+                    mute.userId,
+                    new Date(mute.expiresAt),
+                ]),
+            ),
+        [restrictions?.mutes],
+    );
+
+    const unbanMutation = trpc.communities.unbanUser.useMutation({
+        onSuccess: () => {
+            utils.communities.getRestrictions.invalidate({
+                communityId: community.id,
+            });
+            onMembersChanged?.();
+            toast.success('User unbanned');
+        },
+        onError: (error) => {
+            toast.error(error.message || 'Failed to unban user');
+        },
+    });
+    const unmuteMutation = trpc.communities.unmuteUser.useMutation({
+        onSuccess: () => {
+            utils.communities.getRestrictions.invalidate({
+                communityId: community.id,
+            });
+            toast.success('User unmuted');
+        },
+        onError: (error) => {
+            toast.error(error.message || 'Failed to unmute user');
+        },
+    });
 
     // Memoize the sorted and paginated members to avoid recalculating on every render
     const paginatedMembers = useMemo(() => {
@@ -575,6 +630,21 @@ export function CommunityMembers({
                                                               ? 'Moderator'
                                                               : 'Member'}
                                                     </Badge>
+                                                    {mutedUntilByUserId.has(
+                                                        member.userId,
+                                                    ) && (
+                                                        <Badge
+                                                            variant="outline"
+                                                            className="ml-1"
+                                                            title={`Muted until ${mutedUntilByUserId
+                                                                .get(
+                                                                    member.userId,
+                                                                )
+                                                                ?.toLocaleString()}`}
+                                                        >
+                                                            Muted
+                                                        </Badge>
+                                                    )}
                                                 </TableCell>
                                                 <TableCell className="text-center">
                                                     {member.joinedAt
@@ -691,6 +761,63 @@ export function CommunityMembers({
                                                                         User
                                                                     </DropdownMenuItem>
                                                                 )}
+                                                                {canKickMember(
+                                                                    member.role,
+                                                                    member.userId,
+                                                                ) &&
+                                                                    member.user && (
+                                                                        <>
+                                                                            {mutedUntilByUserId.has(
+                                                                                member.userId,
+                                                                            ) ? (
+                                                                                <DropdownMenuItem
+                                                                                    onClick={() =>
+                                                                                        unmuteMutation.mutate(
+                                                                                            {
+                                                                                                communityId:
+                                                                                                    community.id,
+                                                                                                userId: member.userId,
+                                                                                            },
+                                                                                        )
+                                                                                    }
+                                                                                >
+                                                                                    <Volume2 className="mr-2 h-4 w-4" />
+                                                                                    Unmute
+                                                                                    User
+                                                                                </DropdownMenuItem>
+                                                                            ) : (
+                                                                                <DropdownMenuItem
+                                                                                    onClick={() =>
+                                                                                        setRestrictionTarget(
+                                                                                            {
+                                                                                                type: 'mute',
+                                                                                                user: member.user!,
+                                                                                            },
+                                                                                        )
+                                                                                    }
+                                                                                >
+                                                                                    <VolumeX className="mr-2 h-4 w-4" />
+                                                                                    Mute
+                                                                                    User
+                                                                                </DropdownMenuItem>
+                                                                            )}
+                                                                            <DropdownMenuItem
+                                                                                onClick={() =>
+                                                                                    setRestrictionTarget(
+                                                                                        {
+                                                                                            type: 'ban',
+                                                                                            user: member.user!,
+                                                                                        },
+                                                                                    )
+                                                                                }
+                                                                                className="text-destructive"
+                                                                            >
+                                                                                <Ban className="mr-2 h-4 w-4" />
+                                                                                Ban
+                                                                                User
+                                                                            </DropdownMenuItem>
+                                                                        </>
+                                                                    )}
 
                                                                 {/* Show disabled message for actions moderators can't perform */}
                                                                 {!canKickMember(
@@ -874,8 +1001,96 @@ export function CommunityMembers({
                 ) : (
                     <p className="text-muted-foreground">No members found.</p>
                 )}
+
+                {canManageCommunityMembers &&
+                    restrictions &&
+                    restrictions.bans.length > 0 && (
+                        <div>
+                            <h3 className="mb-2 text-lg font-semibold">
+                                Banned Users
+                            </h3>
+                            <div className="overflow-hidden rounded-md border">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>User</TableHead>
+                                            <TableHead>Reason</TableHead>
+                                            <TableHead>Expires</TableHead>
+                                            <TableHead className="text-right">
+                                                Actions
+                                            </TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {restrictions.bans.map((ban) => (
+                                            <TableRow key={ban.id}>
+                                                <TableCell>
+                                                    <p className="font-medium">
+                                                        {ban.user?.name}
+                                                    </p>
+                                                    <p className="text-muted-foreground text-xs">
+                                                        {ban.user?.email}
+                                                    </p>
+                                                </TableCell>
+                                                <TableCell>
+                                                    {ban.reason || '—'}
+                                                    {ban.bannedByUser && (
+                                                        <p className="text-muted-foreground text-xs">
+                                                            Banned by{' '}
+                                                            {
+                                                                ban.bannedByUser
+                                                                    .name
+                                                            }
+                                                        </p>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>
+                                                    {ban.expiresAt
+                                                        ? new Date(
+                                                              ban.expiresAt,
+                                                          ).toLocaleString()
+                                                        : 'Never'}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        disabled={
+                                                            unbanMutation.isPending
+                                                        }
+                                                        onClick={() =>
+                                                            unbanMutation.mutate(
+                                                                {
+                                                                    communityId:
+                                                                        community.id,
+                                                                    userId: ban.userId,
+                                                                },
+                                                            )
+                                                        }
+                                                    >
+                                                        Unban
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        </div>
+                    )}
             </div>
 
+            <MemberRestrictionDialog
+                open={!!restrictionTarget}
+                onOpenChange={(open) => {
+                    if (!open) setRestrictionTarget(null);
+                }}
+                type={restrictionTarget?.type ?? 'mute'}
+                communityId={community.id}
+                user={restrictionTarget?.user ?? null}
+                onSuccess={onMembersChanged}
+            />
+
             <InviteEmailDialog
                 open={isInviteEmailDialogOpen}
                 onOpenChange={setIsInviteEmailDialogOpen}
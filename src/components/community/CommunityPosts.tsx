@@ -17,6 +17,7 @@ import { SortSelect, type SortOption } from '@/components/ui/sort-select';
 import { PostsFilter } from '@/components/post-filter';
 import type { PostDisplay } from '@/app/posts/page';
 import PostCard from '@/components/posts/PostCard';
+import { CommunityAnnouncement } from '@/components/community/CommunityAnnouncement';
 
 interface CommunityPostsProps {
     community: any;
@@ -24,6 +25,7 @@ interface CommunityPostsProps {
     isMember: boolean;
     canInteract: boolean;
     canCreatePost: boolean;
+    canPinPosts: boolean;
     filteredPosts: PostDisplay[];
     showMyPosts: boolean;
     selectedTagFilters: number[];
@@ -47,6 +49,7 @@ export function CommunityPosts({
     isMember,
     canInteract,
     canCreatePost,
+    canPinPosts,
     filteredPosts,
     showMyPosts,
     selectedTagFilters,
@@ -415,6 +418,11 @@ export function CommunityPosts({
                             </p>
                     </div> */}
 
+                    <CommunityAnnouncement
+                        communitySlug={community.slug}
+                        posts={community.posts || []}
+                    />
+
                     {/* Search, Sort, and Filter Controls */}
                     <div className="mb-4 flex flex-wrap items-center gap-2">
                         <div className="min-w-0 flex-1 md:basis-1/3">
@@ -471,6 +479,7 @@ export function CommunityPosts({
                                         session={session}
                                         canEdit={canEditPost(post)}
                                         canDelete={canDeletePost(post)}
+                                        canPin={canPinPosts}
                                         canInteract={canInteract}
                                         onEdit={() => {
                                             router.push(
@@ -0,0 +1,459 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, EyeOff, Trash2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { getRelativeTime } from '@/lib/utils';
+import {
+    REPORT_REASON_LABELS,
+    type ReportReason,
+    type ReportTargetType,
+} from '@/components/report-content-dialog';
+
+const PAGE_SIZE = 10;
+
+type ModerationAction = 'dismiss' | 'hide' | 'delete' | 'warn';
+
+// Logged actions also include revisions restored from a post's edit history
+const ACTION_LABELS: Record<ModerationAction | 'restore_revision', string> = {
+    dismiss: 'Dismissed',
+    hide: 'Hidden',
+    delete: 'Deleted',
+    warn: 'Warned author',
+    restore_revision: 'Restored revision',
+};
+
+interface CommunityReportsProps {
+    communityId: number;
+    communitySlug: string;
+}
+
+export function CommunityReports({
+    communityId,
+    communitySlug,
+}: CommunityReportsProps) {
+    const [queueOffset, setQueueOffset] = useState(0);
+    const [logOffset, setLogOffset] = useState(0);
+    const [notes, setNotes] = useState<Record<string, string>>({});
+
+    const utils = trpc.useUtils();
+    const queueQuery = trpc.community.getReportQueue.useQuery({
+        communityId,
+        limit: PAGE_SIZE,
+        offset: queueOffset,
+    });
+    const logQuery = trpc.community.getModerationLog.useQuery({
+        communityId,
+        limit: PAGE_SIZE,
+        offset: logOffset,
+    });
+
+    const resolveMutation = trpc.community.resolveReport.useMutation({
+        onSuccess: (_data, variables) => {
+            toast.success(
+                `${ACTION_LABELS[variables.action]} ${variables.targetType}`,
+            );
+            setNotes((prev) => {
+                const next = { ...prev };
+                delete next[`${variables.targetType}:${variables.targetId}`];
+                return next;
+            });
+            utils.community.getReportQueue.invalidate({ communityId });
+            utils.community.getModerationLog.invalidate({ communityId });
+        },
+        onError: (error) => {
+            toast.error(error.message || 'Failed to resolve report');
+        },
+    });
+
+    const handleResolve = (
+        targetType: string,
+        targetId: number,
+        action: ModerationAction,
+    ) => {
+        const note = notes[`${targetType}:${targetId}`]?.trim();
+        resolveMutation.mutate({
+            targetType: targetType as ReportTargetType,
+            targetId,
+            action,
+            note: note || undefined,
+        });
+    };
+
+    const queue = queueQuery.data;
+    const log = logQuery.data;
+
+    return (
+        <div className="space-y-8">
+            <div>
+                <h2 className="mb-2 text-xl font-semibold">Reported Content</h2>
+                <p className="text-muted-foreground mb-4 text-sm">
+                    Review posts, comments and answers flagged by members
+                </p>
+
+                {queueQuery.isLoading ? (
+                    <p className="text-muted-foreground py-8 text-center">
+                        Loading reports...
+                    </p>
+                ) : queue && queue.items.length > 0 ? (
+                    <div className="space-y-4">
+                        {queue.items.map((item) => {
+                            const key = `${item.targetType}:${item.targetId}`;
+                            return (
+                                <div
+                                    key={key}
+                                    className="space-y-3 rounded-md border p-4"
+                                >
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <Badge variant="outline">
+                                            {item.targetType}
+                                        </Badge>
+                                        <Badge variant="destructive">
+                                            {item.reportCount}{' '}
+                                            {item.reportCount === 1
+                                                ? 'report'
+                                                : 'reports'}
+                                        </Badge>
+                                        {item.reasons.map((reason) => (
+                                            <Badge
+                                                key={reason}
+                                                variant="secondary"
+                                            >
+                                                {REPORT_REASON_LABELS[
+                                                    reason as ReportReason
+                                                ] ?? reason}
+                                            </Badge>
+                                        ))}
+                                        {item.isHidden && (
+                                            <Badge variant="outline">
+                                                Hidden
+                                            </Badge>
+                                        )}
+                                        {item.isDeleted && (
+                                            <Badge variant="outline">
+                                                Deleted
+                                            </Badge>
+                                        )}
+                                        <span className="text-muted-foreground ml-auto text-xs">
+                                            Last reported{' '}
+                                            {item.lastReportedAt
+                                                ? getRelativeTime(
+                                                      new Date(
+                                                          item.lastReportedAt,
+                                                      ),
+                                                  )
+                                                : ''}
+                                        </span>
+                                    </div>
+
+                                    <div className="text-sm">
+                                        <div className="text-muted-foreground mb-1 text-xs">
+                                            By {item.author?.name || 'Unknown'}{' '}
+                                            in{' '}
+                                            <Link
+                                                href={`/communities/${communitySlug}/posts/${item.postId}`}
+                                                className="hover:underline"
+                                            >
+                                                {item.postTitle || 'a post'}
+                                            </Link>
+                                        </div>
+                                        <p className="bg-muted/40 rounded p-2">
+                                            {item.excerpt || (
+                                                <span className="italic">
+                                                    No text content
+                                                </span>
+                                            )}
+                                        </p>
+                                    </div>
+
+                                    <ul className="space-y-1 text-xs">
+                                        {item.reports.map((report) => (
+                                            <li
+                                                key={report.id}
+                                                className="text-muted-foreground"
+                                            >
+                                                <span className="text-foreground font-medium">
+                                                    {report.reporter?.name ||
+                                                        'Unknown'}
+                                                </span>
+                                                :{' '}
+                                                {REPORT_REASON_LABELS[
+                                                    report.reason as ReportReason
+                                                ] ?? report.reason}
+                                                {report.details &&
+                                                    ` — ${report.details}`}
+                                            </li>
+                                        ))}
+                                    </ul>
+
+                                    <Textarea
+                                        value={notes[key] || ''}
+                                        onChange={(e) =>
+                                            setNotes((prev) => ({
+                                                ...prev,
+                                                [key]: e.target.value,
+                                            }))
+                                        }
+                                        maxLength={1000}
+                                        placeholder="Optional note (sent to the author when warning)"
+                                        className="min-h-[60px] text-sm"
+                                    />
+
+                                    <div className="flex flex-wrap justify-end gap-2">
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={resolveMutation.isPending}
+                                            onClick={() =>
+                                                handleResolve(
+                                                    item.targetType,
+                                                    item.targetId,
+                                                    'dismiss',
+                                                )
+                                            }
+                                        >
+                                            <XCircle className="mr-1 h-4 w-4" />
+                                            Dismiss
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={resolveMutation.isPending}
+                                            onClick={() =>
+                                                handleResolve(
+                                                    item.targetType,
+                                                    item.targetId,
+                                                    'warn',
+                                                )
+                                            }
+                                        >
+                                            <AlertTriangle className="mr-1 h-4 w-4" />
+                                            Warn author
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={
+                                                resolveMutation.isPending ||
+                                                item.isHidden ||
+                                                item.isDeleted
+                                            }
+                                            onClick={() =>
+                                                handleResolve(
+                                                    item.targetType,
+                                                    item.targetId,
+                                                    'hide',
+                                                )
+                                            }
+                                        >
+                                            <EyeOff className="mr-1 h-4 w-4" />
+                                            Hide
+                                        </Button>
+                                        <Button
+                                            variant="destructive"
+                                            size="sm"
+                                            disabled={
+                                                resolveMutation.isPending ||
+                                                item.isDeleted
+                                            }
+                                            onClick={() =>
+                                                handleResolve(
+                                                    item.targetType,
+                                                    item.targetId,
+                                                    'delete',
+                                                )
+                                            }
+                                        >
+                                            <Trash2 className="mr-1 h-4 w-4" />
+                                            Delete
+                                        </Button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+
+                        {(queueOffset > 0 || queue.hasNextPage) && (
+                            <div className="flex justify-between">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={queueOffset === 0}
+                                    onClick={() =>
+                                        setQueueOffset(
+                                            Math.max(
+                                                0,
+                                                queueOffset - PAGE_SIZE,
+                                            ),
+                                        )
+                                    }
+                                >
+                                    Previous
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={!queue.hasNextPage}
+                                    onClick={() =>
+                                        setQueueOffset(
+                                            queue.nextOffset ?? queueOffset,
+                                        )
+                                    }
+                                >
+                                    Next
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-muted-foreground py-8 text-center">
+                        No open reports at this time.
+                    </p>
+                )}
+            </div>
+
+            <div>
+                <h2 className="mb-2 text-xl font-semibold">Moderation Log</h2>
+                <p className="text-muted-foreground mb-4 text-sm">
+                    Actions taken by moderators in this community
+                </p>
+
+                {log && log.actions.length > 0 ? (
+                    <div className="space-y-4">
+                        <div className="overflow-hidden rounded-md border">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Moderator</TableHead>
+                                        <TableHead>Action</TableHead>
+                                        <TableHead>Content</TableHead>
+                                        <TableHead>When</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {log.actions.map((action) => (
+                                        <TableRow key={action.id}>
+                                            <TableCell>
+                                                <div className="flex items-center gap-2">
+                                                    <Avatar className="h-6 w-6">
+                                                        <AvatarImage
+                                                            src={
+                                                                action.moderator
+                                                                    ?.image ||
+                                                                undefined
+                                                            }
+                                                        />
+                                                        <AvatarFallback>
+                                                            {action.moderator?.name
+                                                                ?.substring(
+                                                                    0,
+                                                                    2,
+                                                                )
+                                                                .toUpperCase() ||
+                                                                'U'}
+                                                        </AvatarFallback>
+                                                    </Avatar>
+                                                    <span>
+                                                        {action.moderator
+                                                            ?.name || 'Unknown'}
+                                                    </span>
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant="secondary">
+                                                    {
+                                                        ACTION_LABELS[
+                                                            action.action as keyof typeof ACTION_LABELS
+                                                        ]
+                                                    }
+                                                </Badge>
+                                                {action.note && (
+                                                    <div className="text-muted-foreground mt-1 text-xs">
+                                                        {action.note}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="text-sm">
+                                                    {action.targetType} by{' '}
+                                                    {action.targetAuthor
+                                                        ?.name || 'Unknown'}
+                                                </div>
+                                                {action.post && (
+                                                    <Link
+                                                        href={`/communities/${communitySlug}/posts/${action.post.id}`}
+                                                        className="text-muted-foreground text-xs hover:underline"
+                                                    >
+                                                        {action.post.title}
+                                                    </Link>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                {new Date(
+                                                    action.createdAt,
+                                                ).toLocaleDateString()}
+                                                <div className="text-muted-foreground mt-1 text-xs">
+                                                    {getRelativeTime(
+                                                        new Date(
+                                                            action.createdAt,
+                                                        ),
+                                                    )}
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        {(logOffset > 0 || log.hasNextPage) && (
+                            <div className="flex justify-between">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={logOffset === 0}
+                                    onClick={() =>
+                                        setLogOffset(
+                                            Math.max(0, logOffset - PAGE_SIZE),
+                                        )
+                                    }
+                                >
+                                    Previous
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={!log.hasNextPage}
+                                    onClick={() =>
+                                        setLogOffset(
+                                            log.nextOffset ?? logOffset,
+                                        )
+                                    }
+                                >
+                                    Next
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-muted-foreground py-8 text-center">
+                        No moderation actions yet.
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
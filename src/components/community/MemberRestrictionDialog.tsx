@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+
+export type RestrictionType = 'ban' | 'mute';
+
+const HOUR = 60 * 60 * 1000;
+
+// Durations in milliseconds; 'permanent' is only offered for bans
+const DURATION_OPTIONS: { value: string; label: string; ms: number | null }[] =
+    [
+        { value: '1h', label: '1 hour', ms: HOUR },
+        { value: '24h', label: '24 hours', ms: 24 * HOUR },
+        { value: '7d', label: '7 days', ms: 7 * 24 * HOUR },
+        { value: '30d', label: '30 days', ms: 30 * 24 * HOUR },
+        { value: 'permanent', label: 'Permanent', ms: null },
+    ];
+
+interface MemberRestrictionDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    type: RestrictionType;
+    communityId: number;
+    user: { id: string; name: string | null } | null;
+    onSuccess?: () => void;
+}
+
+export function MemberRestrictionDialog({
+    open,
+    onOpenChange,
+    type,
+    communityId,
+    user,
+    onSuccess,
+}: MemberRestrictionDialogProps) {
+    const [duration, setDuration] = useState('24h');
+    const [reason, setReason] = useState('');
+
+    const utils = trpc.useUtils();
+    const durationOptions = DURATION_OPTIONS.filter(
+        (option) => type === 'ban' || option.ms !== null,
+    );
+
+    const handleSuccess = (message: string) => {
+        toast.success(message);
+        utils.communities.getRestrictions.invalidate({ communityId });
+        setDuration('24h');
+        setReason('');
+        onOpenChange(false);
+        onSuccess?.();
+    };
+
+    const banMutation = trpc.communities.banUser.useMutation({
+        onSuccess: () => handleSuccess('User banned from community'),
+        onError: (error) => {
+            toast.error(error.message || 'Failed to ban user');
+        },
+    });
+    const muteMutation = trpc.communities.muteUser.useMutation({
+        onSuccess: () => handleSuccess('User muted'),
+        onError: (error) => {
+            toast.error(error.message || 'Failed to mute user');
+        },
+    });
+
+    const isPending = banMutation.isPending || muteMutation.isPending;
+
+    const handleSubmit = () => {
+        if (!user) return;
+
+        const ms = durationOptions.find(
+            (option) => option.value === duration,
+        )?.ms;
+        const expiresAt = ms ? new Date(Date.now() + ms) : undefined;
+        const trimmedReason = reason.trim() || undefined;
+
+        if (type === 'ban') {
+            banMutation.mutate({
+                communityId,
+                userId: user.id,
+                reason: trimmedReason,
+                expiresAt,
+            });
+        } else if (expiresAt) {
+            muteMutation.mutate({
+                communityId,
+                userId: user.id,
+                reason: trimmedReason,
+                expiresAt,
+            });
+        }
+    };
+
+    const name = user?.name || 'this user';
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>
+                        {type === 'ban' ? `Ban ${name}` : `Mute ${name}`}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {type === 'ban'
+                            ? 'Banned users are removed from the community and cannot rejoin until the ban expires.'
+                            : 'Muted members can still read the community but cannot post, comment, answer or vote until the mute expires.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <Label>Duration</Label>
+                        <Select value={duration} onValueChange={setDuration}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {durationOptions.map((option) => (
+                                    <SelectItem
+                                        key={option.value}
+                                        value={option.value}
+                                    >
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="restriction-reason">
+                            Reason (optional)
+                        </Label>
+                        <Textarea
+                            id="restriction-reason"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            maxLength={500}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        variant="destructive"
+                        onClick={handleSubmit}
+                        disabled={isPending || !user}
+                    >
+                        {isPending
+                            ? 'Saving...'
+                            : type === 'ban'
+                              ? 'Ban'
+                              : 'Mute'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -4,7 +4,10 @@ export { CommunityOverview } from './CommunityOverview';
 export { CommunityTags } from './CommunityTags';
 export { CommunityTagsSidebar } from './CommunityTagsSidebar';
 export { CommunityPosts } from './CommunityPosts';
+export { CommunityAnnouncement } from './CommunityAnnouncement';
 export { CommunityMembers } from './CommunityMembers';
 export { CommunityManage } from './CommunityManage';
+export { CommunityReports } from './CommunityReports';
+export { MemberRestrictionDialog } from './MemberRestrictionDialog';
 export { CommunityDialogs } from './CommunityDialogs';
 export { CommunitySkeleton } from './CommunitySkeleton';
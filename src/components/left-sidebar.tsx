@@ -11,12 +11,16 @@ import {
     Users,
     Globe,
     Bookmark,
+    Search,
     Bell,
     Plus,
     User,
     LogOut,
     Building,
     Settings,
+    ScrollText,
+    AtSign,
+    FileText,
 } from 'lucide-react';
 import {
     Popover,
@@ -146,12 +150,36 @@ export function LeftSidebar() {
                         Explore Communities
                     </Link>
 
+                    {/* Search */}
+                    <Link href="/search" className={getNavLinkClass('/search')}>
+                        <Search className="mr-3 h-5 w-5" />
+                        Search
+                    </Link>
+
+                    {/* Mentions */}
+                    <Link
+                        href="/mentions"
+                        className={getNavLinkClass('/mentions')}
+                    >
+                        <AtSign className="mr-3 h-5 w-5" />
+                        Mentions
+                    </Link>
+
                     {/* Saved Items */}
                     <Link href="/saved" className={getNavLinkClass('/saved')}>
                         <Bookmark className="mr-3 h-5 w-5" />
                         Saved Items
                     </Link>
 
+                    {/* Drafts */}
+                    <Link
+                        href="/posts/drafts"
+                        className={getNavLinkClass('/posts/drafts')}
+                    >
+                        <FileText className="mr-3 h-5 w-5" />
+                        Drafts
+                    </Link>
+
                     {/* Create Post */}
                     <CreatePostDialog>
                         <Button
@@ -251,6 +279,17 @@ export function LeftSidebar() {
                                         </Link>
                                     )}
 
+                                {isOrgAdmin && (
+                                    <Link
+                                        href="/admin/audit-log"
+                                        className="hover:bg-accent flex items-center space-x-2 rounded-md p-2 text-sm"
+                                        onClick={() => setPopoverOpen(false)}
+                                    >
+                                        <ScrollText className="h-4 w-4" />
+                                        <span>Audit Log</span>
+                                    </Link>
+                                )}
+
                                 <button
                                     onClick={handleSignOut}
                                     className="hover:bg-accent flex items-center space-x-2 rounded-md p-2 text-sm"
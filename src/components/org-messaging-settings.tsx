@@ -0,0 +1,77 @@
+'use client';
+
+import { trpc } from '@/providers/trpc-provider';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+
+interface OrgMessagingSettingsProps {
+    orgId: string;
+    slug: string;
+    allowCrossOrgDM: boolean;
+}
+
+export function OrgMessagingSettings({
+    orgId,
+    slug,
+    allowCrossOrgDM,
+}: OrgMessagingSettingsProps) {
+    const utils = trpc.useUtils();
+
+    const updateCrossOrgDM = trpc.organizations.updateCrossOrgDM.useMutation({
+        onSuccess: (data) => {
+            utils.organizations.getOrganizationWithCommunities.invalidate({
+                slug,
+            });
+            toast.success(
+                data.allowCrossOrgDM
+                    ? 'Cross-organization messaging enabled'
+                    : 'Cross-organization messaging disabled',
+            );
+        },
+        onError: (err) => {
+            toast.error('Failed to update messaging settings', {
+                description: err.message,
+            });
+        },
+    });
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h2 className="mb-1 text-xl font-semibold">Messaging</h2>
+                <p className="text-muted-foreground text-sm">
+                    Control who members of this organization can message.
+                </p>
+            </div>
+
+            <div className="flex items-start justify-between gap-4 rounded-md border p-4">
+                <div className="space-y-1">
+                    <Label htmlFor="allow-cross-org-dm">
+                        Allow messages with other organizations
+                    </Label>
+                    <p className="text-muted-foreground text-sm">
+                        Members can message users of other organizations that
+                        allow it too. Users who share a community can always
+                        message each other.
+                    </p>
+                </div>
+                <Switch
+                    id="allow-cross-org-dm"
+                    checked={
+                        updateCrossOrgDM.isPending
+                            ? updateCrossOrgDM.variables.allowCrossOrgDM
+                            : allowCrossOrgDM
+                    }
+                    disabled={updateCrossOrgDM.isPending}
+                    onCheckedChange={(checked) =>
+                        updateCrossOrgDM.mutate({
+                            orgId,
+                            allowCrossOrgDM: checked,
+                        })
+                    }
+                />
+            </div>
+        </div>
+    );
+}
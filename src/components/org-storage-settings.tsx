@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+
+interface OrgStorageSettingsProps {
+    orgId: string;
+}
+
+function formatBytes(bytes: number) {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    if (bytes < 1024 * 1024 * 1024)
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+const formatQuota = (bytes: number | null) =>
+    bytes === null ? 'Unlimited' : formatBytes(bytes);
+
+// Empty input restores the default quota
+const parseQuotaInput = (value: string) =>
+    value.trim() === '' ? null : Number(value);
+
+export function OrgStorageSettings({ orgId }: OrgStorageSettingsProps) {
+    const utils = trpc.useUtils();
+    const usage = trpc.organizations.getStorageUsage.useQuery({ orgId });
+
+    const [orgQuotaInput, setOrgQuotaInput] = useState('');
+    const [userQuotaInput, setUserQuotaInput] = useState('');
+
+    useEffect(() => {
+        if (!usage.data) return;
+        setOrgQuotaInput(usage.data.storageQuotaMb?.toString() ?? '');
+        setUserQuotaInput(usage.data.userStorageQuotaMb?.toString() ?? '');
+    }, [usage.data]);
+
+    const updateQuotas = trpc.organizations.updateStorageQuotas.useMutation({
+        onSuccess: () => {
+            utils.organizations.getStorageUsage.invalidate({ orgId });
+            toast.success('Storage quotas updated');
+        },
+        onError: (err) => {
+            toast.error('Failed to update storage quotas', {
+                description: err.message,
+            });
+        },
+    });
+
+    const handleSave = () => {
+        const storageQuotaMb = parseQuotaInput(orgQuotaInput);
+        const userStorageQuotaMb = parseQuotaInput(userQuotaInput);
+        const isValid = (value: number | null) =>
+            value === null || (Number.isInteger(value) && value > 0);
+        if (!isValid(storageQuotaMb) || !isValid(userStorageQuotaMb)) {
+            toast.error('Quotas must be whole numbers of MB');
+            return;
+        }
+        updateQuotas.mutate({ orgId, storageQuotaMb, userStorageQuotaMb });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <h2 className="mb-1 text-xl font-semibold">Storage</h2>
+                <p className="text-muted-foreground text-sm">
+                    Images, videos and files uploaded by members of this
+                    organization.
+                </p>
+            </div>
+
+            {usage.isLoading ? (
+                <div className="flex justify-center py-6">
+                    <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+                </div>
+            ) : usage.data ? (
+                <>
+                    <div className="space-y-2 rounded-md border p-4">
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium">
+                                {formatBytes(usage.data.used)} used
+                            </span>
+                            <span className="text-muted-foreground">
+                                of {formatQuota(usage.data.orgQuota)}
+                            </span>
+                        </div>
+                        {usage.data.orgQuota !== null && (
+                            <Progress
+                                value={Math.min(
+                                    100,
+                                    (usage.data.used / usage.data.orgQuota) *
+                                        100,
+                                )}
+                            />
+                        )}
+                        <p className="text-muted-foreground text-sm">
+                            Each member can upload up to{' '}
+                            {formatQuota(usage.data.userQuota)}.
+                        </p>
+                    </div>
+
+                    <div className="rounded-md border">
+                        <div className="border-b px-4 py-2 text-sm font-medium">
+                            Top members by storage
+                        </div>
+                        {usage.data.users.length === 0 ? (
+                            <p className="text-muted-foreground px-4 py-6 text-center text-sm">
+                                No uploads yet
+                            </p>
+                        ) : (
+                            usage.data.users.map((user) => (
+                                <div
+                                    key={user.userId}
+                                    className="flex items-center justify-between gap-4 border-b px-4 py-2 text-sm last:border-b-0"
+                                >
+                                    <div className="min-w-0">
+                                        <div className="truncate">
+                                            {user.name}
+                                        </div>
+                                        <div className="text-muted-foreground truncate text-xs">
+                                            {user.email}
+                                        </div>
+                                    </div>
+                                    <div className="text-muted-foreground shrink-0 text-right">
+                                        {formatBytes(user.bytes)} · {user.files}{' '}
+                                        {user.files === 1 ? 'file' : 'files'}
+                                    </div>
+                                </div>
+                            ))
+                        )}
+                    </div>
+
+                    {usage.data.canEditQuotas && (
+                        <div className="space-y-3 rounded-md border p-4">
+                            <p className="text-muted-foreground text-sm">
+                                Leave a quota empty to use the default.
+                            </p>
+                            <div className="grid gap-3 sm:grid-cols-2">
+                                <div className="space-y-1">
+                                    <Label htmlFor="org-storage-quota">
+                                        Organization quota (MB)
+                                    </Label>
+                                    <Input
+                                        id="org-storage-quota"
+                                        type="number"
+                                        min={1}
+                                        value={orgQuotaInput}
+                                        onChange={(e) =>
+                                            setOrgQuotaInput(e.target.value)
+                                        }
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <Label htmlFor="user-storage-quota">
+                                        Per-member quota (MB)
+                                    </Label>
+                                    <Input
+                                        id="user-storage-quota"
+                                        type="number"
+                                        min={1}
+                                        value={userQuotaInput}
+                                        onChange={(e) =>
+                                            setUserQuotaInput(e.target.value)
+                                        }
+                                    />
+                                </div>
+                            </div>
+                            <Button
+                                size="sm"
+                                onClick={handleSave}
+                                disabled={updateQuotas.isPending}
+                            >
+                                {updateQuotas.isPending
+                                    ? 'Saving...'
+                                    : 'Save quotas'}
+                            </Button>
+                        </div>
+                    )}
+                </>
+            ) : null}
+        </div>
+    );
+}
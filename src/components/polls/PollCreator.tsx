@@ -17,6 +17,12 @@ import {
 } from '@/components/ui/select';
 import { Plus, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+    POLL_RESULT_VISIBILITY,
+    POLL_RESULT_VISIBILITY_LABELS,
+    type PollResultVisibility,
+    type PollType,
+} from '@/lib/polls';
 import type { PollCreationState, CreatePollData } from '@/types/poll';
 
 interface PollCreatorProps {
@@ -30,6 +36,8 @@ export function PollCreator({ onPollChange, initialPoll }: PollCreatorProps) {
             isCreating: false,
             question: '',
             pollType: 'single',
+            isAnonymous: false,
+            resultsVisibility: 'always',
             options: ['', ''],
             expiresAt: null,
             hasExpiration: false,
@@ -44,12 +52,26 @@ export function PollCreator({ onPollChange, initialPoll }: PollCreatorProps) {
         updatePollData(newState);
     };
 
-    const handlePollTypeChange = (pollType: 'single' | 'multiple') => {
+    const handlePollTypeChange = (pollType: PollType) => {
         const newState = { ...pollState, pollType };
         setPollState(newState);
         updatePollData(newState);
     };
 
+    const handleAnonymousChange = (isAnonymous: boolean) => {
+        const newState = { ...pollState, isAnonymous };
+        setPollState(newState);
+        updatePollData(newState);
+    };
+
+    const handleResultsVisibilityChange = (
+        resultsVisibility: PollResultVisibility,
+    ) => {
+        const newState = { ...pollState, resultsVisibility };
+        setPollState(newState);
+        updatePollData(newState);
+    };
+
     const handleOptionChange = (index: number, text: string) => {
         const newOptions = [...pollState.options];
         newOptions[index] = text;
@@ -136,6 +158,8 @@ export function PollCreator({ onPollChange, initialPoll }: PollCreatorProps) {
             const pollData: CreatePollData = {
                 question: state.question.trim(),
                 pollType: state.pollType,
+                isAnonymous: state.isAnonymous,
+                resultsVisibility: state.resultsVisibility,
                 options: state.options
                     .map((opt) => opt.trim())
                     .filter((opt) => opt),
@@ -214,7 +238,64 @@ export function PollCreator({ onPollChange, initialPoll }: PollCreatorProps) {
                                     Multiple Choice
                                 </Label>
                             </div>
+                            <div className="flex items-center space-x-2">
+                                <RadioGroupItem value="ranked" id="ranked" />
+                                <Label htmlFor="ranked">Ranked Choice</Label>
+                            </div>
                         </RadioGroup>
+                        {pollState.pollType === 'ranked' && (
+                            <p className="text-muted-foreground mt-2 text-sm">
+                                Voters rank the options; the winner is decided
+                                by instant runoff.
+                            </p>
+                        )}
+                    </div>
+
+                    <div>
+                        <Label>Show Results</Label>
+                        <Select
+                            value={pollState.resultsVisibility}
+                            onValueChange={handleResultsVisibilityChange}
+                        >
+                            <SelectTrigger className="mt-1 w-56">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {POLL_RESULT_VISIBILITY.map((visibility) => (
+                                    <SelectItem
+                                        key={visibility}
+                                        value={visibility}
+                                    >
+                                        {
+                                            POLL_RESULT_VISIBILITY_LABELS[
+                                                visibility
+                                            ]
+                                        }
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div>
+                        <div className="flex items-center space-x-2">
+                            <Checkbox
+                                id="is-anonymous"
+                                checked={pollState.isAnonymous}
+                                onCheckedChange={(checked) =>
+                                    handleAnonymousChange(checked === true)
+                                }
+                            />
+                            <Label htmlFor="is-anonymous">
+                                Anonymous votes
+                            </Label>
+                        </div>
+                        {pollState.isAnonymous && (
+                            <p className="text-muted-foreground mt-2 text-sm">
+                                Only the fact that someone voted is recorded, so
+                                votes can&apos;t be changed or retracted.
+                            </p>
+                        )}
                     </div>
 
                     <div>
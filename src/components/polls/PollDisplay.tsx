@@ -8,10 +8,12 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Label } from '@/components/ui/label';
-import { Check, Clock, Users } from 'lucide-react';
+import { ArrowDown, ArrowUp, Check, Clock, Users, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
+import type { RunoffRound } from '@/lib/polls';
 import type { Poll, PollResult } from '@/types/poll';
+import { PollExportButton } from './PollExportButton';
 
 interface PollDisplayProps {
     poll: Poll;
@@ -20,11 +22,25 @@ interface PollDisplayProps {
     canVote: boolean;
     hasUserVoted: boolean;
     totalVotes: number;
+    // False while the poll's visibility rule hides counts from this viewer
+    resultsVisible?: boolean;
+    // Instant-runoff rounds and winner, for ranked polls
+    rounds?: RunoffRound[];
+    winnerId?: number | null;
+    canExport?: boolean;
     onVote: (optionIds: number[]) => void;
     onJoinCommunity?: () => void;
     isVoting?: boolean;
 }
 
+// Ranked ballots compare in order, other ballots as sets
+function sameBallot(a: number[], b: number[], ordered: boolean) {
+    if (a.length !== b.length) return false;
+    const x = ordered ? a : [...a].sort((m, n) => m - n);
+    const y = ordered ? b : [...b].sort((m, n) => m - n);
+    return x.every((id, i) => id === y[i]);
+}
+
 export function PollDisplay({
     poll,
     results,
@@ -32,42 +48,45 @@ export function PollDisplay({
     canVote,
     hasUserVoted,
     totalVotes,
+    resultsVisible = true,
+    rounds = [],
+    winnerId = null,
+    canExport = false,
     onVote,
     onJoinCommunity,
     isVoting = false,
 }: PollDisplayProps) {
     const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+    const isRanked = poll.pollType === 'ranked';
 
     // Initialize/sync selectedOptions with userVotes when they change
     useEffect(() => {
         const normalized = Array.isArray(userVotes) ? userVotes : [];
-        setSelectedOptions((prev) => {
-            // Avoid state updates if arrays are equal (order-insensitive)
-            if (prev.length === normalized.length) {
-                const a = [...prev].sort((x, y) => x - y);
-                const b = [...normalized].sort((x, y) => x - y);
-                let same = true;
-                for (let i = 0; i < a.length; i++) {
-                    if (a[i] !== b[i]) {
-                        same = false;
-                        break;
-                    }
-                }
-                if (same) return prev;
-            }
-            return normalized;
-        });
-    }, [userVotes]);
+        setSelectedOptions((prev) =>
+            // Avoid state updates if the ballots are equal
+            sameBallot(prev, normalized, isRanked) ? prev : normalized,
+        );
+    }, [userVotes, isRanked]);
 
     const isExpired = poll.expiresAt && new Date(poll.expiresAt) < new Date();
     const isClosed = poll.isClosed || isExpired;
     // Show voting interface if poll is open, even if user has voted
     // Only show results-only view if poll is closed/expired
     const showResultsOnly = isClosed;
-    const showVotingInterface = !isClosed && canVote;
+    // Anonymous ballots can't be changed once cast
+    const isBallotFinal = poll.isAnonymous && hasUserVoted;
+    const showVotingInterface = !isClosed && canVote && !isBallotFinal;
+    const visibleResults = resultsVisible ? results : undefined;
 
     const handleOptionSelect = (optionId: number) => {
-        if (poll.pollType === 'single') {
+        if (isRanked) {
+            // Picking an option ranks it last; picking it again unranks it
+            setSelectedOptions((prev) =>
+                prev.includes(optionId)
+                    ? prev.filter((id) => id !== optionId)
+                    : [...prev, optionId],
+            );
+        } else if (poll.pollType === 'single') {
             // For single choice, allow toggling to deselect
             setSelectedOptions((prev) => {
                 if (prev.includes(optionId)) {
@@ -92,6 +111,17 @@ export function PollDisplay({
         }
     };
 
+    const moveRankedOption = (optionId: number, offset: -1 | 1) => {
+        setSelectedOptions((prev) => {
+            const from = prev.indexOf(optionId);
+            const to = from + offset;
+            if (from < 0 || to < 0 || to >= prev.length) return prev;
+            const next = [...prev];
+            [next[from], next[to]] = [next[to], next[from]];
+            return next;
+        });
+    };
+
     const handleVote = (e: React.MouseEvent) => {
         e.preventDefault(); // Prevent default button behavior
         e.stopPropagation(); // Stop event from bubbling up
@@ -152,15 +182,96 @@ export function PollDisplay({
         }
 
         const resultsByOptionId = new Map(
-            (results || []).map((r) => [r.optionId, r]),
+            (visibleResults || []).map((r) => [r.optionId, r]),
         );
 
-        // For multiple choice, use checkboxes styled as circular "radios"
-        if (poll.pollType === 'multiple') {
-            const resultsByOptionId = new Map(
-                (results || []).map((r) => [r.optionId, r]),
+        // Ranked choice: ranked options in order with controls to reorder,
+        // then the options not ranked yet
+        if (isRanked) {
+            const optionsById = new Map(
+                (poll.options || []).map((option) => [option.id, option]),
+            );
+            const unranked = (poll.options || []).filter(
+                (option) => !selectedOptions.includes(option.id),
+            );
+
+            return (
+                <div className="space-y-3">
+                    <p className="text-xs text-gray-500">
+                        Pick options in order of preference. You don&apos;t have
+                        to rank them all.
+                    </p>
+                    {selectedOptions.map((optionId, index) => {
+                        const option = optionsById.get(optionId);
+                        if (!option) return null;
+                        return (
+                            <div
+                                key={option.id}
+                                className="flex items-center space-x-3 rounded-md border bg-white px-3 py-2"
+                            >
+                                <Badge variant="secondary">{index + 1}</Badge>
+                                <span className="flex-1 font-medium text-black">
+                                    {option.text}
+                                </span>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 w-7 p-0"
+                                    aria-label="Move up"
+                                    disabled={index === 0}
+                                    onClick={() =>
+                                        moveRankedOption(option.id, -1)
+                                    }
+                                >
+                                    <ArrowUp className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 w-7 p-0"
+                                    aria-label="Move down"
+                                    disabled={
+                                        index === selectedOptions.length - 1
+                                    }
+                                    onClick={() =>
+                                        moveRankedOption(option.id, 1)
+                                    }
+                                >
+                                    <ArrowDown className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 w-7 p-0"
+                                    aria-label="Remove from ranking"
+                                    onClick={() =>
+                                        handleOptionSelect(option.id)
+                                    }
+                                >
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        );
+                    })}
+                    {unranked.map((option) => (
+                        <button
+                            key={option.id}
+                            type="button"
+                            className="flex w-full items-center space-x-3 rounded-md border border-dashed px-3 py-2 text-left hover:bg-white"
+                            onClick={() => handleOptionSelect(option.id)}
+                        >
+                            <span className="flex-1 font-medium text-black">
+                                {option.text}
+                            </span>
+                            <span className="text-xs text-gray-500">Rank</span>
+                        </button>
+                    ))}
+                </div>
             );
+        }
 
+        // For multiple choice, use checkboxes styled as circular "radios"
+        if (poll.pollType === 'multiple') {
             return (
                 <div className="space-y-3">
                     {poll.options?.map((option) => {
@@ -270,7 +381,53 @@ export function PollDisplay({
         );
     };
 
+    const renderHiddenResults = () => (
+        <div className="space-y-2 text-center">
+            {isBallotFinal && (
+                <p className="text-sm font-medium text-black">
+                    Your anonymous vote has been recorded.
+                </p>
+            )}
+            <p className="text-sm text-gray-500">
+                {poll.resultsVisibility === 'after_vote' && !hasUserVoted
+                    ? 'Results are shown once you vote.'
+                    : 'Results are shown when the poll closes.'}
+            </p>
+        </div>
+    );
+
+    const renderRunoff = () => {
+        if (!isRanked || rounds.length === 0) return null;
+        const optionText = (id: number) =>
+            poll.options?.find((option) => option.id === id)?.text ?? '';
+
+        return (
+            <div className="space-y-1 rounded-md bg-white p-3 text-xs text-gray-600">
+                <p className="font-medium text-black">
+                    {winnerId !== null
+                        ? `Instant-runoff winner: ${optionText(winnerId)}`
+                        : 'Instant runoff ended without a winner'}
+                </p>
+                {rounds.map((round, index) => (
+                    <p key={index}>
+                        Round {index + 1}:{' '}
+                        {Object.entries(round.counts)
+                            .sort(([, a], [, b]) => b - a)
+                            .map(
+                                ([id, votes]) =>
+                                    `${optionText(Number(id))} ${votes}`,
+                            )
+                            .join(', ')}
+                        {round.eliminated.length > 0 &&
+                            ` (eliminated: ${round.eliminated.map(optionText).join(', ')})`}
+                    </p>
+                ))}
+            </div>
+        );
+    };
+
     const renderResults = () => {
+        if (!resultsVisible) return renderHiddenResults();
         if (!results) return null;
 
         const userVotedIds = userVotes ?? [];
@@ -280,38 +437,45 @@ export function PollDisplay({
                 : undefined;
 
         return (
-            <RadioGroup value={radioValue} className="space-y-3">
-                {results.map((result) => (
-                    <div key={result.optionId} className="space-y-2">
-                        <div className="flex items-center justify-between">
-                            <div className="flex items-center space-x-3">
-                                <RadioGroupItem
-                                    value={result.optionId.toString()}
-                                    id={`result-${result.optionId}`}
-                                    checked={userVotedIds.includes(
-                                        result.optionId,
+            <div className="space-y-4">
+                <RadioGroup value={radioValue} className="space-y-3">
+                    {results.map((result) => (
+                        <div key={result.optionId} className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-3">
+                                    <RadioGroupItem
+                                        value={result.optionId.toString()}
+                                        id={`result-${result.optionId}`}
+                                        checked={userVotedIds.includes(
+                                            result.optionId,
+                                        )}
+                                        disabled
+                                        className="h-4 w-4"
+                                    />
+                                    <Label
+                                        htmlFor={`result-${result.optionId}`}
+                                        className="cursor-default font-medium text-black"
+                                    >
+                                        {result.optionText}
+                                    </Label>
+                                    {result.isUserVoted && (
+                                        <Check className="h-4 w-4 text-green-600" />
                                     )}
-                                    disabled
-                                    className="h-4 w-4"
-                                />
-                                <Label
-                                    htmlFor={`result-${result.optionId}`}
-                                    className="cursor-default font-medium text-black"
-                                >
-                                    {result.optionText}
-                                </Label>
-                                {result.isUserVoted && (
-                                    <Check className="h-4 w-4 text-green-600" />
-                                )}
-                            </div>
-                            <div className="text-sm text-gray-500">
-                                {result.percentage}% ({result.voteCount} votes)
+                                </div>
+                                <div className="text-sm text-gray-500">
+                                    {result.percentage}% ({result.voteCount}{' '}
+                                    {isRanked ? 'first choices' : 'votes'})
+                                </div>
                             </div>
+                            <Progress
+                                value={result.percentage}
+                                className="h-2"
+                            />
                         </div>
-                        <Progress value={result.percentage} className="h-2" />
-                    </div>
-                ))}
-            </RadioGroup>
+                    ))}
+                </RadioGroup>
+                {renderRunoff()}
+            </div>
         );
     };
 
@@ -351,19 +515,32 @@ export function PollDisplay({
                                     <span>{getTimeRemaining()}</span>
                                 </>
                             )}
-                            <span>|</span>
-                            <span>{totalVotes} total votes</span>
+                            {resultsVisible && (
+                                <>
+                                    <span>|</span>
+                                    <span>
+                                        {totalVotes}{' '}
+                                        {isRanked ? 'ballots' : 'total votes'}
+                                    </span>
+                                </>
+                            )}
+                            {poll.isAnonymous && (
+                                <>
+                                    <span>|</span>
+                                    <span>Anonymous</span>
+                                </>
+                            )}
+                            {canExport && <PollExportButton pollId={poll.id} />}
                         </div>
 
                         {showVotingInterface &&
                             (() => {
-                                const normalize = (arr: number[]) =>
-                                    [...arr].sort((a, b) => a - b);
-                                const sel = normalize(selectedOptions);
-                                const user = normalize(userVotes || []);
-                                const isDirty =
-                                    sel.length !== user.length ||
-                                    sel.some((v, i) => v !== user[i]);
+                                const sel = selectedOptions;
+                                const isDirty = !sameBallot(
+                                    sel,
+                                    userVotes || [],
+                                    isRanked,
+                                );
 
                                 const disabled =
                                     isVoting ||
@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { Button } from '@/components/ui/button';
+
+interface PollExportButtonProps {
+    pollId: number;
+}
+
+// Downloads the poll's results as CSV; only offered to poll managers
+export function PollExportButton({ pollId }: PollExportButtonProps) {
+    const utils = trpc.useUtils();
+    const [isExporting, setIsExporting] = React.useState(false);
+
+    const handleExport = async (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsExporting(true);
+        try {
+            const { filename, csv } =
+                await utils.community.exportPollResults.fetch({ pollId });
+            const url = window.URL.createObjectURL(
+                new Blob([csv], { type: 'text/csv' }),
+            );
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = filename;
+            a.click();
+            window.URL.revokeObjectURL(url);
+        } catch (error) {
+            toast.error(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to export poll results',
+            );
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={handleExport}
+            disabled={isExporting}
+        >
+            <Download className="mr-1 h-3.5 w-3.5" />
+            {isExporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+    );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { trpc } from '@/providers/trpc-provider';
+
+// Follow/unfollow a post's comment thread
+export default function FollowPostButton({ postId }: { postId: number }) {
+    const utils = trpc.useUtils();
+    const { data, isLoading } = trpc.community.getPostFollowStatus.useQuery({
+        postId,
+    });
+    const isFollowing = data?.isFollowing ?? false;
+
+    const onSuccess = (result: { isFollowing: boolean }) => {
+        utils.community.getPostFollowStatus.setData({ postId }, result);
+        toast.success(
+            result.isFollowing
+                ? "You'll be notified about new comments"
+                : 'Unfollowed this thread',
+        );
+    };
+    const followMutation = trpc.community.followPost.useMutation({
+        onSuccess,
+        onError: () => toast.error('Failed to follow'),
+    });
+    const unfollowMutation = trpc.community.unfollowPost.useMutation({
+        onSuccess,
+        onError: () => toast.error('Failed to unfollow'),
+    });
+
+    const handleToggle = () => {
+        if (isFollowing) {
+            unfollowMutation.mutate({ postId });
+        } else {
+            followMutation.mutate({ postId });
+        }
+    };
+
+    return (
+        <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToggle}
+            disabled={
+                isLoading ||
+                followMutation.isPending ||
+                unfollowMutation.isPending
+            }
+        >
+            {isFollowing ? (
+                <span className="flex items-center gap-2">
+                    <BellOff className="h-4 w-4" /> Unfollow
+                </span>
+            ) : (
+                <span className="flex items-center gap-2">
+                    <Bell className="h-4 w-4" /> Follow
+                </span>
+            )}
+        </Button>
+    );
+}
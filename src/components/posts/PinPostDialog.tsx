@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Pin } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { MAX_PINNED_POSTS, isPinActive } from '@/lib/pinned-posts';
+import { toDateTimeLocalValue } from '@/lib/utils';
+
+type PinnablePost = {
+    id: number;
+    pinPosition: number | null;
+    pinnedUntil: Date | null;
+    isAnnouncement: boolean;
+};
+
+// Pin, reorder and announcement mutations, refreshing the community feed
+// and the post on success
+export function usePinnedPostActions(post: PinnablePost) {
+    const utils = trpc.useUtils();
+
+    const refresh = () => {
+        utils.communities.getBySlug.invalidate();
+        utils.community.getPost.invalidate({ postId: post.id });
+    };
+
+    const onError = (error: { message: string }) => toast.error(error.message);
+
+    const unpin = trpc.community.unpinPost.useMutation({
+        onSuccess: () => {
+            toast.success('Post unpinned');
+            refresh();
+        },
+        onError,
+    });
+
+    const move = trpc.community.movePinnedPost.useMutation({
+        onSuccess: refresh,
+        onError,
+    });
+
+    const setAnnouncement = trpc.community.setPostAnnouncement.useMutation({
+        onSuccess: (updated) => {
+            toast.success(
+                updated.isAnnouncement
+                    ? 'Marked as announcement'
+                    : 'Announcement removed',
+            );
+            refresh();
+        },
+        onError,
+    });
+
+    return {
+        unpin: () => unpin.mutate({ postId: post.id }),
+        moveUp: () => move.mutate({ postId: post.id, direction: 'up' }),
+        moveDown: () => move.mutate({ postId: post.id, direction: 'down' }),
+        toggleAnnouncement: () =>
+            setAnnouncement.mutate({
+                postId: post.id,
+                isAnnouncement: !post.isAnnouncement,
+            }),
+    };
+}
+
+interface PinPostDialogProps {
+    post: PinnablePost;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// Pins a post, or changes when an existing pin expires
+export function PinPostDialog({
+    post,
+    open,
+    onOpenChange,
+}: PinPostDialogProps) {
+    const utils = trpc.useUtils();
+    const isPinned = isPinActive(post);
+    const [pinnedUntil, setPinnedUntil] = useState(
+        post.pinnedUntil
+            ? toDateTimeLocalValue(new Date(post.pinnedUntil))
+            : '',
+    );
+
+    const pinPost = trpc.community.pinPost.useMutation({
+        onSuccess: () => {
+            toast.success(isPinned ? 'Pin updated' : 'Post pinned');
+            utils.communities.getBySlug.invalidate();
+            utils.community.getPost.invalidate({ postId: post.id });
+            onOpenChange(false);
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Pin className="h-5 w-5" />
+                        {isPinned ? 'Edit pin' : 'Pin post'}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Pinned posts stay at the top of the community, up to{' '}
+                        {MAX_PINNED_POSTS} at a time.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <Label htmlFor={`pin-until-${post.id}`}>
+                        Unpin automatically (optional)
+                    </Label>
+                    <Input
+                        id={`pin-until-${post.id}`}
+                        type="datetime-local"
+                        value={pinnedUntil}
+                        min={toDateTimeLocalValue(new Date())}
+                        onChange={(e) => setPinnedUntil(e.target.value)}
+                    />
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        disabled={pinPost.isPending}
+                        onClick={() =>
+                            pinPost.mutate({
+                                postId: post.id,
+                                pinnedUntil: pinnedUntil
+                                    ? new Date(pinnedUntil)
+                                    : null,
+                            })
+                        }
+                    >
+                        {isPinned ? 'Save' : 'Pin'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
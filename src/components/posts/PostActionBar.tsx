@@ -3,9 +3,13 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { LikeButton } from '@/components/ui/like-button';
 import { ShareButton } from '@/components/ui/share-button';
-import { Bookmark, MessageSquare } from 'lucide-react';
+import { Bookmark, MessageSquare, SmilePlus } from 'lucide-react';
+import {
+    ReactionPicker,
+    usePostReactions,
+} from '@/components/posts/ReactionPicker';
+import { REACTIONS } from '@/lib/reactions';
 import type { PostDisplay } from '@/app/posts/page';
 
 function preventEventPropagation(e: React.MouseEvent) {
@@ -36,6 +40,10 @@ export default function PostActionBar({
         likeCount: number,
     ) => void;
 }) {
+    const reactions = usePostReactions(post.id, onLikeChange);
+    // The button shows the viewer's first reaction, if any
+    const myReaction = reactions.summary.mine[0];
+
     if (!canInteract) return null;
     return (
         <>
@@ -45,18 +53,30 @@ export default function PostActionBar({
                     className="col-span-1 flex items-center justify-center gap-0 md:gap-2"
                     onClick={preventEventPropagation}
                 >
-                    <LikeButton
-                        key={`${post.id}-${post.isLiked}-${post.likeCount}`}
-                        postId={post.id}
-                        initialLikeCount={post.likeCount ?? 0}
-                        initialIsLiked={post.isLiked ?? false}
-                        size="sm"
-                        variant="ghost"
-                        disabled={!sessionExists}
-                        showCount={false}
-                        showLabel={true}
-                        onLikeChange={onLikeChange}
-                    />
+                    <ReactionPicker
+                        mine={reactions.summary.mine}
+                        onToggle={reactions.toggle}
+                        disabled={!sessionExists || reactions.isPending}
+                    >
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className={`justify-center ${myReaction ? 'text-blue-500 hover:text-blue-600' : ''}`}
+                        >
+                            {myReaction ? (
+                                <span className="text-base md:mr-2">
+                                    {REACTIONS[myReaction].emoji}
+                                </span>
+                            ) : (
+                                <SmilePlus className="h-4 w-4 md:mr-2" />
+                            )}
+                            <span className="hidden md:inline">
+                                {myReaction
+                                    ? REACTIONS[myReaction].label
+                                    : 'React'}
+                            </span>
+                        </Button>
+                    </ReactionPicker>
                 </div>
                 <Button
                     variant="ghost"
@@ -7,21 +7,28 @@ import { Card } from '@/components/ui/card';
 import { HtmlImageCarousel } from '@/components/ui/html-image-carousel';
 import { HtmlVideoCarousel } from '@/components/ui/html-video-carousel';
 import { MixedMediaCarousel } from '@/components/ui/mixed-media-carousel';
+import { LinkPreviewCard } from '@/components/ui/link-preview-card';
 import { SafeHtml } from '@/lib/sanitize';
 import { SafeHtmlWithoutImages } from '@/components/ui/safe-html-without-images';
 import InlineCommentsPreview from '@/components/posts/InlineCommentsPreview';
 import PostHeader from '@/components/posts/PostHeader';
 import PostActionBar from '@/components/posts/PostActionBar';
+import {
+    ReactionSummaryButton,
+    usePostReactionSummary,
+} from '@/components/posts/ReactionPicker';
 import type { PostDisplay } from '@/app/posts/page';
 import { PollDisplay } from '@/components/polls';
+import type { PollResultVisibility, PollType } from '@/types/poll';
 import { trpc } from '@/providers/trpc-provider';
 import { Badge } from '@/components/ui/badge';
 import { useRouter } from 'next/navigation';
-import { ChevronDown, NotebookPen } from 'lucide-react';
+import { ChevronDown, Megaphone, NotebookPen, Pin } from 'lucide-react';
 import { Button } from '../ui/button';
 import { ShareButton } from '@/components/ui/share-button';
 import TipTapEditor from '@/components/TipTapEditor';
 import { isHtmlContentEmpty } from '@/lib/utils';
+import { isPinActive } from '@/lib/pinned-posts';
 import { AnswerInline } from '@/components/qna/AnswerInline';
 import { qaAnswers, users } from '@/server/db/schema';
 
@@ -36,6 +43,7 @@ export default function PostCard({
     session,
     canEdit,
     canDelete,
+    canPin,
     canInteract,
     onEdit,
     onDelete,
@@ -55,6 +63,7 @@ export default function PostCard({
     session: SessionLike;
     canEdit: boolean;
     canDelete: boolean;
+    canPin?: boolean;
     canInteract: boolean;
     onEdit: () => void;
     onDelete: (e: React.MouseEvent) => void;
@@ -86,6 +95,7 @@ export default function PostCard({
     >(new Set());
     const [showAnswers, setShowAnswers] = useState(false);
     const ansLimit = 2;
+    const isPinned = isPinActive(post);
     const answersQuery = trpc.community.listAnswers.useQuery(
         { postId: post.id, limit: ansLimit, offset: ansOffset },
         { enabled: !!post.qa },
@@ -162,6 +172,8 @@ export default function PostCard({
         },
     });
 
+    const reactionSummary = usePostReactionSummary(post.id);
+
     // Get poll results if post has a poll
     const pollResultsQuery = trpc.community.getPollResults.useQuery(
         { pollId: post.poll?.id! },
@@ -204,9 +216,10 @@ export default function PostCard({
             style={{ textDecoration: 'none' }}
         >
             <Card className="relative gap-2 overflow-hidden p-0 transition-shadow hover:shadow-md">
-                {post.source?.reason === 'Based on your interests' && (
+                {(post.source?.explanation ||
+                    post.source?.reason === 'Based on your interests') && (
                     <div className="text-muted-foreground border-b px-4 pt-1 pb-1 text-[11px]">
-                        Based on your interests
+                        {post.source.explanation ?? 'Based on your interests'}
                     </div>
                 )}
 
@@ -214,6 +227,7 @@ export default function PostCard({
                     post={post}
                     canEdit={canEdit}
                     canDelete={canDelete}
+                    canPin={canPin}
                     onEdit={onEdit}
                     onDelete={onDelete}
                     onAuthorClick={onAuthorClick}
@@ -222,10 +236,21 @@ export default function PostCard({
                 />
 
                 <div className="px-4 py-0">
-                    {/* Q&A chip */}
-                    {post.qa && (
-                        <div className="mb-1">
-                            <Badge variant="secondary">Q&A</Badge>
+                    {/* Pinned, announcement and Q&A chips */}
+                    {(isPinned || post.isAnnouncement || post.qa) && (
+                        <div className="mb-1 flex flex-wrap gap-1">
+                            {isPinned && (
+                                <Badge variant="outline">
+                                    <Pin className="h-3 w-3" /> Pinned
+                                </Badge>
+                            )}
+                            {post.isAnnouncement && (
+                                <Badge className="bg-rose-600 text-white">
+                                    <Megaphone className="h-3 w-3" />{' '}
+                                    Announcement
+                                </Badge>
+                            )}
+                            {post.qa && <Badge variant="secondary">Q&A</Badge>}
                         </div>
                     )}
                     <h3 className="mt-0 mb-2 text-base font-medium">
@@ -263,6 +288,7 @@ export default function PostCard({
                             {post.attachments && post.attachments.length > 0 ? (
                                 <MixedMediaCarousel
                                     media={post.attachments}
+                                    variant="medium"
                                     className="w-full"
                                 />
                             ) : (
@@ -271,6 +297,8 @@ export default function PostCard({
                                     {post.content.includes('<img') && (
                                         <HtmlImageCarousel
                                             htmlContent={post.content}
+                                            attachments={post.attachments}
+                                            variant="medium"
                                             className="w-full"
                                         />
                                     )}
@@ -278,9 +306,17 @@ export default function PostCard({
                                     {post.content.includes('[VIDEO:') && (
                                         <HtmlVideoCarousel
                                             htmlContent={post.content}
+                                            attachments={post.attachments}
                                             className="w-full"
                                         />
                                     )}
+                                    {post.linkPreview &&
+                                        !post.content.includes('<img') &&
+                                        !post.content.includes('[VIDEO:') && (
+                                            <LinkPreviewCard
+                                                preview={post.linkPreview}
+                                            />
+                                        )}
                                 </>
                             )}
                         </div>
@@ -561,9 +597,9 @@ export default function PostCard({
                             <PollDisplay
                                 poll={{
                                     ...post.poll,
-                                    pollType: post.poll.pollType as
-                                        | 'single'
-                                        | 'multiple',
+                                    pollType: post.poll.pollType as PollType,
+                                    resultsVisibility: post.poll
+                                        .resultsVisibility as PollResultVisibility,
                                     expiresAt:
                                         post.poll.expiresAt?.toISOString() ||
                                         null,
@@ -590,6 +626,15 @@ export default function PostCard({
                                 totalVotes={
                                     pollResultsQuery.data?.totalVotes || 0
                                 }
+                                resultsVisible={
+                                    pollResultsQuery.data?.resultsVisible ??
+                                    true
+                                }
+                                rounds={pollResultsQuery.data?.rounds}
+                                winnerId={pollResultsQuery.data?.winnerId}
+                                canExport={
+                                    pollResultsQuery.data?.canManage || false
+                                }
                                 onVote={handlePollVote}
                                 onJoinCommunity={handleJoinCommunity}
                                 isVoting={votePollMutation.isPending}
@@ -622,20 +667,10 @@ export default function PostCard({
                                 </span>
                             )
                         ) : (
-                            (() => {
-                                const likeCountNum = post.likeCount ?? 0;
-                                return (
-                                    <span className="text-muted-foreground text-xs">
-                                        {likeCountNum > 0
-                                            ? likeCountNum === 1
-                                                ? '1 person liked this'
-                                                : likeCountNum === 2
-                                                  ? `You and ${likeCountNum - 1} ${likeCountNum - 1 === 1 ? 'other' : 'others'} liked this`
-                                                  : `${likeCountNum} ${likeCountNum === 1 ? 'person' : 'people'} liked this`
-                                            : ''}
-                                    </span>
-                                );
-                            })()
+                            <ReactionSummaryButton
+                                target={{ kind: 'post', id: post.id }}
+                                summary={reactionSummary}
+                            />
                         )}
                         <span className="text-muted-foreground text-xs">
                             {Array.isArray(post.comments)
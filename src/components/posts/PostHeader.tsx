@@ -1,6 +1,6 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { CommunityPopover } from '@/components/ui/community-popover';
@@ -13,8 +13,24 @@ import {
     DropdownMenuSeparator,
     DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Ellipsis, Edit, Trash2 } from 'lucide-react';
+import {
+    ArrowDown,
+    ArrowUp,
+    Ellipsis,
+    Edit,
+    History,
+    Megaphone,
+    Pin,
+    PinOff,
+    Trash2,
+} from 'lucide-react';
 import type { PostDisplay } from '@/app/posts/page';
+import { PostRevisionHistoryDialog } from '@/components/posts/PostRevisionHistoryDialog';
+import {
+    PinPostDialog,
+    usePinnedPostActions,
+} from '@/components/posts/PinPostDialog';
+import { isPinActive } from '@/lib/pinned-posts';
 
 function preventEventPropagation(e: React.MouseEvent) {
     e.preventDefault();
@@ -30,16 +46,25 @@ export default function PostHeader({
     onAuthorClick,
     onCommunityClick,
     formatRelativeTime,
+    canPin = false,
 }: {
     post: PostDisplay;
     canEdit: boolean;
     canDelete: boolean;
+    canPin?: boolean;
     onEdit: () => void;
     onDelete: (e: React.MouseEvent) => void;
     onAuthorClick?: () => void;
     onCommunityClick?: () => void;
     formatRelativeTime: (date: any) => string;
 }) {
+    const [showHistory, setShowHistory] = useState(false);
+    const [showPinDialog, setShowPinDialog] = useState(false);
+    const isEdited = !!post.editedAt && !post.isDeleted;
+    const isPinned = isPinActive(post);
+    const showPinActions = canPin && !!post.communityId && !post.isDeleted;
+    const pinActions = usePinnedPostActions(post);
+
     return (
         <div className="border-b px-4 py-2">
             <div className="flex items-center justify-between">
@@ -95,6 +120,22 @@ export default function PostHeader({
                 <div className="flex items-center gap-2">
                     <span className="text-muted-foreground text-xs">
                         {formatRelativeTime(post.createdAt)}
+                        {isEdited && (
+                            <>
+                                {' · '}
+                                <button
+                                    type="button"
+                                    className="hover:underline"
+                                    title={`Edited ${formatRelativeTime(post.editedAt)}`}
+                                    onClick={(e) => {
+                                        preventEventPropagation(e);
+                                        setShowHistory(true);
+                                    }}
+                                >
+                                    edited
+                                </button>
+                            </>
+                        )}
                     </span>
                     <DropdownMenu>
                         <DropdownMenuTrigger asChild>
@@ -123,6 +164,55 @@ export default function PostHeader({
                                     View community
                                 </DropdownMenuItem>
                             )}
+                            {isEdited && (
+                                <DropdownMenuItem
+                                    onClick={() => setShowHistory(true)}
+                                >
+                                    <History className="mr-2 h-4 w-4" /> Edit
+                                    history
+                                </DropdownMenuItem>
+                            )}
+                            {showPinActions && (
+                                <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem
+                                        onClick={() => setShowPinDialog(true)}
+                                    >
+                                        <Pin className="mr-2 h-4 w-4" />
+                                        {isPinned ? 'Edit pin' : 'Pin to top'}
+                                    </DropdownMenuItem>
+                                    {isPinned && (
+                                        <>
+                                            <DropdownMenuItem
+                                                onClick={pinActions.moveUp}
+                                            >
+                                                <ArrowUp className="mr-2 h-4 w-4" />
+                                                Move pin up
+                                            </DropdownMenuItem>
+                                            <DropdownMenuItem
+                                                onClick={pinActions.moveDown}
+                                            >
+                                                <ArrowDown className="mr-2 h-4 w-4" />
+                                                Move pin down
+                                            </DropdownMenuItem>
+                                            <DropdownMenuItem
+                                                onClick={pinActions.unpin}
+                                            >
+                                                <PinOff className="mr-2 h-4 w-4" />
+                                                Unpin
+                                            </DropdownMenuItem>
+                                        </>
+                                    )}
+                                    <DropdownMenuItem
+                                        onClick={pinActions.toggleAnnouncement}
+                                    >
+                                        <Megaphone className="mr-2 h-4 w-4" />
+                                        {post.isAnnouncement
+                                            ? 'Remove announcement'
+                                            : 'Mark as announcement'}
+                                    </DropdownMenuItem>
+                                </>
+                            )}
                             {(canEdit || canDelete) && (
                                 <DropdownMenuSeparator />
                             )}
@@ -140,6 +230,27 @@ export default function PostHeader({
                     </DropdownMenu>
                 </div>
             </div>
+
+            {isEdited && (
+                // The dialog portals out, but its clicks still bubble to the card's link
+                <div onClick={(e) => e.stopPropagation()}>
+                    <PostRevisionHistoryDialog
+                        postId={post.id}
+                        open={showHistory}
+                        onOpenChange={setShowHistory}
+                    />
+                </div>
+            )}
+
+            {showPinActions && showPinDialog && (
+                <div onClick={(e) => e.stopPropagation()}>
+                    <PinPostDialog
+                        post={post}
+                        open={showPinDialog}
+                        onOpenChange={setShowPinDialog}
+                    />
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,189 @@
+'use client';
+
+import React, { useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { Button } from '@/components/ui/button';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { SafeHtml } from '@/lib/sanitize';
+import { diffHtml, diffText } from '@/lib/html-diff';
+import { cn, formatRelativeTime } from '@/lib/utils';
+
+interface PostRevisionHistoryDialogProps {
+    postId: number;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function PostRevisionHistoryDialog({
+    postId,
+    open,
+    onOpenChange,
+}: PostRevisionHistoryDialogProps) {
+    const utils = trpc.useUtils();
+    // Index into revisions; null shows the latest
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+    const { data, isLoading } = trpc.community.getPostRevisions.useQuery(
+        { postId },
+        { enabled: open },
+    );
+
+    const restoreRevision = trpc.community.restorePostRevision.useMutation({
+        onSuccess: () => {
+            toast.success('Revision restored');
+            setSelectedIndex(null);
+            utils.community.getPostRevisions.invalidate({ postId });
+            utils.community.getPost.invalidate({ postId });
+            utils.community.getPosts.invalidate();
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const revisions = data?.revisions ?? [];
+    const latestIndex = revisions.length - 1;
+    const index = selectedIndex ?? latestIndex;
+    const selected = revisions[index];
+    const previous = index > 0 ? revisions[index - 1] : null;
+
+    const versionLabel = (i: number) =>
+        i === 0 ? 'Original' : `Version ${i + 1}`;
+
+    return (
+        <Dialog
+            open={open}
+            onOpenChange={(isOpen) => {
+                if (!isOpen) setSelectedIndex(null);
+                onOpenChange(isOpen);
+            }}
+        >
+            <DialogContent className="max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <History className="h-5 w-5" />
+                        Edit history
+                    </DialogTitle>
+                    <DialogDescription>
+                        Changes are shown against the version before.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin" />
+                    </div>
+                ) : revisions.length === 0 || !selected ? (
+                    <p className="text-muted-foreground py-8 text-center text-sm">
+                        This post hasn&apos;t been edited.
+                    </p>
+                ) : (
+                    <div className="grid gap-4 sm:grid-cols-[200px_1fr]">
+                        <ScrollArea className="max-h-[60vh]">
+                            <div className="space-y-1 pr-2">
+                                {revisions
+                                    .map((revision, i) => ({ revision, i }))
+                                    .reverse()
+                                    .map(({ revision, i }) => (
+                                        <button
+                                            key={revision.id}
+                                            type="button"
+                                            onClick={() => setSelectedIndex(i)}
+                                            className={cn(
+                                                'hover:bg-accent w-full rounded-md p-2 text-left text-sm',
+                                                i === index && 'bg-accent',
+                                            )}
+                                        >
+                                            <div className="font-medium">
+                                                {versionLabel(i)}
+                                                {i === latestIndex &&
+                                                    ' (current)'}
+                                            </div>
+                                            <div className="text-muted-foreground text-xs">
+                                                {revision.editor?.name ||
+                                                    'Unknown'}{' '}
+                                                ·{' '}
+                                                {formatRelativeTime(
+                                                    revision.createdAt,
+                                                )}
+                                            </div>
+                                        </button>
+                                    ))}
+                            </div>
+                        </ScrollArea>
+
+                        <div className="min-w-0 space-y-3">
+                            <div className="text-muted-foreground flex flex-wrap items-center justify-between gap-2 text-xs">
+                                <span>
+                                    {versionLabel(index)} by{' '}
+                                    {selected.editor?.name || 'Unknown'} on{' '}
+                                    {new Date(
+                                        selected.createdAt,
+                                    ).toLocaleString()}
+                                    {selected.restoredFromId &&
+                                        ` · restored from ${versionLabel(
+                                            revisions.findIndex(
+                                                (r) =>
+                                                    r.id ===
+                                                    selected.restoredFromId,
+                                            ),
+                                        )}`}
+                                </span>
+                                {data?.canRestore && index !== latestIndex && (
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        disabled={restoreRevision.isPending}
+                                        onClick={() =>
+                                            restoreRevision.mutate({
+                                                postId,
+                                                revisionId: selected.id,
+                                            })
+                                        }
+                                    >
+                                        <RotateCcw className="mr-2 h-4 w-4" />
+                                        Restore this version
+                                    </Button>
+                                )}
+                            </div>
+
+                            <ScrollArea className="max-h-[55vh] rounded-md border p-4">
+                                {previous ? (
+                                    <SafeHtml
+                                        html={diffText(
+                                            previous.title,
+                                            selected.title,
+                                        )}
+                                        className="mb-3 text-lg font-semibold"
+                                    />
+                                ) : (
+                                    <div className="mb-3 text-lg font-semibold">
+                                        {selected.title}
+                                    </div>
+                                )}
+                                <SafeHtml
+                                    html={
+                                        previous
+                                            ? diffHtml(
+                                                  previous.content,
+                                                  selected.content,
+                                              )
+                                            : selected.content
+                                    }
+                                    className="prose prose-ul:list-disc prose-ol:list-decimal dark:prose-invert max-w-none whitespace-pre-wrap"
+                                />
+                            </ScrollArea>
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { Button } from '@/components/ui/button';
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import {
+    EMPTY_REACTION_SUMMARY,
+    REACTIONS,
+    REACTION_TYPES,
+    type ReactionSummary,
+    type ReactionType,
+} from '@/lib/reactions';
+import { ReactorsDialog, type ReactionTarget } from './ReactorsDialog';
+
+export function usePostReactionSummary(postId: number) {
+    const summaries = trpc.community.getPostReactionSummaries.useQuery({
+        postIds: [postId],
+    });
+    return summaries.data?.[postId] ?? EMPTY_REACTION_SUMMARY;
+}
+
+// A post's reaction summary and a toggle for the viewer's reactions. Likes
+// also update the like counts the post lists keep.
+export function usePostReactions(
+    postId: number,
+    onLikeChange?: (
+        postId: number,
+        isLiked: boolean,
+        likeCount: number,
+    ) => void,
+) {
+    const utils = trpc.useUtils();
+    const summary = usePostReactionSummary(postId);
+
+    const toggle = trpc.community.togglePostReaction.useMutation({
+        onSuccess: (data, { type }) => {
+            utils.community.getPostReactionSummaries.setData(
+                { postIds: [postId] },
+                { [postId]: data.summary },
+            );
+            utils.community.getPostReactionSummaries.invalidate();
+            if (type === 'like') {
+                onLikeChange?.(
+                    postId,
+                    data.reacted,
+                    data.summary.counts.like ?? 0,
+                );
+                utils.community.getUserReactions.invalidate();
+                utils.community.getPostLikeCounts.invalidate();
+            }
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    return {
+        summary,
+        toggle: (type: ReactionType) => toggle.mutate({ postId, type }),
+        isPending: toggle.isPending,
+    };
+}
+
+// Reaction summaries for a page of comments, fetched in one query
+export function useCommentReactions(commentIds: number[]) {
+    const utils = trpc.useUtils();
+    const summaries = trpc.community.getCommentReactionSummaries.useQuery(
+        { commentIds },
+        { enabled: commentIds.length > 0 },
+    );
+
+    const toggle = trpc.community.toggleCommentReaction.useMutation({
+        onSuccess: () =>
+            utils.community.getCommentReactionSummaries.invalidate(),
+        onError: (error) => toast.error(error.message),
+    });
+
+    return {
+        summaries: summaries.data,
+        toggle: (commentId: number, type: ReactionType) =>
+            toggle.mutate({ commentId, type }),
+        isPending: toggle.isPending,
+    };
+}
+
+interface ReactionPickerProps {
+    mine: ReactionType[];
+    onToggle: (type: ReactionType) => void;
+    disabled?: boolean;
+    // Renders the trigger; defaults to a compact icon button
+    children?: React.ReactNode;
+}
+
+// Popover offering every reaction type; picking one toggles it
+export function ReactionPicker({
+    mine,
+    onToggle,
+    disabled = false,
+    children,
+}: ReactionPickerProps) {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild disabled={disabled}>
+                {children ?? (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        aria-label="Add reaction"
+                    >
+                        <SmilePlus className="h-3.5 w-3.5" />
+                    </Button>
+                )}
+            </PopoverTrigger>
+            <PopoverContent className="flex w-auto gap-1 p-1">
+                {REACTION_TYPES.map((type) => (
+                    <button
+                        key={type}
+                        type="button"
+                        title={REACTIONS[type].label}
+                        aria-label={REACTIONS[type].label}
+                        aria-pressed={mine.includes(type)}
+                        className={cn(
+                            'hover:bg-accent rounded-md p-1 text-lg transition-transform hover:scale-125',
+                            mine.includes(type) && 'bg-primary/10',
+                        )}
+                        onClick={() => {
+                            onToggle(type);
+                            setOpen(false);
+                        }}
+                    >
+                        {REACTIONS[type].emoji}
+                    </button>
+                ))}
+            </PopoverContent>
+        </Popover>
+    );
+}
+
+interface ReactionSummaryButtonProps {
+    target: ReactionTarget;
+    summary: ReactionSummary;
+    className?: string;
+}
+
+// The most used reactions and the total; opens the "who reacted" list
+export function ReactionSummaryButton({
+    target,
+    summary,
+    className,
+}: ReactionSummaryButtonProps) {
+    const [open, setOpen] = useState(false);
+    if (summary.total === 0) return null;
+
+    const topTypes = REACTION_TYPES.filter((type) => summary.counts[type])
+        .sort((a, b) => (summary.counts[b] ?? 0) - (summary.counts[a] ?? 0))
+        .slice(0, 3);
+
+    return (
+        <>
+            <button
+                type="button"
+                className={cn(
+                    'text-muted-foreground flex items-center gap-1 text-xs hover:underline',
+                    className,
+                )}
+                onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setOpen(true);
+                }}
+            >
+                <span>
+                    {topTypes.map((type) => REACTIONS[type].emoji).join('')}
+                </span>
+                <span>{summary.total}</span>
+            </button>
+            {/* Keep clicks in the dialog from reaching a surrounding link */}
+            <div onClick={(e) => e.stopPropagation()}>
+                <ReactorsDialog
+                    target={target}
+                    summary={summary}
+                    open={open}
+                    onOpenChange={setOpen}
+                />
+            </div>
+        </>
+    );
+}
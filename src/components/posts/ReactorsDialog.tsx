@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { trpc } from '@/providers/trpc-provider';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    REACTIONS,
+    REACTION_TYPES,
+    type ReactionSummary,
+    type ReactionType,
+} from '@/lib/reactions';
+
+export type ReactionTarget = { kind: 'post' | 'comment'; id: number };
+
+interface ReactorsDialogProps {
+    target: ReactionTarget;
+    summary: ReactionSummary;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// "Who reacted" list, filterable by reaction type
+export function ReactorsDialog({
+    target,
+    summary,
+    open,
+    onOpenChange,
+}: ReactorsDialogProps) {
+    const [type, setType] = useState<ReactionType | 'all'>('all');
+    const filter = type === 'all' ? undefined : type;
+
+    const postReactors = trpc.community.getPostReactors.useQuery(
+        { postId: target.id, type: filter },
+        { enabled: open && target.kind === 'post' },
+    );
+    const commentReactors = trpc.community.getCommentReactors.useQuery(
+        { commentId: target.id, type: filter },
+        { enabled: open && target.kind === 'comment' },
+    );
+    const reactors = target.kind === 'post' ? postReactors : commentReactors;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Reactions</DialogTitle>
+                </DialogHeader>
+
+                <Tabs
+                    value={type}
+                    onValueChange={(value) =>
+                        setType(value as ReactionType | 'all')
+                    }
+                >
+                    <TabsList className="flex h-auto flex-wrap">
+                        <TabsTrigger value="all">
+                            All {summary.total}
+                        </TabsTrigger>
+                        {REACTION_TYPES.filter(
+                            (reaction) => summary.counts[reaction],
+                        ).map((reaction) => (
+                            <TabsTrigger
+                                key={reaction}
+                                value={reaction}
+                                aria-label={REACTIONS[reaction].label}
+                            >
+                                {REACTIONS[reaction].emoji}{' '}
+                                {summary.counts[reaction]}
+                            </TabsTrigger>
+                        ))}
+                    </TabsList>
+                </Tabs>
+
+                <div className="max-h-80 space-y-2 overflow-y-auto">
+                    {reactors.isLoading ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="text-muted-foreground h-5 w-5 animate-spin" />
+                        </div>
+                    ) : reactors.data?.length ? (
+                        reactors.data.map((reactor) => (
+                            <div
+                                key={`${reactor.user.id}-${reactor.type}`}
+                                className="flex items-center gap-3"
+                            >
+                                <Avatar className="h-8 w-8">
+                                    <AvatarImage
+                                        src={reactor.user.image || undefined}
+                                    />
+                                    <AvatarFallback>
+                                        {reactor.user.name
+                                            .charAt(0)
+                                            .toUpperCase()}
+                                    </AvatarFallback>
+                                </Avatar>
+                                <span className="flex-1 truncate text-sm">
+                                    {reactor.user.name}
+                                </span>
+                                <span
+                                    className="text-lg"
+                                    title={
+                                        REACTIONS[reactor.type as ReactionType]
+                                            ?.label
+                                    }
+                                >
+                                    {
+                                        REACTIONS[reactor.type as ReactionType]
+                                            ?.emoji
+                                    }
+                                </span>
+                            </div>
+                        ))
+                    ) : (
+                        <p className="text-muted-foreground py-6 text-center text-sm">
+                            No reactions yet
+                        </p>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
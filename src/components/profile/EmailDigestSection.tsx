@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+type DigestFrequency = 'daily' | 'weekly' | 'off';
+
+// Saved on change, independently of the profile form
+export function EmailDigestSection() {
+    const utils = trpc.useUtils();
+    const { data: preference, isLoading } =
+        trpc.users.getDigestPreference.useQuery();
+
+    const updatePreference = trpc.users.updateDigestPreference.useMutation({
+        onSuccess: ({ frequency }) => {
+            utils.users.getDigestPreference.invalidate();
+            toast.success(
+                frequency === 'off'
+                    ? 'Digest emails turned off'
+                    : `You'll get a ${frequency} digest email`,
+            );
+        },
+        onError: (error) => {
+            toast.error(error.message || 'Failed to update digest emails');
+        },
+    });
+
+    return (
+        <section className="space-y-3">
+            <h2 className="text-lg font-medium">Email Digest</h2>
+            <Card className="border p-0 shadow-sm">
+                <CardContent className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="space-y-1">
+                        <Label htmlFor="digest-frequency">
+                            Activity digest
+                        </Label>
+                        <p className="text-muted-foreground text-sm">
+                            A summary of unread notifications, top posts in your
+                            communities and unanswered questions.
+                        </p>
+                    </div>
+                    <Select
+                        value={preference?.frequency}
+                        onValueChange={(value) =>
+                            updatePreference.mutate({
+                                frequency: value as DigestFrequency,
+                            })
+                        }
+                        disabled={isLoading || updatePreference.isPending}
+                    >
+                        <SelectTrigger
+                            id="digest-frequency"
+                            className="w-full sm:w-40"
+                        >
+                            <SelectValue placeholder="Loading..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="daily">Daily</SelectItem>
+                            <SelectItem value="weekly">Weekly</SelectItem>
+                            <SelectItem value="off">Off</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </CardContent>
+            </Card>
+        </section>
+    );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import React from 'react';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+import { Card, CardContent } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+    NOTIFICATION_CHANNELS,
+    NOTIFICATION_CHANNEL_LABELS,
+    NOTIFICATION_EVENT_LABELS,
+    type NotificationChannel,
+    type NotificationEvent,
+} from '@/lib/notification-events';
+
+// Saved on toggle, independently of the profile form
+export function NotificationPreferencesSection() {
+    const utils = trpc.useUtils();
+    const { data: preferences, isLoading } =
+        trpc.users.getNotificationPreferences.useQuery();
+
+    const updatePreference =
+        trpc.users.updateNotificationPreference.useMutation({
+            onMutate: async ({ event, channel, enabled }) => {
+                await utils.users.getNotificationPreferences.cancel();
+                const previous =
+                    utils.users.getNotificationPreferences.getData();
+                utils.users.getNotificationPreferences.setData(
+                    undefined,
+                    (rows) =>
+                        rows?.map((row) =>
+                            row.event === event
+                                ? {
+                                      ...row,
+                                      channels: {
+                                          ...row.channels,
+                                          [channel]: enabled,
+                                      },
+                                  }
+                                : row,
+                        ),
+                );
+                return { previous };
+            },
+            onError: (error, _variables, context) => {
+                utils.users.getNotificationPreferences.setData(
+                    undefined,
+                    context?.previous,
+                );
+                toast.error(
+                    error.message || 'Failed to update notification settings',
+                );
+            },
+            onSettled: () => {
+                utils.users.getNotificationPreferences.invalidate();
+            },
+        });
+
+    const handleToggle = (
+        event: NotificationEvent,
+        channel: NotificationChannel,
+        enabled: boolean,
+    ) => {
+        updatePreference.mutate({ event, channel, enabled });
+    };
+
+    return (
+        <section className="space-y-3">
+            <h2 className="text-lg font-medium">Notifications</h2>
+            <Card className="border p-0 shadow-sm">
+                <CardContent className="p-4">
+                    <p className="text-muted-foreground mb-4 text-sm">
+                        Choose how you hear about each kind of activity. Push
+                        notifications also need to be enabled on this device.
+                    </p>
+                    {isLoading ? (
+                        <div className="space-y-3">
+                            {Array.from({ length: 4 }).map((_, index) => (
+                                <Skeleton key={index} className="h-8 w-full" />
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-muted-foreground border-b text-left">
+                                        <th className="py-2 pr-4 font-medium">
+                                            Activity
+                                        </th>
+                                        {NOTIFICATION_CHANNELS.map(
+                                            (channel) => (
+                                                <th
+                                                    key={channel}
+                                                    className="px-2 py-2 text-center font-medium"
+                                                >
+                                                    {
+                                                        NOTIFICATION_CHANNEL_LABELS[
+                                                            channel
+                                                        ]
+                                                    }
+                                                </th>
+                                            ),
+                                        )}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preferences?.map((row) => (
+                                        <tr
+                                            key={row.event}
+                                            className="border-b last:border-0"
+                                        >
+                                            <td className="py-3 pr-4">
+                                                <div className="font-medium">
+                                                    {
+                                                        NOTIFICATION_EVENT_LABELS[
+                                                            row.event
+                                                        ].label
+                                                    }
+                                                </div>
+                                                <div className="text-muted-foreground text-xs">
+                                                    {
+                                                        NOTIFICATION_EVENT_LABELS[
+                                                            row.event
+                                                        ].description
+                                                    }
+                                                </div>
+                                            </td>
+                                            {NOTIFICATION_CHANNELS.map(
+                                                (channel) => (
+                                                    <td
+                                                        key={channel}
+                                                        className="px-2 py-3 text-center"
+                                                    >
+                                                        <Switch
+                                                            checked={
+                                                                row.channels[
+                                                                    channel
+                                                                ]
+                                                            }
+                                                            onCheckedChange={(
+                                                                checked,
+                                                            ) =>
+                                                                handleToggle(
+                                                                    row.event,
+                                                                    channel,
+                                                                    checked,
+                                                                )
+                                                            }
+                                                            aria-label={`${NOTIFICATION_EVENT_LABELS[row.event].label}: ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                                                        />
+                                                    </td>
+                                                ),
+                                            )}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </section>
+    );
+}
@@ -9,6 +9,8 @@ export { InterestsSection } from './InterestsSection';
 export { IndustriesSection } from './IndustriesSection';
 export { AchievementsSection } from './AchievementsSection';
 export { CertificationsSection } from './CertificationsSection';
+export { EmailDigestSection } from './EmailDigestSection';
+export { NotificationPreferencesSection } from './NotificationPreferencesSection';
 export { ResumeUploadBanner } from './ResumeUploadBanner';
 export { SaveButtons } from './SaveButtons';
 export { ProfileSkeleton } from './ProfileSkeleton';
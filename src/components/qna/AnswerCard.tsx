@@ -5,12 +5,13 @@ import { trpc } from '@/providers/trpc-provider';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { BadgeCheck, Bookmark, MessageSquare } from 'lucide-react';
+import { BadgeCheck, Bookmark, Flag, MessageSquare } from 'lucide-react';
 import { SafeHtml } from '@/lib/sanitize';
 import { ShareButton } from '@/components/ui/share-button';
 import { UserProfilePopover } from '@/components/ui/user-profile-popover';
 import TipTapEditor from '@/components/TipTapEditor';
 import { isHtmlContentEmpty } from '@/lib/utils';
+import { ReportContentDialog } from '@/components/report-content-dialog';
 import { formatRelativeTime } from '@/lib/utils';
 import { qaAnswers, users, qaAnswerComments } from '@/server/db/schema';
 import {
@@ -112,6 +113,7 @@ export function AnswerCard({
     >(null);
     const [editedCommentContent, setEditedCommentContent] = React.useState('');
     const [hasAutoExpanded, setHasAutoExpanded] = React.useState(false);
+    const [isReportDialogOpen, setIsReportDialogOpen] = React.useState(false);
     const [visibleCommentsCount, setVisibleCommentsCount] = React.useState(2);
     const [commentToDelete, setCommentToDelete] = React.useState<number | null>(
         null,
@@ -176,6 +178,12 @@ export function AnswerCard({
                     {formatRelativeTime(answer.createdAt)}
                 </span>
             </div>
+            {answer.isHidden && (
+                <p className="text-muted-foreground mb-1 text-xs italic">
+                    Hidden by moderators. Only you and the moderators can see
+                    this answer.
+                </p>
+            )}
             <SafeHtml
                 html={answer.content}
                 className="prose prose-sm dark:prose-invert max-w-none"
@@ -251,8 +259,28 @@ export function AnswerCard({
                     size="sm"
                     showLabel={true}
                 />
+                {session?.user &&
+                    session.user.id !== answer.authorId &&
+                    !answer.isHidden && (
+                        <Button
+                            variant="ghost"
+                            className="hover:text-foreground inline-flex items-center gap-1"
+                            onClick={() => setIsReportDialogOpen(true)}
+                            aria-label="Report answer"
+                        >
+                            <Flag className="h-4 w-4" />
+                            <span className="hidden md:inline">Report</span>
+                        </Button>
+                    )}
             </div>
 
+            <ReportContentDialog
+                open={isReportDialogOpen}
+                onOpenChange={setIsReportDialogOpen}
+                targetType="answer"
+                targetId={answer.id}
+            />
+
             {/* Comments section */}
             {isCommentsExpanded && (
                 <div className="mt-4 space-y-3 border-t pt-3">
@@ -4,6 +4,7 @@ import React from 'react';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
+import { toDateTimeLocalValue } from '@/lib/utils';
 
 export type QnAConfig = {
     answersVisibleAt?: Date | null;
@@ -12,11 +13,16 @@ export type QnAConfig = {
 
 type Props = {
     onChange: (config: QnAConfig | null) => void;
+    initialConfig?: QnAConfig | null; // e.g. restored from a draft
 };
 
-export function QnACreator({ onChange }: Props) {
-    const [enabled, setEnabled] = React.useState(false);
-    const [deadline, setDeadline] = React.useState<string>('');
+export function QnACreator({ onChange, initialConfig }: Props) {
+    const [enabled, setEnabled] = React.useState(!!initialConfig);
+    const [deadline, setDeadline] = React.useState<string>(
+        initialConfig?.answersVisibleAt
+            ? toDateTimeLocalValue(initialConfig.answersVisibleAt)
+            : '',
+    );
 
     React.useEffect(() => {
         if (!enabled) {
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { trpc } from '@/providers/trpc-provider';
+
+export type ReportTargetType = 'post' | 'comment' | 'answer';
+
+export type ReportReason =
+    | 'spam'
+    | 'harassment'
+    | 'hate_speech'
+    | 'misinformation'
+    | 'inappropriate'
+    | 'other';
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+    spam: 'Spam',
+    harassment: 'Harassment or bullying',
+    hate_speech: 'Hate speech',
+    misinformation: 'Misinformation',
+    inappropriate: 'Inappropriate content',
+    other: 'Something else',
+};
+
+interface ReportContentDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    targetType: ReportTargetType;
+    targetId: number;
+}
+
+export function ReportContentDialog({
+    open,
+    onOpenChange,
+    targetType,
+    targetId,
+}: ReportContentDialogProps) {
+    const [reason, setReason] = useState<ReportReason>('spam');
+    const [details, setDetails] = useState('');
+
+    const reportMutation = trpc.community.reportContent.useMutation({
+        onSuccess: (data) => {
+            if (data.alreadyReported) {
+                toast.info(`You have already reported this ${targetType}`);
+            } else {
+                toast.success('Thanks, the moderators will review it');
+            }
+            setReason('spam');
+            setDetails('');
+            onOpenChange(false);
+        },
+        onError: (error) => {
+            toast.error(error.message || 'Failed to submit report');
+        },
+    });
+
+    const handleSubmit = () => {
+        reportMutation.mutate({
+            targetType,
+            targetId,
+            reason,
+            details: details.trim() || undefined,
+        });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Report {targetType}</DialogTitle>
+                    <DialogDescription>
+                        Reports are only visible to the community moderators.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <RadioGroup
+                        value={reason}
+                        onValueChange={(value) =>
+                            setReason(value as ReportReason)
+                        }
+                    >
+                        {(
+                            Object.keys(REPORT_REASON_LABELS) as ReportReason[]
+                        ).map((key) => (
+                            <div key={key} className="flex items-center gap-2">
+                                <RadioGroupItem
+                                    value={key}
+                                    id={`report-reason-${key}`}
+                                />
+                                <Label htmlFor={`report-reason-${key}`}>
+                                    {REPORT_REASON_LABELS[key]}
+                                </Label>
+                            </div>
+                        ))}
+                    </RadioGroup>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="report-details">
+                            Details (optional)
+                        </Label>
+                        <Textarea
+                            id="report-details"
+                            value={details}
+                            onChange={(e) => setDetails(e.target.value)}
+                            maxLength={1000}
+                            placeholder="Add anything that helps the moderators understand the problem"
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleSubmit}
+                        disabled={reportMutation.isPending}
+                    >
+                        {reportMutation.isPending ? 'Reporting...' : 'Report'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,60 @@
+import { Node, mergeAttributes } from '@tiptap/react';
+
+export interface MentionAttributes {
+    id: string;
+    label: string;
+}
+
+// Inline @mention. Rendered as <span data-type="mention" data-id data-label>
+// so the server can find mentioned users in saved HTML, and both sanitizers
+// keep the data attributes.
+export const Mention = Node.create({
+    name: 'mention',
+    group: 'inline',
+    inline: true,
+    atom: true,
+    selectable: false,
+
+    addAttributes() {
+        return {
+            id: {
+                default: null,
+                parseHTML: (element) => element.getAttribute('data-id'),
+                renderHTML: (attributes) =>
+                    attributes.id ? { 'data-id': attributes.id } : {},
+            },
+            label: {
+                default: null,
+                parseHTML: (element) => element.getAttribute('data-label'),
+                renderHTML: (attributes) =>
+                    attributes.label ? { 'data-label': attributes.label } : {},
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: 'span[data-type="mention"]' }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return [
+            'span',
+            mergeAttributes(
+                {
+                    'data-type': 'mention',
+                    class: 'mention text-primary font-medium',
+                },
+                HTMLAttributes,
+            ),
+            `@${node.attrs.label ?? ''}`,
+        ];
+    },
+
+    renderText({ node }) {
+        return `@${node.attrs.label ?? ''}`;
+    },
+});
+
+// Text typed since the last '@' (preceded by whitespace or the start of the
+// block) up to the cursor, e.g. "@ali" -> "ali"
+export const MENTION_TRIGGER_PATTERN = /(?:^|\s)@([^\s@]{0,30})$/;
@@ -24,6 +24,7 @@ import {
     Bookmark,
     Bell,
     Plus,
+    AtSign,
 } from 'lucide-react';
 import { usePermission } from '@/hooks/use-permission';
 import { trpc } from '@/providers/trpc-provider';
@@ -100,6 +101,13 @@ export function Topbar() {
                                     <Globe className="mr-2 h-4 w-4" /> Explore
                                     Communities
                                 </Link>
+                                <Link
+                                    href="/mentions"
+                                    className="hover:bg-accent flex items-center rounded-md p-2 text-sm"
+                                    onClick={() => setNavOpen(false)}
+                                >
+                                    <AtSign className="mr-2 h-4 w-4" /> Mentions
+                                </Link>
                                 <Link
                                     href="/saved"
                                     className="hover:bg-accent flex items-center rounded-md p-2 text-sm"
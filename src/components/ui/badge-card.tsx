@@ -27,7 +27,7 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { MoreHorizontal, Edit, Trash2, Users } from 'lucide-react';
+import { MoreHorizontal, Edit, Trash2, Users, Sparkles } from 'lucide-react';
 
 interface BadgeCardProps {
     badge: {
@@ -47,6 +47,7 @@ interface BadgeCardProps {
     onEdit: () => void;
     onDelete: () => void;
     onManageUsers: () => void;
+    awardRuleDescription?: string; // Set when the badge is awarded automatically
     canEdit?: boolean;
     canDelete?: boolean;
 }
@@ -56,6 +57,7 @@ export function BadgeCard({
     onEdit,
     onDelete,
     onManageUsers,
+    awardRuleDescription,
     canEdit = false,
     canDelete = false,
 }: BadgeCardProps) {
@@ -86,6 +88,12 @@ export function BadgeCard({
                                         {badge.description}
                                     </CardDescription>
                                 )}
+                                {awardRuleDescription && (
+                                    <p className="text-muted-foreground mt-1 flex items-center gap-1 text-xs">
+                                        <Sparkles className="h-3 w-3" />
+                                        {awardRuleDescription}
+                                    </p>
+                                )}
                             </div>
                         </div>
 
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -24,22 +24,60 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { Loader2 } from 'lucide-react';
+import {
+    BADGE_RULE_TYPES,
+    BADGE_RULE_TYPE_LABELS,
+    COMMUNITY_SCOPED_RULE_TYPES,
+    type BadgeRule,
+} from '@/lib/badge-rules';
 
-const badgeFormSchema = z.object({
-    name: z
-        .string()
-        .min(1, 'Name is required')
-        .max(50, 'Name must be 50 characters or less'),
-    description: z.string().optional(),
-    icon: z.string().optional(),
-    color: z
-        .string()
-        .regex(/^#[0-9A-F]{6}$/i, 'Color must be a valid hex color'),
-});
+const badgeFormSchema = z
+    .object({
+        name: z
+            .string()
+            .min(1, 'Name is required')
+            .max(50, 'Name must be 50 characters or less'),
+        description: z.string().optional(),
+        icon: z.string().optional(),
+        color: z
+            .string()
+            .regex(/^#[0-9A-F]{6}$/i, 'Color must be a valid hex color'),
+        ruleType: z.enum(['none', ...BADGE_RULE_TYPES]),
+        ruleThreshold: z.string(),
+        ruleCommunityId: z.string(), // 'all' or a community id
+        revokeWhenUnmet: z.boolean(),
+    })
+    .refine(
+        (data) =>
+            data.ruleType === 'none' ||
+            (Number.isInteger(Number(data.ruleThreshold)) &&
+                Number(data.ruleThreshold) >= 1),
+        {
+            message: 'Enter a whole number of at least 1',
+            path: ['ruleThreshold'],
+        },
+    );
 
 type BadgeFormData = z.infer<typeof badgeFormSchema>;
 
+export type BadgeFormValues = {
+    name: string;
+    description?: string;
+    icon?: string;
+    color: string;
+    awardRule: BadgeRule | null;
+    revokeWhenUnmet: boolean;
+};
+
 interface Badge {
     id: number;
     name: string;
@@ -47,6 +85,8 @@ interface Badge {
     icon?: string | null;
     color: string;
     orgId: string;
+    awardRule?: BadgeRule | null;
+    revokeWhenUnmet?: boolean;
     createdBy: string;
     createdAt: Date;
     updatedAt: Date;
@@ -56,10 +96,23 @@ interface BadgeFormDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     badge?: Badge | null;
-    onSubmit: (data: BadgeFormData) => Promise<void>;
+    // Communities a rule can be limited to
+    communities?: Array<{ id: number; name: string }>;
+    onSubmit: (data: BadgeFormValues) => Promise<void>;
     isSubmitting?: boolean;
 }
 
+const formDefaults = (badge?: Badge | null): BadgeFormData => ({
+    name: badge?.name || '',
+    description: badge?.description || '',
+    icon: badge?.icon || '',
+    color: badge?.color || '#3B82F6',
+    ruleType: badge?.awardRule?.type ?? 'none',
+    ruleThreshold: badge?.awardRule?.threshold.toString() ?? '1',
+    ruleCommunityId: badge?.awardRule?.communityId?.toString() ?? 'all',
+    revokeWhenUnmet: badge?.revokeWhenUnmet ?? false,
+});
+
 const commonColors = [
     '#3B82F6', // Blue
     '#EF4444', // Red
@@ -77,6 +130,7 @@ export function BadgeFormDialog({
     open,
     onOpenChange,
     badge,
+    communities = [],
     onSubmit,
     isSubmitting = false,
 }: BadgeFormDialogProps) {
@@ -86,17 +140,40 @@ export function BadgeFormDialog({
 
     const form = useForm<BadgeFormData>({
         resolver: zodResolver(badgeFormSchema),
-        defaultValues: {
-            name: badge?.name || '',
-            description: badge?.description || '',
-            icon: badge?.icon || '',
-            color: badge?.color || '#3B82F6',
-        },
+        defaultValues: formDefaults(badge),
     });
 
+    // The dialog stays mounted, so load the badge being edited on open
+    useEffect(() => {
+        if (!open) return;
+        form.reset(formDefaults(badge));
+        setSelectedColor(badge?.color || '#3B82F6');
+    }, [open, badge, form]);
+
+    const ruleType = form.watch('ruleType');
+
     const handleSubmit = async (data: BadgeFormData) => {
+        const {
+            ruleType,
+            ruleThreshold,
+            ruleCommunityId,
+            revokeWhenUnmet,
+            ...details
+        } = data;
+        const awardRule: BadgeRule | null =
+            ruleType === 'none'
+                ? null
+                : {
+                      type: ruleType,
+                      threshold: Number(ruleThreshold),
+                      communityId:
+                          COMMUNITY_SCOPED_RULE_TYPES.includes(ruleType) &&
+                          ruleCommunityId !== 'all'
+                              ? Number(ruleCommunityId)
+                              : null,
+                  };
         try {
-            await onSubmit(data);
+            await onSubmit({ ...details, awardRule, revokeWhenUnmet });
             form.reset();
             onOpenChange(false);
         } catch (error) {
@@ -235,6 +312,146 @@ export function BadgeFormDialog({
                             )}
                         />
 
+                        <FormField
+                            control={form.control}
+                            name="ruleType"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Award automatically</FormLabel>
+                                    <Select
+                                        value={field.value}
+                                        onValueChange={field.onChange}
+                                    >
+                                        <FormControl>
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            <SelectItem value="none">
+                                                Only by hand
+                                            </SelectItem>
+                                            {BADGE_RULE_TYPES.map((type) => (
+                                                <SelectItem
+                                                    key={type}
+                                                    value={type}
+                                                >
+                                                    {
+                                                        BADGE_RULE_TYPE_LABELS[
+                                                            type
+                                                        ]
+                                                    }
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormDescription>
+                                        Members who reach the threshold get this
+                                        badge
+                                    </FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+
+                        {ruleType !== 'none' && (
+                            <>
+                                <FormField
+                                    control={form.control}
+                                    name="ruleThreshold"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>
+                                                {ruleType === 'membership_days'
+                                                    ? 'Days since joining'
+                                                    : 'At least'}
+                                            </FormLabel>
+                                            <FormControl>
+                                                <Input
+                                                    type="number"
+                                                    min={1}
+                                                    {...field}
+                                                />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                {COMMUNITY_SCOPED_RULE_TYPES.includes(
+                                    ruleType,
+                                ) && (
+                                    <FormField
+                                        control={form.control}
+                                        name="ruleCommunityId"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Community</FormLabel>
+                                                <Select
+                                                    value={field.value}
+                                                    onValueChange={
+                                                        field.onChange
+                                                    }
+                                                >
+                                                    <FormControl>
+                                                        <SelectTrigger className="w-full">
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                    </FormControl>
+                                                    <SelectContent>
+                                                        <SelectItem value="all">
+                                                            All communities
+                                                        </SelectItem>
+                                                        {communities.map(
+                                                            (community) => (
+                                                                <SelectItem
+                                                                    key={
+                                                                        community.id
+                                                                    }
+                                                                    value={community.id.toString()}
+                                                                >
+                                                                    {
+                                                                        community.name
+                                                                    }
+                                                                </SelectItem>
+                                                            ),
+                                                        )}
+                                                    </SelectContent>
+                                                </Select>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                )}
+
+                                <FormField
+                                    control={form.control}
+                                    name="revokeWhenUnmet"
+                                    render={({ field }) => (
+                                        <FormItem className="flex items-center justify-between gap-4">
+                                            <div className="space-y-1">
+                                                <FormLabel>
+                                                    Revoke when no longer met
+                                                </FormLabel>
+                                                <FormDescription>
+                                                    Only badges awarded by the
+                                                    rule are revoked
+                                                </FormDescription>
+                                            </div>
+                                            <FormControl>
+                                                <Switch
+                                                    checked={field.value}
+                                                    onCheckedChange={
+                                                        field.onChange
+                                                    }
+                                                />
+                                            </FormControl>
+                                        </FormItem>
+                                    )}
+                                />
+                            </>
+                        )}
+
                         <DialogFooter>
                             <Button
                                 type="button"
@@ -1,8 +1,13 @@
 'use client';
 
 import React from 'react';
-import Image from 'next/image';
 import { cn } from '@/lib/utils';
+import {
+    stripImageQuery,
+    type ImageVariantName,
+    type ImageVariants,
+} from '@/lib/image-variants';
+import { VariantImage } from '@/components/ui/variant-image';
 import {
     Carousel,
     CarouselContent,
@@ -12,13 +17,24 @@ import {
     CarouselDots,
 } from '@/components/ui/carousel';
 
+// The post's image attachments, matched to <img> tags by URL
+export type ImageAttachmentInfo = {
+    publicUrl: string | null;
+    variants?: ImageVariants | null;
+    blurhash?: string | null;
+};
+
 interface HtmlImageCarouselProps {
     htmlContent: string;
+    attachments?: ImageAttachmentInfo[];
+    variant?: ImageVariantName;
     className?: string;
 }
 
 export function HtmlImageCarousel({
     htmlContent,
+    attachments = [],
+    variant = 'large',
     className,
 }: HtmlImageCarouselProps) {
     const imgRegex = /<img[^>]*src=["']([^"']+)["'][^>]*>/gi;
@@ -38,24 +54,32 @@ export function HtmlImageCarousel({
             <div className="bg-muted relative aspect-square w-full overflow-hidden rounded-lg">
                 <Carousel className="h-full w-full">
                     <CarouselContent className="h-full">
-                        {images.map((src, idx) => (
-                            <CarouselItem
-                                key={`${src}-${idx}`}
-                                className="h-full"
-                            >
-                                <div className="relative flex h-full w-full items-center justify-center">
-                                    <Image
-                                        src={src}
-                                        alt={`Image ${idx + 1}`}
-                                        fill
-                                        className="object-contain object-center"
-                                        sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
-                                        priority={idx === 0}
-                                        quality={85}
-                                    />
-                                </div>
-                            </CarouselItem>
-                        ))}
+                        {images.map((src, idx) => {
+                            const attachment = attachments.find(
+                                (a) => a.publicUrl === stripImageQuery(src),
+                            );
+                            return (
+                                <CarouselItem
+                                    key={`${src}-${idx}`}
+                                    className="h-full"
+                                >
+                                    <div className="relative flex h-full w-full items-center justify-center">
+                                        <VariantImage
+                                            src={src}
+                                            variants={attachment?.variants}
+                                            blurhash={attachment?.blurhash}
+                                            variant={variant}
+                                            alt={`Image ${idx + 1}`}
+                                            fill
+                                            className="object-contain object-center"
+                                            sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+                                            priority={idx === 0}
+                                            quality={85}
+                                        />
+                                    </div>
+                                </CarouselItem>
+                            );
+                        })}
                     </CarouselContent>
                     {images.length > 1 && (
                         <>
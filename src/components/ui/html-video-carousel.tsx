@@ -1,7 +1,9 @@
 'use client';
 
 import React from 'react';
+import { Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isVideoConverting } from '@/lib/video-conversion';
 import {
     Carousel,
     CarouselContent,
@@ -11,13 +13,43 @@ import {
     CarouselDots,
 } from '@/components/ui/carousel';
 
+// The post's video attachments, matched to placeholders by URL
+export type VideoAttachmentInfo = {
+    publicUrl: string | null;
+    thumbnailUrl?: string | null;
+    conversionStatus?: string | null;
+};
+
+// Shown over a video while it is transcoded, or if transcoding failed
+export function VideoConversionBadge({ status }: { status?: string | null }) {
+    if (isVideoConverting(status)) {
+        return (
+            <div className="absolute top-2 left-2 z-10 flex items-center gap-1 rounded bg-black/60 px-2 py-1 text-xs text-white">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Processing video…
+            </div>
+        );
+    }
+    if (status === 'failed') {
+        return (
+            <div className="absolute top-2 left-2 z-10 rounded bg-black/60 px-2 py-1 text-xs text-white">
+                This video couldn&apos;t be converted and may not play in every
+                browser
+            </div>
+        );
+    }
+    return null;
+}
+
 interface HtmlVideoCarouselProps {
     htmlContent: string;
+    attachments?: VideoAttachmentInfo[];
     className?: string;
 }
 
 export function HtmlVideoCarousel({
     htmlContent,
+    attachments = [],
     className,
 }: HtmlVideoCarouselProps) {
     // Extract video URLs from VIDEO placeholders
@@ -38,33 +70,47 @@ export function HtmlVideoCarousel({
             <div className="bg-muted relative aspect-video w-full overflow-hidden rounded-lg">
                 <Carousel className="h-full w-full">
                     <CarouselContent className="h-full">
-                        {videos.map((src, idx) => (
-                            <CarouselItem
-                                key={`${src}-${idx}`}
-                                className="h-full"
-                            >
-                                <div className="flex h-full w-full items-center justify-center">
-                                    <video
-                                        src={src}
-                                        controls
-                                        playsInline
-                                        webkit-playsinline="true"
-                                        preload={
-                                            idx === 0 ? 'metadata' : 'none'
-                                        }
-                                        muted
-                                        className="max-h-full max-w-full object-contain"
-                                        crossOrigin="anonymous"
-                                        disablePictureInPicture={false}
-                                        controlsList="nodownload"
-                                        x-webkit-airplay="allow"
-                                    >
-                                        Your browser does not support the video
-                                        tag.
-                                    </video>
-                                </div>
-                            </CarouselItem>
-                        ))}
+                        {videos.map((src, idx) => {
+                            const attachment = attachments.find(
+                                (a) => a.publicUrl === src,
+                            );
+                            return (
+                                <CarouselItem
+                                    key={`${src}-${idx}`}
+                                    className="h-full"
+                                >
+                                    <div className="relative flex h-full w-full items-center justify-center">
+                                        <VideoConversionBadge
+                                            status={
+                                                attachment?.conversionStatus
+                                            }
+                                        />
+                                        <video
+                                            src={src}
+                                            poster={
+                                                attachment?.thumbnailUrl ??
+                                                undefined
+                                            }
+                                            controls
+                                            playsInline
+                                            webkit-playsinline="true"
+                                            preload={
+                                                idx === 0 ? 'metadata' : 'none'
+                                            }
+                                            muted
+                                            className="max-h-full max-w-full object-contain"
+                                            crossOrigin="anonymous"
+                                            disablePictureInPicture={false}
+                                            controlsList="nodownload"
+                                            x-webkit-airplay="allow"
+                                        >
+                                            Your browser does not support the
+                                            video tag.
+                                        </video>
+                                    </div>
+                                </CarouselItem>
+                            );
+                        })}
                     </CarouselContent>
                     {videos.length > 1 && (
                         <>
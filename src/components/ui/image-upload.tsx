@@ -105,7 +105,7 @@ export function ImageUpload({
 
             // Get presigned URL
             const presignedResponse = await fetch(
-                `/api/images/presigned-url?key=${encodeURIComponent(key)}&contentType=${encodeURIComponent(file.type)}`,
+                `/api/images/presigned-url?key=${encodeURIComponent(key)}&contentType=${encodeURIComponent(file.type)}&size=${file.size}`,
             );
 
             if (!presignedResponse.ok) {
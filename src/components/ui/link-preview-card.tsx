@@ -0,0 +1,51 @@
+import React from 'react';
+import Image from 'next/image';
+import type { LinkPreview } from '@/lib/link-preview';
+import { cn } from '@/lib/utils';
+
+interface LinkPreviewCardProps {
+    preview: LinkPreview;
+    className?: string;
+}
+
+// The unfurled preview stored with a post or message. Preview images come
+// from arbitrary sites, so they skip the Next.js optimizer.
+export function LinkPreviewCard({ preview, className }: LinkPreviewCardProps) {
+    return (
+        <a
+            href={preview.url}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            onClick={(e) => e.stopPropagation()}
+            className={cn(
+                'hover:bg-muted/50 flex overflow-hidden rounded-md border transition-colors',
+                className,
+            )}
+        >
+            {preview.image && (
+                <Image
+                    src={preview.image}
+                    alt=""
+                    width={96}
+                    height={96}
+                    unoptimized
+                    loading="lazy"
+                    className="h-24 w-24 shrink-0 object-cover"
+                />
+            )}
+            <div className="min-w-0 flex-1 p-3">
+                <p className="text-muted-foreground truncate text-xs">
+                    {preview.siteName ?? preview.domain}
+                </p>
+                <p className="line-clamp-2 text-sm font-medium">
+                    {preview.title ?? preview.url}
+                </p>
+                {preview.description && (
+                    <p className="text-muted-foreground mt-1 line-clamp-2 text-xs">
+                        {preview.description}
+                    </p>
+                )}
+            </div>
+        </a>
+    );
+}
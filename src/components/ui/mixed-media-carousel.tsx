@@ -1,8 +1,8 @@
 'use client';
 
 import React from 'react';
-import Image from 'next/image';
 import { cn } from '@/lib/utils';
+import type { ImageVariantName, ImageVariants } from '@/lib/image-variants';
 import {
     Carousel,
     CarouselContent,
@@ -11,6 +11,8 @@ import {
     CarouselPrevious,
     CarouselDots,
 } from '@/components/ui/carousel';
+import { VideoConversionBadge } from '@/components/ui/html-video-carousel';
+import { VariantImage } from '@/components/ui/variant-image';
 
 interface MixedMediaItem {
     id: number;
@@ -22,6 +24,9 @@ interface MixedMediaItem {
     r2Url: string | null;
     publicUrl: string | null;
     thumbnailUrl: string | null;
+    conversionStatus?: string | null;
+    variants?: ImageVariants | null;
+    blurhash?: string | null;
     uploadedBy: string;
     postId: number | null;
     communityId: number | null;
@@ -31,11 +36,14 @@ interface MixedMediaItem {
 
 interface MixedMediaCarouselProps {
     media: MixedMediaItem[];
+    // Image variant to show; feeds use smaller ones than post pages
+    variant?: ImageVariantName;
     className?: string;
 }
 
 export function MixedMediaCarousel({
     media,
+    variant = 'large',
     className,
 }: MixedMediaCarouselProps) {
     if (!media || media.length === 0) {
@@ -63,8 +71,11 @@ export function MixedMediaCarousel({
                             <CarouselItem key={item.id} className="h-full">
                                 <div className="relative flex h-full w-full items-center justify-center">
                                     {item.type === 'image' ? (
-                                        <Image
+                                        <VariantImage
                                             src={item.url as string}
+                                            variants={item.variants}
+                                            blurhash={item.blurhash}
+                                            variant={variant}
                                             alt={item.filename}
                                             fill
                                             className="object-contain object-center"
@@ -75,26 +86,35 @@ export function MixedMediaCarousel({
                                             quality={85}
                                         />
                                     ) : item.type === 'video' ? (
-                                        <video
-                                            src={item.url as string}
-                                            controls
-                                            playsInline
-                                            webkit-playsinline="true"
-                                            preload={
-                                                item.id === mediaList[0].id
-                                                    ? 'metadata'
-                                                    : 'none'
-                                            }
-                                            muted
-                                            className="max-h-full max-w-full object-contain"
-                                            crossOrigin="anonymous"
-                                            disablePictureInPicture={false}
-                                            controlsList="nodownload"
-                                            x-webkit-airplay="allow"
-                                        >
-                                            Your browser does not support the
-                                            video tag.
-                                        </video>
+                                        <>
+                                            <VideoConversionBadge
+                                                status={item.conversionStatus}
+                                            />
+                                            <video
+                                                src={item.url as string}
+                                                poster={
+                                                    item.thumbnailUrl ??
+                                                    undefined
+                                                }
+                                                controls
+                                                playsInline
+                                                webkit-playsinline="true"
+                                                preload={
+                                                    item.id === mediaList[0].id
+                                                        ? 'metadata'
+                                                        : 'none'
+                                                }
+                                                muted
+                                                className="max-h-full max-w-full object-contain"
+                                                crossOrigin="anonymous"
+                                                disablePictureInPicture={false}
+                                                controlsList="nodownload"
+                                                x-webkit-airplay="allow"
+                                            >
+                                                Your browser does not support
+                                                the video tag.
+                                            </video>
+                                        </>
                                     ) : null}
                                 </div>
                             </CarouselItem>
@@ -11,45 +11,64 @@ import {
 import {
     ChevronDown,
     Clock,
+    Flame,
+    Heart,
     MessageSquare,
+    Sparkles,
     ArrowUpNarrowWide,
 } from 'lucide-react';
+import {
+    BASIC_SORTS,
+    type BasicSort,
+    type FeedSort,
+    type ForMeSort,
+} from '@/lib/feed-sorts';
 
-export type SortOption = 'latest' | 'oldest' | 'most-commented';
+export type SortOption = BasicSort;
 
-interface SortSelectProps {
-    value: SortOption;
-    onValueChange: (value: SortOption) => void;
+interface SortSelectProps<T extends ForMeSort> {
+    value: T;
+    onValueChange: (value: T) => void;
+    // Sorts to offer; defaults to the ones every post list supports
+    options?: readonly T[];
     className?: string;
 }
 
-const sortOptions = [
-    {
-        value: 'latest' as const,
+const sortOptions: Record<ForMeSort, { label: string; icon: typeof Clock }> = {
+    recommended: {
+        label: 'Recommended for you',
+        icon: Sparkles,
+    },
+    latest: {
         label: 'Latest posts first',
         icon: Clock,
     },
-    {
-        value: 'oldest' as const,
+    oldest: {
         label: 'Oldest posts first',
         icon: Clock,
     },
-    {
-        value: 'most-commented' as const,
+    'most-liked': {
+        label: 'Most liked first',
+        icon: Heart,
+    },
+    'most-commented': {
         label: 'Most commented first',
         icon: MessageSquare,
     },
-];
+    trending: {
+        label: 'Trending',
+        icon: Flame,
+    },
+};
 
-export function SortSelect({
+export function SortSelect<T extends ForMeSort = SortOption>({
     value,
     onValueChange,
+    options = BASIC_SORTS as readonly FeedSort[] as readonly T[],
     className,
-}: SortSelectProps) {
+}: SortSelectProps<T>) {
     const [isOpen, setIsOpen] = useState(false);
 
-    const currentOption = sortOptions.find((option) => option.value === value);
-
     return (
         <DropdownMenu open={isOpen} onOpenChange={setIsOpen}>
             <DropdownMenuTrigger asChild>
@@ -67,19 +86,22 @@ export function SortSelect({
                 </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
-                {sortOptions.map((option) => (
-                    <DropdownMenuItem
-                        key={option.value}
-                        onClick={() => {
-                            onValueChange(option.value);
-                            setIsOpen(false);
-                        }}
-                        className="cursor-pointer"
-                    >
-                        <option.icon className="mr-2 h-4 w-4" />
-                        {option.label}
-                    </DropdownMenuItem>
-                ))}
+                {options.map((option) => {
+                    const { label, icon: Icon } = sortOptions[option];
+                    return (
+                        <DropdownMenuItem
+                            key={option}
+                            onClick={() => {
+                                onValueChange(option);
+                                setIsOpen(false);
+                            }}
+                            className={`cursor-pointer ${option === value ? 'font-medium' : ''}`}
+                        >
+                            <Icon className="mr-2 h-4 w-4" />
+                            {label}
+                        </DropdownMenuItem>
+                    );
+                })}
             </DropdownMenuContent>
         </DropdownMenu>
     );
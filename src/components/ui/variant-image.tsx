@@ -0,0 +1,43 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import Image, { type ImageProps } from 'next/image';
+import {
+    blurhashToDataUrl,
+    pickImageVariant,
+    type ImageVariantName,
+    type ImageVariants,
+} from '@/lib/image-variants';
+
+interface VariantImageProps extends Omit<ImageProps, 'src'> {
+    src: string;
+    variants?: ImageVariants | null;
+    blurhash?: string | null;
+    variant?: ImageVariantName;
+}
+
+// An uploaded image served from its resized variant, with its blurhash as
+// the placeholder. Unprocessed images fall back to the original through the
+// Next.js optimizer.
+export function VariantImage({
+    src,
+    variants,
+    blurhash,
+    variant = 'large',
+    ...props
+}: VariantImageProps) {
+    const variantSrc = pickImageVariant({ variants }, variant, src);
+    const blurDataURL = useMemo(() => blurhashToDataUrl(blurhash), [blurhash]);
+
+    return (
+        <Image
+            {...props}
+            src={variantSrc}
+            alt={props.alt}
+            // Variants are already sized WebP
+            unoptimized={variantSrc !== src || props.unoptimized}
+            placeholder={blurDataURL ? 'blur' : 'empty'}
+            blurDataURL={blurDataURL}
+        />
+    );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { trpc } from '@/providers/trpc-provider';
+
+export type MentionSuggestion = {
+    id: string;
+    name: string;
+    image: string | null;
+};
+
+type MentionInput = HTMLTextAreaElement | HTMLInputElement;
+
+// Text typed since the last '@' up to the cursor, e.g. "hi @ali" -> "ali"
+const MENTION_TRIGGER_PATTERN = /(?:^|\s)@([^\s@]{0,30})$/;
+
+/**
+ * @mention autocomplete for the plain-text chat composers. Suggestions come
+ * from the thread's participants; picked users are tracked so the ids can be
+ * sent along with the message, as long as their "@Name" is still in the text.
+ */
+export function useChatMentions(
+    threadId: number,
+    message: string,
+    setMessage: (message: string) => void,
+) {
+    const [query, setQuery] = useState<string | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [mentionedUsers, setMentionedUsers] = useState<
+        { id: string; name: string }[]
+    >([]);
+
+    const { data: suggestions = [] } = trpc.mentions.searchUsers.useQuery(
+        { query: query ?? '', threadId },
+        { enabled: query !== null },
+    );
+    const isOpen = query !== null && suggestions.length > 0;
+
+    const handleChange = (e: React.ChangeEvent<MentionInput>) => {
+        const value = e.target.value;
+        setMessage(value);
+
+        const textBefore = value.slice(0, e.target.selectionStart ?? 0);
+        const match = textBefore.match(MENTION_TRIGGER_PATTERN);
+        setQuery(match ? match[1] : null);
+        setActiveIndex(0);
+    };
+
+    const selectSuggestion = (
+        user: MentionSuggestion,
+        input: MentionInput | null,
+    ) => {
+        if (!input || query === null) return;
+
+        const name = user.name;
+        const cursor = input.selectionStart ?? message.length;
+        const start = cursor - query.length - 1;
+
+        setMessage(
+            `${message.slice(0, start)}@${name} ${message.slice(cursor)}`,
+        );
+        setMentionedUsers((previous) =>
+            previous.some((mentioned) => mentioned.id === user.id)
+                ? previous
+                : [...previous, { id: user.id, name }],
+        );
+        setQuery(null);
+
+        const nextCursor = start + name.length + 2;
+        setTimeout(() => {
+            input.focus();
+            input.setSelectionRange(nextCursor, nextCursor);
+        }, 0);
+    };
+
+    // Returns true when the key was used to drive the suggestion list
+    const handleKeyDown = (e: React.KeyboardEvent<MentionInput>) => {
+        if (!isOpen) return false;
+
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowUp': {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setActiveIndex(
+                    (index) =>
+                        (index + step + suggestions.length) %
+                        suggestions.length,
+                );
+                return true;
+            }
+            case 'Enter':
+            case 'Tab': {
+                e.preventDefault();
+                const user =
+                    suggestions[Math.min(activeIndex, suggestions.length - 1)];
+                if (user) selectSuggestion(user, e.currentTarget);
+                return true;
+            }
+            case 'Escape':
+                e.preventDefault();
+                setQuery(null);
+                return true;
+            default:
+                return false;
+        }
+    };
+
+    const getMentionedUserIds = () => {
+        const ids = mentionedUsers
+            .filter((user) => message.includes(`@${user.name}`))
+            .map((user) => user.id);
+        return ids.length > 0 ? ids : undefined;
+    };
+
+    const reset = () => {
+        setQuery(null);
+        setMentionedUsers([]);
+    };
+
+    return {
+        isOpen,
+        suggestions,
+        activeIndex,
+        handleChange,
+        handleKeyDown,
+        selectSuggestion,
+        getMentionedUserIds,
+        reset,
+    };
+}
@@ -0,0 +1,37 @@
+import { useContext, useEffect, useRef } from 'react';
+import type { ChatStreamEvent } from '@/lib/chat-events';
+import { ChatStreamContext } from '@/providers/chat-stream-provider';
+
+export type ChatMessageStreamEvent = Extract<
+    ChatStreamEvent,
+    { type: 'message' }
+>;
+
+export type ChatMessageUpdatedStreamEvent = Extract<
+    ChatStreamEvent,
+    { type: 'message_updated' }
+>;
+
+export type UseChatStreamOptions = {
+    onMessage?: (event: ChatMessageStreamEvent) => void;
+    onMessageUpdated?: (event: ChatMessageUpdatedStreamEvent) => void;
+    // Incoming messages in this thread are marked as read
+    openThreadId?: number | null;
+};
+
+/**
+ * Subscribes to the tab's chat stream (ChatStreamProvider). Pushed messages
+ * are already in the tRPC query cache when the handlers run.
+ *
+ * `isConnected` is false until the stream is open and whenever it drops, so
+ * callers can fall back to polling in the meantime.
+ */
+export function useChatStream(options: UseChatStreamOptions = {}) {
+    const { isConnected, subscribe } = useContext(ChatStreamContext);
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    useEffect(() => subscribe(optionsRef), [subscribe]);
+
+    return { isConnected };
+}
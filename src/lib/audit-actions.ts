@@ -0,0 +1,41 @@
+// Actions recorded in the audit log. Shared by the server (which writes them)
+// and the audit log viewer (which filters and labels them).
+export const AUDIT_ACTIONS = [
+    'community.assign_moderator',
+    'community.assign_admin',
+    'community.remove_moderator',
+    'community.remove_admin',
+    'community.remove_member',
+    'community.ban_member',
+    'community.unban_member',
+    'community.mute_member',
+    'community.unmute_member',
+    'community.delete_tag',
+    'org.assign_badge',
+    'org.unassign_badge',
+    'org.remove_member',
+    'org.update_cross_org_dm',
+    'org.update_storage_quotas',
+    'app.remove_user',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    'community.assign_moderator': 'Assigned moderator',
+    'community.assign_admin': 'Assigned community admin',
+    'community.remove_moderator': 'Removed moderator',
+    'community.remove_admin': 'Removed community admin',
+    'community.remove_member': 'Removed member',
+    'community.ban_member': 'Banned user',
+    'community.unban_member': 'Unbanned user',
+    'community.mute_member': 'Muted member',
+    'community.unmute_member': 'Unmuted member',
+    'community.delete_tag': 'Deleted tag',
+    'org.assign_badge': 'Assigned badge',
+    'org.unassign_badge': 'Unassigned badge',
+    'org.remove_member': 'Removed organization member',
+    'org.update_cross_org_dm': 'Changed cross-org messaging',
+    'org.update_storage_quotas': 'Changed storage quotas',
+    'app.remove_user': 'Removed user',
+};
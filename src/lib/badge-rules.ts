@@ -0,0 +1,57 @@
+// Automatic badge rules, shared by the badge procedures, the rules engine
+// and the badge editor. A badge has at most one rule; the threshold is a
+// count of the activity, or days since joining for membership rules.
+
+export const BADGE_RULE_TYPES = [
+    'posts',
+    'comments',
+    'helpful_answers',
+    'membership_days',
+] as const;
+
+export type BadgeRuleType = (typeof BADGE_RULE_TYPES)[number];
+
+export type BadgeRule = {
+    type: BadgeRuleType;
+    threshold: number;
+    // Only count activity in this community; not used for membership rules
+    communityId?: number | null;
+};
+
+export const BADGE_RULE_TYPE_LABELS: Record<BadgeRuleType, string> = {
+    posts: 'Posts written',
+    comments: 'Comments written',
+    helpful_answers: 'Q&A answers marked helpful',
+    membership_days: 'Days as a member',
+};
+
+// Rule types that can be limited to one community
+export const COMMUNITY_SCOPED_RULE_TYPES: readonly BadgeRuleType[] = [
+    'posts',
+    'comments',
+    'helpful_answers',
+];
+
+const plural = (count: number, singular: string, pluralForm: string) =>
+    `${count} ${count === 1 ? singular : pluralForm}`;
+
+// e.g. "First post", "50 comments in Engineering", "Member for 1 year"
+export function describeBadgeRule(rule: BadgeRule, communityName?: string) {
+    const where = communityName ? ` in ${communityName}` : '';
+    switch (rule.type) {
+        case 'posts':
+            return rule.threshold === 1
+                ? `First post${where}`
+                : `${plural(rule.threshold, 'post', 'posts')}${where}`;
+        case 'comments':
+            return rule.threshold === 1
+                ? `First comment${where}`
+                : `${plural(rule.threshold, 'comment', 'comments')}${where}`;
+        case 'helpful_answers':
+            return `${plural(rule.threshold, 'helpful-marked Q&A answer', 'helpful-marked Q&A answers')}${where}`;
+        case 'membership_days':
+            return rule.threshold % 365 === 0
+                ? `Member for ${plural(rule.threshold / 365, 'year', 'years')}`
+                : `Member for ${plural(rule.threshold, 'day', 'days')}`;
+    }
+}
@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+import type {
+    attachments,
+    directMessages,
+    messageReactions,
+    users,
+} from '@/server/db/schema';
+
+/**
+ * In-process pub/sub bus for real-time chat delivery.
+ *
+ * `chat.sendMessage` publishes to every thread participant, as do edits,
+ * deletions and reactions; read-state changes publish to the reader, and `/api/chat/stream` forwards every event
+ * for the signed-in user over Server-Sent Events.
+ *
+ * The bus lives in memory, so events only reach clients connected to the same
+ * server process. Clients fall back to polling whenever the stream drops.
+ */
+
+export type ChatStreamMessage = typeof directMessages.$inferSelect & {
+    sender: Pick<typeof users.$inferSelect, 'id' | 'name' | 'email' | 'image'>;
+    attachments: Pick<
+        typeof attachments.$inferSelect,
+        'id' | 'filename' | 'mimetype' | 'type' | 'size' | 'publicUrl'
+    >[];
+    reactions: Pick<typeof messageReactions.$inferSelect, 'userId' | 'emoji'>[];
+};
+
+export type ChatStreamEvent =
+    | {
+          type: 'ready';
+          totalUnreadCount: number;
+      }
+    | {
+          type: 'message';
+          threadId: number;
+          message: ChatStreamMessage;
+          lastMessageAt: Date;
+          lastMessagePreview: string;
+          // Only present for recipients of the message
+          unreadCount?: number;
+          totalUnreadCount?: number;
+      }
+    | {
+          // An existing message was edited, deleted or reacted to
+          type: 'message_updated';
+          threadId: number;
+          message: ChatStreamMessage;
+      }
+    | {
+          type: 'read';
+          threadId: number;
+          unreadCount: number;
+          totalUnreadCount: number;
+      };
+
+type ChatEventListener = (event: ChatStreamEvent) => void;
+
+// Keep a single emitter across hot reloads in development
+const globalForChatEvents = globalThis as unknown as {
+    chatEventBus?: EventEmitter;
+};
+
+const chatEventBus = globalForChatEvents.chatEventBus ?? new EventEmitter();
+// One listener per open stream, so there is no meaningful upper bound
+chatEventBus.setMaxListeners(0);
+
+if (process.env.NODE_ENV !== 'production') {
+    globalForChatEvents.chatEventBus = chatEventBus;
+}
+
+const channelFor = (userId: string) => `user:${userId}`;
+
+export function publishChatEvent(userId: string, event: ChatStreamEvent) {
+    chatEventBus.emit(channelFor(userId), event);
+}
+
+export function subscribeToChatEvents(
+    userId: string,
+    listener: ChatEventListener,
+): () => void {
+    const channel = channelFor(userId);
+    chatEventBus.on(channel, listener);
+    return () => {
+        chatEventBus.off(channel, listener);
+    };
+}
@@ -0,0 +1,10 @@
+// Limits and options for chat messages, shared by the chat router (which
+// enforces them) and the message view (which offers them)
+
+// Emoji that can be added to a message as a reaction
+export const MESSAGE_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🎉'] as const;
+
+export type MessageReaction = (typeof MESSAGE_REACTIONS)[number];
+
+// Files per message
+export const MAX_MESSAGE_ATTACHMENTS = 10;
@@ -1,14 +1,11 @@
-import webpush from 'web-push';
-import { ensureVapidConfigured } from './vapid-config';
+import { dispatchNotification } from './notification-dispatch';
 import { db } from '@/server/db';
 import {
-    pushSubscriptions,
     notificationPreferences,
     users,
     communities,
     orgMembers,
     communityMembers,
-    notifications,
 } from '@/server/db/schema';
 import { eq, and, inArray } from 'drizzle-orm';
 
@@ -17,15 +14,12 @@ import { eq, and, inArray } from 'drizzle-orm';
  *
  * Recipients: Community members, org admins of community's org, super admins (appRole='admin')
  * Post creator is always excluded from notifications
- * Users can opt-out per community via notification preferences
+ * Users can opt-out per community via notification preferences, and choose
+ * channels for new posts in their notification settings
+ * Announcements ignore the per-community opt-out and are sent as their own
+ * event, so their channels are chosen separately
  */
 
-export interface PushSubscriptionData {
-    endpoint: string;
-    p256dh: string;
-    auth: string;
-}
-
 export async function sendCommunityPostNotification(
     communityId: number,
     postTitle: string,
@@ -33,97 +27,41 @@ export async function sendCommunityPostNotification(
     communityName: string,
     postId: number,
     authorId: string, // Add authorId parameter to exclude post creator
+    isAnnouncement = false,
 ): Promise<void> {
-    // Ensure VAPID is configured
-    if (!ensureVapidConfigured()) {
-        return;
-    }
-
     try {
         // Get all users who should receive notifications for this community (excluding post creator)
         const usersToNotify = await getUsersToNotifyForCommunity(
             communityId,
             authorId,
+            isAnnouncement,
         );
 
         if (usersToNotify.length === 0) {
             return;
         }
 
-        // Get push subscriptions for these users
-        const subscriptions = await db
-            .select()
-            .from(pushSubscriptions)
-            .where(inArray(pushSubscriptions.userId, usersToNotify));
-
-        if (subscriptions.length === 0) {
-            return;
-        }
-
         // Truncate post title for notification (max 100 chars)
         const truncatedTitle =
             postTitle.length > 100
                 ? postTitle.substring(0, 100) + '...'
                 : postTitle;
 
-        const payload = JSON.stringify({
-            command: 'notify',
+        // Per-user channel preferences are applied by the dispatcher
+        await dispatchNotification(usersToNotify, {
+            event: isAnnouncement ? 'announcement' : 'post',
+            title: isAnnouncement
+                ? `Announcement in ${communityName}`
+                : `New post in ${communityName}`,
+            body: `"${truncatedTitle}" by ${authorName}`,
+            url: `/communities/${communityId}/posts/${postId}`,
             data: {
-                title: `New post in ${communityName}`,
-                body: `"${truncatedTitle}" by ${authorName}`,
-                icon: '/icon.png',
-                url: `/communities/${communityId}/posts/${postId}`,
+                postId,
+                communityId,
+                authorName,
+                communityName,
             },
         });
-
-        // Send notifications to all subscribers
-        const notificationPromises = subscriptions.map(
-            async (subscription, index) => {
-                try {
-                    const pushSubscription = {
-                        endpoint: subscription.endpoint,
-                        keys: {
-                            auth: subscription.auth,
-                            p256dh: subscription.p256dh,
-                        },
-                    };
-
-                    const result = await webpush.sendNotification(
-                        pushSubscription,
-                        payload,
-                    );
-                } catch (error) {
-                    console.error(
-                        `❌ Failed to send community post notification ${index}:`,
-                        {
-                            message:
-                                error instanceof Error
-                                    ? error.message
-                                    : String(error),
-                            userId: subscription.userId,
-                        },
-                    );
-
-                    // Handle expired subscriptions
-                    if (error instanceof Error) {
-                        const webPushError = error as any;
-                        if (webPushError.statusCode === 410) {
-                            console.log(
-                                `Removing expired subscription for user ${subscription.userId}`,
-                            );
-                            // Remove expired subscription
-                            await db
-                                .delete(pushSubscriptions)
-                                .where(
-                                    eq(pushSubscriptions.id, subscription.id),
-                                );
-                        }
-                    }
-                }
-            },
-        );
-
-        await Promise.allSettled(notificationPromises);
     } catch (error) {
         console.error('Error sending community post notifications:', error);
     }
@@ -132,6 +70,7 @@ export async function sendCommunityPostNotification(
 async function getUsersToNotifyForCommunity(
     communityId: number,
     authorId: string,
+    ignoreOptOut: boolean,
 ): Promise<string[]> {
     try {
         // Get community details
@@ -215,6 +154,10 @@ async function getUsersToNotifyForCommunity(
         // Remove duplicates from potential recipients
         const uniquePotentialRecipients = [...new Set(allPotentialRecipients)];
 
+        if (ignoreOptOut) {
+            return uniquePotentialRecipients;
+        }
+
         // 5. Make a single query to get all notification preferences for all potential recipients
         let allPreferences: { userId: string; enabled: boolean }[] = [];
         if (uniquePotentialRecipients.length > 0) {
@@ -248,46 +191,3 @@ async function getUsersToNotifyForCommunity(
         return [];
     }
 }
-
-// Save notifications to database for all eligible users (excluding post creator)
-export async function saveCommunityPostNotifications(
-    postTitle: string,
-    authorName: string,
-    communityName: string,
-    postId: number,
-    communityId: number,
-    authorId: string,
-): Promise<void> {
-    try {
-        // Get all users who should receive notifications (excluding post creator)
-        const usersToNotify = await getUsersToNotifyForCommunity(
-            communityId,
-            authorId,
-        );
-
-        if (usersToNotify.length === 0) {
-            return;
-        }
-
-        // Save notifications for all eligible users
-        const notificationValues = usersToNotify.map((userId) => ({
-            recipientId: userId,
-            title: `New post in ${communityName}`,
-            body: `"${postTitle}" by ${authorName}`,
-            type: 'post',
-            data: JSON.stringify({
-                postId,
-                communityId,
-                authorName,
-                communityName,
-            }),
-            isRead: false,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-        }));
-
-        await db.insert(notifications).values(notificationValues);
-    } catch (error) {
-        console.error('Error saving community post notifications:', error);
-    }
-}
@@ -0,0 +1,430 @@
+import { randomBytes } from 'crypto';
+import { db } from '@/server/db';
+import {
+    comments,
+    communities,
+    communityMembers,
+    emailDigestDeliveries,
+    emailDigestPreferences,
+    notifications,
+    posts,
+    qaAnswers,
+    qaQuestions,
+    reactions,
+    users,
+} from '@/server/db/schema';
+import {
+    and,
+    count,
+    desc,
+    eq,
+    gt,
+    gte,
+    inArray,
+    isNull,
+    ne,
+    notExists,
+    or,
+    sql,
+} from 'drizzle-orm';
+import { sendEmail } from './email';
+import { createDigestEmail, type DigestEmailItem } from './email-templates';
+
+/**
+ * Email Digest System
+ *
+ * Recipients: every verified user whose digest frequency matches the run
+ * (users without a preference row default to weekly)
+ * Content: unread notifications, top new posts in their communities and
+ * unanswered Q&A questions. Users with nothing to report get no email.
+ *
+ * Runs are triggered by cron through /api/digest or scripts/send-digests.ts.
+ */
+
+export type DigestFrequency = 'daily' | 'weekly';
+export type DigestPreference = DigestFrequency | 'off';
+
+const DEFAULT_FREQUENCY: DigestPreference = 'weekly';
+const USER_BATCH_SIZE = 100;
+const MAX_NOTIFICATIONS = 10;
+const MAX_TOP_POSTS = 5;
+const MAX_QUESTIONS = 5;
+// Unanswered questions older than this are left out of the digest
+const QUESTION_MAX_AGE_DAYS = 30;
+
+const PERIOD_MS: Record<DigestFrequency, number> = {
+    daily: 24 * 60 * 60 * 1000,
+    weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface DigestRunResult {
+    frequency: DigestFrequency;
+    periodKey: string;
+    sent: number;
+    skipped: number; // nothing to report
+    alreadySent: number;
+    failed: number;
+}
+
+function getAppUrl() {
+    return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+// UTC date for daily digests, ISO week for weekly ones, e.g. '2025-W24'
+export function getDigestPeriodKey(frequency: DigestFrequency, date: Date) {
+    if (frequency === 'daily') {
+        return date.toISOString().slice(0, 10);
+    }
+
+    const day = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+    // Move to the Thursday of this ISO week, which decides the week's year
+    const weekday = day.getUTCDay() || 7;
+    day.setUTCDate(day.getUTCDate() + 4 - weekday);
+    const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(
+        ((day.getTime() - yearStart.getTime()) / PERIOD_MS.daily + 1) / 7,
+    );
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function getPostUrl(postId: number, communitySlug?: string | null) {
+    return communitySlug
+        ? `${getAppUrl()}/communities/${communitySlug}/posts/${postId}`
+        : `${getAppUrl()}/posts/${postId}`;
+}
+
+function getNotificationUrl(type: string, data: string | null) {
+    try {
+        const parsed = data ? JSON.parse(data) : {};
+        if (parsed.postId) {
+            return getPostUrl(parsed.postId, parsed.communitySlug);
+        }
+        if (type === 'dm' || parsed.threadId) {
+            return `${getAppUrl()}/chat`;
+        }
+    } catch {
+        // Fall through to the home page for malformed data
+    }
+    return getAppUrl();
+}
+
+export function getDigestUnsubscribeUrl(token: string) {
+    return `${getAppUrl()}/api/digest/unsubscribe?token=${token}`;
+}
+
+// Returns the user's preference row, creating it with a fresh unsubscribe
+// token on first use
+export async function ensureDigestPreference(userId: string) {
+    await db
+        .insert(emailDigestPreferences)
+        .values({
+            userId,
+            frequency: DEFAULT_FREQUENCY,
+            unsubscribeToken: randomBytes(32).toString('hex'),
+        })
+        .onConflictDoNothing();
+
+    const preference = await db.query.emailDigestPreferences.findFirst({
+        where: eq(emailDigestPreferences.userId, userId),
+    });
+    return preference!;
+}
+
+export async function setDigestFrequency(
+    userId: string,
+    frequency: DigestPreference,
+) {
+    await ensureDigestPreference(userId);
+    await db
+        .update(emailDigestPreferences)
+        .set({ frequency, updatedAt: new Date() })
+        .where(eq(emailDigestPreferences.userId, userId));
+}
+
+// Turns the digest off for the owner of the token. Returns false for an
+// unknown token.
+export async function unsubscribeFromDigest(token: string) {
+    const updated = await db
+        .update(emailDigestPreferences)
+        .set({ frequency: 'off', updatedAt: new Date() })
+        .where(eq(emailDigestPreferences.unsubscribeToken, token))
+        .returning({ userId: emailDigestPreferences.userId });
+    return updated.length > 0;
+}
+
+async function getDigestContent(userId: string, since: Date, now: Date) {
+    const unread = await db
+        .select({
+            title: notifications.title,
+            body: notifications.body,
+            type: notifications.type,
+            data: notifications.data,
+        })
+        .from(notifications)
+        .where(
+            and(
+                eq(notifications.recipientId, userId),
+                eq(notifications.isRead, false),
+                gte(notifications.createdAt, since),
+            ),
+        )
+        .orderBy(desc(notifications.createdAt))
+        .limit(MAX_NOTIFICATIONS);
+
+    const memberships = await db
+        .select({ communityId: communityMembers.communityId })
+        .from(communityMembers)
+        .where(
+            and(
+                eq(communityMembers.userId, userId),
+                eq(communityMembers.status, 'active'),
+            ),
+        );
+    const communityIds = memberships.map((m) => m.communityId);
+
+    let topPosts: DigestEmailItem[] = [];
+    let unansweredQuestions: DigestEmailItem[] = [];
+
+    if (communityIds.length > 0) {
+        const visibleCommunityPost = and(
+            inArray(posts.communityId, communityIds),
+            ne(posts.authorId, userId),
+            eq(posts.isDeleted, false),
+            eq(posts.isHidden, false),
+        );
+
+        const reactionCounts = db
+            .select({ postId: reactions.postId, total: count().as('total') })
+            .from(reactions)
+            .groupBy(reactions.postId)
+            .as('reaction_counts');
+        const commentCounts = db
+            .select({ postId: comments.postId, total: count().as('total') })
+            .from(comments)
+            .where(eq(comments.isDeleted, false))
+            .groupBy(comments.postId)
+            .as('comment_counts');
+        const reactionTotal = sql<number>`coalesce(${reactionCounts.total}, 0)`;
+        const commentTotal = sql<number>`coalesce(${commentCounts.total}, 0)`;
+
+        const postRows = await db
+            .select({
+                id: posts.id,
+                title: posts.title,
+                communityName: communities.name,
+                communitySlug: communities.slug,
+                reactionCount: reactionTotal,
+                commentCount: commentTotal,
+            })
+            .from(posts)
+            .innerJoin(communities, eq(communities.id, posts.communityId))
+            .leftJoin(reactionCounts, eq(reactionCounts.postId, posts.id))
+            .leftJoin(commentCounts, eq(commentCounts.postId, posts.id))
+            .where(and(visibleCommunityPost, gte(posts.createdAt, since)))
+            .orderBy(
+                desc(sql`${reactionTotal} + ${commentTotal}`),
+                desc(posts.createdAt),
+            )
+            .limit(MAX_TOP_POSTS);
+
+        topPosts = postRows.map((post) => {
+            const commentCount = Number(post.commentCount);
+            return {
+                title: post.title,
+                url: getPostUrl(post.id, post.communitySlug),
+                meta: `${post.communityName} · ${commentCount} ${commentCount === 1 ? 'comment' : 'comments'}`,
+            };
+        });
+
+        const questionRows = await db
+            .select({
+                id: posts.id,
+                title: posts.title,
+                communityName: communities.name,
+                communitySlug: communities.slug,
+            })
+            .from(posts)
+            .innerJoin(qaQuestions, eq(qaQuestions.postId, posts.id))
+            .innerJoin(communities, eq(communities.id, posts.communityId))
+            .where(
+                and(
+                    visibleCommunityPost,
+                    gte(
+                        posts.createdAt,
+                        new Date(
+                            now.getTime() -
+                                QUESTION_MAX_AGE_DAYS * PERIOD_MS.daily,
+                        ),
+                    ),
+                    notExists(
+                        db
+                            .select({ id: qaAnswers.id })
+                            .from(qaAnswers)
+                            .where(
+                                and(
+                                    eq(qaAnswers.postId, posts.id),
+                                    eq(qaAnswers.isDeleted, false),
+                                ),
+                            ),
+                    ),
+                ),
+            )
+            .orderBy(desc(posts.createdAt))
+            .limit(MAX_QUESTIONS);
+
+        unansweredQuestions = questionRows.map((question) => ({
+            title: question.title,
+            url: getPostUrl(question.id, question.communitySlug),
+            meta: question.communityName,
+        }));
+    }
+
+    return {
+        notifications: unread.map((notification) => ({
+            title: notification.title,
+            url: getNotificationUrl(notification.type, notification.data),
+            preview: notification.body,
+        })),
+        topPosts,
+        unansweredQuestions,
+    };
+}
+
+async function sendDigestToUser(
+    user: { id: string; name: string; email: string },
+    frequency: DigestFrequency,
+    periodKey: string,
+    now: Date,
+): Promise<'sent' | 'skipped' | 'alreadySent' | 'failed'> {
+    // Claim the period first; a second run for the same period stops here
+    const [claim] = await db
+        .insert(emailDigestDeliveries)
+        .values({ userId: user.id, frequency, periodKey })
+        .onConflictDoNothing()
+        .returning({ id: emailDigestDeliveries.id });
+
+    if (!claim) {
+        return 'alreadySent';
+    }
+
+    try {
+        const preference = await ensureDigestPreference(user.id);
+        const periodStart = new Date(now.getTime() - PERIOD_MS[frequency]);
+        const since =
+            preference.lastSentAt && preference.lastSentAt > periodStart
+                ? preference.lastSentAt
+                : periodStart;
+
+        const content = await getDigestContent(user.id, since, now);
+        const itemCount =
+            content.notifications.length +
+            content.topPosts.length +
+            content.unansweredQuestions.length;
+
+        if (itemCount === 0) {
+            await db
+                .update(emailDigestDeliveries)
+                .set({ status: 'skipped' })
+                .where(eq(emailDigestDeliveries.id, claim.id));
+            return 'skipped';
+        }
+
+        const email = createDigestEmail({
+            userName: user.name,
+            frequency,
+            ...content,
+            appUrl: getAppUrl(),
+            unsubscribeUrl: getDigestUnsubscribeUrl(
+                preference.unsubscribeToken,
+            ),
+            preferencesUrl: `${getAppUrl()}/profile`,
+        });
+
+        const result = await sendEmail({ to: user.email, ...email });
+        if (!result.success) {
+            throw new Error(result.error);
+        }
+
+        await db
+            .update(emailDigestDeliveries)
+            .set({ status: 'sent', itemCount, sentAt: new Date() })
+            .where(eq(emailDigestDeliveries.id, claim.id));
+        await db
+            .update(emailDigestPreferences)
+            .set({ lastSentAt: now })
+            .where(eq(emailDigestPreferences.userId, user.id));
+
+        return 'sent';
+    } catch (error) {
+        console.error(`Failed to send ${frequency} digest to ${user.id}:`, {
+            message: error instanceof Error ? error.message : String(error),
+        });
+        // Release the claim so the next run can retry this user
+        await db
+            .delete(emailDigestDeliveries)
+            .where(eq(emailDigestDeliveries.id, claim.id));
+        return 'failed';
+    }
+}
+
+export async function runEmailDigests(
+    frequency: DigestFrequency,
+    now: Date = new Date(),
+): Promise<DigestRunResult> {
+    const periodKey = getDigestPeriodKey(frequency, now);
+    const result: DigestRunResult = {
+        frequency,
+        periodKey,
+        sent: 0,
+        skipped: 0,
+        alreadySent: 0,
+        failed: 0,
+    };
+
+    // Users without a preference row follow the default frequency
+    const frequencyMatches =
+        frequency === DEFAULT_FREQUENCY
+            ? or(
+                  isNull(emailDigestPreferences.userId),
+                  eq(emailDigestPreferences.frequency, frequency),
+              )
+            : eq(emailDigestPreferences.frequency, frequency);
+
+    let lastUserId: string | null = null;
+    while (true) {
+        const batch: { id: string; name: string; email: string }[] = await db
+            .select({ id: users.id, name: users.name, email: users.email })
+            .from(users)
+            .leftJoin(
+                emailDigestPreferences,
+                eq(emailDigestPreferences.userId, users.id),
+            )
+            .where(
+                and(
+                    eq(users.emailVerified, true),
+                    frequencyMatches,
+                    lastUserId ? gt(users.id, lastUserId) : undefined,
+                ),
+            )
+            .orderBy(users.id)
+            .limit(USER_BATCH_SIZE);
+
+        if (batch.length === 0) break;
+
+        for (const user of batch) {
+            const outcome = await sendDigestToUser(
+                user,
+                frequency,
+                periodKey,
+                now,
+            );
+            result[outcome]++;
+        }
+
+        lastUserId = batch[batch.length - 1].id;
+    }
+
+    return result;
+}
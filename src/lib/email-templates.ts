@@ -645,3 +645,197 @@ export function createCommunityInvitationEmail(
         `,
     };
 }
+
+export interface DigestEmailItem {
+    title: string;
+    url: string;
+    meta?: string; // e.g. community name, "3 comments"
+    preview?: string;
+}
+
+export interface DigestEmailContent {
+    userName: string;
+    frequency: 'daily' | 'weekly';
+    notifications: DigestEmailItem[];
+    topPosts: DigestEmailItem[];
+    unansweredQuestions: DigestEmailItem[];
+    appUrl: string;
+    unsubscribeUrl: string;
+    preferencesUrl: string;
+}
+
+// Digest content is user generated, unlike the other templates' inputs
+function escapeEmailText(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function renderDigestSection(heading: string, items: DigestEmailItem[]) {
+    if (items.length === 0) return '';
+
+    const rows = items
+        .map(
+            (item) => `
+                                        <tr>
+                                            <td style="padding: 12px 0; border-bottom: 1px solid #eeeeee;">
+                                                <a href="${escapeEmailText(item.url)}" style="color: #625A96; font-weight: bold; text-decoration: none;">${escapeEmailText(item.title)}</a>
+                                                ${item.meta ? `<div style="color: #888888; font-size: 13px; line-height: 20px;">${escapeEmailText(item.meta)}</div>` : ''}
+                                                ${item.preview ? `<div style="color: #555555; font-size: 14px; line-height: 22px; margin-top: 4px;">${escapeEmailText(item.preview)}</div>` : ''}
+                                            </td>
+                                        </tr>`,
+        )
+        .join('');
+
+    return `
+                                        <h2 style="margin: 30px 0 5px; font-size: 20px; color: #333333;">${heading}</h2>
+                                        <table width="100%" border="0" cellspacing="0" cellpadding="0">${rows}
+                                        </table>`;
+}
+
+export function createDigestEmail(content: DigestEmailContent) {
+    const periodLabel = content.frequency === 'daily' ? 'today' : 'this week';
+    const heading =
+        content.frequency === 'daily'
+            ? 'Your daily digest'
+            : 'Your weekly digest';
+
+    return {
+        subject: `${heading} from CommunityX`,
+        html: `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Activity Digest</title>
+            </head>
+            <body style="margin: 0; padding: 0; background-color: #f2f2f2; font-family: Arial, sans-serif;">
+                <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#f2f2f2">
+                    <tr>
+                        <td align="center" style="padding: 30px 15px;">
+                            <!-- Main Container -->
+                            <table width="600" border="0" cellspacing="0" cellpadding="0" style="background-color: #ffffff; border: 8px solid #d9d9d9;">
+                                
+                                <!-- Header with Xcelerator Logo -->
+                                <tr>
+                                    <td style="padding: 30px; text-align: center;">
+                                        <img src="https://bucket.xcelerator.co.in/xcelerator-dark.png" 
+                                             alt="Xcelerator Logo" 
+                                             style="display:block; max-width:240px; margin: 0 auto;">
+                                    </td>
+                                </tr>
+                                
+                                <!-- Digest Section -->
+                                <tr>
+                                    <td style="background-color: #625A96; color: #ffffff; text-align: left; padding: 40px;">
+                                        <h1 style="margin: 0; font-size: 28px; font-weight: bold;">${heading}</h1>
+                                        <p style="margin: 15px 0 0; font-size: 18px;">Here's what you missed ${periodLabel}, ${escapeEmailText(content.userName)}</p>
+                                    </td>
+                                </tr>
+                                
+                                <!-- Body Content -->
+                                <tr>
+                                    <td style="padding: 20px 50px 40px; color: #333333; font-size: 16px; line-height: 28px;">
+                                        ${renderDigestSection('Unread notifications', content.notifications)}
+                                        ${renderDigestSection('Top posts in your communities', content.topPosts)}
+                                        ${renderDigestSection('Questions waiting for an answer', content.unansweredQuestions)}
+                                        
+                                        <div style="text-align: left; margin: 30px 0;">
+                                            <a href="${content.appUrl}" 
+                                               style="display: inline-block; padding: 15px 30px; background-color: #625A96; color: #ffffff; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px;">
+                                                Open CommunityX
+                                            </a>
+                                        </div>
+                                        
+                                        <p style="font-weight: bold; margin-top: 30px;">Best regards,<br>The CommunityX Team</p>
+                                    </td>
+                                </tr>
+                                
+                                <!-- Footer -->
+                                <tr>
+                                    <td style="padding: 20px 50px; color: #888888; font-size: 12px; line-height: 20px; border-top: 1px solid #eeeeee;">
+                                        You're receiving this ${content.frequency} digest because you have an account on CommunityX.
+                                        <a href="${content.preferencesUrl}" style="color: #888888;">Change how often</a>
+                                        or
+                                        <a href="${content.unsubscribeUrl}" style="color: #888888;">unsubscribe</a>.
+                                    </td>
+                                </tr>
+                                
+                            </table>
+                        </td>
+                    </tr>
+                </table>
+            </body>
+            </html>
+        `,
+    };
+}
+
+export function createNotificationEmail(
+    title: string,
+    body: string,
+    url: string,
+    preferencesUrl: string,
+) {
+    return {
+        subject: title,
+        html: `
+            <!DOCTYPE html>
+            <html>
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <title>Notification</title>
+            </head>
+            <body style="margin: 0; padding: 0; background-color: #f2f2f2; font-family: Arial, sans-serif;">
+                <table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#f2f2f2">
+                    <tr>
+                        <td align="center" style="padding: 30px 15px;">
+                            <!-- Main Container -->
+                            <table width="600" border="0" cellspacing="0" cellpadding="0" style="background-color: #ffffff; border: 8px solid #d9d9d9;">
+                                
+                                <!-- Header with Xcelerator Logo -->
+                                <tr>
+                                    <td style="padding: 30px; text-align: center;">
+                                        <img src="https://bucket.xcelerator.co.in/xcelerator-dark.png" 
+                                             alt="Xcelerator Logo" 
+                                             style="display:block; max-width:240px; margin: 0 auto;">
+                                    </td>
+                                </tr>
+                                
+                                <!-- Body Content -->
+                                <tr>
+                                    <td style="padding: 20px 50px 40px; color: #333333; font-size: 16px; line-height: 28px;">
+                                        <h1 style="margin: 0 0 15px; font-size: 22px; font-weight: bold;">${escapeEmailText(title)}</h1>
+                                        <p style="margin-bottom: 25px; color: #555555;">${escapeEmailText(body)}</p>
+                                        
+                                        <div style="text-align: left; margin: 30px 0;">
+                                            <a href="${escapeEmailText(url)}" 
+                                               style="display: inline-block; padding: 15px 30px; background-color: #625A96; color: #ffffff; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px;">
+                                                View on CommunityX
+                                            </a>
+                                        </div>
+                                    </td>
+                                </tr>
+                                
+                                <!-- Footer -->
+                                <tr>
+                                    <td style="padding: 20px 50px; color: #888888; font-size: 12px; line-height: 20px; border-top: 1px solid #eeeeee;">
+                                        You're receiving this email because you turned on email notifications for this activity.
+                                        <a href="${preferencesUrl}" style="color: #888888;">Manage notification settings</a>.
+                                    </td>
+                                </tr>
+                                
+                            </table>
+                        </td>
+                    </tr>
+                </table>
+            </body>
+            </html>
+        `,
+    };
+}
@@ -0,0 +1,24 @@
+// Sort orders for post feeds, shared by the feed service (which implements
+// them) and the sort picker
+
+export const FEED_SORTS = [
+    'latest',
+    'oldest',
+    'most-liked',
+    'most-commented',
+    'trending',
+] as const;
+
+export type FeedSort = (typeof FEED_SORTS)[number];
+
+// The For Me feed can also be ranked by relevance to the viewer, see
+// for-me-ranking
+export const FOR_ME_SORTS = ['recommended', ...FEED_SORTS] as const;
+
+export type ForMeSort = (typeof FOR_ME_SORTS)[number];
+
+// Sorts offered where posts aren't loaded through the feed service, such as
+// search results and the community page
+export const BASIC_SORTS = ['latest', 'oldest', 'most-commented'] as const;
+
+export type BasicSort = (typeof BASIC_SORTS)[number];
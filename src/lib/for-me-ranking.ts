@@ -0,0 +1,233 @@
+// Scoring for the "For Me" feed. Everything here is pure: the feed service
+// gathers the viewer's signals and the candidate posts, and the same inputs
+// (including `now`) always produce the same order and explanations.
+
+export type RankingCandidate = {
+    id: number;
+    title: string;
+    createdAt: Date;
+    authorId: string;
+    authorName: string | null;
+    communityId: number | null;
+    communityName: string | null;
+    tags: string[];
+};
+
+export type RankingSignals = {
+    viewerId: string;
+    // Lowercased tag name -> weighted count of likes, saves and comments on
+    // posts carrying that tag
+    tagAffinity: Map<string, number>;
+    interests: string[];
+    industries: string[];
+    skills: string[];
+    communityAccess: Map<number, 'member' | 'follower' | 'org-admin'>;
+    // Author id -> weighted count of the viewer's interactions with their posts
+    authorAffinity: Map<string, number>;
+};
+
+type ScoreComponent = {
+    score: number;
+    explanation: string;
+};
+
+export type RankedPost = {
+    id: number;
+    score: number;
+    explanation: string | null;
+};
+
+// Interaction weights used when building tagAffinity and authorAffinity
+export const INTERACTION_WEIGHTS = {
+    like: 1,
+    comment: 2,
+    save: 3,
+} as const;
+
+const WEIGHTS = {
+    tag: 2,
+    interest: 3,
+    skill: 2.5,
+    industry: 2,
+    titleMatch: 0.5, // profile terms found in the title rather than the tags
+    member: 3,
+    follower: 2,
+    orgAdmin: 1,
+    author: 1.5,
+    recency: 4,
+};
+
+const RECENCY_HALF_LIFE_HOURS = 24;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const containsWord = (text: string, word: string) =>
+    new RegExp(
+        `(^|[^a-z0-9])${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^a-z0-9])`,
+    ).test(text);
+
+function tagComponents(
+    post: RankingCandidate,
+    signals: RankingSignals,
+): ScoreComponent[] {
+    return post.tags.flatMap((tag) => {
+        const affinity = signals.tagAffinity.get(normalize(tag)) ?? 0;
+        if (affinity <= 0) return [];
+        return [
+            {
+                score: WEIGHTS.tag * Math.log1p(affinity),
+                explanation: `Because you engage with #${tag}`,
+            },
+        ];
+    });
+}
+
+function profileComponents(
+    post: RankingCandidate,
+    signals: RankingSignals,
+): ScoreComponent[] {
+    const tagNames = new Set(post.tags.map(normalize));
+    const title = normalize(post.title);
+
+    const match = (
+        terms: string[],
+        weight: number,
+        explain: (term: string) => string,
+    ) =>
+        terms.flatMap((term) => {
+            const needle = normalize(term);
+            if (!needle) return [];
+            if (tagNames.has(needle)) {
+                return [{ score: weight, explanation: explain(term) }];
+            }
+            if (containsWord(title, needle)) {
+                return [
+                    {
+                        score: weight * WEIGHTS.titleMatch,
+                        explanation: explain(term),
+                    },
+                ];
+            }
+            return [];
+        });
+
+    return [
+        ...match(
+            signals.interests,
+            WEIGHTS.interest,
+            (term) => `Matches your interest in ${term}`,
+        ),
+        ...match(
+            signals.skills,
+            WEIGHTS.skill,
+            (term) => `Matches your skill in ${term}`,
+        ),
+        ...match(
+            signals.industries,
+            WEIGHTS.industry,
+            (term) => `Related to ${term}, your industry`,
+        ),
+    ];
+}
+
+function communityComponent(
+    post: RankingCandidate,
+    signals: RankingSignals,
+): ScoreComponent | null {
+    if (!post.communityId) return null;
+    const name = post.communityName ?? 'this community';
+
+    switch (signals.communityAccess.get(post.communityId)) {
+        case 'member':
+            return {
+                score: WEIGHTS.member,
+                explanation: `Because you're a member of ${name}`,
+            };
+        case 'follower':
+            return {
+                score: WEIGHTS.follower,
+                explanation: `Because you follow ${name}`,
+            };
+        case 'org-admin':
+            return {
+                score: WEIGHTS.orgAdmin,
+                explanation: `From ${name} in your organization`,
+            };
+        default:
+            return null;
+    }
+}
+
+function authorComponent(
+    post: RankingCandidate,
+    signals: RankingSignals,
+): ScoreComponent | null {
+    if (post.authorId === signals.viewerId) return null;
+    const affinity = signals.authorAffinity.get(post.authorId) ?? 0;
+    if (affinity <= 0) return null;
+    return {
+        score: WEIGHTS.author * Math.log1p(affinity),
+        explanation: `Because you often engage with ${post.authorName ?? 'this author'}`,
+    };
+}
+
+function recencyComponent(post: RankingCandidate, now: Date): ScoreComponent {
+    const ageHours = Math.max(
+        0,
+        (now.getTime() - post.createdAt.getTime()) / (60 * 60 * 1000),
+    );
+    return {
+        score:
+            WEIGHTS.recency * Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS),
+        explanation: 'New in your network',
+    };
+}
+
+/**
+ * Scores one post. The explanation is the strongest personal reason, so
+ * recency only explains a post when nothing else about it matches the viewer.
+ */
+export function scorePost(
+    post: RankingCandidate,
+    signals: RankingSignals,
+    now: Date,
+): RankedPost {
+    const personal = [
+        ...tagComponents(post, signals),
+        ...profileComponents(post, signals),
+        communityComponent(post, signals),
+        authorComponent(post, signals),
+    ].filter((component): component is ScoreComponent => !!component);
+    const recency = recencyComponent(post, now);
+
+    const score = [...personal, recency].reduce(
+        (total, component) => total + component.score,
+        0,
+    );
+    // Earlier components win ties, so the order above sets precedence
+    const strongest = personal.reduce<ScoreComponent | null>(
+        (best, component) =>
+            !best || component.score > best.score ? component : best,
+        null,
+    );
+
+    return {
+        id: post.id,
+        score,
+        explanation:
+            strongest?.explanation ??
+            (recency.score >= WEIGHTS.recency / 2 ? recency.explanation : null),
+    };
+}
+
+// Highest score first; ties go to the higher (newer) id. The feed's cursor
+// relies on this being a strict order on (score, id).
+export function rankPosts(
+    candidates: RankingCandidate[],
+    signals: RankingSignals,
+    now: Date,
+): RankedPost[] {
+    return candidates
+        .map((post) => scorePost(post, signals, now))
+        .sort((a, b) => b.score - a.score || b.id - a.id);
+}
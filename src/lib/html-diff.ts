@@ -0,0 +1,155 @@
+/**
+ * HTML-aware word diff, used to compare post revisions.
+ *
+ * Both versions are split into tags, words and whitespace. Tags are compared
+ * as whole tokens, so markup is never cut in half: changed text is wrapped
+ * in highlighted spans, added tags are kept and removed tags are dropped
+ * (except images and line breaks, which are shown as removed content).
+ * The output should be rendered through SafeHtml like any other post HTML.
+ */
+
+type DiffOp = 'equal' | 'insert' | 'delete';
+
+const TOKEN_PATTERN = /<[^>]+>|[^<\s]+|\s+/g;
+const CONTENT_TAG_PATTERN = /^<(img|br)\b/i;
+
+// Above this many cells the diff falls back to "all removed, all added"
+const MAX_DIFF_CELLS = 4_000_000;
+
+const DIFF_INSERT_CLASS =
+    'rounded-sm bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200';
+const DIFF_DELETE_CLASS =
+    'rounded-sm bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-200';
+
+function tokenize(html: string) {
+    return html.match(TOKEN_PATTERN) ?? [];
+}
+
+function isTag(token: string) {
+    return token.startsWith('<') && !CONTENT_TAG_PATTERN.test(token);
+}
+
+// Longest-common-subsequence diff over the tokens between the shared
+// prefix and suffix
+function diffTokens(before: string[], after: string[]) {
+    let prefix = 0;
+    while (
+        prefix < before.length &&
+        prefix < after.length &&
+        before[prefix] === after[prefix]
+    ) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < before.length - prefix &&
+        suffix < after.length - prefix &&
+        before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    const ops: { op: DiffOp; token: string }[] = before
+        .slice(0, prefix)
+        .map((token) => ({ op: 'equal', token }));
+
+    if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+        ops.push(
+            ...a.map((token) => ({ op: 'delete' as const, token })),
+            ...b.map((token) => ({ op: 'insert' as const, token })),
+        );
+    } else {
+        // lengths[i][j] = LCS length of a[i..] and b[j..]
+        const width = b.length + 1;
+        const lengths = new Uint32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i * width + j] =
+                    a[i] === b[j]
+                        ? lengths[(i + 1) * width + j + 1] + 1
+                        : Math.max(
+                              lengths[(i + 1) * width + j],
+                              lengths[i * width + j + 1],
+                          );
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                ops.push({ op: 'equal', token: a[i] });
+                i++;
+                j++;
+            } else if (
+                lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]
+            ) {
+                ops.push({ op: 'delete', token: a[i++] });
+            } else {
+                ops.push({ op: 'insert', token: b[j++] });
+            }
+        }
+        while (i < a.length) ops.push({ op: 'delete', token: a[i++] });
+        while (j < b.length) ops.push({ op: 'insert', token: b[j++] });
+    }
+
+    ops.push(
+        ...before
+            .slice(before.length - suffix)
+            .map((token) => ({ op: 'equal' as const, token })),
+    );
+    return ops;
+}
+
+/**
+ * Returns `after` as HTML with the changes from `before` highlighted.
+ */
+export function diffHtml(before: string, after: string): string {
+    const ops = diffTokens(tokenize(before), tokenize(after));
+    let html = '';
+    let run = null as { op: DiffOp; text: string } | null;
+
+    const flush = () => {
+        if (!run) return;
+        const className =
+            run.op === 'insert' ? DIFF_INSERT_CLASS : DIFF_DELETE_CLASS;
+        html += `<span class="${className}">${run.text}</span>`;
+        run = null;
+    };
+
+    for (const { op, token } of ops) {
+        if (op === 'equal') {
+            flush();
+            html += token;
+        } else if (isTag(token)) {
+            flush();
+            if (op === 'insert') html += token;
+        } else if (run?.op === op) {
+            run.text += token;
+        } else {
+            flush();
+            run = { op, text: token };
+        }
+    }
+    flush();
+
+    return html;
+}
+
+function escapeHtml(text: string) {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Same as diffHtml, for plain text such as post titles.
+ */
+export function diffText(before: string, after: string): string {
+    return diffHtml(escapeHtml(before), escapeHtml(after));
+}
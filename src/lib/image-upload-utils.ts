@@ -1,4 +1,10 @@
-import { validateAttachmentFile, generateImageKey } from '@/lib/r2';
+import {
+    validateAttachmentFile,
+    validateChatAttachmentFile,
+    generateImageKey,
+} from '@/lib/r2';
+import type { VideoConversionStatus } from '@/lib/video-conversion';
+import type { ImageVariants } from '@/lib/image-variants';
 
 export interface ImageUploadOptions {
     postId?: number;
@@ -24,53 +30,39 @@ export interface UploadResult {
     key: string;
     url: string;
     thumbnailUrl?: string | null;
+    // Set for videos sent for transcoding
+    conversionStatus?: VideoConversionStatus | null;
+    // Set once an image has been processed
+    variants?: ImageVariants | null;
+    blurhash?: string | null;
 }
 
-export async function uploadAttachmentWithPresignedFlow(
+export interface ChatAttachmentUploadResult {
+    id: number;
+    filename: string;
+    size: number;
+    mimetype: string;
+    type: 'image' | 'file';
+    key: string;
+    url: string;
+}
+
+// Presigned URL -> upload through the storage proxy -> confirm, which records
+// the attachment and returns it
+async function uploadWithPresignedFlow(
     file: File,
-    userEmail: string,
+    key: string,
+    type: string,
     options?: {
         postId?: number;
         communityId?: number;
-        communitySlug?: string;
+        purpose?: 'chat';
     },
-): Promise<UploadResult> {
-    // Validate file
-    const validation = validateAttachmentFile(file);
-    if (!validation.valid) {
-        throw new Error(validation.error);
-    }
-
-    // For videos that need format conversion, rename to .mp4 for better compatibility
-    let filename = file.name;
-    if (validation.type === 'video') {
-        const videoFormats = [
-            'video/quicktime',
-            'video/mov',
-            'video/avi',
-            'video/webm',
-            'video/x-msvideo',
-            'video/3gpp',
-            'video/x-ms-wmv',
-            'video/ogg',
-        ];
-        if (videoFormats.includes(file.type)) {
-            // Change extension to .mp4 for better web compatibility
-            filename = filename.replace(/\.[^/.]+$/, '.mp4');
-        }
-    }
-
-    // Generate file key with potentially modified filename
-    const key = generateImageKey(
-        userEmail,
-        filename,
-        options?.communityId,
-        options?.communitySlug,
-    );
-
+) {
     // Get presigned URL
+    const purposeParam = options?.purpose ? `&purpose=${options.purpose}` : '';
     const presignedResponse = await fetch(
-        `/api/images/presigned-url?key=${encodeURIComponent(key)}&contentType=${encodeURIComponent(file.type)}`,
+        `/api/images/presigned-url?key=${encodeURIComponent(key)}&contentType=${encodeURIComponent(file.type)}&size=${file.size}${purposeParam}`,
     );
 
     if (!presignedResponse.ok) {
@@ -109,7 +101,9 @@ export async function uploadAttachmentWithPresignedFlow(
             postId: options?.postId,
             communityId: options?.communityId,
             mimetype: file.type,
-            type: validation.type,
+            type,
+            size: file.size,
+            purpose: options?.purpose,
         }),
     });
 
@@ -122,6 +116,51 @@ export async function uploadAttachmentWithPresignedFlow(
     return result.attachment;
 }
 
+export async function uploadAttachmentWithPresignedFlow(
+    file: File,
+    userEmail: string,
+    options?: {
+        postId?: number;
+        communityId?: number;
+        communitySlug?: string;
+    },
+): Promise<UploadResult> {
+    // Validate file
+    const validation = validateAttachmentFile(file);
+    if (!validation.valid) {
+        throw new Error(validation.error);
+    }
+
+    // For videos that need format conversion, rename to .mp4 for better compatibility
+    let filename = file.name;
+    if (validation.type === 'video') {
+        const videoFormats = [
+            'video/quicktime',
+            'video/mov',
+            'video/avi',
+            'video/webm',
+            'video/x-msvideo',
+            'video/3gpp',
+            'video/x-ms-wmv',
+            'video/ogg',
+        ];
+        if (videoFormats.includes(file.type)) {
+            // Change extension to .mp4 for better web compatibility
+            filename = filename.replace(/\.[^/.]+$/, '.mp4');
+        }
+    }
+
+    // Generate file key with potentially modified filename
+    const key = generateImageKey(
+        userEmail,
+        filename,
+        options?.communityId,
+        options?.communitySlug,
+    );
+
+    return uploadWithPresignedFlow(file, key, validation.type, options);
+}
+
 // Keep the old function for backward compatibility
 export async function uploadImageWithPresignedFlow(
     file: File,
@@ -141,6 +180,23 @@ export async function uploadImageWithPresignedFlow(
     return uploadAttachmentWithPresignedFlow(file, userEmail, options);
 }
 
+// Upload an image or document to share in a chat message. The attachment
+// stays unlinked until the message is sent.
+export async function uploadChatAttachmentWithPresignedFlow(
+    file: File,
+    userEmail: string,
+): Promise<ChatAttachmentUploadResult> {
+    const validation = validateChatAttachmentFile(file);
+    if (!validation.valid) {
+        throw new Error(validation.error);
+    }
+
+    const key = generateImageKey(userEmail, file.name);
+    return uploadWithPresignedFlow(file, key, validation.type, {
+        purpose: 'chat',
+    });
+}
+
 // React hook for image upload
 export function useImageUpload() {
     const uploadImage = async (
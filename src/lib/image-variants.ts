@@ -0,0 +1,69 @@
+import { decode } from 'blurhash';
+
+// Resized WebP copies made of every uploaded image, shared by the image
+// processing service and the image renderers. Widths are maximums; images are
+// never enlarged.
+
+export const IMAGE_VARIANTS = {
+    thumbnail: 320,
+    medium: 960,
+    large: 1920,
+} as const;
+
+export type ImageVariantName = keyof typeof IMAGE_VARIANTS;
+
+export type ImageVariant = {
+    key: string;
+    url: string;
+    width: number;
+    height: number;
+};
+
+export type ImageVariants = Partial<Record<ImageVariantName, ImageVariant>>;
+
+// Variants are stored next to the original
+export const imageVariantKey = (key: string, name: ImageVariantName) =>
+    `${key}.${name}.webp`;
+
+/**
+ * The URL of the requested variant, falling back to the next larger one and
+ * then to the original for images that have not been processed.
+ */
+export function pickImageVariant(
+    image: { variants?: ImageVariants | null },
+    name: ImageVariantName,
+    fallbackUrl: string,
+) {
+    const names = Object.keys(IMAGE_VARIANTS) as ImageVariantName[];
+    for (const candidate of names.slice(names.indexOf(name))) {
+        const variant = image.variants?.[candidate];
+        if (variant) return variant.url;
+    }
+    return fallbackUrl;
+}
+
+// Uploads are referenced in post HTML with a cache-busting query string
+export const stripImageQuery = (url: string) => url.split('?')[0];
+
+/**
+ * Decodes a blurhash into a tiny PNG data URL for use as an image
+ * placeholder. Returns undefined on the server, where there is no canvas.
+ */
+export function blurhashToDataUrl(hash: string | null | undefined) {
+    if (!hash || typeof document === 'undefined') return undefined;
+    try {
+        const size = 32;
+        const pixels = decode(hash, size, size);
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const context = canvas.getContext('2d');
+        if (!context) return undefined;
+        const imageData = context.createImageData(size, size);
+        imageData.data.set(pixels);
+        context.putImageData(imageData, 0, 0);
+        return canvas.toDataURL();
+    } catch {
+        return undefined;
+    }
+}
@@ -2,6 +2,9 @@ export interface LinkPreview {
     title?: string;
     description?: string;
     image?: string;
+    siteName?: string;
+    author?: string;
+    type?: string; // og:type, twitter:card or the oEmbed type
     url: string;
     domain: string;
 }
@@ -0,0 +1,35 @@
+import { dispatchNotification } from './notification-dispatch';
+
+/**
+ * Mention Notification System
+ *
+ * Recipients: users newly mentioned in a post, comment or chat message
+ * Delivered through the notification dispatcher as a 'mention' event
+ */
+
+export interface MentionNotificationData {
+    postId?: number;
+    commentId?: number;
+    communityId?: number | null;
+    communitySlug?: string | null;
+    threadId?: number;
+    messageId?: number;
+    authorId: string;
+}
+
+export async function sendMentionNotifications(
+    recipientIds: string[],
+    authorName: string,
+    contextLabel: string, // e.g. 'a post in Design', 'a comment', 'a chat'
+    preview: string,
+    url: string,
+    data: MentionNotificationData,
+): Promise<void> {
+    await dispatchNotification(recipientIds, {
+        event: 'mention',
+        title: `${authorName} mentioned you in ${contextLabel}`,
+        body: preview,
+        url,
+        data: { ...data },
+    });
+}
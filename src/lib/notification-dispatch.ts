@@ -0,0 +1,446 @@
+import webpush from 'web-push';
+import { ensureVapidConfigured } from './vapid-config';
+import { sendEmail } from './email';
+import { createNotificationEmail } from './email-templates';
+import {
+    DEFAULT_CHANNEL_PREFERENCES,
+    NOTIFICATION_CHANNELS,
+    NOTIFICATION_EVENTS,
+    type NotificationChannel,
+    type NotificationEvent,
+} from './notification-events';
+import { db } from '@/server/db';
+import {
+    notificationBatches,
+    notificationChannelPreferences,
+    notifications,
+    pushSubscriptions,
+    users,
+} from '@/server/db/schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+/**
+ * Notification Dispatch
+ *
+ * Single entry point for every notification producer. Looks up each
+ * recipient's preference for the event on every channel (push, in-app,
+ * email) and delivers on the enabled ones. Producers decide who the
+ * recipients are; this decides how each of them hears about it.
+ *
+ * Batched payloads collapse bursts (e.g. a busy comment thread): the in-app
+ * notification is updated in place while unread, and push/email go out at
+ * most once per window per recipient, summarising what was held back.
+ *
+ * Failures are logged per channel and never thrown, so a notification
+ * problem can't fail the action that triggered it.
+ */
+
+export interface NotificationPayload {
+    event: NotificationEvent;
+    title: string;
+    body: string;
+    url: string; // app-relative, e.g. '/communities/design/posts/12'
+    data: Record<string, unknown>; // stored as JSON on the in-app notification
+    batch?: NotificationBatch;
+}
+
+export interface NotificationBatch {
+    key: string; // e.g. 'post:12:comments', scoped per recipient
+    windowMs: number;
+    // Title and body for `count` events rolled into one notification
+    summarize: (count: number) => { title: string; body: string };
+}
+
+const MAX_BODY_LENGTH = 100;
+
+function truncateBody(body: string) {
+    return body.length > MAX_BODY_LENGTH
+        ? body.substring(0, MAX_BODY_LENGTH) + '...'
+        : body;
+}
+
+function getAppUrl() {
+    return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+// Splits recipients by the channels they want this event on
+export async function getRecipientsByChannel(
+    recipientIds: string[],
+    event: NotificationEvent,
+): Promise<Record<NotificationChannel, string[]>> {
+    const byChannel: Record<NotificationChannel, string[]> = {
+        push: [],
+        in_app: [],
+        email: [],
+    };
+    if (recipientIds.length === 0) return byChannel;
+
+    const rows = await db
+        .select({
+            userId: notificationChannelPreferences.userId,
+            channel: notificationChannelPreferences.channel,
+            enabled: notificationChannelPreferences.enabled,
+        })
+        .from(notificationChannelPreferences)
+        .where(
+            and(
+                inArray(notificationChannelPreferences.userId, recipientIds),
+                eq(notificationChannelPreferences.eventType, event),
+            ),
+        );
+
+    const overrides = new Map(
+        rows.map((row) => [`${row.userId}:${row.channel}`, row.enabled]),
+    );
+
+    for (const userId of recipientIds) {
+        for (const channel of NOTIFICATION_CHANNELS) {
+            const enabled =
+                overrides.get(`${userId}:${channel}`) ??
+                DEFAULT_CHANNEL_PREFERENCES[channel];
+            if (enabled) byChannel[channel].push(userId);
+        }
+    }
+
+    return byChannel;
+}
+
+async function saveInAppNotifications(
+    recipientIds: string[],
+    payload: NotificationPayload,
+) {
+    const now = new Date();
+    const { batch } = payload;
+
+    // Fold into the recipient's unread notification for the same batch
+    let newRecipientIds = recipientIds;
+    if (batch) {
+        const unread = await db
+            .select({
+                id: notifications.id,
+                recipientId: notifications.recipientId,
+                data: notifications.data,
+            })
+            .from(notifications)
+            .where(
+                and(
+                    inArray(notifications.recipientId, recipientIds),
+                    eq(notifications.type, payload.event),
+                    eq(notifications.isRead, false),
+                    sql`(${notifications.data})::jsonb ->> 'batchKey' = ${batch.key}`,
+                ),
+            );
+
+        for (const existing of unread) {
+            const data = JSON.parse(existing.data ?? '{}');
+            const batchCount = (Number(data.batchCount) || 1) + 1;
+            const summary = batch.summarize(batchCount);
+            await db
+                .update(notifications)
+                .set({
+                    title: summary.title,
+                    body: truncateBody(summary.body),
+                    data: JSON.stringify({
+                        ...payload.data,
+                        batchKey: batch.key,
+                        batchCount,
+                    }),
+                    createdAt: now,
+                    updatedAt: now,
+                })
+                .where(eq(notifications.id, existing.id));
+        }
+
+        const updated = new Set(unread.map((row) => row.recipientId));
+        newRecipientIds = recipientIds.filter((id) => !updated.has(id));
+    }
+
+    if (newRecipientIds.length === 0) return;
+
+    await db.insert(notifications).values(
+        newRecipientIds.map((recipientId) => ({
+            recipientId,
+            title: payload.title,
+            body: truncateBody(payload.body),
+            type: payload.event,
+            data: JSON.stringify(
+                batch
+                    ? { ...payload.data, batchKey: batch.key, batchCount: 1 }
+                    : payload.data,
+            ),
+            isRead: false,
+            createdAt: now,
+            updatedAt: now,
+        })),
+    );
+}
+
+// For batched payloads, decides which recipients get a push/email now and
+// how many events it covers. Recipients delivered to within the window are
+// counted and skipped.
+async function claimBatchDeliveries(
+    recipientIds: string[],
+    batch: NotificationBatch,
+): Promise<Map<string, number>> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - batch.windowMs);
+    const rows = await db
+        .select()
+        .from(notificationBatches)
+        .where(
+            and(
+                inArray(notificationBatches.recipientId, recipientIds),
+                eq(notificationBatches.batchKey, batch.key),
+            ),
+        );
+
+    const deliverNow = new Map<string, number>();
+    for (const recipientId of recipientIds) {
+        const row = rows.find((r) => r.recipientId === recipientId);
+        if (row && row.lastDeliveredAt > windowStart) {
+            await db
+                .update(notificationBatches)
+                .set({ pendingCount: row.pendingCount + 1 })
+                .where(
+                    and(
+                        eq(notificationBatches.recipientId, recipientId),
+                        eq(notificationBatches.batchKey, batch.key),
+                    ),
+                );
+            continue;
+        }
+
+        deliverNow.set(recipientId, (row?.pendingCount ?? 0) + 1);
+        await db
+            .insert(notificationBatches)
+            .values({
+                recipientId,
+                batchKey: batch.key,
+                pendingCount: 0,
+                lastDeliveredAt: now,
+            })
+            .onConflictDoUpdate({
+                target: [
+                    notificationBatches.recipientId,
+                    notificationBatches.batchKey,
+                ],
+                set: { pendingCount: 0, lastDeliveredAt: now },
+            });
+    }
+
+    return deliverNow;
+}
+
+async function sendPushNotifications(
+    recipientIds: string[],
+    payload: NotificationPayload,
+) {
+    if (!ensureVapidConfigured()) {
+        return;
+    }
+
+    const subscriptions = await db
+        .select()
+        .from(pushSubscriptions)
+        .where(inArray(pushSubscriptions.userId, recipientIds));
+
+    if (subscriptions.length === 0) {
+        return;
+    }
+
+    const pushPayload = JSON.stringify({
+        command: 'notify',
+        data: {
+            title: payload.title,
+            body: truncateBody(payload.body),
+            icon: '/icon.png',
+            url: payload.url,
+        },
+    });
+
+    const notificationPromises = subscriptions.map(async (subscription) => {
+        try {
+            await webpush.sendNotification(
+                {
+                    endpoint: subscription.endpoint,
+                    keys: {
+                        auth: subscription.auth,
+                        p256dh: subscription.p256dh,
+                    },
+                },
+                pushPayload,
+            );
+        } catch (error) {
+            console.error(`❌ Failed to send ${payload.event} push:`, {
+                message: error instanceof Error ? error.message : String(error),
+                userId: subscription.userId,
+            });
+
+            // Remove expired subscriptions
+            if ((error as any)?.statusCode === 410) {
+                await db
+                    .delete(pushSubscriptions)
+                    .where(eq(pushSubscriptions.id, subscription.id));
+            }
+        }
+    });
+
+    await Promise.allSettled(notificationPromises);
+}
+
+async function sendEmailNotifications(
+    recipientIds: string[],
+    payload: NotificationPayload,
+) {
+    const recipients = await db
+        .select({ email: users.email })
+        .from(users)
+        .where(
+            and(inArray(users.id, recipientIds), eq(users.emailVerified, true)),
+        );
+
+    const email = createNotificationEmail(
+        payload.title,
+        payload.body,
+        `${getAppUrl()}${payload.url}`,
+        `${getAppUrl()}/profile`,
+    );
+
+    // sendEmail logs and reports its own failures
+    for (const recipient of recipients) {
+        await sendEmail({ to: recipient.email, ...email });
+    }
+}
+
+export async function dispatchNotification(
+    recipientIds: string[],
+    payload: NotificationPayload,
+): Promise<void> {
+    const uniqueRecipientIds = [...new Set(recipientIds)];
+    if (uniqueRecipientIds.length === 0) return;
+
+    let byChannel: Record<NotificationChannel, string[]>;
+    try {
+        byChannel = await getRecipientsByChannel(
+            uniqueRecipientIds,
+            payload.event,
+        );
+    } catch (error) {
+        console.error('Error loading notification preferences:', error);
+        return;
+    }
+
+    const deliveries: [NotificationChannel, () => Promise<void>][] = [
+        ['in_app', () => saveInAppNotifications(byChannel.in_app, payload)],
+        [
+            'push',
+            () =>
+                deliverBatchable(
+                    'push',
+                    byChannel.push,
+                    payload,
+                    sendPushNotifications,
+                ),
+        ],
+        [
+            'email',
+            () =>
+                deliverBatchable(
+                    'email',
+                    byChannel.email,
+                    payload,
+                    sendEmailNotifications,
+                ),
+        ],
+    ];
+
+    await Promise.all(
+        deliveries.map(async ([channel, deliver]) => {
+            if (byChannel[channel].length === 0) return;
+            try {
+                await deliver();
+            } catch (error) {
+                console.error(
+                    `Error delivering ${payload.event} notifications (${channel}):`,
+                    error,
+                );
+            }
+        }),
+    );
+}
+
+// Sends a push/email, applying the payload's batch window if it has one.
+// Recipients whose delivery covers several events get the summary text.
+async function deliverBatchable(
+    channel: NotificationChannel,
+    recipientIds: string[],
+    payload: NotificationPayload,
+    send: (
+        recipientIds: string[],
+        payload: NotificationPayload,
+    ) => Promise<void>,
+) {
+    if (!payload.batch) {
+        await send(recipientIds, payload);
+        return;
+    }
+
+    const deliverNow = await claimBatchDeliveries(recipientIds, {
+        ...payload.batch,
+        // Each channel keeps its own window
+        key: `${payload.batch.key}:${channel}`,
+    });
+
+    const byCount = new Map<number, string[]>();
+    for (const [recipientId, count] of deliverNow) {
+        byCount.set(count, [...(byCount.get(count) ?? []), recipientId]);
+    }
+
+    for (const [count, ids] of byCount) {
+        await send(
+            ids,
+            count > 1
+                ? { ...payload, ...payload.batch.summarize(count) }
+                : payload,
+        );
+    }
+}
+
+// Full event × channel matrix for the settings UI, defaults filled in
+export async function getNotificationPreferenceMatrix(userId: string) {
+    const rows = await db
+        .select()
+        .from(notificationChannelPreferences)
+        .where(eq(notificationChannelPreferences.userId, userId));
+
+    return NOTIFICATION_EVENTS.map((event) => ({
+        event,
+        channels: Object.fromEntries(
+            NOTIFICATION_CHANNELS.map((channel) => [
+                channel,
+                rows.find(
+                    (row) => row.eventType === event && row.channel === channel,
+                )?.enabled ?? DEFAULT_CHANNEL_PREFERENCES[channel],
+            ]),
+        ) as Record<NotificationChannel, boolean>,
+    }));
+}
+
+export async function setNotificationPreference(
+    userId: string,
+    event: NotificationEvent,
+    channel: NotificationChannel,
+    enabled: boolean,
+) {
+    await db
+        .insert(notificationChannelPreferences)
+        .values({ userId, eventType: event, channel, enabled })
+        .onConflictDoUpdate({
+            target: [
+                notificationChannelPreferences.userId,
+                notificationChannelPreferences.eventType,
+                notificationChannelPreferences.channel,
+            ],
+            set: { enabled, updatedAt: new Date() },
+        });
+}
@@ -0,0 +1,85 @@
+// Notification event types and delivery channels. Shared by the dispatch
+// service (which checks preferences before delivering) and the settings UI.
+// The event type is also stored as the `type` of in-app notifications.
+export const NOTIFICATION_EVENTS = [
+    'post',
+    'announcement',
+    'comment',
+    'reply',
+    'mention',
+    'qa_answer',
+    'qa_revealed',
+    'poll_closed',
+    'dm',
+    'join_request',
+] as const;
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export const NOTIFICATION_CHANNELS = ['push', 'in_app', 'email'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const NOTIFICATION_EVENT_LABELS: Record<
+    NotificationEvent,
+    { label: string; description: string }
+> = {
+    post: {
+        label: 'New posts',
+        description: 'New posts in your communities',
+    },
+    announcement: {
+        label: 'Announcements',
+        description:
+            'Community announcements, even where new post notifications are off',
+    },
+    comment: {
+        label: 'Comments on my posts and followed threads',
+        description: 'Someone comments on a post you wrote or follow',
+    },
+    reply: {
+        label: 'Replies to my comments',
+        description: 'Someone replies to one of your comments',
+    },
+    mention: {
+        label: 'Mentions',
+        description: 'Someone @mentions you in a post, comment or chat',
+    },
+    qa_answer: {
+        label: 'Answers to my questions',
+        description: 'Someone answers a Q&A question you asked',
+    },
+    qa_revealed: {
+        label: 'Q&A answers revealed',
+        description:
+            'Answers to a Q&A question you asked or answered become visible',
+    },
+    poll_closed: {
+        label: 'Poll results',
+        description: 'A poll you created or voted in is closed',
+    },
+    dm: {
+        label: 'Direct messages',
+        description: 'New chat messages',
+    },
+    join_request: {
+        label: 'Join requests',
+        description: 'Someone asks to join a community you manage',
+    },
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> =
+    {
+        push: 'Push',
+        in_app: 'In-app',
+        email: 'Email',
+    };
+
+// Used when the user has not set a preference. Email is opt-in so that
+// nobody starts receiving a mail per event without asking for it.
+export const DEFAULT_CHANNEL_PREFERENCES: Record<NotificationChannel, boolean> =
+    {
+        push: true,
+        in_app: true,
+        email: false,
+    };
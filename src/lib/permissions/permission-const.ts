@@ -14,6 +14,7 @@ export const PERMISSIONS = {
     REMOVE_COMMUNITY_CREATOR: 'remove_community_creator',
     ASSIGN_COMMUNITY_ADMIN: 'assign_community_admin',
     REMOVE_COMMUNITY_ADMIN: 'remove_community_admin', // New permission for removing community admins
+    VIEW_AUDIT_LOG: 'view_audit_log', // Read the admin action audit log for the scope
 
     VIEW_ORG: 'view_org',
     UPDATE_ORG: 'update_org',
@@ -23,6 +24,8 @@ export const PERMISSIONS = {
     EDIT_POST: 'edit_post',
     DELETE_POST: 'delete_post',
     VIEW_POST: 'view_post',
+    MODERATE_CONTENT: 'moderate_content', // Review reported posts, comments and answers
+    PIN_POST: 'pin_post', // Pin posts and mark them as announcements
 
     CREATE_TAG: 'create_tag',
     EDIT_TAG: 'edit_tag',
@@ -22,11 +22,14 @@ export const permissions = {
             'remove_community_creator',
             'assign_community_admin',
             'remove_community_admin', // New permission for removing community admins
+            'view_audit_log',
 
             'create_post',
             'edit_post',
             'delete_post',
             'view_post',
+            'moderate_content',
+            'pin_post',
 
             'create_tag',
             'edit_tag',
@@ -59,11 +62,14 @@ export const permissions = {
             'remove_community_creator',
             'assign_community_admin',
             'remove_community_admin', // New permission for removing community admins
+            'view_audit_log',
 
             'create_post',
             'edit_post',
             'delete_post',
             'view_post',
+            'moderate_content',
+            'pin_post',
 
             'create_tag',
             'edit_tag',
@@ -81,6 +87,7 @@ export const permissions = {
             'edit_post',
             'delete_post',
             'view_post',
+            'moderate_content',
 
             // 'create_tag',
             // 'edit_tag',
@@ -0,0 +1,18 @@
+// Pinning rules, shared by the pin router (which enforces them) and the
+// community feed (which shows pinned posts first)
+
+// Pinned posts per community
+export const MAX_PINNED_POSTS = 5;
+
+type PinnablePost = {
+    pinPosition: number | null;
+    pinnedUntil: Date | string | null;
+};
+
+// A pin counts until it is removed or its expiry passes
+export function isPinActive(post: PinnablePost, now = new Date()) {
+    return (
+        post.pinPosition !== null &&
+        (!post.pinnedUntil || new Date(post.pinnedUntil) > now)
+    );
+}
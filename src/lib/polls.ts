@@ -0,0 +1,93 @@
+// Poll settings shared by the poll procedures, post and draft inputs and the
+// poll creator, plus the instant-runoff tally for ranked polls. The tally is
+// pure so results and the CSV export always agree.
+
+export const POLL_TYPES = ['single', 'multiple', 'ranked'] as const;
+
+export type PollType = (typeof POLL_TYPES)[number];
+
+// Who can see vote counts before the poll closes. Poll managers always can.
+export const POLL_RESULT_VISIBILITY = [
+    'always',
+    'after_vote',
+    'after_close',
+] as const;
+
+export type PollResultVisibility = (typeof POLL_RESULT_VISIBILITY)[number];
+
+export const POLL_RESULT_VISIBILITY_LABELS: Record<
+    PollResultVisibility,
+    string
+> = {
+    always: 'Always visible',
+    after_vote: 'After voting',
+    after_close: 'When the poll closes',
+};
+
+export type RunoffRound = {
+    // Continuing ballots per option still in the race
+    counts: Record<number, number>;
+    // Ballots whose ranked options have all been eliminated
+    exhausted: number;
+    // Options knocked out at the end of this round
+    eliminated: number[];
+};
+
+export type RunoffResult = {
+    rounds: RunoffRound[];
+    // Null when there are no ballots or the last options tie
+    winnerId: number | null;
+};
+
+/**
+ * Instant-runoff tally. Each ballot lists option ids in preference order.
+ * Every round counts each ballot for its highest-ranked option still in the
+ * race; an option with a majority of continuing ballots wins, otherwise all
+ * options tied for fewest votes are eliminated together.
+ */
+export function tallyInstantRunoff(
+    optionIds: number[],
+    ballots: number[][],
+): RunoffResult {
+    const rounds: RunoffRound[] = [];
+    const remaining = new Set(optionIds);
+
+    while (remaining.size > 0) {
+        const counts: Record<number, number> = {};
+        for (const id of remaining) counts[id] = 0;
+
+        let exhausted = 0;
+        for (const ballot of ballots) {
+            const choice = ballot.find((id) => remaining.has(id));
+            if (choice === undefined) exhausted++;
+            else counts[choice]++;
+        }
+
+        const continuing = ballots.length - exhausted;
+        if (continuing === 0) {
+            rounds.push({ counts, exhausted, eliminated: [] });
+            return { rounds, winnerId: null };
+        }
+
+        const tallies = [...remaining].map((id) => counts[id]);
+        const leader = [...remaining].find((id) => counts[id] * 2 > continuing);
+        if (leader !== undefined) {
+            rounds.push({ counts, exhausted, eliminated: [] });
+            return { rounds, winnerId: leader };
+        }
+
+        const fewest = Math.min(...tallies);
+        const eliminated = [...remaining].filter((id) => counts[id] === fewest);
+        // Everyone left is tied, so no one can be eliminated in favour of
+        // anyone else
+        if (eliminated.length === remaining.size) {
+            rounds.push({ counts, exhausted, eliminated: [] });
+            return { rounds, winnerId: null };
+        }
+
+        rounds.push({ counts, exhausted, eliminated });
+        for (const id of eliminated) remaining.delete(id);
+    }
+
+    return { rounds, winnerId: null };
+}
@@ -0,0 +1,91 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    PutObjectCommand,
+} from '@aws-sdk/client-s3';
+import { createR2Client, getR2Config } from '@/lib/r2';
+
+// Server-side reads and writes of stored objects, for background processing
+// of uploads. Kept apart from r2.ts, which client components import for its
+// validators.
+
+// Stream an object to a local file
+export async function downloadObjectToFile(key: string, filePath: string) {
+    const config = getR2Config();
+    const response = await createR2Client().send(
+        new GetObjectCommand({ Bucket: config.bucketName, Key: key }),
+    );
+    if (!(response.Body instanceof Readable)) {
+        throw new Error(`Object ${key} has no readable body`);
+    }
+    await pipeline(response.Body, createWriteStream(filePath));
+}
+
+// Upload a local file, replacing any object at the key
+export async function uploadFileAsObject(
+    filePath: string,
+    key: string,
+    contentType: string,
+) {
+    const config = getR2Config();
+    const { size } = await stat(filePath);
+    await createR2Client().send(
+        new PutObjectCommand({
+            Bucket: config.bucketName,
+            Key: key,
+            Body: createReadStream(filePath),
+            ContentType: contentType,
+            ContentLength: size,
+        }),
+    );
+}
+
+// Read a whole object into memory; only for small files like images
+export async function downloadObject(key: string) {
+    const config = getR2Config();
+    const response = await createR2Client().send(
+        new GetObjectCommand({ Bucket: config.bucketName, Key: key }),
+    );
+    if (!response.Body) {
+        throw new Error(`Object ${key} has no body`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+}
+
+export async function uploadObject(
+    key: string,
+    body: Buffer,
+    contentType: string,
+) {
+    const config = getR2Config();
+    await createR2Client().send(
+        new PutObjectCommand({
+            Bucket: config.bucketName,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+        }),
+    );
+}
+
+// Size in bytes of a stored object
+export async function getObjectSize(key: string) {
+    const config = getR2Config();
+    const response = await createR2Client().send(
+        new HeadObjectCommand({ Bucket: config.bucketName, Key: key }),
+    );
+    return response.ContentLength ?? 0;
+}
+
+// Deleting a key that does not exist succeeds
+export async function deleteObject(key: string) {
+    const config = getR2Config();
+    await createR2Client().send(
+        new DeleteObjectCommand({ Bucket: config.bucketName, Key: key }),
+    );
+}
@@ -2,8 +2,9 @@ import { S3Client } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
 
-// R2 Configuration
-function getR2Config() {
+// R2 Configuration. Any S3-compatible store works: point R2_ENDPOINT at it,
+// and set R2_FORCE_PATH_STYLE=true for stores like MinIO.
+export function getR2Config() {
     const endpoint = process.env.R2_ENDPOINT;
     const accessKeyId = process.env.R2_ACCESS_KEY_ID;
     const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
@@ -23,11 +24,12 @@ function getR2Config() {
     };
 }
 
-function createR2Client() {
+export function createR2Client() {
     const config = getR2Config();
     return new S3Client({
         region: 'auto',
         endpoint: config.endpoint,
+        forcePathStyle: process.env.R2_FORCE_PATH_STYLE === 'true',
         credentials: {
             accessKeyId: config.accessKeyId,
             secretAccessKey: config.secretAccessKey,
@@ -35,10 +37,12 @@ function createR2Client() {
     });
 }
 
-// Generate presigned upload URL for images
+// Generate presigned upload URL for images. The length is part of the
+// signature, so the upload must be exactly the size that was approved.
 export async function generatePresignedUploadUrl(
     key: string,
     contentType: string,
+    contentLength: number,
     expiryMinutes: number = 15,
 ): Promise<string> {
     const config = getR2Config();
@@ -47,6 +51,7 @@ export async function generatePresignedUploadUrl(
         Bucket: config.bucketName,
         Key: key,
         ContentType: contentType,
+        ContentLength: contentLength,
     });
 
     return await getSignedUrl(r2Client, command, {
@@ -136,6 +141,64 @@ export function validateAttachmentFile(file: File): {
     };
 }
 
+// Validate a file shared in chat: images, plus common documents as files
+export function validateChatAttachmentFile(file: File): {
+    valid: boolean;
+    error?: string;
+    type: 'image' | 'file';
+} {
+    const allowedImageTypes = [
+        'image/jpeg',
+        'image/jpg',
+        'image/png',
+        'image/gif',
+        'image/webp',
+    ];
+    const allowedFileTypes = [
+        'application/pdf',
+        'text/plain',
+        'text/csv',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.ms-powerpoint',
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        'application/zip',
+    ];
+
+    const maxImageSize = 15 * 1024 * 1024; // 15MB
+    const maxFileSize = 25 * 1024 * 1024; // 25MB
+
+    if (allowedImageTypes.includes(file.type)) {
+        if (file.size > maxImageSize) {
+            return {
+                valid: false,
+                error: 'Image file size too large. Maximum size is 15MB.',
+                type: 'image',
+            };
+        }
+        return { valid: true, type: 'image' };
+    }
+
+    if (allowedFileTypes.includes(file.type)) {
+        if (file.size > maxFileSize) {
+            return {
+                valid: false,
+                error: 'File size too large. Maximum size is 25MB.',
+                type: 'file',
+            };
+        }
+        return { valid: true, type: 'file' };
+    }
+
+    return {
+        valid: false,
+        error: 'Invalid file type. Supported formats: JPEG, PNG, GIF, WebP images and PDF, text, CSV, Office and ZIP files.',
+        type: 'file', // fallback
+    };
+}
+
 // Validate image file (keep for backward compatibility)
 export function validateImageFile(file: File): {
     valid: boolean;
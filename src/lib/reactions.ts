@@ -0,0 +1,37 @@
+// Reactions on posts and comments, shared by the reaction procedures (which
+// accept only these types) and the reaction picker. Add an entry here to
+// offer a new reaction; 'like' must stay, likes feed post sorting and ranking.
+
+export const REACTION_TYPES = [
+    'like',
+    'celebrate',
+    'insightful',
+    'curious',
+    'support',
+    'love',
+] as const;
+
+export type ReactionType = (typeof REACTION_TYPES)[number];
+
+export const REACTIONS: Record<ReactionType, { emoji: string; label: string }> =
+    {
+        like: { emoji: '👍', label: 'Like' },
+        celebrate: { emoji: '🎉', label: 'Celebrate' },
+        insightful: { emoji: '💡', label: 'Insightful' },
+        curious: { emoji: '🤔', label: 'Curious' },
+        support: { emoji: '🙌', label: 'Support' },
+        love: { emoji: '❤️', label: 'Love' },
+    };
+
+// Reaction counts on one post or comment, and the viewer's own reactions
+export type ReactionSummary = {
+    counts: Partial<Record<ReactionType, number>>;
+    total: number;
+    mine: ReactionType[];
+};
+
+export const EMPTY_REACTION_SUMMARY: ReactionSummary = {
+    counts: {},
+    total: 0,
+    mine: [],
+};
@@ -42,7 +42,8 @@ export function sanitizeHtml(html: string): string {
             a: ['href', 'title', 'target', 'rel'],
             img: ['src', 'alt', 'title', 'width', 'height', 'class'],
             div: ['class', 'id'],
-            span: ['class', 'id'],
+            // data-* attributes keep @mentions structured: <span data-type="mention" data-id="userId" data-label="Name">
+            span: ['class', 'id', 'data-type', 'data-id', 'data-label'],
             p: ['class'],
             h1: ['class'],
             h2: ['class'],
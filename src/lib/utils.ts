@@ -114,6 +114,16 @@ export function formatRelativeTime(dateInput: string | number | Date): string {
     return `${years} year${years === 1 ? '' : 's'} ago`;
 }
 
+/**
+ * Formats a date as the local-time value a datetime-local input expects
+ * @param date - The date to format
+ * @returns A string like "2025-03-14T09:30"
+ */
+export function toDateTimeLocalValue(date: Date): string {
+    const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+    return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
 /**
  * Validates and normalizes community role values to ensure they are safe
  * @param role - The role value to validate
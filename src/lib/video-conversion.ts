@@ -0,0 +1,19 @@
+// Transcoding states of a video attachment, shared by the transcoding service,
+// the upload flow and the video players. Attachments that were never sent for
+// transcoding have no status and play as uploaded.
+
+export const VIDEO_CONVERSION_STATUSES = [
+    'pending',
+    'processing',
+    'ready',
+    'failed',
+] as const;
+
+export type VideoConversionStatus = (typeof VIDEO_CONVERSION_STATUSES)[number];
+
+// Still being transcoded, so the stored file may not play everywhere yet
+export const isVideoConverting = (status: string | null | undefined) =>
+    status === 'pending' || status === 'processing';
+
+// Transcoders store the poster frame next to the video
+export const videoThumbnailKey = (key: string) => `${key}.thumb.jpg`;
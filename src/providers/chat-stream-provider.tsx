@@ -0,0 +1,254 @@
+'use client';
+
+import React, {
+    createContext,
+    useCallback,
+    useEffect,
+    useRef,
+    useState,
+} from 'react';
+import superjson from 'superjson';
+import { trpc } from '@/providers/trpc-provider';
+import { useSession } from '@/server/auth/client';
+import type { ChatStreamEvent } from '@/lib/chat-events';
+import type { UseChatStreamOptions } from '@/hooks/use-chat-stream';
+
+type ChatStreamListener = { readonly current: UseChatStreamOptions };
+
+type ChatStreamContextType = {
+    isConnected: boolean;
+    subscribe: (listener: ChatStreamListener) => () => void;
+};
+
+// Without the provider nothing is pushed and callers keep polling
+export const ChatStreamContext = createContext<ChatStreamContextType>({
+    isConnected: false,
+    subscribe: () => () => {},
+});
+
+/**
+ * Holds the one connection to `/api/chat/stream` that every chat view of
+ * the tab shares (see useChatStream). It is only open while some view is
+ * subscribed, and applies pushed messages, message edits, thread previews
+ * and unread counts directly to the tRPC query cache before calling the
+ * views' handlers. Threads the views have open are marked as read once per
+ * incoming message.
+ *
+ * The browser reconnects on its own; after a drop the chat queries are
+ * invalidated to catch up on anything missed.
+ */
+export function ChatStreamProvider({
+    children,
+}: {
+    children: React.ReactNode;
+}) {
+    const { data: session } = useSession();
+    const utils = trpc.useUtils();
+    const [isConnected, setIsConnected] = useState(false);
+    const [subscriberCount, setSubscriberCount] = useState(0);
+    const listenersRef = useRef(new Set<ChatStreamListener>());
+    const { mutate: markThreadAsRead } =
+        trpc.chat.markThreadAsRead.useMutation();
+    const markThreadAsReadRef = useRef(markThreadAsRead);
+    markThreadAsReadRef.current = markThreadAsRead;
+
+    const subscribe = useCallback((listener: ChatStreamListener) => {
+        listenersRef.current.add(listener);
+        setSubscriberCount((count) => count + 1);
+        return () => {
+            listenersRef.current.delete(listener);
+            setSubscriberCount((count) => count - 1);
+        };
+    }, []);
+
+    const userId = session?.user?.id;
+    const isWanted = subscriberCount > 0;
+
+    useEffect(() => {
+        if (!userId || !isWanted || typeof EventSource === 'undefined') {
+            return;
+        }
+
+        const source = new EventSource('/api/chat/stream', {
+            withCredentials: true,
+        });
+        let hasDropped = false;
+
+        const parse = <T extends ChatStreamEvent['type']>(
+            e: MessageEvent,
+        ): Extract<ChatStreamEvent, { type: T }> | null => {
+            try {
+                return superjson.parse(e.data);
+            } catch (error) {
+                console.error('Invalid chat stream event:', error);
+                return null;
+            }
+        };
+
+        const updateThread = (
+            threadId: number,
+            update: {
+                lastMessageAt?: Date;
+                lastMessagePreview?: string;
+                unreadCount?: number;
+            },
+        ) => {
+            const threads = utils.chat.getThreads.getData();
+            if (threads && !threads.some((thread) => thread.id === threadId)) {
+                // A brand new conversation, load it with its participants
+                utils.chat.getThreads.invalidate();
+                return;
+            }
+
+            utils.chat.getThreads.setData(undefined, (prev) => {
+                if (!prev) return prev;
+                const next = prev.map((thread) =>
+                    thread.id === threadId
+                        ? {
+                              ...thread,
+                              lastMessageAt:
+                                  update.lastMessageAt ?? thread.lastMessageAt,
+                              lastMessagePreview:
+                                  update.lastMessagePreview ??
+                                  thread.lastMessagePreview,
+                              unreadCount:
+                                  update.unreadCount ?? thread.unreadCount,
+                          }
+                        : thread,
+                );
+                return next.sort(
+                    (a, b) =>
+                        new Date(b.lastMessageAt).getTime() -
+                        new Date(a.lastMessageAt).getTime(),
+                );
+            });
+        };
+
+        const handleReady = (e: MessageEvent) => {
+            const event = parse<'ready'>(e);
+            if (!event) return;
+
+            setIsConnected(true);
+            utils.chat.getUnreadCount.setData(
+                undefined,
+                event.totalUnreadCount,
+            );
+
+            if (hasDropped) {
+                hasDropped = false;
+                utils.chat.getThreads.invalidate();
+                utils.chat.getMessages.invalidate();
+            }
+        };
+
+        const handleMessage = (e: MessageEvent) => {
+            const event = parse<'message'>(e);
+            if (!event) return;
+
+            utils.chat.getMessages.setData(
+                { threadId: event.threadId, limit: 50 },
+                (prev) => {
+                    if (
+                        !prev ||
+                        prev.messages.some((m) => m.id === event.message.id)
+                    ) {
+                        return prev;
+                    }
+                    return {
+                        ...prev,
+                        messages: [...prev.messages, event.message],
+                    };
+                },
+            );
+
+            updateThread(event.threadId, {
+                lastMessageAt: event.lastMessageAt,
+                lastMessagePreview: event.lastMessagePreview,
+                unreadCount: event.unreadCount,
+            });
+
+            if (event.totalUnreadCount !== undefined) {
+                utils.chat.getUnreadCount.setData(
+                    undefined,
+                    event.totalUnreadCount,
+                );
+            }
+
+            const listeners = [...listenersRef.current].map(
+                (ref) => ref.current,
+            );
+            for (const listener of listeners) listener.onMessage?.(event);
+
+            // Once per message, however many views have the thread open
+            if (
+                event.message.senderId !== userId &&
+                listeners.some(
+                    (listener) => listener.openThreadId === event.threadId,
+                )
+            ) {
+                markThreadAsReadRef.current({ threadId: event.threadId });
+            }
+        };
+
+        const handleMessageUpdated = (e: MessageEvent) => {
+            const event = parse<'message_updated'>(e);
+            if (!event) return;
+
+            const input = { threadId: event.threadId, limit: 50 };
+            const isLatest =
+                utils.chat.getMessages.getData(input)?.messages.at(-1)?.id ===
+                event.message.id;
+
+            utils.chat.getMessages.setData(
+                input,
+                (prev) =>
+                    prev && {
+                        ...prev,
+                        messages: prev.messages.map((m) =>
+                            m.id === event.message.id ? event.message : m,
+                        ),
+                    },
+            );
+
+            // Edits and deletions of the latest message change the preview
+            if (isLatest) {
+                utils.chat.getThreads.invalidate();
+            }
+
+            for (const ref of listenersRef.current) {
+                ref.current.onMessageUpdated?.(event);
+            }
+        };
+
+        const handleRead = (e: MessageEvent) => {
+            const event = parse<'read'>(e);
+            if (!event) return;
+
+            updateThread(event.threadId, { unreadCount: event.unreadCount });
+            utils.chat.getUnreadCount.setData(
+                undefined,
+                event.totalUnreadCount,
+            );
+        };
+
+        source.addEventListener('ready', handleReady);
+        source.addEventListener('message', handleMessage);
+        source.addEventListener('message_updated', handleMessageUpdated);
+        source.addEventListener('read', handleRead);
+        source.onerror = () => {
+            setIsConnected(false);
+            hasDropped = true;
+        };
+
+        return () => {
+            source.close();
+            setIsConnected(false);
+        };
+    }, [userId, isWanted, utils]);
+
+    return (
+        <ChatStreamContext.Provider value={{ isConnected, subscribe }}>
+            {children}
+        </ChatStreamContext.Provider>
+    );
+}
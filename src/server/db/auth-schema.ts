@@ -3,7 +3,7 @@ import {
     text,
     timestamp,
     boolean,
-    // integer,
+    integer,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
@@ -13,6 +13,10 @@ export const orgs = pgTable('orgs', {
     slug: text('slug').notNull().unique(),
     createdAt: timestamp('created_at').notNull(),
     allowCrossOrgDM: boolean('allow_cross_org_dm').notNull().default(false),
+    // Upload quotas in MB; null falls back to STORAGE_QUOTA_ORG_MB and
+    // STORAGE_QUOTA_USER_MB
+    storageQuotaMb: integer('storage_quota_mb'),
+    userStorageQuotaMb: integer('user_storage_quota_mb'),
 });
 
 export const users = pgTable('users', {
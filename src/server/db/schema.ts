@@ -9,8 +9,13 @@ import {
     varchar,
     jsonb,
     unique,
+    index,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import { contentSearchDocument, postSearchDocument } from './search';
+import type { ImageVariants } from '../../lib/image-variants';
+import type { LinkPreview } from '../../lib/link-preview';
+import type { BadgeRule } from '../../lib/badge-rules';
 
 // Import auth schema first
 import { users, orgs, usersRelations, orgsRelations } from './auth-schema';
@@ -112,6 +117,58 @@ export const communityMemberRequests = pgTable('community_member_requests', {
     reviewedBy: text('reviewed_by').references(() => users.id),
 });
 
+// Bans keep a user out of a community until they expire (or forever when
+// expiresAt is null); mutes keep a member read-only until they expire
+export const communityBans = pgTable(
+    'community_bans',
+    {
+        id: serial('id').primaryKey(),
+        communityId: integer('community_id')
+            .notNull()
+            .references(() => communities.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        bannedBy: text('banned_by').references(() => users.id, {
+            onDelete: 'set null',
+        }),
+        reason: text('reason'),
+        expiresAt: timestamp('expires_at'),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        uniqueCommunityUser: unique('community_bans_community_user_unique').on(
+            table.communityId,
+            table.userId,
+        ),
+    }),
+);
+
+export const communityMutes = pgTable(
+    'community_mutes',
+    {
+        id: serial('id').primaryKey(),
+        communityId: integer('community_id')
+            .notNull()
+            .references(() => communities.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        mutedBy: text('muted_by').references(() => users.id, {
+            onDelete: 'set null',
+        }),
+        reason: text('reason'),
+        expiresAt: timestamp('expires_at').notNull(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        uniqueCommunityUser: unique('community_mutes_community_user_unique').on(
+            table.communityId,
+            table.userId,
+        ),
+    }),
+);
+
 export const communityAllowedOrgs = pgTable(
     'community_allowed_orgs',
     {
@@ -153,38 +210,136 @@ export const communityInvites = pgTable('community_invites', {
 });
 
 // Community schema
-export const posts = pgTable('posts', {
-    id: serial('id').primaryKey(),
-    title: text('title').notNull(),
-    content: text('content').notNull(),
-    authorId: text('author_id')
-        .notNull()
-        .references(() => users.id),
-    orgId: text('org_id')
-        .notNull()
-        .references(() => orgs.id),
-    communityId: integer('community_id').references(() => communities.id),
-    visibility: text('visibility').notNull().default('public'), // 'public' | 'community'
-    isDeleted: boolean('is_deleted').notNull().default(false),
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-    updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+export const posts = pgTable(
+    'posts',
+    {
+        id: serial('id').primaryKey(),
+        title: text('title').notNull(),
+        content: text('content').notNull(),
+        authorId: text('author_id')
+            .notNull()
+            .references(() => users.id),
+        orgId: text('org_id')
+            .notNull()
+            .references(() => orgs.id),
+        communityId: integer('community_id').references(() => communities.id),
+        visibility: text('visibility').notNull().default('public'), // 'public' | 'community'
+        isDeleted: boolean('is_deleted').notNull().default(false),
+        isHidden: boolean('is_hidden').notNull().default(false), // Hidden by moderators
+        editedAt: timestamp('edited_at'), // Last change to title or content
+        linkPreview: jsonb('link_preview').$type<LinkPreview>(), // Unfurled first link in the content, set on write
+        isAnnouncement: boolean('is_announcement').notNull().default(false), // Notifies every member and shows a banner
+        pinPosition: integer('pin_position'), // Order among the community's pinned posts, lowest first; null when not pinned
+        pinnedUntil: timestamp('pinned_until'), // The pin lapses after this; null keeps it until unpinned
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        searchIdx: index('posts_search_idx').using(
+            'gin',
+            postSearchDocument(table.title, table.content),
+        ),
+        pinnedIdx: index('posts_community_pin_idx').on(
+            table.communityId,
+            table.pinPosition,
+        ),
+    }),
+);
+
+// Every version of an edited post's title and content, oldest first. The
+// original is recorded on the first edit.
+export const postRevisions = pgTable(
+    'post_revisions',
+    {
+        id: serial('id').primaryKey(),
+        postId: integer('post_id')
+            .notNull()
+            .references(() => posts.id, { onDelete: 'cascade' }),
+        title: text('title').notNull(),
+        content: text('content').notNull(),
+        editorId: text('editor_id').references(() => users.id, {
+            onDelete: 'set null',
+        }),
+        // Set when a moderator brought back an earlier revision
+        restoredFromId: integer('restored_from_id'),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        postIdx: index('post_revisions_post_idx').on(
+            table.postId,
+            table.createdAt,
+        ),
+    }),
+);
+
+// Unpublished posts, autosaved from the editor. A draft with publishAt set
+// is scheduled; the scheduled-posts job turns it into a post and deletes it.
+export const postDrafts = pgTable(
+    'post_drafts',
+    {
+        id: serial('id').primaryKey(),
+        authorId: text('author_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        communityId: integer('community_id').references(() => communities.id, {
+            onDelete: 'cascade',
+        }),
+        title: text('title').notNull().default(''),
+        content: text('content').notNull().default(''),
+        tagIds: jsonb('tag_ids').$type<number[]>().notNull().default([]),
+        poll: jsonb('poll').$type<{
+            question: string;
+            pollType: 'single' | 'multiple' | 'ranked';
+            isAnonymous?: boolean;
+            resultsVisibility?: 'always' | 'after_vote' | 'after_close';
+            options: string[];
+            expiresAt: string | null; // ISO timestamp
+        }>(),
+        qa: jsonb('qa').$type<{
+            answersVisibleAt: string | null; // ISO timestamp
+            allowEditsUntil: string | null; // ISO timestamp
+        }>(),
+        isAnnouncement: boolean('is_announcement').notNull().default(false),
+        publishAt: timestamp('publish_at'),
+        // Why the last scheduled publish failed; the draft is unscheduled
+        publishError: text('publish_error'),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        authorIdx: index('post_drafts_author_idx').on(
+            table.authorId,
+            table.updatedAt,
+        ),
+        publishAtIdx: index('post_drafts_publish_at_idx').on(table.publishAt),
+    }),
+);
 
 // Define comments table with type assertion to handle self-reference
-export const comments = pgTable('comments', {
-    id: serial('id').primaryKey(),
-    content: text('content').notNull(),
-    postId: integer('post_id')
-        .notNull()
-        .references(() => posts.id),
-    authorId: text('author_id')
-        .notNull()
-        .references(() => users.id),
-    parentId: integer('parent_id').references((): any => comments.id),
-    isDeleted: boolean('is_deleted').notNull().default(false),
-    createdAt: timestamp('created_at').notNull().defaultNow(),
-    updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+export const comments = pgTable(
+    'comments',
+    {
+        id: serial('id').primaryKey(),
+        content: text('content').notNull(),
+        postId: integer('post_id')
+            .notNull()
+            .references(() => posts.id),
+        authorId: text('author_id')
+            .notNull()
+            .references(() => users.id),
+        parentId: integer('parent_id').references((): any => comments.id),
+        isDeleted: boolean('is_deleted').notNull().default(false),
+        isHidden: boolean('is_hidden').notNull().default(false), // Hidden by moderators
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        searchIdx: index('comments_search_idx').using(
+            'gin',
+            contentSearchDocument(table.content),
+        ),
+    }),
+);
 
 export const commentHelpfulVotes = pgTable(
     'comment_helpful_votes',
@@ -205,6 +360,29 @@ export const commentHelpfulVotes = pgTable(
     },
 );
 
+// Reactions on comments, one row per user and reaction type (see
+// REACTION_TYPES). Posts keep theirs in `reactions`.
+export const commentReactions = pgTable(
+    'comment_reactions',
+    {
+        commentId: integer('comment_id')
+            .notNull()
+            .references(() => comments.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        type: text('type').notNull(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => {
+        return {
+            pk: primaryKey({
+                columns: [table.commentId, table.userId, table.type],
+            }),
+        };
+    },
+);
+
 export const reactions = pgTable(
     'reactions',
     {
@@ -247,6 +425,28 @@ export const savedPosts = pgTable(
     }),
 );
 
+// Thread follows. Commenters follow a post automatically and authors follow
+// their own posts implicitly; a row with isFollowing = false records an
+// explicit unfollow so neither default brings the user back.
+export const postFollows = pgTable(
+    'post_follows',
+    {
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        postId: integer('post_id')
+            .notNull()
+            .references(() => posts.id, { onDelete: 'cascade' }),
+        isFollowing: boolean('is_following').notNull().default(true),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        pk: primaryKey({ columns: [table.userId, table.postId] }),
+        postIdx: index('post_follows_post_idx').on(table.postId),
+    }),
+);
+
 // Define relations
 export const communitiesRelations = relations(communities, ({ one, many }) => ({
     creator: one(users, {
@@ -294,6 +494,40 @@ export const communityMemberRequestsRelations = relations(
     }),
 );
 
+export const communityBansRelations = relations(communityBans, ({ one }) => ({
+    community: one(communities, {
+        fields: [communityBans.communityId],
+        references: [communities.id],
+    }),
+    user: one(users, {
+        fields: [communityBans.userId],
+        references: [users.id],
+        relationName: 'bannedUser',
+    }),
+    bannedByUser: one(users, {
+        fields: [communityBans.bannedBy],
+        references: [users.id],
+        relationName: 'banIssuer',
+    }),
+}));
+
+export const communityMutesRelations = relations(communityMutes, ({ one }) => ({
+    community: one(communities, {
+        fields: [communityMutes.communityId],
+        references: [communities.id],
+    }),
+    user: one(users, {
+        fields: [communityMutes.userId],
+        references: [users.id],
+        relationName: 'mutedUser',
+    }),
+    mutedByUser: one(users, {
+        fields: [communityMutes.mutedBy],
+        references: [users.id],
+        relationName: 'muteIssuer',
+    }),
+}));
+
 export const communityAllowedOrgsRelations = relations(
     communityAllowedOrgs,
     ({ one }) => ({
@@ -360,6 +594,30 @@ export const postsRelations = relations(posts, ({ one, many }) => ({
         fields: [posts.id],
         references: [qaQuestions.postId],
     }),
+    revisions: many(postRevisions),
+}));
+
+export const postRevisionsRelations = relations(postRevisions, ({ one }) => ({
+    post: one(posts, {
+        fields: [postRevisions.postId],
+        references: [posts.id],
+    }),
+    editor: one(users, {
+        fields: [postRevisions.editorId],
+        references: [users.id],
+    }),
+}));
+
+export const postDraftsRelations = relations(postDrafts, ({ one, many }) => ({
+    author: one(users, {
+        fields: [postDrafts.authorId],
+        references: [users.id],
+    }),
+    community: one(communities, {
+        fields: [postDrafts.communityId],
+        references: [communities.id],
+    }),
+    attachments: many(attachments),
 }));
 
 // Saved posts relations
@@ -428,6 +686,22 @@ export const extendedUsersRelations = relations(users, ({ many }) => ({
     assignedBadges: many(userBadgeAssignments, {
         relationName: 'badgeAssigner',
     }),
+    // Moderation relations
+    reportsFiled: many(contentReports, { relationName: 'reportsFiled' }),
+    reportsReceived: many(contentReports, { relationName: 'reportsReceived' }),
+    reportsResolved: many(contentReports, { relationName: 'reportsResolved' }),
+    moderationActionsTaken: many(moderationActions, {
+        relationName: 'moderationActionsTaken',
+    }),
+    moderationActionsReceived: many(moderationActions, {
+        relationName: 'moderationActionsReceived',
+    }),
+    communityBans: many(communityBans, { relationName: 'bannedUser' }),
+    issuedCommunityBans: many(communityBans, { relationName: 'banIssuer' }),
+    communityMutes: many(communityMutes, { relationName: 'mutedUser' }),
+    issuedCommunityMutes: many(communityMutes, { relationName: 'muteIssuer' }),
+    mentionsReceived: many(mentions, { relationName: 'mentionsReceived' }),
+    mentionsMade: many(mentions, { relationName: 'mentionsMade' }),
 }));
 
 export const extendedOrgsRelations = relations(orgs, ({ many }) => ({
@@ -436,23 +710,49 @@ export const extendedOrgsRelations = relations(orgs, ({ many }) => ({
     posts: many(posts),
 }));
 
-// Chat schema for direct messaging
+// Chat schema for direct messaging and group conversations
 export const chatThreads = pgTable('chat_threads', {
     id: serial('id').primaryKey(),
-    user1Id: text('user1_id')
-        .notNull()
-        .references(() => users.id, { onDelete: 'cascade' }),
-    user2Id: text('user2_id')
-        .notNull()
-        .references(() => users.id, { onDelete: 'cascade' }),
-    orgId: text('org_id')
-        .notNull()
-        .references(() => orgs.id, { onDelete: 'cascade' }),
+    // Only set for one-to-one threads; group membership lives in chat_thread_participants
+    user1Id: text('user1_id').references(() => users.id, {
+        onDelete: 'cascade',
+    }),
+    user2Id: text('user2_id').references(() => users.id, {
+        onDelete: 'cascade',
+    }),
+    isGroup: boolean('is_group').notNull().default(false),
+    name: text('name'), // Group name, null for one-to-one threads
+    createdBy: text('created_by').references(() => users.id, {
+        onDelete: 'set null',
+    }),
+    // Org shared by all participants, null for cross-org conversations
+    orgId: text('org_id').references(() => orgs.id, { onDelete: 'cascade' }),
     lastMessageAt: timestamp('last_message_at').notNull().defaultNow(),
     lastMessagePreview: text('last_message_preview'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+export const chatThreadParticipants = pgTable(
+    'chat_thread_participants',
+    {
+        threadId: integer('thread_id')
+            .notNull()
+            .references(() => chatThreads.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        role: text('role').notNull().default('member'), // 'owner' | 'member'
+        // Messages with a higher id than this are unread for the participant
+        lastReadMessageId: integer('last_read_message_id'),
+        joinedAt: timestamp('joined_at').notNull().defaultNow(),
+    },
+    (table) => {
+        return {
+            pk: primaryKey({ columns: [table.threadId, table.userId] }),
+        };
+    },
+);
+
 export const directMessages = pgTable('direct_messages', {
     id: serial('id').primaryKey(),
     threadId: integer('thread_id')
@@ -461,14 +761,41 @@ export const directMessages = pgTable('direct_messages', {
     senderId: text('sender_id')
         .notNull()
         .references(() => users.id, { onDelete: 'cascade' }),
-    recipientId: text('recipient_id')
-        .notNull()
-        .references(() => users.id, { onDelete: 'cascade' }),
+    // Only set for one-to-one threads
+    recipientId: text('recipient_id').references(() => users.id, {
+        onDelete: 'cascade',
+    }),
     content: text('content').notNull(),
-    isRead: boolean('is_read').notNull().default(false),
+    // Unfurled first link in the content, set when the message is written
+    linkPreview: jsonb('link_preview').$type<LinkPreview>(),
+    editedAt: timestamp('edited_at'),
+    // Deleted messages keep their place in the thread with the content cleared
+    deletedAt: timestamp('deleted_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
 });
 
+// Emoji reactions on chat messages, one row per user and emoji
+export const messageReactions = pgTable(
+    'message_reactions',
+    {
+        messageId: integer('message_id')
+            .notNull()
+            .references(() => directMessages.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        emoji: text('emoji').notNull(),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => {
+        return {
+            pk: primaryKey({
+                columns: [table.messageId, table.userId, table.emoji],
+            }),
+        };
+    },
+);
+
 // Chat relations
 export const chatThreadsRelations = relations(chatThreads, ({ one, many }) => ({
     user1: one(users, {
@@ -481,35 +808,76 @@ export const chatThreadsRelations = relations(chatThreads, ({ one, many }) => ({
         references: [users.id],
         relationName: 'user2Threads',
     }),
+    creator: one(users, {
+        fields: [chatThreads.createdBy],
+        references: [users.id],
+        relationName: 'createdThreads',
+    }),
     organization: one(orgs, {
         fields: [chatThreads.orgId],
         references: [orgs.id],
     }),
+    participants: many(chatThreadParticipants),
     messages: many(directMessages),
 }));
 
-export const directMessagesRelations = relations(directMessages, ({ one }) => ({
-    thread: one(chatThreads, {
-        fields: [directMessages.threadId],
-        references: [chatThreads.id],
+export const chatThreadParticipantsRelations = relations(
+    chatThreadParticipants,
+    ({ one }) => ({
+        thread: one(chatThreads, {
+            fields: [chatThreadParticipants.threadId],
+            references: [chatThreads.id],
+        }),
+        user: one(users, {
+            fields: [chatThreadParticipants.userId],
+            references: [users.id],
+        }),
     }),
-    sender: one(users, {
-        fields: [directMessages.senderId],
-        references: [users.id],
-        relationName: 'sentMessages',
+);
+
+export const directMessagesRelations = relations(
+    directMessages,
+    ({ one, many }) => ({
+        thread: one(chatThreads, {
+            fields: [directMessages.threadId],
+            references: [chatThreads.id],
+        }),
+        sender: one(users, {
+            fields: [directMessages.senderId],
+            references: [users.id],
+            relationName: 'sentMessages',
+        }),
+        recipient: one(users, {
+            fields: [directMessages.recipientId],
+            references: [users.id],
+            relationName: 'receivedMessages',
+        }),
+        attachments: many(attachments),
+        reactions: many(messageReactions),
     }),
-    recipient: one(users, {
-        fields: [directMessages.recipientId],
-        references: [users.id],
-        relationName: 'receivedMessages',
+);
+
+export const messageReactionsRelations = relations(
+    messageReactions,
+    ({ one }) => ({
+        message: one(directMessages, {
+            fields: [messageReactions.messageId],
+            references: [directMessages.id],
+        }),
+        user: one(users, {
+            fields: [messageReactions.userId],
+            references: [users.id],
+        }),
     }),
-}));
+);
 
 // Add chat relations to users
 export const userChatRelations = relations(users, ({ many }) => ({
     // Existing relations...
     user1Threads: many(chatThreads, { relationName: 'user1Threads' }),
     user2Threads: many(chatThreads, { relationName: 'user2Threads' }),
+    createdThreads: many(chatThreads, { relationName: 'createdThreads' }),
+    chatParticipations: many(chatThreadParticipants),
     sentMessages: many(directMessages, { relationName: 'sentMessages' }),
     receivedMessages: many(directMessages, {
         relationName: 'receivedMessages',
@@ -568,6 +936,45 @@ export const notificationPreferences = pgTable(
     }),
 );
 
+// Per-user preference for one notification event type on one channel
+// (see src/lib/notification-events.ts). Missing rows fall back to the
+// channel default, so only changes from the default are stored.
+export const notificationChannelPreferences = pgTable(
+    'notification_channel_preferences',
+    {
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        eventType: text('event_type').notNull(), // e.g. 'post', 'comment', 'mention'
+        channel: text('channel').notNull(), // 'push' | 'in_app' | 'email'
+        enabled: boolean('enabled').notNull(),
+        updatedAt: timestamp('updated_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        pk: primaryKey({
+            columns: [table.userId, table.eventType, table.channel],
+        }),
+    }),
+);
+
+// Tracks batched notifications (e.g. comments on one post) per recipient:
+// push and email go out at most once per window, later events in the window
+// are counted and summarised in the next delivery.
+export const notificationBatches = pgTable(
+    'notification_batches',
+    {
+        recipientId: text('recipient_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        batchKey: text('batch_key').notNull(), // e.g. 'post:12:comments'
+        pendingCount: integer('pending_count').notNull().default(0),
+        lastDeliveredAt: timestamp('last_delivered_at').notNull(),
+    },
+    (table) => ({
+        pk: primaryKey({ columns: [table.recipientId, table.batchKey] }),
+    }),
+);
+
 // Add tags relations
 export const tagsRelations = relations(tags, ({ one, many }) => ({
     community: one(communities, {
@@ -603,12 +1010,22 @@ export const attachments = pgTable('attachments', {
     id: serial('id').primaryKey(),
     filename: text('filename').notNull(),
     mimetype: text('mimetype').notNull(),
-    type: text('type').notNull(), // 'image' | 'video'
+    type: text('type').notNull(), // 'image' | 'video' | 'file'
     size: integer('size').default(0),
     r2Key: text('r2_key').notNull(),
     r2Url: text('r2_url'),
     publicUrl: text('public_url'),
     thumbnailUrl: text('thumbnail_url'), // for video preview, nullable
+    // Null unless the video is sent for transcoding
+    conversionStatus: text('conversion_status'), // 'pending' | 'processing' | 'ready' | 'failed'
+    conversionError: text('conversion_error'),
+    // Images only: pixel size after EXIF rotation, resized WebP variants by
+    // name (see src/lib/image-variants.ts) and a blurhash placeholder. Null
+    // until the upload has been processed.
+    width: integer('width'),
+    height: integer('height'),
+    variants: jsonb('variants').$type<ImageVariants>(),
+    blurhash: text('blurhash'),
     uploadedBy: text('uploaded_by')
         .notNull()
         .references(() => users.id, { onDelete: 'cascade' }),
@@ -618,6 +1035,19 @@ export const attachments = pgTable('attachments', {
     communityId: integer('community_id').references(() => communities.id, {
         onDelete: 'cascade',
     }),
+    // Set while the upload belongs to an unpublished draft. Uploads of
+    // deleted drafts become orphans for the attachment sweeper, which also
+    // removes their stored files.
+    draftId: integer('draft_id').references(() => postDrafts.id, {
+        onDelete: 'set null',
+    }),
+    // Set for files shared in chat
+    messageId: integer('message_id').references(() => directMessages.id, {
+        onDelete: 'cascade',
+    }),
+    // 'chat' for files uploaded to be sent in a message, which posts and
+    // drafts never pick up; null for post uploads
+    purpose: text('purpose'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
@@ -636,6 +1066,14 @@ export const attachmentsRelations = relations(attachments, ({ one }) => ({
         fields: [attachments.communityId],
         references: [communities.id],
     }),
+    draft: one(postDrafts, {
+        fields: [attachments.draftId],
+        references: [postDrafts.id],
+    }),
+    message: one(directMessages, {
+        fields: [attachments.messageId],
+        references: [directMessages.id],
+    }),
 }));
 
 // User badges schema
@@ -648,6 +1086,8 @@ export const userBadges = pgTable('user_badges', {
     orgId: text('org_id')
         .notNull()
         .references(() => orgs.id, { onDelete: 'cascade' }),
+    awardRule: jsonb('award_rule').$type<BadgeRule>(), // Awarded automatically to members who meet it
+    revokeWhenUnmet: boolean('revoke_when_unmet').notNull().default(false), // Take automatic awards back when the rule stops holding
     createdBy: text('created_by')
         .notNull()
         .references(() => users.id),
@@ -669,6 +1109,7 @@ export const userBadgeAssignments = pgTable(
             .references(() => users.id),
         assignedAt: timestamp('assigned_at').notNull().defaultNow(),
         note: text('note'), // Optional note about why badge was assigned
+        awardedByRule: boolean('awarded_by_rule').notNull().default(false), // Only these are revoked by the rules engine
     },
     (table) => {
         return {
@@ -738,7 +1179,11 @@ export const polls = pgTable('polls', {
         .notNull()
         .references(() => posts.id, { onDelete: 'cascade' }),
     question: text('question').notNull(),
-    pollType: text('poll_type').default('single').notNull(),
+    pollType: text('poll_type').default('single').notNull(), // 'single' | 'multiple' | 'ranked'
+    // Anonymous polls keep who voted in poll_participants and store ballots
+    // without a user
+    isAnonymous: boolean('is_anonymous').default(false).notNull(),
+    resultsVisibility: text('results_visibility').default('always').notNull(), // 'always' | 'after_vote' | 'after_close'
     expiresAt: timestamp('expires_at'),
     isClosed: boolean('is_closed').default(false).notNull(),
     createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -765,10 +1210,18 @@ export const pollVotes = pgTable(
         pollOptionId: integer('poll_option_id')
             .notNull()
             .references(() => pollOptions.id, { onDelete: 'cascade' }),
-        userId: text('user_id')
-            .notNull()
-            .references(() => users.id, { onDelete: 'cascade' }),
-        createdAt: timestamp('created_at').notNull().defaultNow(),
+        // Null on anonymous ballots
+        userId: text('user_id').references(() => users.id, {
+            onDelete: 'cascade',
+        }),
+        // Groups the rows of one ballot, so ranked ballots can be tallied
+        // without knowing who cast them
+        ballotId: text('ballot_id'),
+        // Preference on ranked ballots, 1 being the first choice
+        rank: integer('rank'),
+        // Null on anonymous ballots too, so they can't be matched up with
+        // voters by when they were cast
+        createdAt: timestamp('created_at').defaultNow(),
     },
     (table) => {
         return {
@@ -779,6 +1232,25 @@ export const pollVotes = pgTable(
     },
 );
 
+// Who has voted on an anonymous poll, kept apart from their ballot. There
+// is deliberately no timestamp.
+export const pollParticipants = pgTable(
+    'poll_participants',
+    {
+        pollId: integer('poll_id')
+            .notNull()
+            .references(() => polls.id, { onDelete: 'cascade' }),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+    },
+    (table) => {
+        return {
+            pk: primaryKey({ columns: [table.pollId, table.userId] }),
+        };
+    },
+);
+
 // Poll relations
 export const pollsRelations = relations(polls, ({ one, many }) => ({
     post: one(posts, {
@@ -787,8 +1259,23 @@ export const pollsRelations = relations(polls, ({ one, many }) => ({
     }),
     options: many(pollOptions),
     votes: many(pollVotes),
+    participants: many(pollParticipants),
 }));
 
+export const pollParticipantsRelations = relations(
+    pollParticipants,
+    ({ one }) => ({
+        poll: one(polls, {
+            fields: [pollParticipants.pollId],
+            references: [polls.id],
+        }),
+        user: one(users, {
+            fields: [pollParticipants.userId],
+            references: [users.id],
+        }),
+    }),
+);
+
 export const pollOptionsRelations = relations(pollOptions, ({ one, many }) => ({
     poll: one(polls, {
         fields: [pollOptions.pollId],
@@ -823,6 +1310,8 @@ export const qaQuestions = pgTable('qa_questions', {
         .references(() => posts.id, { onDelete: 'cascade' })
         .unique(),
     answersVisibleAt: timestamp('answers_visible_at'),
+    // Set by the reveal job once participants were told answers are visible
+    answersRevealedAt: timestamp('answers_revealed_at'),
     allowEditsUntil: timestamp('allow_edits_until'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -840,6 +1329,7 @@ export const qaAnswers = pgTable(
             .references(() => users.id, { onDelete: 'cascade' }),
         content: text('content').notNull(),
         isDeleted: boolean('is_deleted').notNull().default(false),
+        isHidden: boolean('is_hidden').notNull().default(false), // Hidden by moderators
         createdAt: timestamp('created_at').notNull().defaultNow(),
         updatedAt: timestamp('updated_at').notNull().defaultNow(),
     },
@@ -848,6 +1338,10 @@ export const qaAnswers = pgTable(
             table.postId,
             table.authorId,
         ),
+        searchIdx: index('qa_answers_search_idx').using(
+            'gin',
+            contentSearchDocument(table.content),
+        ),
     }),
 );
 
@@ -959,3 +1453,329 @@ export const qaAnswerCommentsRelations = relations(
         }),
     }),
 );
+
+// =============================
+// Content reports and moderation
+// =============================
+
+// One row per reporter per item; the moderation queue groups them by item
+export const contentReports = pgTable(
+    'content_reports',
+    {
+        id: serial('id').primaryKey(),
+        targetType: text('target_type').notNull(), // 'post' | 'comment' | 'answer'
+        targetId: integer('target_id').notNull(),
+        // Post the reported item belongs to (the item itself for posts)
+        postId: integer('post_id')
+            .notNull()
+            .references(() => posts.id, { onDelete: 'cascade' }),
+        communityId: integer('community_id').references(() => communities.id, {
+            onDelete: 'cascade',
+        }),
+        orgId: text('org_id')
+            .notNull()
+            .references(() => orgs.id, { onDelete: 'cascade' }),
+        targetAuthorId: text('target_author_id').references(() => users.id, {
+            onDelete: 'set null',
+        }),
+        reporterId: text('reporter_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        reason: text('reason').notNull(), // 'spam' | 'harassment' | 'hate_speech' | 'misinformation' | 'inappropriate' | 'other'
+        details: text('details'),
+        status: text('status').notNull().default('open'), // 'open' | 'dismissed' | 'actioned'
+        resolvedBy: text('resolved_by').references(() => users.id, {
+            onDelete: 'set null',
+        }),
+        resolvedAt: timestamp('resolved_at'),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        uniqueReporterTarget: unique(
+            'content_reports_reporter_target_unique',
+        ).on(table.targetType, table.targetId, table.reporterId),
+    }),
+);
+
+// Audit trail of every action taken from the moderation queue
+export const moderationActions = pgTable('moderation_actions', {
+    id: serial('id').primaryKey(),
+    targetType: text('target_type').notNull(), // 'post' | 'comment' | 'answer'
+    targetId: integer('target_id').notNull(),
+    postId: integer('post_id').references(() => posts.id, {
+        onDelete: 'set null',
+    }),
+    communityId: integer('community_id').references(() => communities.id, {
+        onDelete: 'cascade',
+    }),
+    orgId: text('org_id')
+        .notNull()
+        .references(() => orgs.id, { onDelete: 'cascade' }),
+    moderatorId: text('moderator_id').references(() => users.id, {
+        onDelete: 'set null',
+    }),
+    targetAuthorId: text('target_author_id').references(() => users.id, {
+        onDelete: 'set null',
+    }),
+    action: text('action').notNull(), // 'dismiss' | 'hide' | 'delete' | 'warn' | 'restore_revision'
+    note: text('note'),
+    reportCount: integer('report_count').notNull().default(0),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+export const contentReportsRelations = relations(contentReports, ({ one }) => ({
+    post: one(posts, {
+        fields: [contentReports.postId],
+        references: [posts.id],
+    }),
+    community: one(communities, {
+        fields: [contentReports.communityId],
+        references: [communities.id],
+    }),
+    reporter: one(users, {
+        fields: [contentReports.reporterId],
+        references: [users.id],
+        relationName: 'reportsFiled',
+    }),
+    targetAuthor: one(users, {
+        fields: [contentReports.targetAuthorId],
+        references: [users.id],
+        relationName: 'reportsReceived',
+    }),
+    resolver: one(users, {
+        fields: [contentReports.resolvedBy],
+        references: [users.id],
+        relationName: 'reportsResolved',
+    }),
+}));
+
+export const moderationActionsRelations = relations(
+    moderationActions,
+    ({ one }) => ({
+        post: one(posts, {
+            fields: [moderationActions.postId],
+            references: [posts.id],
+        }),
+        community: one(communities, {
+            fields: [moderationActions.communityId],
+            references: [communities.id],
+        }),
+        moderator: one(users, {
+            fields: [moderationActions.moderatorId],
+            references: [users.id],
+            relationName: 'moderationActionsTaken',
+        }),
+        targetAuthor: one(users, {
+            fields: [moderationActions.targetAuthorId],
+            references: [users.id],
+            relationName: 'moderationActionsReceived',
+        }),
+    }),
+);
+
+// Append-only log of administrative actions (role changes, removals, bans,
+// tag deletions, badge assignments). A trigger added in the migration rejects
+// updates and deletes, so the actor, target and scope columns hold plain ids
+// without foreign keys, and names are copied in case the user or tag is removed.
+export const auditLogs = pgTable(
+    'audit_logs',
+    {
+        id: serial('id').primaryKey(),
+        actorId: text('actor_id'),
+        actorName: text('actor_name'),
+        action: text('action').notNull(), // see AUDIT_ACTIONS in src/lib/audit-actions.ts
+        communityId: integer('community_id'),
+        orgId: text('org_id'),
+        targetType: text('target_type').notNull(), // 'user' | 'tag' | 'org'
+        targetId: text('target_id').notNull(),
+        targetLabel: text('target_label'),
+        before: jsonb('before'),
+        after: jsonb('after'),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        communityIdx: index('audit_logs_community_idx').on(
+            table.communityId,
+            table.createdAt,
+        ),
+        orgIdx: index('audit_logs_org_idx').on(table.orgId, table.createdAt),
+        createdAtIdx: index('audit_logs_created_at_idx').on(table.createdAt),
+    }),
+);
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+    actor: one(users, {
+        fields: [auditLogs.actorId],
+        references: [users.id],
+    }),
+    community: one(communities, {
+        fields: [auditLogs.communityId],
+        references: [communities.id],
+    }),
+}));
+
+// =============================
+// Mentions
+// =============================
+
+// One row per mentioned user per post, comment or chat message. The content
+// itself keeps the mention as a <span data-type="mention" data-id="..."> node;
+// these rows back the "mentions of me" list and avoid re-notifying on edits.
+export const mentions = pgTable(
+    'mentions',
+    {
+        id: serial('id').primaryKey(),
+        mentionedUserId: text('mentioned_user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        mentionedBy: text('mentioned_by')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        sourceType: text('source_type').notNull(), // 'post' | 'comment' | 'message'
+        postId: integer('post_id').references(() => posts.id, {
+            onDelete: 'cascade',
+        }),
+        commentId: integer('comment_id').references(() => comments.id, {
+            onDelete: 'cascade',
+        }),
+        messageId: integer('message_id').references(() => directMessages.id, {
+            onDelete: 'cascade',
+        }),
+        threadId: integer('thread_id').references(() => chatThreads.id, {
+            onDelete: 'cascade',
+        }),
+        communityId: integer('community_id').references(() => communities.id, {
+            onDelete: 'cascade',
+        }),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+    },
+    (table) => ({
+        mentionedUserIdx: index('mentions_mentioned_user_idx').on(
+            table.mentionedUserId,
+            table.createdAt,
+        ),
+        postIdx: index('mentions_post_idx').on(table.postId),
+        commentIdx: index('mentions_comment_idx').on(table.commentId),
+    }),
+);
+
+export const mentionsRelations = relations(mentions, ({ one }) => ({
+    mentionedUser: one(users, {
+        fields: [mentions.mentionedUserId],
+        references: [users.id],
+        relationName: 'mentionsReceived',
+    }),
+    author: one(users, {
+        fields: [mentions.mentionedBy],
+        references: [users.id],
+        relationName: 'mentionsMade',
+    }),
+    post: one(posts, {
+        fields: [mentions.postId],
+        references: [posts.id],
+    }),
+    comment: one(comments, {
+        fields: [mentions.commentId],
+        references: [comments.id],
+    }),
+    community: one(communities, {
+        fields: [mentions.communityId],
+        references: [communities.id],
+    }),
+}));
+
+// =============================
+// Email digests
+// =============================
+
+// Users without a row get the default weekly digest; a row is created the
+// first time a digest is sent so every email carries an unsubscribe token.
+export const emailDigestPreferences = pgTable('email_digest_preferences', {
+    userId: text('user_id')
+        .primaryKey()
+        .references(() => users.id, { onDelete: 'cascade' }),
+    frequency: text('frequency').notNull().default('weekly'), // 'daily' | 'weekly' | 'off'
+    unsubscribeToken: text('unsubscribe_token').notNull().unique(),
+    lastSentAt: timestamp('last_sent_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// One row per user per digest period. The row is claimed before sending, so
+// overlapping or repeated runs never email the same digest twice.
+export const emailDigestDeliveries = pgTable(
+    'email_digest_deliveries',
+    {
+        id: serial('id').primaryKey(),
+        userId: text('user_id')
+            .notNull()
+            .references(() => users.id, { onDelete: 'cascade' }),
+        frequency: text('frequency').notNull(), // 'daily' | 'weekly'
+        periodKey: text('period_key').notNull(), // e.g. '2025-06-14' or '2025-W24'
+        status: text('status').notNull().default('pending'), // 'pending' | 'sent' | 'skipped'
+        itemCount: integer('item_count').notNull().default(0),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        sentAt: timestamp('sent_at'),
+    },
+    (table) => ({
+        uniqueUserPeriod: unique(
+            'email_digest_deliveries_user_period_unique',
+        ).on(table.userId, table.frequency, table.periodKey),
+    }),
+);
+
+export const emailDigestPreferencesRelations = relations(
+    emailDigestPreferences,
+    ({ one }) => ({
+        user: one(users, {
+            fields: [emailDigestPreferences.userId],
+            references: [users.id],
+        }),
+    }),
+);
+
+// Background jobs, claimed with FOR UPDATE SKIP LOCKED so any number of
+// runners can share the queue. Periodic jobs get one row per period, keyed by
+// dedupeKey, so overlapping schedulers enqueue each run once.
+export const jobs = pgTable(
+    'jobs',
+    {
+        id: serial('id').primaryKey(),
+        name: text('name').notNull(), // a job registered with the scheduler
+        payload: jsonb('payload')
+            .$type<Record<string, unknown>>()
+            .notNull()
+            .default({}),
+        status: text('status').notNull().default('pending'), // 'pending' | 'running' | 'succeeded' | 'failed'
+        runAt: timestamp('run_at').notNull().defaultNow(),
+        attempts: integer('attempts').notNull().default(0),
+        maxAttempts: integer('max_attempts').notNull().default(5),
+        dedupeKey: text('dedupe_key').unique(), // e.g. 'close-expired-polls:29123040'
+        lockedAt: timestamp('locked_at'),
+        lockedBy: text('locked_by'),
+        lastError: text('last_error'),
+        createdAt: timestamp('created_at').notNull().defaultNow(),
+        updatedAt: timestamp('updated_at').notNull().defaultNow(),
+        completedAt: timestamp('completed_at'),
+    },
+    (table) => ({
+        dueIdx: index('jobs_status_run_at_idx').on(table.status, table.runAt),
+    }),
+);
+
+// Unfurled link previews by URL, shared by every post and message linking
+// there. Failed unfurls are cached too (preview null), for a shorter time.
+export const linkPreviews = pgTable(
+    'link_previews',
+    {
+        id: serial('id').primaryKey(),
+        url: text('url').notNull().unique(),
+        preview: jsonb('preview').$type<LinkPreview>(),
+        fetchedAt: timestamp('fetched_at').notNull().defaultNow(),
+        expiresAt: timestamp('expires_at').notNull(),
+    },
+    (table) => ({
+        expiresIdx: index('link_previews_expires_at_idx').on(table.expiresAt),
+    }),
+);
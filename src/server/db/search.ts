@@ -0,0 +1,21 @@
+import { sql } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// Full-text search documents shared by the GIN expression indexes in schema.ts
+// and the search service. Postgres only uses an expression index when the
+// query repeats the indexed expression exactly, so both sides must build their
+// documents through these helpers.
+
+// Rich-text content is stored as HTML; drop the tags before indexing
+export const stripHtml = (column: AnyPgColumn) =>
+    sql`regexp_replace(${column}, '<[^>]*>', ' ', 'g')`;
+
+export const postSearchDocument = (title: AnyPgColumn, content: AnyPgColumn) =>
+    sql`(setweight(to_tsvector('english', coalesce(${title}, '')), 'A') || setweight(to_tsvector('english', ${stripHtml(content)}), 'B'))`;
+
+export const contentSearchDocument = (content: AnyPgColumn) =>
+    sql`to_tsvector('english', ${stripHtml(content)})`;
+
+// Parses user input with web-search syntax: quoted phrases, `or` and `-term`
+export const searchQuery = (query: string) =>
+    sql`websearch_to_tsquery('english', ${query})`;
@@ -0,0 +1,103 @@
+import { registerJob, pruneFinishedJobs } from './scheduler';
+import { closeExpiredPolls } from '@/server/trpc/services/poll-service';
+import { revealDueQaAnswers } from '@/server/trpc/services/qa-service';
+import { deleteExpiredInvites } from '@/server/trpc/services/community-invite-service';
+import { sweepAttachments } from '@/server/trpc/services/storage-service';
+import { pruneExpiredLinkPreviews } from '@/server/trpc/services/link-unfurl-service';
+import {
+    EVALUATE_BADGE_RULES_JOB,
+    evaluateBadgeRules,
+} from '@/server/trpc/services/badge-rule-service';
+import {
+    PROCESS_IMAGE_JOB,
+    processImageAttachment,
+} from '@/server/trpc/services/image-processing-service';
+import {
+    TRANSCODE_VIDEO_JOB,
+    VIDEO_QUEUE,
+    transcodeVideo,
+} from './transcode-video';
+
+// Every job the runners know about. Register new periodic or one-off jobs
+// here so that importing this module is all a runner needs.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+registerJob({
+    name: 'close-expired-polls',
+    every: MINUTE,
+    handler: closeExpiredPolls,
+});
+
+registerJob({
+    name: 'reveal-qa-answers',
+    every: MINUTE,
+    handler: revealDueQaAnswers,
+});
+
+registerJob({
+    name: 'delete-expired-invites',
+    every: DAY,
+    handler: () => deleteExpiredInvites(30),
+});
+
+// Unattached uploads get a day, in case a post is still being written;
+// attachments of deleted content are kept for 30 days
+registerJob({
+    name: 'sweep-attachments',
+    every: DAY,
+    handler: () =>
+        sweepAttachments({
+            orphanGraceHours: 24,
+            deletedGraceDays: 30,
+            batchSize: 500,
+        }),
+});
+
+// Posts and messages keep their own copy; the cache only saves refetches
+registerJob({
+    name: 'prune-link-previews',
+    every: DAY,
+    handler: pruneExpiredLinkPreviews,
+});
+
+// Catches up on anything the per-write checks missed, and on membership
+// anniversaries
+registerJob({
+    name: 'backfill-badge-rules',
+    every: DAY,
+    handler: () => evaluateBadgeRules(),
+});
+
+// Queued when a badge's rule is saved
+registerJob({
+    name: EVALUATE_BADGE_RULES_JOB,
+    maxAttempts: 3,
+    handler: ({ badgeId }) =>
+        evaluateBadgeRules({ badgeId: badgeId as number }),
+});
+
+registerJob({
+    name: 'prune-finished-jobs',
+    every: DAY,
+    handler: () => pruneFinishedJobs(14),
+});
+
+// Retries uploads whose processing failed in confirm-upload
+registerJob({
+    name: PROCESS_IMAGE_JOB,
+    maxAttempts: 3,
+    handler: ({ attachmentId }) =>
+        processImageAttachment(attachmentId as number),
+});
+
+registerJob({
+    name: TRANSCODE_VIDEO_JOB,
+    queue: VIDEO_QUEUE,
+    maxAttempts: 3,
+    lockTimeoutMs: 30 * MINUTE,
+    handler: transcodeVideo,
+});
+
+export { enqueueJob, registerJob, runDueJobs } from './scheduler';
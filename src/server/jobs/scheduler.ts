@@ -0,0 +1,301 @@
+import { hostname } from 'os';
+import { and, asc, eq, inArray, isNull, lt, lte, sql } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { jobs } from '@/server/db/schema';
+
+/**
+ * Job Scheduler
+ *
+ * A small queue on the `jobs` table. Jobs are registered by name with a
+ * handler; one-off jobs are enqueued with `enqueueJob`, and jobs registered
+ * with `every` are enqueued once per period by `runDueJobs` itself. Runners
+ * (scripts/run-jobs.ts, or /api/jobs from cron) claim due rows with
+ * FOR UPDATE SKIP LOCKED, so several can run side by side. Each runner
+ * works one queue, so heavy jobs (e.g. video transcoding) can run on
+ * dedicated hosts.
+ *
+ * A failing job is retried with exponential backoff until maxAttempts, then
+ * left as 'failed' with its last error. A runner that dies mid-job leaves
+ * the row 'running'; once the lock is older than the job's lock timeout it
+ * is treated as a failed attempt. A runner that only finishes after that
+ * leaves the row to whoever holds it now.
+ */
+
+export interface JobContext {
+    attempt: number;
+    isLastAttempt: boolean;
+}
+
+export type JobHandler = (
+    payload: Record<string, unknown>,
+    context: JobContext,
+) => Promise<unknown>;
+
+export interface JobDefinition {
+    name: string;
+    handler: JobHandler;
+    // Run periodically, once per this many milliseconds
+    every?: number;
+    maxAttempts?: number;
+    // Runners only claim jobs from their own queue
+    queue?: string;
+    // How long a run may take before its lock counts as abandoned
+    lockTimeoutMs?: number;
+}
+
+export const DEFAULT_QUEUE = 'default';
+const DEFAULT_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BATCH_SIZE = 10;
+
+const registry = new Map<string, JobDefinition>();
+
+export function registerJob(definition: JobDefinition) {
+    if (registry.has(definition.name)) {
+        throw new Error(`Job "${definition.name}" is already registered`);
+    }
+    registry.set(definition.name, definition);
+}
+
+export async function enqueueJob(
+    name: string,
+    payload: Record<string, unknown> = {},
+    options: { runAt?: Date; dedupeKey?: string } = {},
+) {
+    const definition = registry.get(name);
+    if (!definition) {
+        throw new Error(`Job "${name}" is not registered`);
+    }
+
+    // A duplicate dedupeKey means the job is already queued
+    const [job] = await db
+        .insert(jobs)
+        .values({
+            name,
+            payload,
+            runAt: options.runAt ?? new Date(),
+            maxAttempts: definition.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+            dedupeKey: options.dedupeKey ?? null,
+        })
+        .onConflictDoNothing({ target: jobs.dedupeKey })
+        .returning();
+    return job ?? null;
+}
+
+const jobsInQueue = (queue: string) =>
+    [...registry.values()].filter(
+        (definition) => (definition.queue ?? DEFAULT_QUEUE) === queue,
+    );
+
+// One row per periodic job per period; the period number in the key makes
+// repeated calls within a period no-ops
+async function enqueuePeriodicJobs(queue: string, now: Date) {
+    for (const definition of jobsInQueue(queue)) {
+        if (!definition.every) continue;
+        const period = Math.floor(now.getTime() / definition.every);
+        await enqueueJob(
+            definition.name,
+            {},
+            {
+                runAt: new Date(period * definition.every),
+                dedupeKey: `${definition.name}:${period}`,
+            },
+        );
+    }
+}
+
+const retryDelay = (attempts: number) =>
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+
+// Jobs whose runner disappeared count as a failed attempt
+async function releaseStaleLocks(names: string[], now: Date) {
+    const running = await db
+        .select({
+            id: jobs.id,
+            name: jobs.name,
+            attempts: jobs.attempts,
+            maxAttempts: jobs.maxAttempts,
+            lockedAt: jobs.lockedAt,
+            lockedBy: jobs.lockedBy,
+        })
+        .from(jobs)
+        .where(and(eq(jobs.status, 'running'), inArray(jobs.name, names)));
+
+    for (const job of running) {
+        const timeout =
+            registry.get(job.name)?.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+        if (job.lockedAt && job.lockedAt.getTime() < now.getTime() - timeout) {
+            await finishAttempt(
+                job,
+                new Error('Job runner stopped responding'),
+            );
+        }
+    }
+}
+
+async function claimDueJobs(names: string[], workerId: string, limit: number) {
+    const due = db
+        .select({ id: jobs.id })
+        .from(jobs)
+        .where(
+            and(
+                eq(jobs.status, 'pending'),
+                inArray(jobs.name, names),
+                lte(jobs.runAt, new Date()),
+            ),
+        )
+        .orderBy(asc(jobs.runAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+    const now = new Date();
+    return db
+        .update(jobs)
+        .set({
+            status: 'running',
+            lockedAt: now,
+            lockedBy: workerId,
+            attempts: sql`${jobs.attempts} + 1`,
+            updatedAt: now,
+        })
+        .where(inArray(jobs.id, due))
+        .returning();
+}
+
+type JobAttempt = {
+    id: number;
+    attempts: number;
+    maxAttempts: number;
+    lockedAt: Date | null;
+    lockedBy: string | null;
+};
+
+// Only the lock this attempt was claimed with may finish it. Returns null
+// when the lock was released (and maybe claimed again) in the meantime, or
+// when another runner released the same stale lock first.
+async function finishAttempt(job: JobAttempt, error?: unknown) {
+    const now = new Date();
+    const stillLocked = and(
+        eq(jobs.id, job.id),
+        eq(jobs.status, 'running'),
+        job.lockedBy ? eq(jobs.lockedBy, job.lockedBy) : isNull(jobs.lockedBy),
+        job.lockedAt ? eq(jobs.lockedAt, job.lockedAt) : isNull(jobs.lockedAt),
+    );
+
+    if (!error) {
+        const finished = await db
+            .update(jobs)
+            .set({
+                status: 'succeeded',
+                lockedAt: null,
+                lockedBy: null,
+                lastError: null,
+                completedAt: now,
+                updatedAt: now,
+            })
+            .where(stillLocked)
+            .returning({ id: jobs.id });
+        return finished.length > 0 ? ('succeeded' as const) : null;
+    }
+
+    const canRetry = job.attempts < job.maxAttempts;
+    const finished = await db
+        .update(jobs)
+        .set({
+            status: canRetry ? 'pending' : 'failed',
+            runAt: canRetry
+                ? new Date(now.getTime() + retryDelay(job.attempts))
+                : undefined,
+            lockedAt: null,
+            lockedBy: null,
+            lastError: error instanceof Error ? error.message : String(error),
+            completedAt: canRetry ? null : now,
+            updatedAt: now,
+        })
+        .where(stillLocked)
+        .returning({ id: jobs.id });
+    if (finished.length === 0) return null;
+    return canRetry ? ('retried' as const) : ('failed' as const);
+}
+
+export const defaultWorkerId = () => `${hostname()}:${process.pid}`;
+
+/**
+ * Enqueues the queue's periodic jobs for this period, then claims and runs
+ * its due jobs in batches until none are left (or maxJobs have run).
+ */
+export async function runDueJobs(
+    options: {
+        queue?: string;
+        workerId?: string;
+        batchSize?: number;
+        maxJobs?: number;
+    } = {},
+) {
+    const queue = options.queue ?? DEFAULT_QUEUE;
+    const workerId = options.workerId ?? defaultWorkerId();
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const maxJobs = options.maxJobs ?? 100;
+    const result = { succeeded: 0, retried: 0, failed: 0 };
+
+    const names = jobsInQueue(queue).map((definition) => definition.name);
+    if (names.length === 0) return result;
+
+    const now = new Date();
+    await releaseStaleLocks(names, now);
+    await enqueuePeriodicJobs(queue, now);
+
+    let processed = 0;
+    while (processed < maxJobs) {
+        const claimed = await claimDueJobs(
+            names,
+            workerId,
+            Math.min(batchSize, maxJobs - processed),
+        );
+        if (claimed.length === 0) break;
+
+        for (const job of claimed) {
+            processed++;
+            const definition = registry.get(job.name);
+            let error: unknown;
+            try {
+                if (!definition) {
+                    throw new Error(`Job "${job.name}" is not registered`);
+                }
+                await definition.handler(job.payload, {
+                    attempt: job.attempts,
+                    isLastAttempt: job.attempts >= job.maxAttempts,
+                });
+            } catch (caught) {
+                console.error(`Job ${job.id} (${job.name}) failed:`, caught);
+                error = caught ?? new Error('Job failed');
+            }
+            const outcome = await finishAttempt(job, error);
+            if (outcome) {
+                result[outcome]++;
+            } else {
+                console.warn(
+                    `Job ${job.id} (${job.name}) lost its lock before finishing`,
+                );
+            }
+        }
+    }
+
+    return result;
+}
+
+// Finished jobs are kept for a while for debugging, then pruned
+export async function pruneFinishedJobs(olderThanDays: number) {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+    const deleted = await db
+        .delete(jobs)
+        .where(
+            and(
+                inArray(jobs.status, ['succeeded', 'failed']),
+                lt(jobs.completedAt, cutoff),
+            ),
+        )
+        .returning({ id: jobs.id });
+    return { deleted: deleted.length };
+}
@@ -0,0 +1,160 @@
+import { spawn } from 'child_process';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { attachments } from '@/server/db/schema';
+import { downloadObjectToFile, uploadFileAsObject } from '@/lib/r2-objects';
+import { videoThumbnailKey } from '@/lib/video-conversion';
+import type { JobContext } from './scheduler';
+
+/**
+ * Local ffmpeg transcoding worker, used when VIDEO_TRANSCODER=local. Runs on
+ * the 'video' queue (pnpm jobs:video) so it can live on a host with ffmpeg
+ * and spare CPU. Each job downloads the upload from storage, re-encodes it to
+ * H.264/AAC MP4 over the same key, stores a poster frame next to it and
+ * reports back through the signed callback URLs in its payload.
+ */
+
+export const TRANSCODE_VIDEO_JOB = 'transcode-video';
+export const VIDEO_QUEUE = 'video';
+
+const MAX_WIDTH = 1280;
+const THUMBNAIL_WIDTH = 640;
+
+function runFfmpeg(args: string[]) {
+    return new Promise<void>((resolve, reject) => {
+        const child = spawn(process.env.FFMPEG_PATH || 'ffmpeg', args, {
+            stdio: ['ignore', 'ignore', 'pipe'],
+        });
+        // ffmpeg reports progress on stderr; keep the end for error messages
+        let stderr = '';
+        child.stderr.on('data', (chunk: Buffer) => {
+            stderr = (stderr + chunk.toString()).slice(-2000);
+        });
+        child.on('error', reject);
+        child.on('close', (code) => {
+            if (code === 0) resolve();
+            else reject(new Error(`ffmpeg exited with ${code}: ${stderr}`));
+        });
+    });
+}
+
+async function postCallback(url: string, body: Record<string, unknown>) {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+        throw new Error(`Callback failed: ${response.status}`);
+    }
+}
+
+export async function transcodeVideo(
+    payload: Record<string, unknown>,
+    context: JobContext,
+) {
+    const { attachmentId, key, completeUrl, errorUrl } = payload as {
+        attachmentId: number;
+        key: string;
+        completeUrl: string;
+        errorUrl: string;
+    };
+
+    // Skip attachments that were deleted or already finished
+    const [claimed] = await db
+        .update(attachments)
+        .set({ conversionStatus: 'processing', updatedAt: new Date() })
+        .where(
+            and(
+                eq(attachments.id, attachmentId),
+                inArray(attachments.conversionStatus, [
+                    'pending',
+                    'processing',
+                ]),
+            ),
+        )
+        .returning({ id: attachments.id });
+    if (!claimed) return { skipped: true };
+
+    const workDir = await mkdtemp(join(tmpdir(), 'transcode-'));
+    try {
+        const input = join(workDir, 'input');
+        const output = join(workDir, 'output.mp4');
+        const thumbnail = join(workDir, 'thumbnail.jpg');
+
+        await downloadObjectToFile(key, input);
+        await runFfmpeg([
+            '-y',
+            '-i',
+            input,
+            '-vf',
+            `scale='min(${MAX_WIDTH},iw)':-2`,
+            '-c:v',
+            'libx264',
+            '-preset',
+            'veryfast',
+            '-crf',
+            '23',
+            '-pix_fmt',
+            'yuv420p',
+            '-c:a',
+            'aac',
+            '-b:a',
+            '128k',
+            '-movflags',
+            '+faststart',
+            output,
+        ]);
+
+        // A missing poster frame is not worth failing the video over
+        let hasThumbnail = false;
+        try {
+            await runFfmpeg([
+                '-y',
+                '-i',
+                output,
+                '-vf',
+                `thumbnail,scale=${THUMBNAIL_WIDTH}:-2`,
+                '-frames:v',
+                '1',
+                thumbnail,
+            ]);
+            hasThumbnail = (await stat(thumbnail)).size > 0;
+        } catch (error) {
+            console.error(
+                `Could not extract a thumbnail for attachment ${attachmentId}:`,
+                error,
+            );
+        }
+
+        await uploadFileAsObject(output, key, 'video/mp4');
+        if (hasThumbnail) {
+            await uploadFileAsObject(
+                thumbnail,
+                videoThumbnailKey(key),
+                'image/jpeg',
+            );
+        }
+
+        await postCallback(completeUrl, { hasThumbnail });
+        return { attachmentId, hasThumbnail };
+    } catch (error) {
+        // Earlier attempts are retried by the scheduler
+        if (context.isLastAttempt) {
+            await postCallback(errorUrl, {
+                error: error instanceof Error ? error.message : String(error),
+            }).catch((callbackError) =>
+                console.error(
+                    `Could not report failed transcoding of attachment ${attachmentId}:`,
+                    callbackError,
+                ),
+            );
+        }
+        throw error;
+    } finally {
+        await rm(workDir, { recursive: true, force: true });
+    }
+}
@@ -34,6 +34,7 @@ import {
     sessions,
     postTags,
 } from '@/server/db/schema';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
 
 export const adminRouter = router({
     // Get paginated users with search and filtering
@@ -695,6 +696,20 @@ export const adminRouter = router({
                     }
                 });
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'app.remove_user',
+                    orgId: user.orgId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    targetLabel: user.name || user.email,
+                    before: {
+                        email: user.email,
+                        role: user.role,
+                        appRole: user.appRole,
+                    },
+                });
+
                 return result;
             } catch (error) {
                 if (error instanceof TRPCError) throw error;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { router, authProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import { AUDIT_ACTIONS } from '@/lib/audit-actions';
+import {
+    getAuditLogFilterOptions,
+    listAuditLogs,
+} from '@/server/trpc/services/audit-log-service';
+
+export const auditLogRouter = router({
+    // Audit log entries visible to the caller, newest first
+    list: authProcedure
+        .input(
+            z.object({
+                communityId: z.number().optional(),
+                orgId: z.string().optional(),
+                action: z.enum(AUDIT_ACTIONS).optional(),
+                actorId: z.string().optional(),
+                targetId: z.string().optional(),
+                startDate: z.date().optional(),
+                endDate: z.date().optional(),
+                limit: z.number().min(1).max(100).default(25),
+                offset: z.number().min(0).default(0),
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            try {
+                return await listAuditLogs(ctx.session.user.id, input);
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching audit log:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch audit log',
+                });
+            }
+        }),
+
+    // Organizations and communities available as audit log filters
+    getFilterOptions: authProcedure.query(async ({ ctx }) => {
+        try {
+            return await getAuditLogFilterOptions(ctx.session.user.id);
+        } catch (error) {
+            if (error instanceof TRPCError) throw error;
+            console.error('Error fetching audit log filter options:', error);
+            throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to fetch audit log filter options',
+            });
+        }
+    }),
+});
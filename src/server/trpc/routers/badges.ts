@@ -8,8 +8,61 @@ import {
     userBadgeAssignments,
     users,
     orgs,
+    communities,
 } from '@/server/db/schema';
 import { checkUserPermission } from '@/server/utils/permission';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
+import { EVALUATE_BADGE_RULES_JOB } from '@/server/trpc/services/badge-rule-service';
+import { enqueueJob } from '@/server/jobs';
+import {
+    BADGE_RULE_TYPES,
+    COMMUNITY_SCOPED_RULE_TYPES,
+    type BadgeRule,
+} from '@/lib/badge-rules';
+
+const badgeRuleInput = z.object({
+    type: z.enum(BADGE_RULE_TYPES),
+    threshold: z.number().int().min(1).max(100000),
+    communityId: z.number().nullable().optional(),
+});
+
+// Drops the community from rules that can't use one and checks that it
+// belongs to the badge's organization
+async function normalizeBadgeRule(
+    rule: z.infer<typeof badgeRuleInput>,
+    orgId: string,
+): Promise<BadgeRule> {
+    const communityId = COMMUNITY_SCOPED_RULE_TYPES.includes(rule.type)
+        ? (rule.communityId ?? null)
+        : null;
+    if (communityId) {
+        const community = await db.query.communities.findFirst({
+            where: eq(communities.id, communityId),
+            columns: { orgId: true },
+        });
+        if (!community || community.orgId !== orgId) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message:
+                    "The rule's community must belong to the badge's organization",
+            });
+        }
+    }
+    return { type: rule.type, threshold: rule.threshold, communityId };
+}
+
+// Existing members are checked by a job so saving stays fast in large orgs
+async function queueBadgeRuleEvaluation(badgeId: number) {
+    try {
+        await enqueueJob(EVALUATE_BADGE_RULES_JOB, { badgeId });
+    } catch (error) {
+        // The daily backfill picks the rule up anyway
+        console.error(
+            `Failed to queue badge rule evaluation for badge ${badgeId}:`,
+            error,
+        );
+    }
+}
 
 export const badgesRouter = router({
     // Get all badges for an organization
@@ -99,6 +152,8 @@ export const badgesRouter = router({
                 icon: z.string().optional(),
                 color: z.string().regex(/^#[0-9A-F]{6}$/i),
                 orgId: z.string(),
+                awardRule: badgeRuleInput.nullable().optional(),
+                revokeWhenUnmet: z.boolean().optional(),
             }),
         )
         .mutation(async ({ input, ctx }) => {
@@ -151,6 +206,10 @@ export const badgesRouter = router({
                     });
                 }
 
+                const awardRule = input.awardRule
+                    ? await normalizeBadgeRule(input.awardRule, input.orgId)
+                    : null;
+
                 const [newBadge] = await db
                     .insert(userBadges)
                     .values({
@@ -159,10 +218,14 @@ export const badgesRouter = router({
                         icon: input.icon,
                         color: input.color,
                         orgId: input.orgId,
+                        awardRule,
+                        revokeWhenUnmet: input.revokeWhenUnmet ?? false,
                         createdBy: ctx.session.user.id,
                     })
                     .returning();
 
+                if (awardRule) await queueBadgeRuleEvaluation(newBadge.id);
+
                 return newBadge;
             } catch (error) {
                 if (error instanceof TRPCError) throw error;
@@ -183,6 +246,10 @@ export const badgesRouter = router({
                 description: z.string().optional(),
                 icon: z.string().optional(),
                 color: z.string().regex(/^#[0-9A-F]{6}$/i),
+                // Omit to keep the current rule; null removes it. Badges
+                // already awarded by a removed rule are kept.
+                awardRule: badgeRuleInput.nullable().optional(),
+                revokeWhenUnmet: z.boolean().optional(),
             }),
         )
         .mutation(async ({ input, ctx }) => {
@@ -248,6 +315,15 @@ export const badgesRouter = router({
                     });
                 }
 
+                const awardRule =
+                    input.awardRule === undefined
+                        ? badge.awardRule
+                        : input.awardRule &&
+                          (await normalizeBadgeRule(
+                              input.awardRule,
+                              badge.orgId,
+                          ));
+
                 const [updatedBadge] = await db
                     .update(userBadges)
                     .set({
@@ -255,11 +331,22 @@ export const badgesRouter = router({
                         description: input.description,
                         icon: input.icon,
                         color: input.color,
+                        awardRule,
+                        revokeWhenUnmet:
+                            input.revokeWhenUnmet ?? badge.revokeWhenUnmet,
                         updatedAt: new Date(),
                     })
                     .where(eq(userBadges.id, input.badgeId))
                     .returning();
 
+                if (
+                    updatedBadge.awardRule &&
+                    (input.awardRule !== undefined ||
+                        input.revokeWhenUnmet !== undefined)
+                ) {
+                    await queueBadgeRuleEvaluation(updatedBadge.id);
+                }
+
                 return updatedBadge;
             } catch (error) {
                 if (error instanceof TRPCError) throw error;
@@ -443,6 +530,15 @@ export const badgesRouter = router({
                     })
                     .returning();
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'org.assign_badge',
+                    orgId: badge.orgId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    after: { badgeId: badge.id, badgeName: badge.name },
+                });
+
                 return assignment;
             } catch (error) {
                 if (error instanceof TRPCError) throw error;
@@ -572,10 +668,26 @@ export const badgesRouter = router({
                         )
                         .returning();
 
-                    return assignments;
+                    return { badge, assignments };
                 });
 
-                return result;
+                await Promise.all(
+                    result.assignments.map((assignment) =>
+                        recordAuditLog({
+                            actorId: ctx.session.user.id,
+                            action: 'org.assign_badge',
+                            orgId: result.badge.orgId,
+                            targetType: 'user',
+                            targetId: assignment.userId,
+                            after: {
+                                badgeId: result.badge.id,
+                                badgeName: result.badge.name,
+                            },
+                        }),
+                    ),
+                );
+
+                return result.assignments;
             } catch (error) {
                 if (error instanceof TRPCError) throw error;
                 console.error('Error bulk assigning badge:', error);
@@ -666,6 +778,19 @@ export const badgesRouter = router({
                         ),
                     );
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'org.unassign_badge',
+                    orgId: badge.orgId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    before: {
+                        badgeId: badge.id,
+                        badgeName: badge.name,
+                        note: assignment.note,
+                    },
+                });
+
                 return { success: true };
             } catch (error) {
                 if (error instanceof TRPCError) throw error;
@@ -677,6 +802,48 @@ export const badgesRouter = router({
             }
         }),
 
+    // Communities a badge rule can be limited to
+    getRuleCommunities: authProcedure
+        .input(
+            z.object({
+                orgId: z.string(),
+            }),
+        )
+        .query(async ({ input, ctx }) => {
+            try {
+                const currentUser = await db.query.users.findFirst({
+                    where: eq(users.id, ctx.session.user.id),
+                    columns: { orgId: true, appRole: true },
+                });
+
+                const isSuperAdmin = currentUser?.appRole === 'admin';
+
+                if (
+                    !isSuperAdmin &&
+                    (!currentUser || currentUser.orgId !== input.orgId)
+                ) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message:
+                            'You can only view badges for your own organization',
+                    });
+                }
+
+                return await db.query.communities.findMany({
+                    where: eq(communities.orgId, input.orgId),
+                    columns: { id: true, name: true },
+                    orderBy: [communities.name],
+                });
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching badge rule communities:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch communities',
+                });
+            }
+        }),
+
     // Get users in organization for badge assignment
     getOrgUsers: authProcedure
         .input(
@@ -3,8 +3,13 @@ import { router, publicProcedure, authProcedure } from '../trpc';
 import { db } from '@/server/db';
 import {
     chatThreads,
+    chatThreadParticipants,
     directMessages,
     users,
+    orgs,
+    attachments,
+    mentions,
+    messageReactions,
     pushSubscriptions,
     notifications,
 } from '@/server/db/schema';
@@ -20,9 +25,322 @@ import {
     lt,
     count,
     inArray,
+    isNull,
+    max,
 } from 'drizzle-orm';
 
-import { sendChatNotification } from '@/lib/push-notifications';
+import { dispatchNotification } from '@/lib/notification-dispatch';
+import {
+    MAX_GROUP_PARTICIPANTS,
+    assertThreadParticipant,
+    canMessageUser,
+    chatMessageWith,
+    chatUserColumns,
+    getChatMessage,
+    getParticipantOrgNames,
+    getSharedCommunityUserIds,
+    getThreadParticipantIds,
+    getTotalUnreadCount,
+    getUnreadCountsByThread,
+    markThreadReadForUser,
+    publishMessageToParticipants,
+    publishMessageUpdate,
+} from '../services/chat-service';
+import {
+    MAX_MESSAGE_ATTACHMENTS,
+    MESSAGE_REACTIONS,
+} from '@/lib/chat-messages';
+import { syncMentions } from '../services/mention-service';
+import { unfurlContentLink } from '../services/link-unfurl-service';
+import { deleteMessageAttachments } from '../services/storage-service';
+
+type ChatUser = Pick<
+    typeof users.$inferSelect,
+    'id' | 'name' | 'email' | 'image'
+>;
+type ChatSender = Pick<typeof users.$inferSelect, 'id' | 'orgId'>;
+
+// Flattens participant rows and picks out the other user of one-to-one threads
+function withParticipantDetails<
+    T extends {
+        isGroup: boolean;
+        participants: { role: string; user: ChatUser }[];
+    },
+>(thread: T, userId: string) {
+    const participants = thread.participants.map((participant) => ({
+        ...participant.user,
+        role: participant.role,
+    }));
+    const otherUser = thread.isGroup
+        ? null
+        : (participants.find((participant) => participant.id !== userId) ??
+          null);
+
+    const { participants: _participants, ...rest } = thread;
+    return { ...rest, participants, otherUser };
+}
+
+async function assertCanMessageUser(sender: ChatSender, recipientId: string) {
+    const recipient = await db.query.users.findFirst({
+        where: eq(users.id, recipientId),
+    });
+
+    if (!recipient) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Recipient not found',
+        });
+    }
+
+    if (!(await canMessageUser(sender, recipient))) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message:
+                'You can only message users outside your organization when both organizations allow it or you share a community',
+        });
+    }
+
+    return recipient;
+}
+
+// Every group message goes to all participants, so in a group everyone has
+// to be able to message everyone else. Checks the new members against the
+// existing ones and each other.
+async function assertGroupMembersCanMessage(
+    members: ChatSender[],
+    newMembers: ChatSender[],
+) {
+    for (const [index, member] of newMembers.entries()) {
+        for (const other of [...members, ...newMembers.slice(index + 1)]) {
+            if (!(await canMessageUser(member, other))) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message:
+                        'Everyone in a group conversation must be able to message each other',
+                });
+            }
+        }
+    }
+}
+
+async function findDirectThread(userAId: string, userBId: string) {
+    return db.query.chatThreads.findFirst({
+        where: and(
+            eq(chatThreads.isGroup, false),
+            or(
+                and(
+                    eq(chatThreads.user1Id, userAId),
+                    eq(chatThreads.user2Id, userBId),
+                ),
+                and(
+                    eq(chatThreads.user1Id, userBId),
+                    eq(chatThreads.user2Id, userAId),
+                ),
+            ),
+        ),
+    });
+}
+
+// Org for a new thread: the sender's, unless someone is from another org
+function getNewThreadOrgId(sender: ChatSender, recipients: ChatSender[]) {
+    return recipients.every((recipient) => recipient.orgId === sender.orgId)
+        ? sender.orgId
+        : null;
+}
+
+async function createDirectThread(
+    sender: ChatSender,
+    recipient: ChatSender,
+    lastMessagePreview: string,
+) {
+    return db.transaction(async (tx) => {
+        const [newThread] = await tx
+            .insert(chatThreads)
+            .values({
+                user1Id: sender.id,
+                user2Id: recipient.id,
+                createdBy: sender.id,
+                orgId: getNewThreadOrgId(sender, [recipient]),
+                lastMessageAt: new Date(),
+                lastMessagePreview,
+                createdAt: new Date(),
+            })
+            .returning();
+
+        await tx.insert(chatThreadParticipants).values([
+            { threadId: newThread.id, userId: sender.id },
+            { threadId: newThread.id, userId: recipient.id },
+        ]);
+
+        return newThread;
+    });
+}
+
+async function getGroupThread(threadId: number) {
+    const thread = await db.query.chatThreads.findFirst({
+        where: eq(chatThreads.id, threadId),
+    });
+
+    if (!thread) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Chat thread not found',
+        });
+    }
+
+    if (!thread.isGroup) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This action is only available for group conversations',
+        });
+    }
+
+    return thread;
+}
+
+// The owner manages a group; if the owner is gone, any participant may
+async function assertCanManageGroup(threadId: number, userId: string) {
+    const participant = await assertThreadParticipant(threadId, userId);
+    if (participant.role === 'owner') return;
+
+    const owner = await db.query.chatThreadParticipants.findFirst({
+        where: and(
+            eq(chatThreadParticipants.threadId, threadId),
+            eq(chatThreadParticipants.role, 'owner'),
+        ),
+    });
+
+    if (owner) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Only the group owner can manage participants',
+        });
+    }
+}
+
+// Attachments the sender uploaded for chat that haven't been sent yet
+async function getSendableAttachmentIds(senderId: string, ids: number[]) {
+    const attachmentIds = Array.from(new Set(ids));
+    if (attachmentIds.length === 0) return [];
+
+    const sendable = await db
+        .select({ id: attachments.id })
+        .from(attachments)
+        .where(
+            and(
+                inArray(attachments.id, attachmentIds),
+                eq(attachments.uploadedBy, senderId),
+                isNull(attachments.messageId),
+                isNull(attachments.postId),
+                isNull(attachments.draftId),
+            ),
+        );
+
+    if (sendable.length !== attachmentIds.length) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Some attachments are no longer available',
+        });
+    }
+
+    return attachmentIds;
+}
+
+function getMessagePreview(content: string, attachmentCount: number) {
+    if (content.trim()) return content.substring(0, 50);
+    return attachmentCount > 1 ? `📎 ${attachmentCount} files` : '📎 File';
+}
+
+// Only the sender may edit or delete a message, and not once it is deleted
+async function getOwnMessage(messageId: number, userId: string) {
+    const message = await db.query.directMessages.findFirst({
+        where: eq(directMessages.id, messageId),
+    });
+
+    if (!message) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Message not found',
+        });
+    }
+
+    if (message.senderId !== userId) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You can only change your own messages',
+        });
+    }
+
+    if (message.deletedAt) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This message has been deleted',
+        });
+    }
+
+    return message;
+}
+
+// Mentions made when sending stay as long as their "@Name" is still there
+async function getRetainedMentionIds(messageId: number, content: string) {
+    const rows = await db
+        .select({
+            userId: mentions.mentionedUserId,
+            name: users.name,
+            email: users.email,
+        })
+        .from(mentions)
+        .innerJoin(users, eq(users.id, mentions.mentionedUserId))
+        .where(
+            and(
+                eq(mentions.sourceType, 'message'),
+                eq(mentions.messageId, messageId),
+            ),
+        );
+
+    return rows
+        .filter((row) => content.includes(`@${row.name || row.email}`))
+        .map((row) => row.userId);
+}
+
+// Keeps the thread list preview in step when its latest message changes
+async function refreshThreadPreview(threadId: number, messageId: number) {
+    const [latest] = await db
+        .select({ id: max(directMessages.id) })
+        .from(directMessages)
+        .where(eq(directMessages.threadId, threadId));
+    if (latest?.id !== messageId) return;
+
+    const message = await getChatMessage(messageId);
+    if (!message) return;
+
+    await db
+        .update(chatThreads)
+        .set({
+            lastMessagePreview: message.deletedAt
+                ? 'Message deleted'
+                : getMessagePreview(
+                      message.content,
+                      message.attachments.length,
+                  ),
+        })
+        .where(eq(chatThreads.id, threadId));
+}
+
+async function getSenderWithOrg(userId: string) {
+    const sender = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+    });
+
+    if (!sender?.orgId) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'User does not belong to an organization',
+        });
+    }
+
+    return { ...sender, orgId: sender.orgId };
+}
 
 export const chatRouter = router({
     // Get all chat threads for the current user
@@ -30,60 +348,39 @@ export const chatRouter = router({
         try {
             const userId = ctx.session.user.id;
 
-            // Get all threads where the current user is involved
+            // Get all threads where the current user is a participant
+            const memberships = await db
+                .select({ threadId: chatThreadParticipants.threadId })
+                .from(chatThreadParticipants)
+                .where(eq(chatThreadParticipants.userId, userId));
+            const threadIds = memberships.map((m) => m.threadId);
+
+            if (threadIds.length === 0) {
+                return [];
+            }
+
             const threads = await db.query.chatThreads.findMany({
-                where: or(
-                    eq(chatThreads.user1Id, userId),
-                    eq(chatThreads.user2Id, userId),
-                ),
+                where: inArray(chatThreads.id, threadIds),
                 orderBy: desc(chatThreads.lastMessageAt),
                 with: {
-                    user1: {
-                        columns: {
-                            id: true,
-                            name: true,
-                            email: true,
-                            image: true,
-                        },
-                    },
-                    user2: {
-                        columns: {
-                            id: true,
-                            name: true,
-                            email: true,
-                            image: true,
+                    participants: {
+                        with: {
+                            user: { columns: chatUserColumns },
                         },
                     },
                 },
             });
 
             // Get unread message counts for each thread
-            const threadsWithUnreadCounts = await Promise.all(
-                threads.map(async (thread) => {
-                    const unreadCount = await db
-                        .select({ count: sql<number>`count(*)` })
-                        .from(directMessages)
-                        .where(
-                            and(
-                                eq(directMessages.threadId, thread.id),
-                                eq(directMessages.recipientId, userId),
-                                eq(directMessages.isRead, false),
-                            ),
-                        );
-
-                    // Determine the other user in the conversation
-                    const otherUser =
-                        thread.user1Id === userId ? thread.user2 : thread.user1;
-
-                    return {
-                        ...thread,
-                        unreadCount: unreadCount[0]?.count || 0,
-                        otherUser,
-                    };
-                }),
+            const unreadCounts = await getUnreadCountsByThread(
+                userId,
+                threadIds,
             );
 
-            return threadsWithUnreadCounts;
+            return threads.map((thread) => ({
+                ...withParticipantDetails(thread, userId),
+                unreadCount: unreadCounts.get(thread.id) || 0,
+            }));
         } catch (error) {
             console.error('Error fetching chat threads:', error);
             throw new TRPCError({
@@ -107,22 +404,7 @@ export const chatRouter = router({
                 const userId = ctx.session.user.id;
 
                 // Check if user is part of the thread
-                const thread = await db.query.chatThreads.findFirst({
-                    where: and(
-                        eq(chatThreads.id, input.threadId),
-                        or(
-                            eq(chatThreads.user1Id, userId),
-                            eq(chatThreads.user2Id, userId),
-                        ),
-                    ),
-                });
-
-                if (!thread) {
-                    throw new TRPCError({
-                        code: 'FORBIDDEN',
-                        message: 'You do not have access to this chat thread',
-                    });
-                }
+                await assertThreadParticipant(input.threadId, userId);
 
                 // Get messages with pagination
                 let whereClause: any = eq(
@@ -139,31 +421,13 @@ export const chatRouter = router({
                     where: whereClause,
                     orderBy: desc(directMessages.createdAt), // LATEST messages first
                     limit: input.limit,
-                    with: {
-                        sender: {
-                            columns: {
-                                id: true,
-                                name: true,
-                                email: true,
-                                image: true,
-                            },
-                        },
-                    },
+                    with: chatMessageWith,
                 });
                 // Reverse so newest is at the bottom
                 messages = messages.slice().reverse();
 
                 // Mark messages as read
-                await db
-                    .update(directMessages)
-                    .set({ isRead: true })
-                    .where(
-                        and(
-                            eq(directMessages.threadId, input.threadId),
-                            eq(directMessages.recipientId, userId),
-                            eq(directMessages.isRead, false),
-                        ),
-                    );
+                await markThreadReadForUser(input.threadId, userId);
 
                 // Get the next cursor
                 const nextCursor =
@@ -176,6 +440,7 @@ export const chatRouter = router({
                     nextCursor,
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error('Error fetching messages:', error);
                 throw new TRPCError({
                     code: 'INTERNAL_SERVER_ERROR',
@@ -186,188 +451,189 @@ export const chatRouter = router({
 
     sendMessage: authProcedure
         .input(
-            z.object({
-                recipientId: z.string(),
-                content: z.string().min(1).max(2000),
-                threadId: z.number().optional(), // Optional if creating a new thread
-            }),
+            z
+                .object({
+                    recipientId: z.string().optional(), // Required when starting a new one-to-one thread
+                    content: z.string().max(2000),
+                    threadId: z.number().optional(), // Optional if creating a new thread
+                    // Participants picked from the @mention autocomplete
+                    mentionedUserIds: z.array(z.string()).max(20).optional(),
+                    // Uploaded with the chat attachment flow, not yet sent
+                    attachmentIds: z
+                        .array(z.number())
+                        .max(MAX_MESSAGE_ATTACHMENTS)
+                        .optional(),
+                })
+                .refine((data) => data.threadId || data.recipientId, {
+                    message: 'Either threadId or recipientId is required',
+                })
+                .refine(
+                    (data) => data.content.trim() || data.attachmentIds?.length,
+                    { message: 'A message needs text or an attachment' },
+                ),
         )
         .mutation(async ({ input, ctx }) => {
             try {
                 const senderId = ctx.session.user.id;
 
                 // Get sender's org
-                const sender = await db.query.users.findFirst({
-                    where: eq(users.id, senderId),
-                });
+                const sender = await getSenderWithOrg(senderId);
+                const attachmentIds = await getSendableAttachmentIds(
+                    senderId,
+                    input.attachmentIds ?? [],
+                );
+                const lastMessagePreview = getMessagePreview(
+                    input.content,
+                    attachmentIds.length,
+                );
 
-                if (!sender?.orgId) {
-                    throw new TRPCError({
-                        code: 'BAD_REQUEST',
-                        message: 'User does not belong to an organization',
-                    });
-                }
+                let threadId = input.threadId;
 
-                // Check if recipient exists and is in the same org
-                const recipient = await db.query.users.findFirst({
-                    where: eq(users.id, input.recipientId),
-                });
+                if (threadId) {
+                    await assertThreadParticipant(threadId, senderId);
+                } else {
+                    if (input.recipientId === senderId) {
+                        throw new TRPCError({
+                            code: 'BAD_REQUEST',
+                            message: 'Cannot send a message to yourself',
+                        });
+                    }
 
-                if (!recipient) {
-                    throw new TRPCError({
-                        code: 'NOT_FOUND',
-                        message: 'Recipient not found',
-                    });
+                    // Find the one-to-one thread with the recipient or create it
+                    const recipient = await assertCanMessageUser(
+                        sender,
+                        input.recipientId!,
+                    );
+
+                    const existingThread = await findDirectThread(
+                        senderId,
+                        recipient.id,
+                    );
+                    threadId = existingThread
+                        ? existingThread.id
+                        : (
+                              await createDirectThread(
+                                  sender,
+                                  recipient,
+                                  lastMessagePreview,
+                              )
+                          ).id;
                 }
 
-                if (recipient.orgId !== sender.orgId) {
+                const thread = await db.query.chatThreads.findFirst({
+                    where: eq(chatThreads.id, threadId),
+                });
+                if (!thread) {
                     throw new TRPCError({
-                        code: 'FORBIDDEN',
-                        message:
-                            'You can only message users in your organization',
+                        code: 'NOT_FOUND',
+                        message: 'Chat thread not found',
                     });
                 }
 
-                let threadId = input.threadId;
+                const participantIds = await getThreadParticipantIds(threadId);
+                const recipientIds = participantIds.filter(
+                    (id) => id !== senderId,
+                );
 
-                // If no threadId provided, find existing thread or create new one
-                if (!threadId) {
-                    // Check if thread already exists between these users
-                    const existingThread = await db.query.chatThreads.findFirst(
-                        {
-                            where: or(
-                                and(
-                                    eq(chatThreads.user1Id, senderId),
-                                    eq(chatThreads.user2Id, input.recipientId),
-                                ),
-                                and(
-                                    eq(chatThreads.user1Id, input.recipientId),
-                                    eq(chatThreads.user2Id, senderId),
-                                ),
-                            ),
-                        },
-                    );
+                // Cross-org conversations, groups included, stay open only
+                // while the orgs allow it or the users still share a community
+                if (!thread.orgId) {
+                    for (const recipientId of recipientIds) {
+                        await assertCanMessageUser(sender, recipientId);
+                    }
+                }
 
-                    if (existingThread) {
-                        threadId = existingThread.id;
-                    } else {
-                        // Create new thread
-                        const [newThread] = await db
-                            .insert(chatThreads)
-                            .values({
-                                user1Id: senderId,
-                                user2Id: input.recipientId,
-                                orgId: sender.orgId,
-                                lastMessageAt: new Date(),
-                                lastMessagePreview: input.content.substring(
-                                    0,
-                                    50,
-                                ),
-                                createdAt: new Date(),
-                            })
-                            .returning();
+                const linkPreview = await unfurlContentLink(input.content);
+
+                // Send the message along with its attachments
+                const message = await db.transaction(async (tx) => {
+                    const [newMessage] = await tx
+                        .insert(directMessages)
+                        .values({
+                            threadId,
+                            senderId,
+                            recipientId: thread.isGroup
+                                ? null
+                                : (recipientIds[0] ?? null),
+                            content: input.content,
+                            linkPreview,
+                            createdAt: new Date(),
+                        })
+                        .returning();
 
-                        threadId = newThread.id;
+                    if (attachmentIds.length > 0) {
+                        await tx
+                            .update(attachments)
+                            .set({ messageId: newMessage.id })
+                            .where(inArray(attachments.id, attachmentIds));
                     }
-                }
 
-                // Send the message
-                const [message] = await db
-                    .insert(directMessages)
-                    .values({
-                        threadId,
-                        senderId,
-                        recipientId: input.recipientId,
-                        content: input.content,
-                        createdAt: new Date(),
-                    })
-                    .returning();
+                    return newMessage;
+                });
 
                 // Update the thread's last message info
+                const lastMessageAt = new Date();
                 await db
                     .update(chatThreads)
                     .set({
-                        lastMessageAt: new Date(),
-                        lastMessagePreview: input.content.substring(0, 50),
+                        lastMessageAt,
+                        lastMessagePreview,
                     })
                     .where(eq(chatThreads.id, threadId));
 
-                // Get recipient's push subscription
-                // const recipientSubscription = await db
-                //     .select()
-                //     .from(pushSubscriptions)
-                //     .where(eq(pushSubscriptions.userId, input.recipientId))
-                //     .limit(1);
-                const recipientSubscriptions = await db
-                    .select({
-                        endpoint: pushSubscriptions.endpoint,
-                        p256dh: pushSubscriptions.p256dh,
-                        auth: pushSubscriptions.auth,
-                    })
-                    .from(pushSubscriptions)
-                    .where(eq(pushSubscriptions.userId, input.recipientId));
-
-                // Send push notification if recipient is subscribed
-                if (recipientSubscriptions.length > 0) {
-                    const senderName = sender?.name || 'Someone';
-
-                    try {
-                        await sendChatNotification(
-                            recipientSubscriptions,
-                            senderName,
-                            input.content,
-                            threadId.toString(),
-                        );
+                // Anything before the sender's own message counts as read
+                await markThreadReadForUser(threadId, senderId);
 
-                        // Save notification to database
-                        await db.insert(notifications).values({
-                            recipientId: input.recipientId,
-                            title: `New message from ${senderName}`,
-                            body:
-                                input.content.length > 100
-                                    ? input.content.substring(0, 100) + '...'
-                                    : input.content,
-                            type: 'dm',
-                            data: JSON.stringify({
-                                threadId: threadId,
-                                messageId: message.id,
-                                senderId: senderId,
-                            }),
-                        });
-                    } catch (error) {
-                        console.error(
-                            'Error sending push notification:',
-                            error,
-                        );
-                        throw new TRPCError({
-                            code: 'INTERNAL_SERVER_ERROR',
-                            message: 'Failed to send push notification',
-                        });
-                    }
+                // Get the message with sender info
+                const messageWithSender = await getChatMessage(message.id);
+
+                // Push the message to open chat streams of all participants
+                if (messageWithSender) {
+                    await publishMessageToParticipants(
+                        participantIds,
+                        messageWithSender,
+                        lastMessageAt,
+                        lastMessagePreview,
+                    );
                 }
 
-                // Get the message with sender info
-                const messageWithSender =
-                    await db.query.directMessages.findFirst({
-                        where: eq(directMessages.id, message.id),
-                        with: {
-                            sender: {
-                                columns: {
-                                    id: true,
-                                    name: true,
-                                    email: true,
-                                    image: true,
-                                },
-                            },
+                if (input.mentionedUserIds?.length) {
+                    await syncMentions({
+                        authorId: senderId,
+                        source: {
+                            type: 'message',
+                            threadId,
+                            messageId: message.id,
                         },
+                        mentionedUserIds: input.mentionedUserIds,
+                        preview: input.content,
                     });
+                }
+
+                // Notify recipients on their preferred channels
+                const senderName = sender?.name || 'Someone';
+                const notificationTitle = thread.isGroup
+                    ? `${senderName} in ${thread.name || 'a group chat'}`
+                    : senderName;
+
+                await dispatchNotification(recipientIds, {
+                    event: 'dm',
+                    title: `New message from ${notificationTitle}`,
+                    body: input.content || lastMessagePreview,
+                    url: `/chat/${threadId}`,
+                    data: {
+                        threadId: threadId,
+                        messageId: message.id,
+                        senderId: senderId,
+                    },
+                });
 
                 return {
                     message: messageWithSender,
                     threadId,
-                    notificationsSent: recipientSubscriptions.length, // Added to match Claude's version
                 };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error('Error sending message:', error);
                 throw new TRPCError({
                     code: 'INTERNAL_SERVER_ERROR',
@@ -389,22 +655,7 @@ export const chatRouter = router({
                 const userId = ctx.session.user.id;
 
                 // Check if user is part of the thread
-                const thread = await db.query.chatThreads.findFirst({
-                    where: and(
-                        eq(chatThreads.id, input.threadId),
-                        or(
-                            eq(chatThreads.user1Id, userId),
-                            eq(chatThreads.user2Id, userId),
-                        ),
-                    ),
-                });
-
-                if (!thread) {
-                    throw new TRPCError({
-                        code: 'FORBIDDEN',
-                        message: 'You do not have access to this chat thread',
-                    });
-                }
+                await assertThreadParticipant(input.threadId, userId);
 
                 // Get new messages since the specified timestamp
                 const newMessages = await db.query.directMessages.findMany({
@@ -413,36 +664,198 @@ export const chatRouter = router({
                         gt(directMessages.createdAt, input.since),
                     ),
                     orderBy: asc(directMessages.createdAt),
-                    with: {
-                        sender: {
-                            columns: {
-                                id: true,
-                                name: true,
-                                email: true,
-                                image: true,
-                            },
-                        },
-                    },
+                    with: chatMessageWith,
+                });
+
+                // Mark messages as read for the current user
+                await markThreadReadForUser(input.threadId, userId);
+
+                return newMessages;
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching new messages:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch new messages',
                 });
+            }
+        }),
+
+    // Fix a sent message; it is shown as edited from then on
+    editMessage: authProcedure
+        .input(
+            z.object({
+                messageId: z.number(),
+                content: z.string().max(2000),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const userId = ctx.session.user.id;
+                const message = await getOwnMessage(input.messageId, userId);
+                await assertThreadParticipant(message.threadId, userId);
+
+                if (!input.content.trim()) {
+                    const [attachment] = await db
+                        .select({ id: attachments.id })
+                        .from(attachments)
+                        .where(eq(attachments.messageId, message.id))
+                        .limit(1);
+                    if (!attachment) {
+                        throw new TRPCError({
+                            code: 'BAD_REQUEST',
+                            message:
+                                'A message needs text or an attachment; delete it instead',
+                        });
+                    }
+                }
+
+                if (input.content === message.content) {
+                    return { success: true };
+                }
 
-                // Mark messages as read if the current user is the recipient
                 await db
                     .update(directMessages)
-                    .set({ isRead: true })
+                    .set({
+                        content: input.content,
+                        linkPreview: await unfurlContentLink(input.content),
+                        editedAt: new Date(),
+                    })
+                    .where(eq(directMessages.id, message.id));
+
+                await syncMentions({
+                    authorId: userId,
+                    source: {
+                        type: 'message',
+                        threadId: message.threadId,
+                        messageId: message.id,
+                    },
+                    mentionedUserIds: await getRetainedMentionIds(
+                        message.id,
+                        input.content,
+                    ),
+                    preview: input.content,
+                });
+
+                await refreshThreadPreview(message.threadId, message.id);
+                await publishMessageUpdate(message.threadId, message.id);
+
+                return { success: true };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error editing message:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to edit message',
+                });
+            }
+        }),
+
+    // Retract a sent message. It stays in the thread as "deleted", without
+    // its content, attachments or reactions.
+    deleteMessage: authProcedure
+        .input(z.object({ messageId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const userId = ctx.session.user.id;
+                const message = await getOwnMessage(input.messageId, userId);
+                await assertThreadParticipant(message.threadId, userId);
+
+                await db.transaction(async (tx) => {
+                    await tx
+                        .update(directMessages)
+                        .set({
+                            content: '',
+                            linkPreview: null,
+                            deletedAt: new Date(),
+                        })
+                        .where(eq(directMessages.id, message.id));
+                    await tx
+                        .delete(messageReactions)
+                        .where(eq(messageReactions.messageId, message.id));
+                });
+
+                await syncMentions({
+                    authorId: userId,
+                    source: {
+                        type: 'message',
+                        threadId: message.threadId,
+                        messageId: message.id,
+                    },
+                    mentionedUserIds: [],
+                    preview: '',
+                });
+                await deleteMessageAttachments(message.id);
+
+                await refreshThreadPreview(message.threadId, message.id);
+                await publishMessageUpdate(message.threadId, message.id);
+
+                return { success: true };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error deleting message:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to delete message',
+                });
+            }
+        }),
+
+    // Add the emoji reaction to a message, or remove it if already there
+    toggleMessageReaction: authProcedure
+        .input(
+            z.object({
+                messageId: z.number(),
+                emoji: z.enum(MESSAGE_REACTIONS),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const userId = ctx.session.user.id;
+                const message = await db.query.directMessages.findFirst({
+                    where: eq(directMessages.id, input.messageId),
+                });
+
+                if (!message || message.deletedAt) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Message not found',
+                    });
+                }
+
+                await assertThreadParticipant(message.threadId, userId);
+
+                const removed = await db
+                    .delete(messageReactions)
                     .where(
                         and(
-                            eq(directMessages.threadId, input.threadId),
-                            eq(directMessages.recipientId, userId),
-                            eq(directMessages.isRead, false),
+                            eq(messageReactions.messageId, message.id),
+                            eq(messageReactions.userId, userId),
+                            eq(messageReactions.emoji, input.emoji),
                         ),
-                    );
+                    )
+                    .returning();
 
-                return newMessages;
+                if (removed.length === 0) {
+                    await db
+                        .insert(messageReactions)
+                        .values({
+                            messageId: message.id,
+                            userId,
+                            emoji: input.emoji,
+                        })
+                        .onConflictDoNothing();
+                }
+
+                await publishMessageUpdate(message.threadId, message.id);
+
+                return { reacted: removed.length === 0 };
             } catch (error) {
-                console.error('Error fetching new messages:', error);
+                if (error instanceof TRPCError) throw error;
+                console.error('Error reacting to message:', error);
                 throw new TRPCError({
                     code: 'INTERNAL_SERVER_ERROR',
-                    message: 'Failed to fetch new messages',
+                    message: 'Failed to update reaction',
                 });
             }
         }),
@@ -457,19 +870,7 @@ export const chatRouter = router({
         }
 
         try {
-            const userId = ctx.session.user.id;
-
-            const result = await db
-                .select({ count: sql<number>`count(*)` })
-                .from(directMessages)
-                .where(
-                    and(
-                        eq(directMessages.recipientId, userId),
-                        eq(directMessages.isRead, false),
-                    ),
-                );
-
-            return result[0]?.count || 0;
+            return await getTotalUnreadCount(ctx.session.user.id);
         } catch (error) {
             console.error('Error fetching unread count:', error);
             throw new TRPCError({
@@ -479,7 +880,22 @@ export const chatRouter = router({
         }
     }),
 
-    // Get users in the same org for starting new conversations
+    // Mark all messages in a thread as read (used when messages arrive over the chat stream)
+    markThreadAsRead: authProcedure
+        .input(
+            z.object({
+                threadId: z.number(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            const userId = ctx.session.user.id;
+
+            await assertThreadParticipant(input.threadId, userId);
+
+            return await markThreadReadForUser(input.threadId, userId);
+        }),
+    // Get users the current user can start conversations with: everyone in
+    // their org, plus members of communities they share with other orgs
     getOrgUsers: authProcedure.query(async ({ ctx }) => {
         try {
             const userId = ctx.session.user.id;
@@ -496,22 +912,40 @@ export const chatRouter = router({
                 });
             }
 
-            // Get all users in the same org except the current user
-            const orgUsers = await db.query.users.findMany({
-                where: and(
-                    eq(users.orgId, user.orgId),
-                    sql`${users.id} != ${userId}`,
-                ),
-                columns: {
-                    id: true,
-                    name: true,
-                    email: true,
-                    image: true,
-                },
-            });
+            const sharedCommunityUserIds =
+                await getSharedCommunityUserIds(userId);
+
+            // Get all users in the same org or a shared community except the
+            // current user
+            const chatUsers = await db
+                .select({
+                    id: users.id,
+                    name: users.name,
+                    email: users.email,
+                    image: users.image,
+                    orgId: users.orgId,
+                    orgName: orgs.name,
+                })
+                .from(users)
+                .leftJoin(orgs, eq(orgs.id, users.orgId))
+                .where(
+                    and(
+                        or(
+                            eq(users.orgId, user.orgId),
+                            sharedCommunityUserIds.length > 0
+                                ? inArray(users.id, sharedCommunityUserIds)
+                                : undefined,
+                        ),
+                        sql`${users.id} != ${userId}`,
+                    ),
+                );
 
-            return orgUsers;
+            return chatUsers.map(({ orgId, ...chatUser }) => ({
+                ...chatUser,
+                isExternal: orgId !== user.orgId,
+            }));
         } catch (error) {
+            if (error instanceof TRPCError) throw error;
             console.error('Error fetching org users:', error);
             throw new TRPCError({
                 code: 'INTERNAL_SERVER_ERROR',
@@ -520,89 +954,121 @@ export const chatRouter = router({
         }
     }),
 
-    // Find an existing thread or create a new one
+    // Find an existing one-to-one thread or create a new one, or create a group thread
     findOrCreateThread: authProcedure
         .input(
-            z.object({
-                recipientId: z.string(),
-            }),
+            z
+                .object({
+                    recipientId: z.string().optional(),
+                    // Other members of a new group conversation
+                    participantIds: z
+                        .array(z.string())
+                        .min(2)
+                        .max(MAX_GROUP_PARTICIPANTS - 1)
+                        .optional(),
+                    name: z.string().trim().min(1).max(100).optional(),
+                })
+                .refine(
+                    (data) => !!data.recipientId !== !!data.participantIds,
+                    {
+                        message: 'Provide either recipientId or participantIds',
+                    },
+                ),
         )
         .mutation(async ({ input, ctx }) => {
             try {
                 const senderId = ctx.session.user.id;
 
-                if (senderId === input.recipientId) {
-                    throw new TRPCError({
-                        code: 'BAD_REQUEST',
-                        message: 'Cannot create a chat thread with yourself',
-                    });
-                }
-
                 // Get sender's org
-                const sender = await db.query.users.findFirst({
-                    where: eq(users.id, senderId),
-                });
+                const sender = await getSenderWithOrg(senderId);
 
-                if (!sender?.orgId) {
-                    throw new TRPCError({
-                        code: 'BAD_REQUEST',
-                        message: 'User does not belong to an organization',
-                    });
-                }
+                if (input.participantIds) {
+                    const participantIds = Array.from(
+                        new Set(input.participantIds),
+                    ).filter((id) => id !== senderId);
 
-                // Check if recipient exists and is in the same org
-                const recipient = await db.query.users.findFirst({
-                    where: eq(users.id, input.recipientId),
-                });
+                    if (participantIds.length < 2) {
+                        throw new TRPCError({
+                            code: 'BAD_REQUEST',
+                            message:
+                                'A group conversation needs at least two other participants',
+                        });
+                    }
 
-                if (!recipient) {
-                    throw new TRPCError({
-                        code: 'NOT_FOUND',
-                        message: 'Recipient not found',
+                    const recipients: ChatSender[] = [];
+                    for (const participantId of participantIds) {
+                        recipients.push(
+                            await assertCanMessageUser(sender, participantId),
+                        );
+                    }
+                    await assertGroupMembersCanMessage([], recipients);
+
+                    const newThread = await db.transaction(async (tx) => {
+                        const [thread] = await tx
+                            .insert(chatThreads)
+                            .values({
+                                isGroup: true,
+                                name: input.name ?? null,
+                                createdBy: senderId,
+                                orgId: getNewThreadOrgId(sender, recipients),
+                                lastMessageAt: new Date(),
+                                lastMessagePreview: 'Group created',
+                                createdAt: new Date(),
+                            })
+                            .returning();
+
+                        await tx.insert(chatThreadParticipants).values([
+                            {
+                                threadId: thread.id,
+                                userId: senderId,
+                                role: 'owner',
+                            },
+                            ...participantIds.map((userId) => ({
+                                threadId: thread.id,
+                                userId,
+                            })),
+                        ]);
+
+                        return thread;
                     });
+
+                    return { threadId: newThread.id, isNew: true };
                 }
 
-                if (recipient.orgId !== sender.orgId) {
+                const recipientId = input.recipientId!;
+                if (senderId === recipientId) {
                     throw new TRPCError({
-                        code: 'FORBIDDEN',
-                        message:
-                            'You can only message users in your organization',
+                        code: 'BAD_REQUEST',
+                        message: 'Cannot create a chat thread with yourself',
                     });
                 }
 
+                // Check if recipient exists and can be messaged
+                const recipient = await assertCanMessageUser(
+                    sender,
+                    recipientId,
+                );
+
                 // Check if thread already exists between these users
-                const existingThread = await db.query.chatThreads.findFirst({
-                    where: or(
-                        and(
-                            eq(chatThreads.user1Id, senderId),
-                            eq(chatThreads.user2Id, input.recipientId),
-                        ),
-                        and(
-                            eq(chatThreads.user1Id, input.recipientId),
-                            eq(chatThreads.user2Id, senderId),
-                        ),
-                    ),
-                });
+                const existingThread = await findDirectThread(
+                    senderId,
+                    recipientId,
+                );
 
                 if (existingThread) {
                     return { threadId: existingThread.id, isNew: false };
                 }
 
                 // Create new thread
-                const [newThread] = await db
-                    .insert(chatThreads)
-                    .values({
-                        user1Id: senderId,
-                        user2Id: input.recipientId,
-                        orgId: sender.orgId,
-                        lastMessageAt: new Date(),
-                        lastMessagePreview: 'New conversation',
-                        createdAt: new Date(),
-                    })
-                    .returning();
+                const newThread = await createDirectThread(
+                    sender,
+                    recipient,
+                    'New conversation',
+                );
 
                 return { threadId: newThread.id, isNew: true };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error('Error finding or creating thread:', error);
                 throw new TRPCError({
                     code: 'INTERNAL_SERVER_ERROR',
@@ -611,6 +1077,174 @@ export const chatRouter = router({
             }
         }),
 
+    // Add users to a group conversation
+    addParticipants: authProcedure
+        .input(
+            z.object({
+                threadId: z.number(),
+                userIds: z.array(z.string()).min(1),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            const userId = ctx.session.user.id;
+
+            const thread = await getGroupThread(input.threadId);
+            await assertCanManageGroup(input.threadId, userId);
+
+            const sender = await getSenderWithOrg(userId);
+            const existingIds = await getThreadParticipantIds(input.threadId);
+            const newIds = Array.from(new Set(input.userIds)).filter(
+                (id) => !existingIds.includes(id),
+            );
+
+            if (newIds.length === 0) {
+                return { success: true, added: 0 };
+            }
+
+            if (existingIds.length + newIds.length > MAX_GROUP_PARTICIPANTS) {
+                throw new TRPCError({
+                    code: 'BAD_REQUEST',
+                    message: `A group conversation can have at most ${MAX_GROUP_PARTICIPANTS} participants`,
+                });
+            }
+
+            const newParticipants: ChatSender[] = [];
+            for (const newId of newIds) {
+                newParticipants.push(await assertCanMessageUser(sender, newId));
+            }
+            const otherMembers = await db
+                .select({ id: users.id, orgId: users.orgId })
+                .from(users)
+                .where(
+                    inArray(
+                        users.id,
+                        existingIds.filter((id) => id !== userId),
+                    ),
+                );
+            await assertGroupMembersCanMessage(otherMembers, newParticipants);
+
+            // New participants start with the existing history marked as read
+            const [latest] = await db
+                .select({ id: max(directMessages.id) })
+                .from(directMessages)
+                .where(eq(directMessages.threadId, input.threadId));
+
+            await db
+                .insert(chatThreadParticipants)
+                .values(
+                    newIds.map((newId) => ({
+                        threadId: input.threadId,
+                        userId: newId,
+                        lastReadMessageId: latest?.id ?? null,
+                    })),
+                )
+                .onConflictDoNothing();
+
+            // Adding someone from another org makes it a cross-org group
+            if (
+                thread.orgId &&
+                newParticipants.some(
+                    (participant) => participant.orgId !== thread.orgId,
+                )
+            ) {
+                await db
+                    .update(chatThreads)
+                    .set({ orgId: null })
+                    .where(eq(chatThreads.id, input.threadId));
+            }
+
+            return { success: true, added: newIds.length };
+        }),
+
+    // Remove a user from a group conversation, or leave it when removing yourself
+    removeParticipant: authProcedure
+        .input(
+            z.object({
+                threadId: z.number(),
+                userId: z.string(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            const userId = ctx.session.user.id;
+
+            await getGroupThread(input.threadId);
+
+            if (input.userId === userId) {
+                await assertThreadParticipant(input.threadId, userId);
+            } else {
+                await assertCanManageGroup(input.threadId, userId);
+            }
+
+            const [removed] = await db
+                .delete(chatThreadParticipants)
+                .where(
+                    and(
+                        eq(chatThreadParticipants.threadId, input.threadId),
+                        eq(chatThreadParticipants.userId, input.userId),
+                    ),
+                )
+                .returning();
+
+            if (!removed) {
+                throw new TRPCError({
+                    code: 'NOT_FOUND',
+                    message: 'User is not a participant of this conversation',
+                });
+            }
+
+            // Hand ownership to the longest-standing remaining participant
+            if (removed.role === 'owner') {
+                const nextOwner =
+                    await db.query.chatThreadParticipants.findFirst({
+                        where: eq(
+                            chatThreadParticipants.threadId,
+                            input.threadId,
+                        ),
+                        orderBy: asc(chatThreadParticipants.joinedAt),
+                    });
+
+                if (nextOwner) {
+                    await db
+                        .update(chatThreadParticipants)
+                        .set({ role: 'owner' })
+                        .where(
+                            and(
+                                eq(
+                                    chatThreadParticipants.threadId,
+                                    input.threadId,
+                                ),
+                                eq(
+                                    chatThreadParticipants.userId,
+                                    nextOwner.userId,
+                                ),
+                            ),
+                        );
+                }
+            }
+
+            return { success: true };
+        }),
+
+    // Rename a group conversation; an empty name falls back to participant names
+    renameThread: authProcedure
+        .input(
+            z.object({
+                threadId: z.number(),
+                name: z.string().trim().max(100),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            await getGroupThread(input.threadId);
+            await assertThreadParticipant(input.threadId, ctx.session.user.id);
+
+            await db
+                .update(chatThreads)
+                .set({ name: input.name || null })
+                .where(eq(chatThreads.id, input.threadId));
+
+            return { success: true };
+        }),
+
     // Get thread by ID
     getThreadById: authProcedure
         .input(
@@ -623,37 +1257,24 @@ export const chatRouter = router({
                 const userId = ctx.session.user.id;
 
                 // Check if user is part of the thread
+                await assertThreadParticipant(input.threadId, userId);
+
                 const thread = await db.query.chatThreads.findFirst({
-                    where: and(
-                        eq(chatThreads.id, input.threadId),
-                        or(
-                            eq(chatThreads.user1Id, userId),
-                            eq(chatThreads.user2Id, userId),
-                        ),
-                    ),
+                    where: eq(chatThreads.id, input.threadId),
                     columns: {
                         id: true,
-                        user1Id: true,
-                        user2Id: true,
+                        isGroup: true,
+                        name: true,
+                        createdBy: true,
                         orgId: true,
                         createdAt: true,
                         lastMessageAt: true,
                     },
                     with: {
-                        user1: {
-                            columns: {
-                                id: true,
-                                name: true,
-                                email: true,
-                                image: true,
-                            },
-                        },
-                        user2: {
-                            columns: {
-                                id: true,
-                                name: true,
-                                email: true,
-                                image: true,
+                        participants: {
+                            orderBy: asc(chatThreadParticipants.joinedAt),
+                            with: {
+                                user: { columns: chatUserColumns },
                             },
                         },
                     },
@@ -661,13 +1282,23 @@ export const chatRouter = router({
 
                 if (!thread) {
                     throw new TRPCError({
-                        code: 'FORBIDDEN',
-                        message: 'You do not have access to this chat thread',
+                        code: 'NOT_FOUND',
+                        message: 'Chat thread not found',
                     });
                 }
 
-                return thread;
+                const isCrossOrg = thread.orgId === null;
+
+                return {
+                    ...withParticipantDetails(thread, userId),
+                    isCrossOrg,
+                    // Lets the chat name each participant's org when they differ
+                    participantOrgNames: isCrossOrg
+                        ? await getParticipantOrgNames(input.threadId)
+                        : {},
+                };
             } catch (error) {
+                if (error instanceof TRPCError) throw error;
                 console.error('Error fetching thread details:', error);
                 throw new TRPCError({
                     code: 'INTERNAL_SERVER_ERROR',
@@ -24,6 +24,9 @@ import {
     asc,
     gte,
     lte,
+    gt,
+    isNull,
+    isNotNull,
 } from 'drizzle-orm';
 
 // Helper function to check if user is SuperAdmin
@@ -444,6 +447,7 @@ export const discoveryProcedures = {
                     where: and(
                         eq(posts.communityId, community.id),
                         eq(posts.isDeleted, false),
+                        eq(posts.isHidden, false),
                         ...orgFilter,
                     ),
                     with: {
@@ -735,6 +739,7 @@ export const discoveryProcedures = {
                     where: and(
                         eq(posts.communityId, community.id),
                         eq(posts.isDeleted, false),
+                        eq(posts.isHidden, false),
                         ...dateFilterConditions,
                         ...orgFilter,
                     ),
@@ -756,7 +761,17 @@ export const discoveryProcedures = {
                         qa: true,
                         attachments: true,
                     },
-                    orderBy: orderByClause,
+                    // Active pins first, in pin order, whatever the sort
+                    orderBy: [
+                        sql`CASE WHEN ${and(
+                            isNotNull(posts.pinPosition),
+                            or(
+                                isNull(posts.pinnedUntil),
+                                gt(posts.pinnedUntil, new Date()),
+                            ),
+                        )} THEN ${posts.pinPosition} END ASC NULLS LAST`,
+                        orderByClause,
+                    ],
                 });
 
                 // Transform posts to include tags array and comments array
@@ -778,6 +793,7 @@ export const discoveryProcedures = {
                         and(
                             eq(posts.communityId, community.id),
                             eq(posts.isDeleted, false),
+                            eq(posts.isHidden, false),
                             ...dateFilterConditions,
                             ...orgFilter,
                         ),
@@ -6,11 +6,71 @@ import {
     communities,
     communityMembers,
     communityMemberRequests,
+    orgMembers,
     users,
 } from '@/server/db/schema';
 import { and, eq, desc, inArray, sql } from 'drizzle-orm';
 import { ServerPermissions } from '@/server/utils/permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
+import { assertNotBanned } from '@/server/trpc/services/community-restriction-service';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
+import { dispatchNotification } from '@/lib/notification-dispatch';
+
+// Tell the people who can approve a join request that one is waiting
+async function notifyJoinRequest(
+    community: { id: number; name: string; slug: string; orgId: string | null },
+    requesterId: string,
+) {
+    try {
+        const [managers, orgAdmins, requester] = await Promise.all([
+            db
+                .select({ userId: communityMembers.userId })
+                .from(communityMembers)
+                .where(
+                    and(
+                        eq(communityMembers.communityId, community.id),
+                        eq(communityMembers.status, 'active'),
+                        inArray(communityMembers.role, ['admin', 'moderator']),
+                    ),
+                ),
+            community.orgId
+                ? db
+                      .select({ userId: orgMembers.userId })
+                      .from(orgMembers)
+                      .where(
+                          and(
+                              eq(orgMembers.orgId, community.orgId),
+                              eq(orgMembers.role, 'admin'),
+                              eq(orgMembers.status, 'active'),
+                          ),
+                      )
+                : Promise.resolve([]),
+            db.query.users.findFirst({
+                where: eq(users.id, requesterId),
+                columns: { name: true },
+            }),
+        ]);
+
+        await dispatchNotification(
+            [...managers, ...orgAdmins]
+                .map((manager) => manager.userId)
+                .filter((id) => id !== requesterId),
+            {
+                event: 'join_request',
+                title: `New join request for ${community.name}`,
+                body: `${requester?.name || 'Someone'} asked to join ${community.name}`,
+                url: `/communities/${community.slug}`,
+                data: {
+                    communityId: community.id,
+                    communitySlug: community.slug,
+                    requesterId,
+                },
+            },
+        );
+    } catch (error) {
+        console.error('Error sending join request notifications:', error);
+    }
+}
 
 export const membershipProcedures = {
     joinCommunity: authProcedure
@@ -29,6 +89,8 @@ export const membershipProcedures = {
                     });
                 }
 
+                await assertNotBanned(input.communityId, ctx.session.user.id);
+
                 // Check if the user is already a member
                 const existingMembership =
                     await db.query.communityMembers.findFirst({
@@ -83,6 +145,8 @@ export const membershipProcedures = {
                         })
                         .returning();
 
+                    await notifyJoinRequest(community, ctx.session.user.id);
+
                     return {
                         status: 'pending',
                         request: newRequest,
@@ -146,6 +210,8 @@ export const membershipProcedures = {
                         })
                         .returning();
 
+                    await notifyJoinRequest(community, ctx.session.user.id);
+
                     return {
                         status: 'pending',
                         request: newRequest,
@@ -840,6 +906,16 @@ export const membershipProcedures = {
                         ),
                     );
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.remove_member',
+                    communityId: input.communityId,
+                    orgId: community.orgId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    before: { role: targetUserMembership.role },
+                });
+
                 return { success: true };
             } catch (error) {
                 if (error instanceof TRPCError) throw error;
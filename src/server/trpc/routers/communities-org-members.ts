@@ -6,6 +6,7 @@ import { communities, communityMembers, users } from '@/server/db/schema';
 import { and, eq, inArray, ilike, or } from 'drizzle-orm';
 import { ServerPermissions } from '@/server/utils/permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
+import { getBannedUserIds } from '@/server/trpc/services/community-restriction-service';
 
 export const orgMemberProcedures = {
     // Get organization members who are not yet in the community
@@ -91,11 +92,18 @@ export const orgMemberProcedures = {
                 const existingMemberIds = new Set(
                     existingCommunityMembers.map((m) => m.userId),
                 );
+                const bannedUserIds = new Set(
+                    await getBannedUserIds(
+                        input.communityId,
+                        orgMembersList.map((member) => member.id),
+                    ),
+                );
 
-                // Filter out users who are already in the community
+                // Filter out users who are already in or banned from the community
                 const availableMembers = orgMembersList.filter(
                     (member: (typeof orgMembersList)[number]) =>
-                        !existingMemberIds.has(member.id),
+                        !existingMemberIds.has(member.id) &&
+                        !bannedUserIds.has(member.id),
                 );
 
                 return availableMembers;
@@ -166,7 +174,7 @@ export const orgMemberProcedures = {
                         eq(users.orgId, community.orgId),
                         eq(users.emailVerified, true),
                     ),
-                    columns: { id: true },
+                    columns: { id: true, name: true },
                 });
 
                 if (orgMembers.length !== userIds.length) {
@@ -177,6 +185,22 @@ export const orgMemberProcedures = {
                     });
                 }
 
+                // Banned users cannot be added back until their ban is lifted
+                const bannedUserIds = await getBannedUserIds(
+                    input.communityId,
+                    userIds,
+                );
+
+                if (bannedUserIds.length > 0) {
+                    const bannedNames = orgMembers
+                        .filter((member) => bannedUserIds.includes(member.id))
+                        .map((member) => member.name);
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message: `${bannedNames.join(', ')} ${bannedNames.length === 1 ? 'is' : 'are'} banned from this community`,
+                    });
+                }
+
                 // Check if any users are already in the community
                 const existingMemberships =
                     await db.query.communityMembers.findMany({
@@ -0,0 +1,432 @@
+import { z } from 'zod';
+import { authProcedure } from '../trpc';
+import { db } from '@/server/db';
+import { TRPCError } from '@trpc/server';
+import {
+    communities,
+    communityBans,
+    communityMembers,
+    communityMemberRequests,
+    communityMutes,
+    users,
+} from '@/server/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { ServerPermissions } from '@/server/utils/permission';
+import { PERMISSIONS } from '@/lib/permissions/permission-const';
+import { canOverrideRole } from '@/lib/permissions/permission';
+import { isOrgAdminForCommunity } from '@/lib/utils';
+import { getActiveRestrictions } from '@/server/trpc/services/community-restriction-service';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
+
+const targetInputSchema = z.object({
+    communityId: z.number(),
+    userId: z.string(),
+});
+
+const futureDateSchema = z
+    .date()
+    .refine((date) => date > new Date(), 'Expiry must be in the future');
+
+async function assertCanManageMembers(userId: string, communityId: number) {
+    const permission = await ServerPermissions.fromUserId(userId);
+    const canManageMembers = await permission.checkCommunityPermission(
+        communityId.toString(),
+        PERMISSIONS.MANAGE_COMMUNITY_MEMBERS,
+    );
+
+    if (!canManageMembers) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to manage community members',
+        });
+    }
+
+    return permission;
+}
+
+// Same role protections as removing a member: moderators can only restrict
+// members, community admins can restrict moderators, and admins of the app or
+// of the community's org can never be restricted
+async function assertCanRestrict(
+    actorId: string,
+    communityId: number,
+    targetUserId: string,
+) {
+    if (actorId === targetUserId) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'You cannot restrict yourself',
+        });
+    }
+
+    const community = await db.query.communities.findFirst({
+        where: eq(communities.id, communityId),
+        columns: { id: true, orgId: true, createdBy: true },
+    });
+
+    if (!community) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Community not found',
+        });
+    }
+
+    const permission = await assertCanManageMembers(actorId, communityId);
+
+    const targetUser = await db.query.users.findFirst({
+        where: eq(users.id, targetUserId),
+        columns: { id: true, appRole: true, role: true, orgId: true },
+    });
+
+    if (!targetUser) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'User not found',
+        });
+    }
+
+    if (
+        targetUser.appRole === 'admin' ||
+        isOrgAdminForCommunity(targetUser, community.orgId)
+    ) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Administrators cannot be banned or muted',
+        });
+    }
+
+    if (community.createdBy === targetUserId) {
+        const canRemoveCreator = await permission.checkCommunityPermission(
+            communityId.toString(),
+            PERMISSIONS.REMOVE_COMMUNITY_CREATOR,
+        );
+
+        if (!canRemoveCreator) {
+            throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: 'Cannot restrict the community creator',
+            });
+        }
+    }
+
+    const targetMembership = await db.query.communityMembers.findFirst({
+        where: and(
+            eq(communityMembers.communityId, communityId),
+            eq(communityMembers.userId, targetUserId),
+        ),
+    });
+
+    if (
+        targetMembership &&
+        (targetMembership.role === 'admin' ||
+            targetMembership.role === 'moderator') &&
+        !canOverrideRole(
+            'community',
+            permission.getCommunityRole(communityId.toString()),
+            targetMembership.role,
+            permission.getOrgRole(),
+            permission.getAppRole(),
+        )
+    ) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: `You cannot restrict a community ${targetMembership.role}`,
+        });
+    }
+
+    return { community, targetMembership };
+}
+
+export const restrictionProcedures = {
+    // Active bans and mutes for a community
+    getRestrictions: authProcedure
+        .input(z.object({ communityId: z.number() }))
+        .query(async ({ input, ctx }) => {
+            try {
+                await assertCanManageMembers(
+                    ctx.session.user.id,
+                    input.communityId,
+                );
+
+                return await getActiveRestrictions(input.communityId);
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching community restrictions:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch bans and mutes',
+                });
+            }
+        }),
+
+    // Ban a user: removes their membership and pending requests, and blocks
+    // them from rejoining until the ban expires (never, without an expiry)
+    banUser: authProcedure
+        .input(
+            targetInputSchema.extend({
+                reason: z.string().trim().max(500).optional(),
+                expiresAt: futureDateSchema.optional(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const { community, targetMembership } = await assertCanRestrict(
+                    ctx.session.user.id,
+                    input.communityId,
+                    input.userId,
+                );
+
+                const now = new Date();
+                const ban = await db.transaction(async (tx) => {
+                    const [created] = await tx
+                        .insert(communityBans)
+                        .values({
+                            communityId: input.communityId,
+                            userId: input.userId,
+                            bannedBy: ctx.session.user.id,
+                            reason: input.reason || null,
+                            expiresAt: input.expiresAt ?? null,
+                            createdAt: now,
+                        })
+                        .onConflictDoUpdate({
+                            target: [
+                                communityBans.communityId,
+                                communityBans.userId,
+                            ],
+                            set: {
+                                bannedBy: ctx.session.user.id,
+                                reason: input.reason || null,
+                                expiresAt: input.expiresAt ?? null,
+                                createdAt: now,
+                            },
+                        })
+                        .returning();
+
+                    await tx
+                        .delete(communityMembers)
+                        .where(
+                            and(
+                                eq(
+                                    communityMembers.communityId,
+                                    input.communityId,
+                                ),
+                                eq(communityMembers.userId, input.userId),
+                            ),
+                        );
+
+                    await tx
+                        .delete(communityMemberRequests)
+                        .where(
+                            and(
+                                eq(
+                                    communityMemberRequests.communityId,
+                                    input.communityId,
+                                ),
+                                eq(
+                                    communityMemberRequests.userId,
+                                    input.userId,
+                                ),
+                            ),
+                        );
+
+                    // A ban supersedes any mute
+                    await tx
+                        .delete(communityMutes)
+                        .where(
+                            and(
+                                eq(
+                                    communityMutes.communityId,
+                                    input.communityId,
+                                ),
+                                eq(communityMutes.userId, input.userId),
+                            ),
+                        );
+
+                    return created;
+                });
+
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.ban_member',
+                    communityId: input.communityId,
+                    orgId: community.orgId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    before: targetMembership
+                        ? { role: targetMembership.role }
+                        : null,
+                    after: {
+                        reason: ban.reason,
+                        expiresAt: ban.expiresAt,
+                    },
+                });
+
+                return { success: true, ban };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error banning user from community:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to ban user',
+                });
+            }
+        }),
+
+    unbanUser: authProcedure
+        .input(targetInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            try {
+                await assertCanManageMembers(
+                    ctx.session.user.id,
+                    input.communityId,
+                );
+
+                const [removedBan] = await db
+                    .delete(communityBans)
+                    .where(
+                        and(
+                            eq(communityBans.communityId, input.communityId),
+                            eq(communityBans.userId, input.userId),
+                        ),
+                    )
+                    .returning();
+
+                if (removedBan) {
+                    await recordAuditLog({
+                        actorId: ctx.session.user.id,
+                        action: 'community.unban_member',
+                        communityId: input.communityId,
+                        targetType: 'user',
+                        targetId: input.userId,
+                        before: {
+                            reason: removedBan.reason,
+                            expiresAt: removedBan.expiresAt,
+                        },
+                    });
+                }
+
+                return { success: true };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error unbanning user:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to unban user',
+                });
+            }
+        }),
+
+    // Mute a member until the given time: they keep read access but cannot
+    // post, comment, answer or vote in the community
+    muteUser: authProcedure
+        .input(
+            targetInputSchema.extend({
+                reason: z.string().trim().max(500).optional(),
+                expiresAt: futureDateSchema,
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const { community, targetMembership } = await assertCanRestrict(
+                    ctx.session.user.id,
+                    input.communityId,
+                    input.userId,
+                );
+
+                if (!targetMembership) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'User is not a member of this community',
+                    });
+                }
+
+                const now = new Date();
+                const [mute] = await db
+                    .insert(communityMutes)
+                    .values({
+                        communityId: input.communityId,
+                        userId: input.userId,
+                        mutedBy: ctx.session.user.id,
+                        reason: input.reason || null,
+                        expiresAt: input.expiresAt,
+                        createdAt: now,
+                    })
+                    .onConflictDoUpdate({
+                        target: [
+                            communityMutes.communityId,
+                            communityMutes.userId,
+                        ],
+                        set: {
+                            mutedBy: ctx.session.user.id,
+                            reason: input.reason || null,
+                            expiresAt: input.expiresAt,
+                            createdAt: now,
+                        },
+                    })
+                    .returning();
+
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.mute_member',
+                    communityId: input.communityId,
+                    orgId: community.orgId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    after: { reason: mute.reason, expiresAt: mute.expiresAt },
+                });
+
+                return { success: true, mute };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error muting user:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to mute user',
+                });
+            }
+        }),
+
+    unmuteUser: authProcedure
+        .input(targetInputSchema)
+        .mutation(async ({ input, ctx }) => {
+            try {
+                await assertCanManageMembers(
+                    ctx.session.user.id,
+                    input.communityId,
+                );
+
+                const [removedMute] = await db
+                    .delete(communityMutes)
+                    .where(
+                        and(
+                            eq(communityMutes.communityId, input.communityId),
+                            eq(communityMutes.userId, input.userId),
+                        ),
+                    )
+                    .returning();
+
+                if (removedMute) {
+                    await recordAuditLog({
+                        actorId: ctx.session.user.id,
+                        action: 'community.unmute_member',
+                        communityId: input.communityId,
+                        targetType: 'user',
+                        targetId: input.userId,
+                        before: {
+                            reason: removedMute.reason,
+                            expiresAt: removedMute.expiresAt,
+                        },
+                    });
+                }
+
+                return { success: true };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error unmuting user:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to unmute user',
+                });
+            }
+        }),
+};
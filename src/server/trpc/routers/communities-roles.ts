@@ -6,6 +6,7 @@ import { communityMembers, communities } from '@/server/db/schema';
 import { and, eq } from 'drizzle-orm';
 import { ServerPermissions } from '@/server/utils/permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
 
 export const roleProcedures = {
     // Assign moderator role to a community member (admin only)
@@ -83,6 +84,16 @@ export const roleProcedures = {
                     )
                     .returning();
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.assign_moderator',
+                    communityId: input.communityId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    before: { role: targetMembership.role },
+                    after: { role: 'moderator' },
+                });
+
                 return updatedMembership;
             } catch (error) {
                 console.error('Error assigning moderator:', error);
@@ -163,6 +174,16 @@ export const roleProcedures = {
                     )
                     .returning();
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.assign_admin',
+                    communityId: input.communityId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    before: { role: targetMembership.role },
+                    after: { role: 'admin' },
+                });
+
                 return updatedMembership;
             } catch (error) {
                 console.error('Error assigning admin:', error);
@@ -235,6 +256,16 @@ export const roleProcedures = {
                     )
                     .returning();
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.remove_moderator',
+                    communityId: input.communityId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    before: { role: targetMembership.role },
+                    after: { role: 'member' },
+                });
+
                 return updatedMembership;
             } catch (error) {
                 console.error('Error removing moderator:', error);
@@ -320,6 +351,16 @@ export const roleProcedures = {
                     )
                     .returning();
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.remove_admin',
+                    communityId: input.communityId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    before: { role: targetMembership.role },
+                    after: { role: 'member' },
+                });
+
                 return updatedMembership;
             } catch (error) {
                 console.error('Error removing admin:', error);
@@ -6,6 +6,7 @@ import { tags } from '@/server/db/schema';
 import { eq } from 'drizzle-orm';
 import { ServerPermissions } from '@/server/utils/permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
 
 export const tagProcedures = {
     createTag: authProcedure
@@ -149,6 +150,16 @@ export const tagProcedures = {
                 // Delete the tag
                 await db.delete(tags).where(eq(tags.id, input.tagId));
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'community.delete_tag',
+                    communityId: tag.communityId,
+                    targetType: 'tag',
+                    targetId: tag.id.toString(),
+                    targetLabel: tag.name,
+                    before: { name: tag.name, description: tag.description },
+                });
+
                 return { success: true };
             } catch (error) {
                 console.error('Error deleting tag:', error);
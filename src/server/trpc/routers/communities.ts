@@ -5,6 +5,7 @@ import { roleProcedures } from './communities-roles';
 import { tagProcedures } from './communities-tags';
 import { notificationProcedures } from './communities-notifications';
 import { orgMemberProcedures } from './communities-org-members';
+import { restrictionProcedures } from './communities-restrictions';
 
 export const communitiesRouter = router({
     // Discovery procedures
@@ -25,6 +26,13 @@ export const communitiesRouter = router({
     getUserPostableCommunities: membershipProcedures.getUserPostableCommunities,
     removeUserFromCommunity: membershipProcedures.removeUserFromCommunity,
 
+    // Ban and mute procedures
+    getRestrictions: restrictionProcedures.getRestrictions,
+    banUser: restrictionProcedures.banUser,
+    unbanUser: restrictionProcedures.unbanUser,
+    muteUser: restrictionProcedures.muteUser,
+    unmuteUser: restrictionProcedures.unmuteUser,
+
     // Role management procedures
     assignModerator: roleProcedures.assignModerator,
     assignAdmin: roleProcedures.assignAdmin,
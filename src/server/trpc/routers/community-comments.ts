@@ -4,6 +4,33 @@ import { db } from '@/server/db';
 import { TRPCError } from '@trpc/server';
 import { comments, commentHelpfulVotes, posts } from '@/server/db/schema';
 import { and, count, desc, eq, inArray } from 'drizzle-orm';
+import { assertNotMuted } from '@/server/trpc/services/community-restriction-service';
+import {
+    extractMentionedUserIds,
+    syncMentions,
+} from '@/server/trpc/services/mention-service';
+import {
+    autoFollowPost,
+    isFollowingPost,
+    notifyCommentActivity,
+    setPostFollow,
+} from '@/server/trpc/services/post-follow-service';
+import { getHtmlPreview } from '@/lib/sanitize-server';
+import { evaluateUserBadgeRules } from '@/server/trpc/services/badge-rule-service';
+import { assertCanReadPost } from '@/server/trpc/services/post-access-service';
+
+async function getPostOrThrow(postId: number) {
+    const post = await db.query.posts.findFirst({
+        where: eq(posts.id, postId),
+    });
+    if (!post || post.isDeleted) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+        });
+    }
+    return post;
+}
 
 export const commentProcedures = {
     // Create a comment
@@ -27,6 +54,28 @@ export const commentProcedures = {
                 });
             }
 
+            if (post.communityId) {
+                await assertNotMuted(post.communityId, ctx.session.user.id);
+            }
+
+            // Replies must answer a live comment on the same post
+            if (input.parentId) {
+                const parent = await db.query.comments.findFirst({
+                    where: and(
+                        eq(comments.id, input.parentId),
+                        eq(comments.postId, input.postId),
+                        eq(comments.isDeleted, false),
+                    ),
+                    columns: { id: true },
+                });
+                if (!parent) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'Parent comment not found',
+                    });
+                }
+            }
+
             const [comment] = await db
                 .insert(comments)
                 .values({
@@ -46,6 +95,26 @@ export const commentProcedures = {
                     updatedAt: comments.updatedAt,
                 });
 
+            const mentionedUserIds = extractMentionedUserIds(input.content);
+            await syncMentions({
+                authorId: ctx.session.user.id,
+                source: {
+                    type: 'comment',
+                    postId: input.postId,
+                    commentId: comment.id,
+                },
+                mentionedUserIds,
+                preview: getHtmlPreview(input.content),
+            });
+
+            await notifyCommentActivity({
+                comment: { ...comment, parentId: input.parentId ?? null },
+                post,
+                mentionedUserIds,
+            });
+            await autoFollowPost(ctx.session.user.id, input.postId);
+            await evaluateUserBadgeRules(ctx.session.user.id, ['comments']);
+
             return comment;
         }),
 
@@ -81,6 +150,18 @@ export const commentProcedures = {
                     message: 'Failed to update comment after verification',
                 });
             }
+
+            await syncMentions({
+                authorId: ctx.session.user.id,
+                source: {
+                    type: 'comment',
+                    postId: updatedComment.postId,
+                    commentId: updatedComment.id,
+                },
+                mentionedUserIds: extractMentionedUserIds(input.content),
+                preview: getHtmlPreview(input.content),
+            });
+
             return updatedComment;
         }),
 
@@ -109,6 +190,9 @@ export const commentProcedures = {
                 .set({ isDeleted: true, updatedAt: new Date() })
                 .where(eq(comments.id, input.commentId))
                 .returning();
+            await evaluateUserBadgeRules(commentToDelete.authorId, [
+                'comments',
+            ]);
 
             return updatedComment;
         }),
@@ -209,4 +293,35 @@ export const commentProcedures = {
                 isHelpful: !existingVote,
             } as const;
         }),
+
+    // Whether the current user gets notified about new comments on a post
+    getPostFollowStatus: authProcedure
+        .input(z.object({ postId: z.number() }))
+        .query(async ({ input, ctx }) => {
+            const post = await getPostOrThrow(input.postId);
+            return {
+                isFollowing: await isFollowingPost(ctx.session.user.id, post),
+            };
+        }),
+
+    // Follow a post's comment thread
+    followPost: authProcedure
+        .input(z.object({ postId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+            await getPostOrThrow(input.postId);
+            await assertCanReadPost(ctx.session.user, input.postId);
+            return await setPostFollow(ctx.session.user.id, input.postId, true);
+        }),
+
+    // Stop notifications for a post's comment thread
+    unfollowPost: authProcedure
+        .input(z.object({ postId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+            await getPostOrThrow(input.postId);
+            return await setPostFollow(
+                ctx.session.user.id,
+                input.postId,
+                false,
+            );
+        }),
 };
@@ -0,0 +1,289 @@
+import { z } from 'zod';
+import { authProcedure } from '../trpc';
+import { db } from '@/server/db';
+import { TRPCError } from '@trpc/server';
+import { attachments, postDrafts } from '@/server/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import {
+    assertCanPostInCommunity,
+    getPostAuthor,
+} from '@/server/trpc/services/post-service';
+import {
+    claimPendingUploads,
+    getOwnDraft,
+} from '@/server/trpc/services/post-draft-service';
+import { assertCanPinPosts } from '@/server/trpc/services/post-pin-service';
+import { POLL_RESULT_VISIBILITY, POLL_TYPES } from '@/lib/polls';
+
+const draftPollSchema = z.object({
+    question: z.string().min(1).max(200),
+    pollType: z.enum(POLL_TYPES),
+    isAnonymous: z.boolean().default(false),
+    resultsVisibility: z.enum(POLL_RESULT_VISIBILITY).default('always'),
+    options: z.array(z.string().min(1).max(100)).min(2).max(10),
+    expiresAt: z.date().optional(),
+});
+
+const draftQaSchema = z.object({
+    answersVisibleAt: z.date().optional(),
+    allowEditsUntil: z.date().optional(),
+});
+
+export const draftProcedures = {
+    // List the current user's drafts, most recently edited first
+    getDrafts: authProcedure.query(async ({ ctx }) => {
+        try {
+            const drafts = await db.query.postDrafts.findMany({
+                where: eq(postDrafts.authorId, ctx.session.user.id),
+                orderBy: desc(postDrafts.updatedAt),
+                with: {
+                    community: {
+                        columns: { id: true, name: true, slug: true },
+                    },
+                    attachments: {
+                        columns: { id: true },
+                    },
+                },
+            });
+
+            return drafts.map(({ attachments, ...draft }) => ({
+                ...draft,
+                attachmentCount: attachments.length,
+            }));
+        } catch (error) {
+            console.error('Error fetching drafts:', error);
+            throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to fetch drafts',
+            });
+        }
+    }),
+
+    getDraft: authProcedure
+        .input(z.object({ draftId: z.number() }))
+        .query(async ({ input, ctx }) => {
+            try {
+                const draft = await getOwnDraft(
+                    ctx.session.user.id,
+                    input.draftId,
+                );
+                const draftAttachments = await db.query.attachments.findMany({
+                    where: eq(attachments.draftId, draft.id),
+                    columns: { id: true },
+                });
+
+                return {
+                    ...draft,
+                    attachmentCount: draftAttachments.length,
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching draft:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch draft',
+                });
+            }
+        }),
+
+    // Create or update a draft; called by the editor's autosave
+    saveDraft: authProcedure
+        .input(
+            z.object({
+                draftId: z.number().optional(),
+                communityId: z.number(),
+                title: z.string().max(200),
+                content: z.string(),
+                tagIds: z.array(z.number()).default([]),
+                poll: draftPollSchema.nullable().optional(),
+                qa: draftQaSchema.nullable().optional(),
+                isAnnouncement: z.boolean().default(false),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const userId = ctx.session.user.id;
+                const values = {
+                    communityId: input.communityId,
+                    title: input.title,
+                    content: input.content,
+                    tagIds: input.tagIds,
+                    poll: input.poll
+                        ? {
+                              question: input.poll.question,
+                              pollType: input.poll.pollType,
+                              isAnonymous: input.poll.isAnonymous,
+                              resultsVisibility: input.poll.resultsVisibility,
+                              options: input.poll.options,
+                              expiresAt:
+                                  input.poll.expiresAt?.toISOString() ?? null,
+                          }
+                        : null,
+                    qa: input.qa
+                        ? {
+                              answersVisibleAt:
+                                  input.qa.answersVisibleAt?.toISOString() ??
+                                  null,
+                              allowEditsUntil:
+                                  input.qa.allowEditsUntil?.toISOString() ??
+                                  null,
+                          }
+                        : null,
+                    isAnnouncement: input.isAnnouncement,
+                    updatedAt: new Date(),
+                };
+
+                let draft;
+                if (input.draftId) {
+                    await getOwnDraft(userId, input.draftId);
+                    [draft] = await db
+                        .update(postDrafts)
+                        .set(values)
+                        .where(eq(postDrafts.id, input.draftId))
+                        .returning();
+                } else {
+                    [draft] = await db
+                        .insert(postDrafts)
+                        .values({ ...values, authorId: userId })
+                        .returning();
+                }
+
+                await claimPendingUploads(userId, draft);
+
+                return {
+                    id: draft.id,
+                    updatedAt: draft.updatedAt,
+                    publishAt: draft.publishAt,
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error saving draft:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to save draft',
+                });
+            }
+        }),
+
+    // Schedule a draft to be published as a post at publishAt
+    scheduleDraft: authProcedure
+        .input(z.object({ draftId: z.number(), publishAt: z.date() }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const draft = await getOwnDraft(
+                    ctx.session.user.id,
+                    input.draftId,
+                );
+
+                if (input.publishAt <= new Date()) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'Publish time must be in the future',
+                    });
+                }
+
+                if (!draft.communityId) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'Choose a community before scheduling',
+                    });
+                }
+
+                if (!draft.title.trim() && !draft.poll) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'Either title or poll must be provided',
+                    });
+                }
+
+                if (
+                    draft.poll?.expiresAt &&
+                    new Date(draft.poll.expiresAt) <= input.publishAt
+                ) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message:
+                            'The poll would close before the post is published',
+                    });
+                }
+
+                // Fail now rather than at publish time; the job checks again
+                const author = await getPostAuthor(ctx.session.user.id);
+                await assertCanPostInCommunity(
+                    author,
+                    draft.communityId,
+                    draft.tagIds,
+                );
+                if (draft.isAnnouncement) {
+                    await assertCanPinPosts(author.id, draft.communityId);
+                }
+
+                const [updated] = await db
+                    .update(postDrafts)
+                    .set({
+                        publishAt: input.publishAt,
+                        publishError: null,
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(postDrafts.id, draft.id))
+                    .returning();
+
+                return updated;
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error scheduling draft:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to schedule draft',
+                });
+            }
+        }),
+
+    // Turn a scheduled draft back into a plain draft
+    unscheduleDraft: authProcedure
+        .input(z.object({ draftId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const draft = await getOwnDraft(
+                    ctx.session.user.id,
+                    input.draftId,
+                );
+
+                const [updated] = await db
+                    .update(postDrafts)
+                    .set({ publishAt: null, updatedAt: new Date() })
+                    .where(eq(postDrafts.id, draft.id))
+                    .returning();
+
+                return updated;
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error unscheduling draft:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to unschedule draft',
+                });
+            }
+        }),
+
+    // Delete a draft along with its uploads
+    deleteDraft: authProcedure
+        .input(z.object({ draftId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const draft = await getOwnDraft(
+                    ctx.session.user.id,
+                    input.draftId,
+                );
+                await db.delete(postDrafts).where(eq(postDrafts.id, draft.id));
+                return { success: true };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error deleting draft:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to delete draft',
+                });
+            }
+        }),
+};
@@ -9,6 +9,7 @@ import {
 } from '@/server/db/schema';
 import { eq, and } from 'drizzle-orm';
 import crypto from 'crypto';
+import { assertNotBanned } from '@/server/trpc/services/community-restriction-service';
 
 export const inviteProcedures = {
     createInviteLink: authProcedure
@@ -111,6 +112,8 @@ export const inviteProcedures = {
                     });
                 }
 
+                await assertNotBanned(invite.communityId, ctx.session.user.id);
+
                 // Check if user is already a member
                 const existingMembership =
                     await tx.query.communityMembers.findFirst({
@@ -8,6 +8,7 @@ import {
     communities,
 } from '@/server/db/schema';
 import { and, desc, eq } from 'drizzle-orm';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
 
 export const memberProcedures = {
     getPendingRequests: authProcedure
@@ -117,7 +118,7 @@ export const memberProcedures = {
 
     removeUserFromCommunity: authProcedure
         .input(z.object({ communityId: z.number(), userId: z.string() }))
-        .mutation(async ({ input }) => {
+        .mutation(async ({ input, ctx }) => {
             const community = await db.query.communities.findFirst({
                 where: eq(communities.id, input.communityId),
                 with: { members: true },
@@ -156,6 +157,15 @@ export const memberProcedures = {
                         eq(communityMemberRequests.userId, input.userId),
                     ),
                 );
+            await recordAuditLog({
+                actorId: ctx.session.user.id,
+                action: 'community.remove_member',
+                communityId: input.communityId,
+                orgId: community.orgId,
+                targetType: 'user',
+                targetId: input.userId,
+                before: { role: targetUserMembership.role },
+            });
             return { success: true } as const;
         }),
 };
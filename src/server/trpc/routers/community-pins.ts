@@ -0,0 +1,246 @@
+import { z } from 'zod';
+import { authProcedure } from '../trpc';
+import { db } from '@/server/db';
+import { TRPCError } from '@trpc/server';
+import { communities, posts, users } from '@/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { MAX_PINNED_POSTS } from '@/lib/pinned-posts';
+import { sendCommunityPostNotification } from '@/lib/community-notifications';
+import {
+    assertCanPinPosts,
+    getActivePins,
+} from '@/server/trpc/services/post-pin-service';
+
+// Loads a live community post and checks the user may pin in its community
+async function getPinnablePost(userId: string, postId: number) {
+    const post = await db.query.posts.findFirst({
+        where: eq(posts.id, postId),
+    });
+
+    if (!post || post.isDeleted) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+        });
+    }
+
+    if (!post.communityId) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Only community posts can be pinned',
+        });
+    }
+
+    await assertCanPinPosts(userId, post.communityId);
+
+    return { ...post, communityId: post.communityId };
+}
+
+export const pinProcedures = {
+    // Pin a post to the top of its community, or change an existing pin's
+    // expiry. New pins go to the bottom of the pinned list.
+    pinPost: authProcedure
+        .input(
+            z.object({
+                postId: z.number(),
+                pinnedUntil: z.date().nullable().optional(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const post = await getPinnablePost(
+                    ctx.session.user.id,
+                    input.postId,
+                );
+
+                if (post.isHidden) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'Hidden posts cannot be pinned',
+                    });
+                }
+
+                if (input.pinnedUntil && input.pinnedUntil <= new Date()) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'Pin expiry must be in the future',
+                    });
+                }
+
+                const pins = await getActivePins(post.communityId);
+                const existing = pins.find((pin) => pin.id === post.id);
+
+                if (!existing && pins.length >= MAX_PINNED_POSTS) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: `A community can have at most ${MAX_PINNED_POSTS} pinned posts. Unpin one first.`,
+                    });
+                }
+
+                const pinPosition =
+                    existing?.pinPosition ??
+                    (pins.at(-1)?.pinPosition ?? 0) + 1;
+
+                const [updated] = await db
+                    .update(posts)
+                    .set({
+                        pinPosition,
+                        pinnedUntil: input.pinnedUntil ?? null,
+                    })
+                    .where(eq(posts.id, post.id))
+                    .returning();
+
+                return updated;
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error pinning post:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to pin post',
+                });
+            }
+        }),
+
+    unpinPost: authProcedure
+        .input(z.object({ postId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const post = await getPinnablePost(
+                    ctx.session.user.id,
+                    input.postId,
+                );
+
+                const [updated] = await db
+                    .update(posts)
+                    .set({ pinPosition: null, pinnedUntil: null })
+                    .where(eq(posts.id, post.id))
+                    .returning();
+
+                return updated;
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error unpinning post:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to unpin post',
+                });
+            }
+        }),
+
+    // Swap a pinned post with its neighbour in the pinned list
+    movePinnedPost: authProcedure
+        .input(
+            z.object({
+                postId: z.number(),
+                direction: z.enum(['up', 'down']),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const post = await getPinnablePost(
+                    ctx.session.user.id,
+                    input.postId,
+                );
+
+                const pins = await getActivePins(post.communityId);
+                const index = pins.findIndex((pin) => pin.id === post.id);
+
+                if (index === -1) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'This post is not pinned',
+                    });
+                }
+
+                const target = input.direction === 'up' ? index - 1 : index + 1;
+                if (target < 0 || target >= pins.length) {
+                    return { success: true };
+                }
+
+                const ordered = [...pins];
+                [ordered[index], ordered[target]] = [
+                    ordered[target],
+                    ordered[index],
+                ];
+
+                // Renumber the whole list so positions stay contiguous
+                await db.transaction(async (tx) => {
+                    for (const [position, pin] of ordered.entries()) {
+                        await tx
+                            .update(posts)
+                            .set({ pinPosition: position + 1 })
+                            .where(eq(posts.id, pin.id));
+                    }
+                });
+
+                return { success: true };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error reordering pinned posts:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to reorder pinned posts',
+                });
+            }
+        }),
+
+    // Marking a post as an announcement notifies every member, including
+    // those who turned off new post notifications for the community
+    setPostAnnouncement: authProcedure
+        .input(
+            z.object({
+                postId: z.number(),
+                isAnnouncement: z.boolean(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const post = await getPinnablePost(
+                    ctx.session.user.id,
+                    input.postId,
+                );
+
+                const [updated] = await db
+                    .update(posts)
+                    .set({ isAnnouncement: input.isAnnouncement })
+                    .where(eq(posts.id, post.id))
+                    .returning();
+
+                if (
+                    input.isAnnouncement &&
+                    !post.isAnnouncement &&
+                    !post.isHidden
+                ) {
+                    const [community, author] = await Promise.all([
+                        db.query.communities.findFirst({
+                            where: eq(communities.id, post.communityId),
+                            columns: { name: true },
+                        }),
+                        db.query.users.findFirst({
+                            where: eq(users.id, post.authorId),
+                            columns: { name: true },
+                        }),
+                    ]);
+
+                    await sendCommunityPostNotification(
+                        post.communityId,
+                        post.title,
+                        author?.name || 'Unknown User',
+                        community?.name || 'your community',
+                        post.id,
+                        post.authorId,
+                        true,
+                    );
+                }
+
+                return updated;
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error updating announcement:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to update announcement',
+                });
+            }
+        }),
+};
@@ -2,10 +2,12 @@ import { z } from 'zod';
 import { authProcedure, publicProcedure } from '../trpc';
 import { db } from '@/server/db';
 import { TRPCError } from '@trpc/server';
-import { and, count, desc, eq, inArray, sql } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { and, eq } from 'drizzle-orm';
 import {
     polls,
     pollOptions,
+    pollParticipants,
     pollVotes,
     posts,
     users,
@@ -13,6 +15,13 @@ import {
     communityMembers,
 } from '@/server/db/schema';
 import { isOrgAdminForCommunity } from '@/lib/utils';
+import { assertNotMuted } from '@/server/trpc/services/community-restriction-service';
+import { notifyPollClosed } from '@/server/trpc/services/poll-service';
+import {
+    POLL_RESULT_VISIBILITY,
+    POLL_TYPES,
+    tallyInstantRunoff,
+} from '@/lib/polls';
 
 export const pollProcedures = {
     createPoll: authProcedure
@@ -20,14 +29,16 @@ export const pollProcedures = {
             z.object({
                 postId: z.number(),
                 question: z.string().min(1).max(200),
-                pollType: z.enum(['single', 'multiple']),
+                pollType: z.enum(POLL_TYPES),
+                isAnonymous: z.boolean().default(false),
+                resultsVisibility: z
+                    .enum(POLL_RESULT_VISIBILITY)
+                    .default('always'),
                 options: z.array(z.string().min(1).max(100)).min(2).max(10),
                 expiresAt: z.date().optional(),
             }),
         )
         .mutation(async ({ input, ctx }) => {
-            const userId = ctx.session.user.id;
-
             // Verify post exists and user has permission to add poll
             const post = await db.query.posts.findFirst({
                 where: eq(posts.id, input.postId),
@@ -43,46 +54,12 @@ export const pollProcedures = {
                 });
             }
 
-            // Check if user is the post author or has community permissions
-            const isAuthor = post.authorId === userId;
-            const isSuperAdmin = ctx.session.user.appRole === 'admin';
-            const isOrgAdmin = post.community?.orgId
-                ? isOrgAdminForCommunity(ctx.session.user, post.community.orgId)
-                : false;
-
-            if (!isAuthor && !isSuperAdmin && !isOrgAdmin) {
-                // Check community permissions
-                if (post.communityId) {
-                    const membership =
-                        await db.query.communityMembers.findFirst({
-                            where: and(
-                                eq(communityMembers.userId, userId),
-                                eq(
-                                    communityMembers.communityId,
-                                    post.communityId,
-                                ),
-                                eq(communityMembers.membershipType, 'member'),
-                                eq(communityMembers.status, 'active'),
-                            ),
-                        });
-
-                    if (
-                        !membership ||
-                        !['admin', 'moderator'].includes(membership.role)
-                    ) {
-                        throw new TRPCError({
-                            code: 'FORBIDDEN',
-                            message:
-                                'You do not have permission to create polls for this post',
-                        });
-                    }
-                } else {
-                    throw new TRPCError({
-                        code: 'FORBIDDEN',
-                        message:
-                            'You do not have permission to create polls for this post',
-                    });
-                }
+            if (!(await canManagePoll(post, ctx.session.user))) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message:
+                        'You do not have permission to create polls for this post',
+                });
             }
 
             // Check if poll already exists for this post
@@ -106,6 +83,8 @@ export const pollProcedures = {
                         postId: input.postId,
                         question: input.question,
                         pollType: input.pollType,
+                        isAnonymous: input.isAnonymous,
+                        resultsVisibility: input.resultsVisibility,
                         expiresAt: input.expiresAt || null,
                         createdAt: new Date(),
                         updatedAt: new Date(),
@@ -131,6 +110,9 @@ export const pollProcedures = {
             return result;
         }),
 
+    // Cast, change or retract (empty optionIds) a vote while the poll is open.
+    // Ranked ballots list options in preference order. Anonymous ballots are
+    // final, since nothing ties them back to the voter.
     votePoll: authProcedure
         .input(
             z.object({
@@ -161,11 +143,11 @@ export const pollProcedures = {
                 });
             }
 
-            // Check if poll is closed or expired
-            const now = new Date();
-            const isExpired = poll.expiresAt && new Date(poll.expiresAt) < now;
+            if (poll.post.communityId) {
+                await assertNotMuted(poll.post.communityId, userId);
+            }
 
-            if (poll.isClosed || isExpired) {
+            if (!isPollOpen(poll)) {
                 throw new TRPCError({
                     code: 'BAD_REQUEST',
                     message: 'This poll is closed',
@@ -179,7 +161,10 @@ export const pollProcedures = {
                     (id) => !validOptionIds.includes(id),
                 );
 
-                if (invalidOptions.length > 0) {
+                if (
+                    invalidOptions.length > 0 ||
+                    new Set(input.optionIds).size !== input.optionIds.length
+                ) {
                     throw new TRPCError({
                         code: 'BAD_REQUEST',
                         message: 'Invalid poll options',
@@ -209,32 +194,60 @@ export const pollProcedures = {
                 });
             }
 
-            // Delete existing votes first (allows vote updates and retractions)
-            await db
-                .delete(pollVotes)
-                .where(
-                    and(
-                        eq(pollVotes.pollId, input.pollId),
-                        eq(pollVotes.userId, userId),
-                    ),
-                );
+            if (poll.isAnonymous) {
+                if (input.optionIds.length === 0) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'Anonymous votes cannot be retracted',
+                    });
+                }
 
-            // If optionIds is not empty, create new votes
-            if (input.optionIds.length > 0) {
-                const votes = input.optionIds.map((optionId) => ({
-                    pollId: input.pollId,
-                    pollOptionId: optionId,
-                    userId,
-                    createdAt: new Date(),
-                }));
+                await db.transaction(async (tx) => {
+                    const [participant] = await tx
+                        .insert(pollParticipants)
+                        .values({ pollId: poll.id, userId })
+                        .onConflictDoNothing()
+                        .returning();
 
-                await db.insert(pollVotes).values(votes);
+                    if (!participant) {
+                        throw new TRPCError({
+                            code: 'BAD_REQUEST',
+                            message:
+                                'You have already voted in this anonymous poll',
+                        });
+                    }
+
+                    await tx
+                        .insert(pollVotes)
+                        .values(ballotRows(poll, input.optionIds, null));
+                });
+
+                return { success: true };
             }
 
+            // Replace any earlier ballot (allows vote updates and retractions)
+            await db.transaction(async (tx) => {
+                await tx
+                    .delete(pollVotes)
+                    .where(
+                        and(
+                            eq(pollVotes.pollId, poll.id),
+                            eq(pollVotes.userId, userId),
+                        ),
+                    );
+
+                if (input.optionIds.length > 0) {
+                    await tx
+                        .insert(pollVotes)
+                        .values(ballotRows(poll, input.optionIds, userId));
+                }
+            });
+
             return { success: true };
         }),
 
-    // Get poll results
+    // Get poll results. Counts are zeroed while the poll's visibility rule
+    // hides them from this viewer.
     getPollResults: publicProcedure
         .input(z.object({ pollId: z.number() }))
         .query(async ({ input, ctx }) => {
@@ -259,73 +272,162 @@ export const pollProcedures = {
                 });
             }
 
-            // Get vote counts for each option
-            const voteCounts = await db
-                .select({
-                    optionId: pollOptions.id,
-                    voteCount: count(pollVotes.id),
-                })
-                .from(pollOptions)
-                .leftJoin(pollVotes, eq(pollOptions.id, pollVotes.pollOptionId))
-                .where(eq(pollOptions.pollId, input.pollId))
-                .groupBy(pollOptions.id);
+            const viewer = ctx.session?.user;
 
-            // Get user's votes if authenticated
+            // Get user's votes if authenticated, ranked ballots in order
             let userVotes: number[] = [];
-            if (ctx.session?.user?.id) {
+            let hasUserVoted = false;
+            if (viewer && poll.isAnonymous) {
+                const participant = await db.query.pollParticipants.findFirst({
+                    where: and(
+                        eq(pollParticipants.pollId, poll.id),
+                        eq(pollParticipants.userId, viewer.id),
+                    ),
+                });
+                hasUserVoted = !!participant;
+            } else if (viewer) {
                 const votes = await db.query.pollVotes.findMany({
                     where: and(
-                        eq(pollVotes.pollId, input.pollId),
-                        eq(pollVotes.userId, ctx.session.user.id),
+                        eq(pollVotes.pollId, poll.id),
+                        eq(pollVotes.userId, viewer.id),
                     ),
+                    orderBy: [pollVotes.rank],
                 });
                 userVotes = votes.map((vote) => vote.pollOptionId);
+                hasUserVoted = userVotes.length > 0;
             }
 
-            // Calculate total votes and percentages
-            const totalVotes = voteCounts.reduce(
-                (sum, item) => sum + item.voteCount,
-                0,
-            );
+            // Check if user can vote and manage the poll
+            const [canVote, canManage] = viewer
+                ? await Promise.all([
+                      checkPollVotingPermission(poll.post, viewer.id, viewer),
+                      canManagePoll(poll.post, viewer),
+                  ])
+                : [false, false];
 
-            const results = poll.options.map((option) => {
-                const voteData = voteCounts.find(
-                    (vc) => vc.optionId === option.id,
-                );
-                const voteCount = voteData?.voteCount || 0;
-                const percentage =
-                    totalVotes > 0
-                        ? Math.round((voteCount / totalVotes) * 100)
-                        : 0;
+            const resultsVisible =
+                poll.resultsVisibility === 'always' ||
+                (poll.resultsVisibility === 'after_vote' && hasUserVoted) ||
+                !isPollOpen(poll) ||
+                canManage;
 
+            const tally = resultsVisible ? await tallyPoll(poll) : null;
+            const totalVotes = tally?.totalVotes ?? 0;
+
+            const results = poll.options.map((option) => {
+                const voteCount = tally?.counts.get(option.id) ?? 0;
                 return {
                     optionId: option.id,
                     optionText: option.text,
                     voteCount,
-                    percentage,
+                    percentage: percentageOf(voteCount, totalVotes),
                     isUserVoted: userVotes.includes(option.id),
                 };
             });
 
-            // Check if user can vote
-            const canVote = ctx.session?.user?.id
-                ? await checkPollVotingPermission(
-                      poll.post,
-                      ctx.session.user.id,
-                      ctx.session.user,
-                  )
-                : false;
-
             return {
                 poll,
                 results,
                 totalVotes,
                 userVotes,
                 canVote,
-                hasUserVoted: userVotes.length > 0,
+                canManage,
+                hasUserVoted,
+                resultsVisible,
+                rounds: tally?.runoff?.rounds ?? [],
+                winnerId: tally?.runoff?.winnerId ?? null,
             };
         }),
 
+    // Results as CSV for the poll's owner and the community's moderators
+    exportPollResults: authProcedure
+        .input(z.object({ pollId: z.number() }))
+        .query(async ({ input, ctx }) => {
+            try {
+                const poll = await db.query.polls.findFirst({
+                    where: eq(polls.id, input.pollId),
+                    with: {
+                        options: {
+                            orderBy: [pollOptions.orderIndex],
+                        },
+                        post: {
+                            with: {
+                                community: true,
+                            },
+                        },
+                    },
+                });
+
+                if (!poll) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Poll not found',
+                    });
+                }
+
+                if (!(await canManagePoll(poll.post, ctx.session.user))) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message:
+                            'You do not have permission to export this poll',
+                    });
+                }
+
+                const { counts, totalVotes, runoff } = await tallyPoll(poll);
+                const rounds = runoff?.rounds ?? [];
+
+                const rows: (string | number)[][] = [
+                    [
+                        'Option',
+                        runoff ? 'First preferences' : 'Votes',
+                        'Percentage',
+                        ...rounds.map((_, index) => `Round ${index + 1}`),
+                    ],
+                    ...poll.options.map((option) => {
+                        const voteCount = counts.get(option.id) ?? 0;
+                        return [
+                            option.text,
+                            voteCount,
+                            `${percentageOf(voteCount, totalVotes)}%`,
+                            // Blank once the option has been eliminated
+                            ...rounds.map(
+                                (round) => round.counts[option.id] ?? '',
+                            ),
+                        ];
+                    }),
+                ];
+
+                if (runoff) {
+                    const winner = poll.options.find(
+                        (option) => option.id === runoff.winnerId,
+                    );
+                    rows.push(
+                        [
+                            'Exhausted ballots',
+                            '',
+                            '',
+                            ...rounds.map((round) => round.exhausted),
+                        ],
+                        ['Winner', winner?.text ?? 'No winner (tie)'],
+                    );
+                }
+
+                return {
+                    filename: `poll-${poll.id}-results.csv`,
+                    csv: rows
+                        .map((row) => row.map(csvCell).join(','))
+                        .join('\n'),
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error exporting poll results:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to export poll results',
+                });
+            }
+        }),
+
     // Close a poll (admin/creator only)
     closePoll: authProcedure
         .input(z.object({ pollId: z.number() }))
@@ -350,64 +452,151 @@ export const pollProcedures = {
                 });
             }
 
-            // Check permissions
-            const isAuthor = poll.post.authorId === userId;
-            const isSuperAdmin = ctx.session.user.appRole === 'admin';
-            const isOrgAdmin = poll.post.community?.orgId
-                ? isOrgAdminForCommunity(
-                      ctx.session.user,
-                      poll.post.community.orgId,
-                  )
-                : false;
-
-            if (!isAuthor && !isSuperAdmin && !isOrgAdmin) {
-                // Check community permissions
-                if (poll.post.communityId) {
-                    const membership =
-                        await db.query.communityMembers.findFirst({
-                            where: and(
-                                eq(communityMembers.userId, userId),
-                                eq(
-                                    communityMembers.communityId,
-                                    poll.post.communityId,
-                                ),
-                                eq(communityMembers.membershipType, 'member'),
-                                eq(communityMembers.status, 'active'),
-                            ),
-                        });
-
-                    if (
-                        !membership ||
-                        !['admin', 'moderator'].includes(membership.role)
-                    ) {
-                        throw new TRPCError({
-                            code: 'FORBIDDEN',
-                            message:
-                                'You do not have permission to close this poll',
-                        });
-                    }
-                } else {
-                    throw new TRPCError({
-                        code: 'FORBIDDEN',
-                        message:
-                            'You do not have permission to close this poll',
-                    });
-                }
+            if (!(await canManagePoll(poll.post, ctx.session.user))) {
+                throw new TRPCError({
+                    code: 'FORBIDDEN',
+                    message: 'You do not have permission to close this poll',
+                });
             }
 
-            // Close the poll
-            await db
+            // Close the poll. Only notify if this call closed it, since the
+            // expiry job may have got there first.
+            const [closed] = await db
                 .update(polls)
                 .set({
                     isClosed: true,
                     updatedAt: new Date(),
                 })
-                .where(eq(polls.id, input.pollId));
+                .where(
+                    and(eq(polls.id, input.pollId), eq(polls.isClosed, false)),
+                )
+                .returning({ id: polls.id });
+
+            if (closed) {
+                await notifyPollClosed(poll, userId);
+            }
 
             return { success: true };
         }),
 };
 
+const isPollOpen = (poll: { isClosed: boolean; expiresAt: Date | null }) =>
+    !poll.isClosed && !(poll.expiresAt && poll.expiresAt < new Date());
+
+const percentageOf = (count: number, total: number) =>
+    total > 0 ? Math.round((count / total) * 100) : 0;
+
+// Quote cells that need it, and keep option text from being read as a
+// spreadsheet formula
+function csvCell(value: string | number) {
+    let cell = String(value);
+    if (/^[=+\-@]/.test(cell)) cell = `'${cell}`;
+    return /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+// The vote rows of one ballot. Ranked ballots keep their preference order;
+// anonymous ballots get no timestamp.
+function ballotRows(
+    poll: { id: number; pollType: string },
+    optionIds: number[],
+    userId: string | null,
+) {
+    const ballotId = randomUUID();
+    return optionIds.map((optionId, index) => ({
+        pollId: poll.id,
+        pollOptionId: optionId,
+        userId,
+        ballotId,
+        rank: poll.pollType === 'ranked' ? index + 1 : null,
+        createdAt: userId ? new Date() : null,
+    }));
+}
+
+// Votes per option, plus the instant-runoff rounds for ranked polls. Ranked
+// polls count first preferences, so their total is the number of ballots.
+async function tallyPoll(poll: {
+    id: number;
+    pollType: string;
+    options: { id: number }[];
+}) {
+    const votes = await db
+        .select({
+            optionId: pollVotes.pollOptionId,
+            ballotId: pollVotes.ballotId,
+            rank: pollVotes.rank,
+        })
+        .from(pollVotes)
+        .where(eq(pollVotes.pollId, poll.id));
+
+    const isRanked = poll.pollType === 'ranked';
+    const counts = new Map<number, number>();
+    for (const vote of votes) {
+        if (isRanked && vote.rank !== 1) continue;
+        counts.set(vote.optionId, (counts.get(vote.optionId) ?? 0) + 1);
+    }
+    const totalVotes = [...counts.values()].reduce(
+        (sum, voteCount) => sum + voteCount,
+        0,
+    );
+
+    if (!isRanked) return { counts, totalVotes, runoff: null };
+
+    const ballots = new Map<string, { optionId: number; rank: number }[]>();
+    for (const vote of votes) {
+        if (!vote.ballotId || vote.rank === null) continue;
+        const ballot = ballots.get(vote.ballotId) ?? [];
+        ballot.push({ optionId: vote.optionId, rank: vote.rank });
+        ballots.set(vote.ballotId, ballot);
+    }
+
+    const runoff = tallyInstantRunoff(
+        poll.options.map((option) => option.id),
+        [...ballots.values()].map((ballot) =>
+            ballot
+                .sort((a, b) => a.rank - b.rank)
+                .map((choice) => choice.optionId),
+        ),
+    );
+
+    return { counts, totalVotes, runoff };
+}
+
+// The post's author, super admins, org admins and the community's admins and
+// moderators can create, close and export a poll, and always see its results
+async function canManagePoll(
+    post: {
+        authorId: string;
+        communityId: number | null;
+        community: { orgId: string | null } | null;
+    },
+    user: {
+        id: string;
+        appRole?: string | null;
+        role?: string | null;
+        orgId?: string | null;
+    },
+): Promise<boolean> {
+    if (post.authorId === user.id || user.appRole === 'admin') return true;
+    if (
+        post.community?.orgId &&
+        isOrgAdminForCommunity(user, post.community.orgId)
+    ) {
+        return true;
+    }
+    if (!post.communityId) return false;
+
+    const membership = await db.query.communityMembers.findFirst({
+        where: and(
+            eq(communityMembers.userId, user.id),
+            eq(communityMembers.communityId, post.communityId),
+            eq(communityMembers.membershipType, 'member'),
+            eq(communityMembers.status, 'active'),
+        ),
+    });
+
+    return !!membership && ['admin', 'moderator'].includes(membership.role);
+}
+
 // Helper function to check poll voting permissions
 async function checkPollVotingPermission(
     post: any,
@@ -4,24 +4,35 @@ import { db } from '@/server/db';
 import { TRPCError } from '@trpc/server';
 import {
     posts,
-    users,
-    communities,
-    communityMembers,
-    tags,
     postTags,
-    attachments,
     polls,
     pollOptions,
     pollVotes,
+    postRevisions,
+    communityMembers,
+    moderationActions,
 } from '@/server/db/schema';
-import { and, eq, isNull, gte, inArray } from 'drizzle-orm';
+import { and, eq, inArray } from 'drizzle-orm';
+import { isOrgAdminForCommunity } from '@/lib/utils';
+import { POLL_RESULT_VISIBILITY, POLL_TYPES } from '@/lib/polls';
 import { ServerPermissions } from '@/server/utils/permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
-import { isOrgAdminForCommunity } from '@/lib/utils';
 import {
-    sendCommunityPostNotification,
-    saveCommunityPostNotifications,
-} from '@/lib/community-notifications';
+    extractMentionedUserIds,
+    syncMentions,
+} from '@/server/trpc/services/mention-service';
+import { createPostForUser } from '@/server/trpc/services/post-service';
+import { unfurlContentLink } from '@/server/trpc/services/link-unfurl-service';
+import { evaluateUserBadgeRules } from '@/server/trpc/services/badge-rule-service';
+import {
+    getPostRevisions,
+    recordPostRevision,
+} from '@/server/trpc/services/post-revision-service';
+import { canModerateContent } from '@/server/trpc/services/moderation-service';
+import {
+    claimPendingUploads,
+    getOwnDraft,
+} from '@/server/trpc/services/post-draft-service';
 
 export const postProcedures = {
     // Create a new post
@@ -37,7 +48,11 @@ export const postProcedures = {
                     poll: z
                         .object({
                             question: z.string().min(1).max(200),
-                            pollType: z.enum(['single', 'multiple']),
+                            pollType: z.enum(POLL_TYPES),
+                            isAnonymous: z.boolean().default(false),
+                            resultsVisibility: z
+                                .enum(POLL_RESULT_VISIBILITY)
+                                .default('always'),
                             options: z
                                 .array(z.string().min(1).max(100))
                                 .min(2)
@@ -51,6 +66,8 @@ export const postProcedures = {
                             allowEditsUntil: z.date().optional(),
                         })
                         .optional(),
+                    isAnnouncement: z.boolean().optional(),
+                    draftId: z.number().optional(),
                 })
                 .refine(
                     (data) => {
@@ -64,326 +81,21 @@ export const postProcedures = {
         )
         .mutation(async ({ input, ctx }) => {
             try {
-                // Always fetch user details from DB
-                const user = await db.query.users.findFirst({
-                    where: eq(users.id, ctx.session?.user?.id ?? ''),
-                });
-
-                if (!user) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: 'User not found.',
-                    });
-                }
-
-                // Super admins don't need an orgId
-                const isSuperAdmin = user.appRole === 'admin';
-                const orgId = user.orgId;
-
-                if (!isSuperAdmin && !orgId) {
-                    throw new TRPCError({
-                        code: 'UNAUTHORIZED',
-                        message: 'User does not have an organization.',
-                    });
-                }
-
-                // If communityId is provided, verify the community exists and user has access
-                if (input.communityId) {
-                    const community = await db.query.communities.findFirst({
-                        where: eq(communities.id, input.communityId),
-                        with: {
-                            members: {
-                                where: eq(
-                                    communityMembers.userId,
-                                    ctx.session?.user?.id ?? '',
-                                ),
-                            },
-                        },
-                    });
-
-                    if (!community) {
-                        throw new TRPCError({
-                            code: 'NOT_FOUND',
-                            message: 'Community not found',
-                        });
-                    }
-
-                    // Check if user is a member, regardless of community type
-                    const userMembership = community.members.find(
-                        (m) =>
-                            m.membershipType === 'member' &&
-                            m.status === 'active',
-                    );
-
-                    // --- PERMISSION OVERRIDES ---
-                    // Check if user is org admin for this community
-                    const isOrgAdminForCommunityCheck = isOrgAdminForCommunity(
-                        { role: user.role, orgId: user.orgId },
-                        community.orgId,
+                const { draftId, ...postInput } = input;
+
+                // Publishing a draft also publishes anything uploaded since
+                // its last autosave
+                if (draftId) {
+                    const draft = await getOwnDraft(
+                        ctx.session.user.id,
+                        draftId,
                     );
-
-                    // Super admins can create posts in ANY community across all organizations
-                    // Org admins can create posts in ANY community within their organization
-                    if (isSuperAdmin) {
-                        // Super admin can create posts anywhere - skip all checks
-                    } else if (isOrgAdminForCommunityCheck) {
-                        // Org admin can create posts in their org's communities - skip membership check
-                    } else if (!userMembership) {
-                        throw new TRPCError({
-                            code: 'FORBIDDEN',
-                            message:
-                                'You must be a member to post in this community',
-                        });
-                    }
-
-                    // Check if user's role meets the minimum requirement for post creation
-                    // Super admins and org admins bypass role hierarchy checks
-                    if (!isSuperAdmin && !isOrgAdminForCommunityCheck) {
-                        const userRole = userMembership?.role || 'member';
-                        const minRole = community.postCreationMinRole;
-
-                        // Define role hierarchy (higher number = higher privilege)
-                        const roleHierarchy = {
-                            member: 1,
-                            moderator: 2,
-                            admin: 3,
-                        };
-
-                        const userRoleLevel =
-                            roleHierarchy[
-                                userRole as keyof typeof roleHierarchy
-                            ] || 0;
-                        const minRoleLevel =
-                            roleHierarchy[
-                                minRole as keyof typeof roleHierarchy
-                            ] || 1;
-
-                        if (userRoleLevel < minRoleLevel) {
-                            const roleDisplay = {
-                                member: 'members',
-                                moderator: 'moderators and admins',
-                                admin: 'admins',
-                            };
-
-                            throw new TRPCError({
-                                code: 'FORBIDDEN',
-                                message: `Only ${roleDisplay[minRole as keyof typeof roleDisplay]} can create posts in this community`,
-                            });
-                        }
-                    }
-
-                    // If tagIds are provided, verify they belong to the community
-                    if (input.tagIds && input.tagIds.length > 0) {
-                        const communityTags = await db.query.tags.findMany({
-                            where: and(
-                                eq(tags.communityId, input.communityId),
-                                inArray(tags.id, input.tagIds),
-                            ),
-                        });
-
-                        if (communityTags.length !== input.tagIds.length) {
-                            throw new TRPCError({
-                                code: 'BAD_REQUEST',
-                                message:
-                                    'Some tags do not belong to this community',
-                            });
-                        }
-                    }
+                    await claimPendingUploads(ctx.session.user.id, draft);
                 }
 
-                // Determine if there are any recent, unlinked attachments from this user
-                const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-                const baseAttachmentConds = [
-                    eq(attachments.uploadedBy, ctx.session?.user?.id ?? ''),
-                    isNull(attachments.postId),
-                    gte(attachments.createdAt, oneHourAgo),
-                ];
-                if (input.communityId) {
-                    baseAttachmentConds.push(
-                        eq(attachments.communityId, input.communityId),
-                    );
-                }
-                const pendingAttachments = await db.query.attachments.findMany({
-                    where: and(...baseAttachmentConds),
-                });
-
-                // Allow media-only posts if there are pending attachments
-                // Also allow polls without content
-                const textOnlyContent = (input.content || '')
-                    .replace(/<[^>]*>/g, '')
-                    .trim();
-                const hasPoll =
-                    input.poll &&
-                    input.poll.question.trim() &&
-                    input.poll.options.length > 0;
-
-                if (
-                    !textOnlyContent &&
-                    pendingAttachments.length === 0 &&
-                    !hasPoll
-                ) {
-                    throw new TRPCError({
-                        code: 'BAD_REQUEST',
-                        message:
-                            'Post must have text content, at least one image/video, or a poll.',
-                    });
-                }
-
-                // Determine the post title
-                const postTitle =
-                    input.title?.trim() ||
-                    (input.poll ? input.poll.question.trim() : 'Untitled Post');
-
-                // Use a transaction to create post and link tags
-                const result = await db.transaction(async (tx) => {
-                    // Determine the orgId for the post
-                    // For super admins posting in communities, use the community's orgId
-                    // For regular users, use their own orgId
-                    let postOrgId = orgId;
-                    if (isSuperAdmin && input.communityId) {
-                        // For super admins, get the community's orgId
-                        const community = await tx.query.communities.findFirst({
-                            where: eq(communities.id, input.communityId),
-                            columns: { orgId: true },
-                        });
-                        postOrgId = community?.orgId || orgId;
-                    }
-
-                    // Ensure we have a valid orgId
-                    if (!postOrgId) {
-                        throw new TRPCError({
-                            code: 'BAD_REQUEST',
-                            message:
-                                'Unable to determine organization for post creation',
-                        });
-                    }
-
-                    // Create the post
-                    const [post] = await tx
-                        .insert(posts)
-                        .values({
-                            title: postTitle,
-                            content: input.content,
-                            authorId: ctx.session?.user?.id ?? '',
-                            orgId: postOrgId,
-                            communityId: input.communityId || null,
-                            visibility: input.communityId
-                                ? 'community'
-                                : 'public',
-                            createdAt: new Date(),
-                            updatedAt: new Date(),
-                        })
-                        .returning();
-
-                    // Link the post with tags if any are provided
-                    if (input.tagIds && input.tagIds.length > 0) {
-                        const postTagValues = input.tagIds.map((tagId) => ({
-                            postId: post.id,
-                            tagId: tagId,
-                        }));
-
-                        await tx.insert(postTags).values(postTagValues);
-                    }
-
-                    // Link any pending attachments to this new post
-                    await tx
-                        .update(attachments)
-                        .set({ postId: post.id, updatedAt: new Date() })
-                        .where(and(...baseAttachmentConds));
-
-                    // Create poll if provided
-                    let poll = null;
-                    if (input.poll) {
-                        const [createdPoll] = await tx
-                            .insert(polls)
-                            .values({
-                                postId: post.id,
-                                question: input.poll.question,
-                                pollType: input.poll.pollType,
-                                expiresAt: input.poll.expiresAt || null,
-                                createdAt: new Date(),
-                                updatedAt: new Date(),
-                            })
-                            .returning();
-
-                        // Create poll options
-                        const options = input.poll.options.map(
-                            (text, index) => ({
-                                pollId: createdPoll.id,
-                                text,
-                                orderIndex: index,
-                                createdAt: new Date(),
-                            }),
-                        );
-
-                        await tx.insert(pollOptions).values(options);
-                        poll = createdPoll;
-                    }
-
-                    // Create Q&A configuration if provided
-                    if (input.qa) {
-                        const { qaQuestions } = await import(
-                            '@/server/db/schema'
-                        );
-                        await tx.insert(qaQuestions).values({
-                            postId: post.id,
-                            answersVisibleAt: input.qa.answersVisibleAt || null,
-                            allowEditsUntil: input.qa.allowEditsUntil || null,
-                            createdAt: new Date(),
-                            updatedAt: new Date(),
-                        });
-                    }
-
-                    return { post, poll };
+                return await createPostForUser(ctx.session.user.id, postInput, {
+                    draftId,
                 });
-
-                // Send notifications if post is in a community
-                if (input.communityId) {
-                    try {
-                        // Get community and author details for notification
-                        const [community, author] = await Promise.all([
-                            db.query.communities.findFirst({
-                                where: eq(communities.id, input.communityId),
-                            }),
-                            db.query.users.findFirst({
-                                where: eq(
-                                    users.id,
-                                    ctx.session?.user?.id ?? '',
-                                ),
-                            }),
-                        ]);
-
-                        if (community && author) {
-                            // Send push notifications
-                            await sendCommunityPostNotification(
-                                input.communityId,
-                                postTitle,
-                                author.name || 'Unknown User',
-                                community.name,
-                                result.post.id,
-                                ctx.session?.user?.id ?? '', // Pass authorId to exclude post creator
-                            );
-
-                            // Save notifications to database for all eligible users
-                            await saveCommunityPostNotifications(
-                                postTitle,
-                                author.name || 'Unknown User',
-                                community.name,
-                                result.post.id,
-                                input.communityId,
-                                ctx.session?.user?.id ?? '', // Pass authorId to exclude post creator
-                            );
-                        }
-                    } catch (notificationError) {
-                        // Log error but don't fail the post creation
-                        console.error(
-                            'Error sending notifications:',
-                            notificationError,
-                        );
-                    }
-                }
-
-                return result.post;
             } catch (error) {
                 console.error('Error creating post:', error);
                 throw new TRPCError({
@@ -405,7 +117,11 @@ export const postProcedures = {
                     poll: z
                         .object({
                             question: z.string().min(1).max(500),
-                            pollType: z.enum(['single', 'multiple']),
+                            pollType: z.enum(POLL_TYPES),
+                            isAnonymous: z.boolean().default(false),
+                            resultsVisibility: z
+                                .enum(POLL_RESULT_VISIBILITY)
+                                .default('always'),
                             // For edit, allow granular updates: options can be strings or { id?, text }
                             options: z
                                 .array(
@@ -475,21 +191,59 @@ export const postProcedures = {
                     });
                 }
 
+                // Ballots already cast only make sense for the poll type and
+                // anonymity they were cast under
+                if (input.poll) {
+                    const currentPoll = await db.query.polls.findFirst({
+                        where: eq(polls.postId, input.postId),
+                        with: { votes: { columns: { id: true }, limit: 1 } },
+                    });
+                    if (
+                        currentPoll &&
+                        currentPoll.votes.length > 0 &&
+                        (currentPoll.pollType !== input.poll.pollType ||
+                            currentPoll.isAnonymous !== input.poll.isAnonymous)
+                    ) {
+                        throw new TRPCError({
+                            code: 'BAD_REQUEST',
+                            message:
+                                'Cannot change the poll type or anonymity after votes have been cast',
+                        });
+                    }
+                }
+
                 // Determine the post title
                 const postTitle =
                     input.title?.trim() ||
                     (input.poll ? input.poll.question.trim() : 'Untitled Post');
 
-                // Update post content/title
-                const [updatedPost] = await db
-                    .update(posts)
-                    .set({
-                        title: postTitle,
-                        content: input.content,
-                        updatedAt: new Date(),
-                    })
-                    .where(eq(posts.id, input.postId))
-                    .returning();
+                const linkPreview =
+                    input.content === post.content
+                        ? post.linkPreview
+                        : await unfurlContentLink(input.content);
+
+                // Update post content/title, keeping the previous version
+                const updatedPost = await db.transaction(async (tx) => {
+                    const isRevised = await recordPostRevision(
+                        tx,
+                        post,
+                        { title: postTitle, content: input.content },
+                        ctx.session.user.id,
+                    );
+
+                    const [updated] = await tx
+                        .update(posts)
+                        .set({
+                            title: postTitle,
+                            content: input.content,
+                            linkPreview,
+                            ...(isRevised && { editedAt: new Date() }),
+                            updatedAt: new Date(),
+                        })
+                        .where(eq(posts.id, input.postId))
+                        .returning();
+                    return updated;
+                });
 
                 // Handle poll update if provided
                 if (input.poll) {
@@ -505,6 +259,8 @@ export const postProcedures = {
                             .set({
                                 question: input.poll.question.trim(),
                                 pollType: input.poll.pollType,
+                                isAnonymous: input.poll.isAnonymous,
+                                resultsVisibility: input.poll.resultsVisibility,
                                 expiresAt: input.poll.expiresAt || null,
                                 updatedAt: new Date(),
                             })
@@ -607,6 +363,8 @@ export const postProcedures = {
                                 postId: input.postId,
                                 question: input.poll.question.trim(),
                                 pollType: input.poll.pollType,
+                                isAnonymous: input.poll.isAnonymous,
+                                resultsVisibility: input.poll.resultsVisibility,
                                 expiresAt: input.poll.expiresAt || null,
                                 isClosed: false,
                                 createdAt: new Date(),
@@ -647,6 +405,13 @@ export const postProcedures = {
                     }
                 }
 
+                await syncMentions({
+                    authorId: ctx.session.user.id,
+                    source: { type: 'post', postId: input.postId },
+                    mentionedUserIds: extractMentionedUserIds(input.content),
+                    preview: postTitle,
+                });
+
                 return updatedPost;
             } catch (error) {
                 if (error instanceof TRPCError) {
@@ -724,6 +489,7 @@ export const postProcedures = {
                     })
                     .where(eq(posts.id, input.postId))
                     .returning();
+                await evaluateUserBadgeRules(postToDelete.authorId, ['posts']);
 
                 return updatedPost;
             } catch (error) {
@@ -737,4 +503,194 @@ export const postProcedures = {
                 });
             }
         }),
+
+    // Revision history of a post's title and content, oldest first
+    getPostRevisions: authProcedure
+        .input(z.object({ postId: z.number() }))
+        .query(async ({ input, ctx }) => {
+            try {
+                const post = await db.query.posts.findFirst({
+                    where: eq(posts.id, input.postId),
+                    with: { community: true },
+                });
+
+                if (!post || post.isDeleted) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Post not found',
+                    });
+                }
+
+                // Same visibility rules as viewing the post itself
+                if (post.communityId && post.community?.type === 'private') {
+                    const membership =
+                        await db.query.communityMembers.findFirst({
+                            where: and(
+                                eq(
+                                    communityMembers.userId,
+                                    ctx.session.user.id,
+                                ),
+                                eq(
+                                    communityMembers.communityId,
+                                    post.communityId,
+                                ),
+                                eq(communityMembers.status, 'active'),
+                            ),
+                        });
+
+                    if (
+                        !membership &&
+                        !isOrgAdminForCommunity(
+                            ctx.session.user,
+                            post.community.orgId,
+                        )
+                    ) {
+                        throw new TRPCError({
+                            code: 'FORBIDDEN',
+                            message:
+                                'You must be a member of this community to view this post',
+                        });
+                    }
+                }
+
+                const canModerate = await canModerateContent(
+                    ctx.session.user.id,
+                    { communityId: post.communityId, orgId: post.orgId },
+                );
+
+                if (
+                    post.isHidden &&
+                    post.authorId !== ctx.session.user.id &&
+                    !canModerate
+                ) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message: 'This post has been hidden by moderators',
+                    });
+                }
+
+                const revisions = await getPostRevisions(post.id);
+                return { revisions, canRestore: canModerate };
+            } catch (error) {
+                if (error instanceof TRPCError) {
+                    throw error;
+                }
+                console.error('Error fetching post revisions:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch post revisions',
+                });
+            }
+        }),
+
+    // Moderators can bring back an earlier version of a post
+    restorePostRevision: authProcedure
+        .input(z.object({ postId: z.number(), revisionId: z.number() }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const post = await db.query.posts.findFirst({
+                    where: eq(posts.id, input.postId),
+                });
+
+                if (!post || post.isDeleted) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Post not found',
+                    });
+                }
+
+                const canModerate = await canModerateContent(
+                    ctx.session.user.id,
+                    { communityId: post.communityId, orgId: post.orgId },
+                );
+                if (!canModerate) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message: 'Only moderators can restore a revision',
+                    });
+                }
+
+                const revision = await db.query.postRevisions.findFirst({
+                    where: and(
+                        eq(postRevisions.id, input.revisionId),
+                        eq(postRevisions.postId, post.id),
+                    ),
+                });
+
+                if (!revision) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Revision not found',
+                    });
+                }
+
+                const linkPreview =
+                    revision.content === post.content
+                        ? post.linkPreview
+                        : await unfurlContentLink(revision.content);
+
+                const updatedPost = await db.transaction(async (tx) => {
+                    const isRevised = await recordPostRevision(
+                        tx,
+                        post,
+                        { title: revision.title, content: revision.content },
+                        ctx.session.user.id,
+                        revision.id,
+                    );
+
+                    if (!isRevised) {
+                        throw new TRPCError({
+                            code: 'BAD_REQUEST',
+                            message: 'This revision is already the current one',
+                        });
+                    }
+
+                    const [updated] = await tx
+                        .update(posts)
+                        .set({
+                            title: revision.title,
+                            content: revision.content,
+                            linkPreview,
+                            editedAt: new Date(),
+                            updatedAt: new Date(),
+                        })
+                        .where(eq(posts.id, post.id))
+                        .returning();
+
+                    // Show up in the community's moderation log
+                    if (post.authorId !== ctx.session.user.id) {
+                        await tx.insert(moderationActions).values({
+                            targetType: 'post',
+                            targetId: post.id,
+                            postId: post.id,
+                            communityId: post.communityId,
+                            orgId: post.orgId,
+                            moderatorId: ctx.session.user.id,
+                            targetAuthorId: post.authorId,
+                            action: 'restore_revision',
+                        });
+                    }
+
+                    return updated;
+                });
+
+                await syncMentions({
+                    authorId: post.authorId,
+                    source: { type: 'post', postId: post.id },
+                    mentionedUserIds: extractMentionedUserIds(revision.content),
+                    preview: revision.title,
+                });
+
+                return updatedPost;
+            } catch (error) {
+                if (error instanceof TRPCError) {
+                    throw error;
+                }
+                console.error('Error restoring post revision:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to restore post revision',
+                });
+            }
+        }),
 };
@@ -2,7 +2,7 @@ import { z } from 'zod';
 import { authProcedure, publicProcedure } from '../trpc';
 import { db } from '@/server/db';
 import { TRPCError } from '@trpc/server';
-import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { and, desc, eq, inArray, or, sql } from 'drizzle-orm';
 import {
     posts,
     users,
@@ -16,11 +16,25 @@ import {
 } from '@/server/db/schema';
 import { isOrgAdminForCommunity } from '@/lib/utils';
 import { sanitizeHtml } from '@/lib/sanitize-server';
+import { assertNotMuted } from '@/server/trpc/services/community-restriction-service';
+import { dispatchNotification } from '@/lib/notification-dispatch';
+import { evaluateUserBadgeRules } from '@/server/trpc/services/badge-rule-service';
 
 function now() {
     return new Date();
 }
 
+// Helpful votes count towards the answer author's badges
+async function evaluateAnswerAuthorBadges(answerId: number) {
+    const answer = await db.query.qaAnswers.findFirst({
+        where: eq(qaAnswers.id, answerId),
+        columns: { authorId: true },
+    });
+    if (answer) {
+        await evaluateUserBadgeRules(answer.authorId, ['helpful_answers']);
+    }
+}
+
 function canSeeAllPreDeadline(user: any, post: any) {
     if (!user || !post) return false;
     if (user.appRole === 'admin') return true; // super admin
@@ -71,6 +85,10 @@ export const qaProcedures = {
                     message: 'Post not found',
                 });
 
+            if (post.communityId) {
+                await assertNotMuted(post.communityId, userId);
+            }
+
             const q = await db.query.qaQuestions.findFirst({
                 where: eq(qaQuestions.postId, input.postId),
             });
@@ -133,6 +151,29 @@ export const qaProcedures = {
                     updatedAt: now(),
                 })
                 .returning();
+
+            // Only first answers notify; edits above return early
+            if (post.authorId !== userId) {
+                const author = await db.query.users.findFirst({
+                    where: eq(users.id, userId),
+                    columns: { name: true },
+                });
+                await dispatchNotification([post.authorId], {
+                    event: 'qa_answer',
+                    title: `${author?.name || 'Someone'} answered your question`,
+                    body: post.title,
+                    url: post.community
+                        ? `/communities/${post.community.slug}/posts/${post.id}`
+                        : `/posts/${post.id}`,
+                    data: {
+                        postId: post.id,
+                        answerId: created.id,
+                        communityId: post.communityId,
+                        communitySlug: post.community?.slug ?? null,
+                    },
+                });
+            }
+
             return created;
         }),
 
@@ -165,20 +206,21 @@ export const qaProcedures = {
                 : null;
             const reveal = !visibleAt || now() >= visibleAt;
             if (reveal) {
+                // Answers hidden by moderators are only shown to their author
+                const visibleAnswers = and(
+                    eq(qaAnswers.postId, input.postId),
+                    eq(qaAnswers.isDeleted, false),
+                    or(
+                        eq(qaAnswers.isHidden, false),
+                        eq(qaAnswers.authorId, userId),
+                    ),
+                );
                 const totalCount = await db
                     .select({ c: sql<number>`count(*)` })
                     .from(qaAnswers)
-                    .where(
-                        and(
-                            eq(qaAnswers.postId, input.postId),
-                            eq(qaAnswers.isDeleted, false),
-                        ),
-                    );
+                    .where(visibleAnswers);
                 const answers = await db.query.qaAnswers.findMany({
-                    where: and(
-                        eq(qaAnswers.postId, input.postId),
-                        eq(qaAnswers.isDeleted, false),
-                    ),
+                    where: visibleAnswers,
                     with: { author: true },
                     orderBy: [desc(qaAnswers.createdAt)],
                     limit: input.limit,
@@ -284,6 +326,7 @@ export const qaProcedures = {
                     createdAt: now(),
                 });
             } catch {}
+            await evaluateAnswerAuthorBadges(input.answerId);
             return { success: true };
         }),
 
@@ -299,6 +342,7 @@ export const qaProcedures = {
                         eq(qaAnswerHelpful.userId, userId),
                     ),
                 );
+            await evaluateAnswerAuthorBadges(input.answerId);
             return { success: true };
         }),
 
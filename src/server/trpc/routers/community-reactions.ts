@@ -3,7 +3,119 @@ import { authProcedure, publicProcedure } from '../trpc';
 import { db } from '@/server/db';
 import { TRPCError } from '@trpc/server';
 import { and, count, desc, eq, inArray } from 'drizzle-orm';
-import { reactions, posts } from '@/server/db/schema';
+import {
+    reactions,
+    posts,
+    comments,
+    commentReactions,
+    users,
+} from '@/server/db/schema';
+import {
+    REACTION_TYPES,
+    type ReactionSummary,
+    type ReactionType,
+} from '@/lib/reactions';
+import { assertCanReadPost } from '../services/post-access-service';
+
+// "Who reacted" lists stop here; the summary counts still cover everyone
+const MAX_REACTORS = 200;
+
+// Builds a summary per id from per-type counts and the viewer's reactions
+function toSummaries(
+    ids: number[],
+    counts: { targetId: number; type: string; count: number }[],
+    mine: { targetId: number; type: string }[],
+) {
+    const summaries: Record<number, ReactionSummary> = {};
+    for (const id of ids) {
+        summaries[id] = { counts: {}, total: 0, mine: [] };
+    }
+    for (const row of counts) {
+        const summary = summaries[row.targetId];
+        if (!summary) continue;
+        summary.counts[row.type as ReactionType] = row.count;
+        summary.total += row.count;
+    }
+    for (const row of mine) {
+        summaries[row.targetId]?.mine.push(row.type as ReactionType);
+    }
+    return summaries;
+}
+
+async function getPostSummaries(postIds: number[], userId?: string) {
+    if (postIds.length === 0) return {} as Record<number, ReactionSummary>;
+
+    const [counts, mine] = await Promise.all([
+        db
+            .select({
+                targetId: reactions.postId,
+                type: reactions.type,
+                count: count(),
+            })
+            .from(reactions)
+            .where(
+                and(
+                    inArray(reactions.postId, postIds),
+                    inArray(reactions.type, [...REACTION_TYPES]),
+                ),
+            )
+            .groupBy(reactions.postId, reactions.type),
+        userId
+            ? db
+                  .select({ targetId: reactions.postId, type: reactions.type })
+                  .from(reactions)
+                  .where(
+                      and(
+                          inArray(reactions.postId, postIds),
+                          eq(reactions.userId, userId),
+                          inArray(reactions.type, [...REACTION_TYPES]),
+                      ),
+                  )
+            : Promise.resolve([]),
+    ]);
+
+    return toSummaries(postIds, counts, mine);
+}
+
+async function getCommentSummaries(commentIds: number[], userId?: string) {
+    if (commentIds.length === 0) {
+        return {} as Record<number, ReactionSummary>;
+    }
+
+    const [counts, mine] = await Promise.all([
+        db
+            .select({
+                targetId: commentReactions.commentId,
+                type: commentReactions.type,
+                count: count(),
+            })
+            .from(commentReactions)
+            .where(
+                and(
+                    inArray(commentReactions.commentId, commentIds),
+                    inArray(commentReactions.type, [...REACTION_TYPES]),
+                ),
+            )
+            .groupBy(commentReactions.commentId, commentReactions.type),
+        userId
+            ? db
+                  .select({
+                      targetId: commentReactions.commentId,
+                      type: commentReactions.type,
+                  })
+                  .from(commentReactions)
+                  .where(
+                      and(
+                          inArray(commentReactions.commentId, commentIds),
+                          eq(commentReactions.userId, userId),
+                          inArray(commentReactions.type, [...REACTION_TYPES]),
+                      ),
+                  )
+            : Promise.resolve([]),
+    ]);
+
+    return toSummaries(commentIds, counts, mine);
+}
 
 export const reactionProcedures = {
     // Like a post
@@ -224,4 +336,252 @@ export const reactionProcedures = {
                 });
             }
         }),
+
+    // Add or remove one of the viewer's reactions on a post
+    togglePostReaction: authProcedure
+        .input(z.object({ postId: z.number(), type: z.enum(REACTION_TYPES) }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const userId = ctx.session.user.id;
+                const post = await db.query.posts.findFirst({
+                    where: and(
+                        eq(posts.id, input.postId),
+                        eq(posts.isDeleted, false),
+                    ),
+                    columns: { id: true },
+                });
+
+                if (!post) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Post not found',
+                    });
+                }
+                await assertCanReadPost(ctx.session.user, post.id);
+
+                const removed = await db
+                    .delete(reactions)
+                    .where(
+                        and(
+                            eq(reactions.postId, post.id),
+                            eq(reactions.userId, userId),
+                            eq(reactions.type, input.type),
+                        ),
+                    )
+                    .returning();
+
+                if (removed.length === 0) {
+                    await db
+                        .insert(reactions)
+                        .values({ postId: post.id, userId, type: input.type })
+                        .onConflictDoNothing();
+                }
+
+                const summaries = await getPostSummaries([post.id], userId);
+                return {
+                    reacted: removed.length === 0,
+                    summary: summaries[post.id]!,
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error reacting to post:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to update reaction',
+                });
+            }
+        }),
+
+    // Reaction counts per type for posts, with the viewer's own reactions
+    getPostReactionSummaries: publicProcedure
+        .input(z.object({ postIds: z.array(z.number()) }))
+        .query(async ({ input, ctx }) => {
+            try {
+                return await getPostSummaries(
+                    input.postIds,
+                    ctx.session?.user?.id,
+                );
+            } catch (error) {
+                console.error('Error getting post reactions:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to get post reactions',
+                });
+            }
+        }),
+
+    // Who reacted to a post, newest first, optionally for one type
+    getPostReactors: authProcedure
+        .input(
+            z.object({
+                postId: z.number(),
+                type: z.enum(REACTION_TYPES).optional(),
+            }),
+        )
+        .query(async ({ input, ctx }) => {
+            try {
+                await assertCanReadPost(ctx.session.user, input.postId);
+                return await db
+                    .select({
+                        type: reactions.type,
+                        createdAt: reactions.createdAt,
+                        user: {
+                            id: users.id,
+                            name: users.name,
+                            image: users.image,
+                        },
+                    })
+                    .from(reactions)
+                    .innerJoin(users, eq(users.id, reactions.userId))
+                    .where(
+                        and(
+                            eq(reactions.postId, input.postId),
+                            input.type
+                                ? eq(reactions.type, input.type)
+                                : inArray(reactions.type, [...REACTION_TYPES]),
+                        ),
+                    )
+                    .orderBy(desc(reactions.createdAt))
+                    .limit(MAX_REACTORS);
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error getting post reactors:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to get reactions',
+                });
+            }
+        }),
+
+    // Add or remove one of the viewer's reactions on a comment
+    toggleCommentReaction: authProcedure
+        .input(
+            z.object({ commentId: z.number(), type: z.enum(REACTION_TYPES) }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const userId = ctx.session.user.id;
+                const comment = await db.query.comments.findFirst({
+                    where: and(
+                        eq(comments.id, input.commentId),
+                        eq(comments.isDeleted, false),
+                    ),
+                    columns: { id: true, postId: true },
+                });
+
+                if (!comment) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Comment not found',
+                    });
+                }
+                await assertCanReadPost(ctx.session.user, comment.postId);
+
+                const removed = await db
+                    .delete(commentReactions)
+                    .where(
+                        and(
+                            eq(commentReactions.commentId, comment.id),
+                            eq(commentReactions.userId, userId),
+                            eq(commentReactions.type, input.type),
+                        ),
+                    )
+                    .returning();
+
+                if (removed.length === 0) {
+                    await db
+                        .insert(commentReactions)
+                        .values({
+                            commentId: comment.id,
+                            userId,
+                            type: input.type,
+                        })
+                        .onConflictDoNothing();
+                }
+
+                return { reacted: removed.length === 0 };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error reacting to comment:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to update reaction',
+                });
+            }
+        }),
+
+    // Reaction counts per type for comments, with the viewer's own reactions
+    getCommentReactionSummaries: publicProcedure
+        .input(z.object({ commentIds: z.array(z.number()) }))
+        .query(async ({ input, ctx }) => {
+            try {
+                return await getCommentSummaries(
+                    input.commentIds,
+                    ctx.session?.user?.id,
+                );
+            } catch (error) {
+                console.error('Error getting comment reactions:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to get comment reactions',
+                });
+            }
+        }),
+
+    // Who reacted to a comment, newest first, optionally for one type
+    getCommentReactors: authProcedure
+        .input(
+            z.object({
+                commentId: z.number(),
+                type: z.enum(REACTION_TYPES).optional(),
+            }),
+        )
+        .query(async ({ input, ctx }) => {
+            try {
+                const comment = await db.query.comments.findFirst({
+                    where: eq(comments.id, input.commentId),
+                    columns: { postId: true },
+                });
+
+                if (!comment) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Comment not found',
+                    });
+                }
+                await assertCanReadPost(ctx.session.user, comment.postId);
+
+                return await db
+                    .select({
+                        type: commentReactions.type,
+                        createdAt: commentReactions.createdAt,
+                        user: {
+                            id: users.id,
+                            name: users.name,
+                            image: users.image,
+                        },
+                    })
+                    .from(commentReactions)
+                    .innerJoin(users, eq(users.id, commentReactions.userId))
+                    .where(
+                        and(
+                            eq(commentReactions.commentId, input.commentId),
+                            input.type
+                                ? eq(commentReactions.type, input.type)
+                                : inArray(commentReactions.type, [
+                                      ...REACTION_TYPES,
+                                  ]),
+                        ),
+                    )
+                    .orderBy(desc(commentReactions.createdAt))
+                    .limit(MAX_REACTORS);
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error getting comment reactors:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to get reactions',
+                });
+            }
+        }),
 };
@@ -0,0 +1,591 @@
+import { z } from 'zod';
+import { authProcedure } from '../trpc';
+import { db } from '@/server/db';
+import { TRPCError } from '@trpc/server';
+import {
+    comments,
+    communities,
+    contentReports,
+    moderationActions,
+    notifications,
+    posts,
+    qaAnswers,
+    users,
+} from '@/server/db/schema';
+import { and, count, desc, eq, inArray, max, min, sql } from 'drizzle-orm';
+import {
+    canModerateContent,
+    type ModerationScope,
+} from '@/server/trpc/services/moderation-service';
+import { assertCanReadPost } from '@/server/trpc/services/post-access-service';
+
+const reportTargetTypeSchema = z.enum(['post', 'comment', 'answer']);
+const reportReasonSchema = z.enum([
+    'spam',
+    'harassment',
+    'hate_speech',
+    'misinformation',
+    'inappropriate',
+    'other',
+]);
+const moderationActionSchema = z.enum(['dismiss', 'hide', 'delete', 'warn']);
+
+type ReportTargetType = z.infer<typeof reportTargetTypeSchema>;
+
+type ReportTarget = {
+    postId: number;
+    communityId: number | null;
+    orgId: string;
+    authorId: string;
+    isDeleted: boolean;
+    isHidden: boolean;
+};
+
+const targetKey = (targetType: string, targetId: number) =>
+    `${targetType}:${targetId}`;
+
+// Plain-text preview of rich-text content for the moderation queue
+function toExcerpt(html: string, length = 300) {
+    const text = html
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return text.length > length ? `${text.substring(0, length)}...` : text;
+}
+
+// Resolves a reported item to the post, community and author it belongs to
+async function getReportTarget(
+    targetType: ReportTargetType,
+    targetId: number,
+): Promise<ReportTarget | null> {
+    if (targetType === 'post') {
+        const post = await db.query.posts.findFirst({
+            where: eq(posts.id, targetId),
+        });
+        if (!post) return null;
+        return {
+            postId: post.id,
+            communityId: post.communityId,
+            orgId: post.orgId,
+            authorId: post.authorId,
+            isDeleted: post.isDeleted,
+            isHidden: post.isHidden,
+        };
+    }
+
+    if (targetType === 'comment') {
+        const comment = await db.query.comments.findFirst({
+            where: eq(comments.id, targetId),
+            with: { post: true },
+        });
+        if (!comment) return null;
+        return {
+            postId: comment.postId,
+            communityId: comment.post.communityId,
+            orgId: comment.post.orgId,
+            authorId: comment.authorId,
+            isDeleted: comment.isDeleted,
+            isHidden: comment.isHidden,
+        };
+    }
+
+    const answer = await db.query.qaAnswers.findFirst({
+        where: eq(qaAnswers.id, targetId),
+        with: { post: true },
+    });
+    if (!answer) return null;
+    return {
+        postId: answer.postId,
+        communityId: answer.post.communityId,
+        orgId: answer.post.orgId,
+        authorId: answer.authorId,
+        isDeleted: answer.isDeleted,
+        isHidden: answer.isHidden,
+    };
+}
+
+async function assertCanModerate(userId: string, scope: ModerationScope) {
+    if (!(await canModerateContent(userId, scope))) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to moderate this content',
+        });
+    }
+}
+
+async function getCommunityScope(communityId: number) {
+    const community = await db.query.communities.findFirst({
+        where: eq(communities.id, communityId),
+        columns: { id: true, orgId: true },
+    });
+    if (!community?.orgId) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Community not found',
+        });
+    }
+    return { communityId: community.id, orgId: community.orgId };
+}
+
+async function setTargetFlags(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    targetType: ReportTargetType,
+    targetId: number,
+    flags: { isHidden?: boolean; isDeleted?: boolean },
+) {
+    const values = { ...flags, updatedAt: new Date() };
+    if (targetType === 'post') {
+        await tx.update(posts).set(values).where(eq(posts.id, targetId));
+    } else if (targetType === 'comment') {
+        await tx.update(comments).set(values).where(eq(comments.id, targetId));
+    } else {
+        await tx
+            .update(qaAnswers)
+            .set(values)
+            .where(eq(qaAnswers.id, targetId));
+    }
+}
+
+export const reportProcedures = {
+    // Flag a post, comment or Q&A answer for moderator review
+    reportContent: authProcedure
+        .input(
+            z.object({
+                targetType: reportTargetTypeSchema,
+                targetId: z.number(),
+                reason: reportReasonSchema,
+                details: z.string().trim().max(1000).optional(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const target = await getReportTarget(
+                    input.targetType,
+                    input.targetId,
+                );
+                if (!target || target.isDeleted) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Content not found',
+                    });
+                }
+
+                // Content the reporter can't read is reported as missing, so
+                // reports don't reveal what exists elsewhere
+                await assertCanReadPost(ctx.session.user, target.postId).catch(
+                    (error) => {
+                        if (!(error instanceof TRPCError)) throw error;
+                        throw new TRPCError({
+                            code: 'NOT_FOUND',
+                            message: 'Content not found',
+                        });
+                    },
+                );
+
+                if (target.authorId === ctx.session.user.id) {
+                    throw new TRPCError({
+                        code: 'BAD_REQUEST',
+                        message: 'You cannot report your own content',
+                    });
+                }
+
+                // Each user can report an item once; repeat reports are ignored
+                const inserted = await db
+                    .insert(contentReports)
+                    .values({
+                        targetType: input.targetType,
+                        targetId: input.targetId,
+                        postId: target.postId,
+                        communityId: target.communityId,
+                        orgId: target.orgId,
+                        targetAuthorId: target.authorId,
+                        reporterId: ctx.session.user.id,
+                        reason: input.reason,
+                        details: input.details || null,
+                    })
+                    .onConflictDoNothing()
+                    .returning({ id: contentReports.id });
+
+                return {
+                    success: true,
+                    alreadyReported: inserted.length === 0,
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error reporting content:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to report content',
+                });
+            }
+        }),
+
+    // Open reports for a community, grouped into one entry per reported item
+    getReportQueue: authProcedure
+        .input(
+            z.object({
+                communityId: z.number(),
+                limit: z.number().min(1).max(50).default(20),
+                offset: z.number().min(0).default(0),
+            }),
+        )
+        .query(async ({ input, ctx }) => {
+            try {
+                const scope = await getCommunityScope(input.communityId);
+                await assertCanModerate(ctx.session.user.id, scope);
+
+                const openCondition = and(
+                    eq(contentReports.communityId, input.communityId),
+                    eq(contentReports.status, 'open'),
+                );
+
+                const [totalResult, groups] = await Promise.all([
+                    db
+                        .select({
+                            count: sql<number>`count(distinct (${contentReports.targetType}, ${contentReports.targetId}))::int`,
+                        })
+                        .from(contentReports)
+                        .where(openCondition),
+                    db
+                        .select({
+                            targetType: contentReports.targetType,
+                            targetId: contentReports.targetId,
+                            postId: contentReports.postId,
+                            targetAuthorId: contentReports.targetAuthorId,
+                            reportCount: count(),
+                            reasons: sql<
+                                string[]
+                            >`array_agg(distinct ${contentReports.reason})`,
+                            firstReportedAt: min(contentReports.createdAt),
+                            lastReportedAt: max(contentReports.createdAt),
+                        })
+                        .from(contentReports)
+                        .where(openCondition)
+                        .groupBy(
+                            contentReports.targetType,
+                            contentReports.targetId,
+                            contentReports.postId,
+                            contentReports.targetAuthorId,
+                        )
+                        .orderBy(
+                            desc(count()),
+                            desc(max(contentReports.createdAt)),
+                        )
+                        .limit(input.limit)
+                        .offset(input.offset),
+                ]);
+
+                const totalCount = totalResult[0]?.count || 0;
+                if (groups.length === 0) {
+                    return {
+                        items: [],
+                        totalCount,
+                        hasNextPage: false,
+                        nextOffset: null,
+                    };
+                }
+
+                const idsOf = (type: ReportTargetType) =>
+                    groups
+                        .filter((group) => group.targetType === type)
+                        .map((group) => group.targetId);
+                const commentIds = idsOf('comment');
+                const answerIds = idsOf('answer');
+                const postIds = [...new Set(groups.map((g) => g.postId))];
+                const authorIds = [
+                    ...new Set(
+                        groups
+                            .map((group) => group.targetAuthorId)
+                            .filter((id): id is string => !!id),
+                    ),
+                ];
+
+                const [
+                    postRows,
+                    commentRows,
+                    answerRows,
+                    authorRows,
+                    reportRows,
+                ] = await Promise.all([
+                    db.query.posts.findMany({
+                        where: inArray(posts.id, postIds),
+                        columns: {
+                            id: true,
+                            title: true,
+                            content: true,
+                            isDeleted: true,
+                            isHidden: true,
+                        },
+                    }),
+                    commentIds.length > 0
+                        ? db.query.comments.findMany({
+                              where: inArray(comments.id, commentIds),
+                              columns: {
+                                  id: true,
+                                  content: true,
+                                  isDeleted: true,
+                                  isHidden: true,
+                              },
+                          })
+                        : Promise.resolve([]),
+                    answerIds.length > 0
+                        ? db.query.qaAnswers.findMany({
+                              where: inArray(qaAnswers.id, answerIds),
+                              columns: {
+                                  id: true,
+                                  content: true,
+                                  isDeleted: true,
+                                  isHidden: true,
+                              },
+                          })
+                        : Promise.resolve([]),
+                    authorIds.length > 0
+                        ? db.query.users.findMany({
+                              where: inArray(users.id, authorIds),
+                              columns: { id: true, name: true, image: true },
+                          })
+                        : Promise.resolve([]),
+                    db.query.contentReports.findMany({
+                        where: and(
+                            openCondition,
+                            inArray(contentReports.postId, postIds),
+                        ),
+                        with: {
+                            reporter: { columns: { id: true, name: true } },
+                        },
+                        orderBy: desc(contentReports.createdAt),
+                    }),
+                ]);
+
+                const postsById = new Map(postRows.map((p) => [p.id, p]));
+                const commentsById = new Map(commentRows.map((c) => [c.id, c]));
+                const answersById = new Map(answerRows.map((a) => [a.id, a]));
+                const authorsById = new Map(authorRows.map((u) => [u.id, u]));
+
+                const items = groups.map((group) => {
+                    const post = postsById.get(group.postId);
+                    const item =
+                        group.targetType === 'post'
+                            ? post
+                            : group.targetType === 'comment'
+                              ? commentsById.get(group.targetId)
+                              : answersById.get(group.targetId);
+
+                    return {
+                        ...group,
+                        postTitle: post?.title ?? null,
+                        excerpt: item ? toExcerpt(item.content) : '',
+                        isDeleted: item?.isDeleted ?? true,
+                        isHidden: item?.isHidden ?? false,
+                        author: group.targetAuthorId
+                            ? (authorsById.get(group.targetAuthorId) ?? null)
+                            : null,
+                        reports: reportRows
+                            .filter(
+                                (report) =>
+                                    targetKey(
+                                        report.targetType,
+                                        report.targetId,
+                                    ) ===
+                                    targetKey(group.targetType, group.targetId),
+                            )
+                            .map((report) => ({
+                                id: report.id,
+                                reason: report.reason,
+                                details: report.details,
+                                createdAt: report.createdAt,
+                                reporter: report.reporter,
+                            })),
+                    };
+                });
+
+                const hasNextPage = input.offset + input.limit < totalCount;
+                return {
+                    items,
+                    totalCount,
+                    hasNextPage,
+                    nextOffset: hasNextPage ? input.offset + input.limit : null,
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching report queue:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch report queue',
+                });
+            }
+        }),
+
+    // Act on a reported item and close its open reports
+    resolveReport: authProcedure
+        .input(
+            z.object({
+                targetType: reportTargetTypeSchema,
+                targetId: z.number(),
+                action: moderationActionSchema,
+                note: z.string().trim().max(1000).optional(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const target = await getReportTarget(
+                    input.targetType,
+                    input.targetId,
+                );
+                if (!target) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Content not found',
+                    });
+                }
+
+                await assertCanModerate(ctx.session.user.id, target);
+
+                const moderatorId = ctx.session.user.id;
+                const now = new Date();
+
+                const result = await db.transaction(async (tx) => {
+                    if (input.action === 'hide') {
+                        await setTargetFlags(
+                            tx,
+                            input.targetType,
+                            input.targetId,
+                            { isHidden: true },
+                        );
+                    } else if (input.action === 'delete') {
+                        await setTargetFlags(
+                            tx,
+                            input.targetType,
+                            input.targetId,
+                            { isDeleted: true },
+                        );
+                    } else if (input.action === 'warn') {
+                        await tx.insert(notifications).values({
+                            recipientId: target.authorId,
+                            title: 'Warning from the moderators',
+                            body:
+                                input.note ||
+                                `Your ${input.targetType} was reported and reviewed by a moderator. Please follow the community guidelines.`,
+                            type: 'moderation_warning',
+                            data: JSON.stringify({
+                                postId: target.postId,
+                                communityId: target.communityId,
+                                targetType: input.targetType,
+                                targetId: input.targetId,
+                            }),
+                            isRead: false,
+                            createdAt: now,
+                            updatedAt: now,
+                        });
+                    }
+
+                    const resolved = await tx
+                        .update(contentReports)
+                        .set({
+                            status:
+                                input.action === 'dismiss'
+                                    ? 'dismissed'
+                                    : 'actioned',
+                            resolvedBy: moderatorId,
+                            resolvedAt: now,
+                            updatedAt: now,
+                        })
+                        .where(
+                            and(
+                                eq(contentReports.targetType, input.targetType),
+                                eq(contentReports.targetId, input.targetId),
+                                eq(contentReports.status, 'open'),
+                            ),
+                        )
+                        .returning({ id: contentReports.id });
+
+                    const [action] = await tx
+                        .insert(moderationActions)
+                        .values({
+                            targetType: input.targetType,
+                            targetId: input.targetId,
+                            postId: target.postId,
+                            communityId: target.communityId,
+                            orgId: target.orgId,
+                            moderatorId,
+                            targetAuthorId: target.authorId,
+                            action: input.action,
+                            note: input.note || null,
+                            reportCount: resolved.length,
+                        })
+                        .returning();
+
+                    return action;
+                });
+
+                return { success: true, action: result };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error resolving report:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to resolve report',
+                });
+            }
+        }),
+
+    // Audit trail of moderation actions taken in a community
+    getModerationLog: authProcedure
+        .input(
+            z.object({
+                communityId: z.number(),
+                limit: z.number().min(1).max(50).default(20),
+                offset: z.number().min(0).default(0),
+            }),
+        )
+        .query(async ({ input, ctx }) => {
+            try {
+                const scope = await getCommunityScope(input.communityId);
+                await assertCanModerate(ctx.session.user.id, scope);
+
+                const where = eq(
+                    moderationActions.communityId,
+                    input.communityId,
+                );
+
+                const [totalResult, actions] = await Promise.all([
+                    db
+                        .select({ count: count() })
+                        .from(moderationActions)
+                        .where(where),
+                    db.query.moderationActions.findMany({
+                        where,
+                        with: {
+                            moderator: {
+                                columns: { id: true, name: true, image: true },
+                            },
+                            targetAuthor: {
+                                columns: { id: true, name: true },
+                            },
+                            post: { columns: { id: true, title: true } },
+                        },
+                        orderBy: desc(moderationActions.createdAt),
+                        limit: input.limit,
+                        offset: input.offset,
+                    }),
+                ]);
+
+                const totalCount = totalResult[0]?.count || 0;
+                const hasNextPage = input.offset + input.limit < totalCount;
+                return {
+                    actions,
+                    totalCount,
+                    hasNextPage,
+                    nextOffset: hasNextPage ? input.offset + input.limit : null,
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching moderation log:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch moderation log',
+                });
+            }
+        }),
+};
@@ -270,12 +270,14 @@ export const statsProcedures = {
                 }
                 baseConditions = and(
                     eq(posts.isDeleted, false),
+                    eq(posts.isHidden, false),
                     eq(posts.communityId, communityId),
                 );
             } else {
                 // Create base conditions for posts the user can see
                 baseConditions = and(
                     eq(posts.isDeleted, false),
+                    eq(posts.isHidden, false),
                     or(
                         // User's org posts (where community is null)
                         and(eq(posts.orgId, orgId), isNull(posts.communityId)),
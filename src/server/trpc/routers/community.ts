@@ -14,11 +14,14 @@ import { reactionProcedures } from './community-reactions';
 import { commentProcedures } from './community-comments';
 import { inviteProcedures } from './community-invites';
 import { postProcedures } from './community-posts';
+import { draftProcedures } from './community-drafts';
+import { pinProcedures } from './community-pins';
 import { queryProcedures } from './community-queries';
 import { managementProcedures } from './community-management';
 import { statsProcedures } from './community-stats';
 import { pollProcedures } from './community-polls';
 import { qaProcedures } from './community-qa';
+import { reportProcedures } from './community-reports';
 import _ from 'lodash';
 
 // Helper function to check if user is SuperAdmin
@@ -80,6 +83,22 @@ export const communityRouter = router({
     createPost: postProcedures.createPost,
     editPost: postProcedures.editPost,
     deletePost: postProcedures.deletePost,
+    getPostRevisions: postProcedures.getPostRevisions,
+    restorePostRevision: postProcedures.restorePostRevision,
+
+    // Draft and scheduled post procedures
+    getDrafts: draftProcedures.getDrafts,
+    getDraft: draftProcedures.getDraft,
+    saveDraft: draftProcedures.saveDraft,
+    scheduleDraft: draftProcedures.scheduleDraft,
+    unscheduleDraft: draftProcedures.unscheduleDraft,
+    deleteDraft: draftProcedures.deleteDraft,
+
+    // Pinned post and announcement procedures
+    pinPost: pinProcedures.pinPost,
+    unpinPost: pinProcedures.unpinPost,
+    movePinnedPost: pinProcedures.movePinnedPost,
+    setPostAnnouncement: pinProcedures.setPostAnnouncement,
 
     // Query procedures
     getPosts: queryProcedures.getPosts,
@@ -93,6 +112,9 @@ export const communityRouter = router({
     createComment: commentProcedures.createComment,
     updateComment: commentProcedures.updateComment,
     deleteComment: commentProcedures.deleteComment,
+    getPostFollowStatus: commentProcedures.getPostFollowStatus,
+    followPost: commentProcedures.followPost,
+    unfollowPost: commentProcedures.unfollowPost,
 
     // Community management procedures
     create: managementProcedures.create,
@@ -114,6 +136,12 @@ export const communityRouter = router({
     unlikePost: reactionProcedures.unlikePost,
     getUserReactions: reactionProcedures.getUserReactions,
     getPostLikeCounts: reactionProcedures.getPostLikeCounts,
+    togglePostReaction: reactionProcedures.togglePostReaction,
+    getPostReactionSummaries: reactionProcedures.getPostReactionSummaries,
+    getPostReactors: reactionProcedures.getPostReactors,
+    toggleCommentReaction: reactionProcedures.toggleCommentReaction,
+    getCommentReactionSummaries: reactionProcedures.getCommentReactionSummaries,
+    getCommentReactors: reactionProcedures.getCommentReactors,
 
     // Saved post procedures
     savePost: savedProcedures.savePost,
@@ -131,6 +159,7 @@ export const communityRouter = router({
     votePoll: pollProcedures.votePoll,
     getPollResults: pollProcedures.getPollResults,
     closePoll: pollProcedures.closePoll,
+    exportPollResults: pollProcedures.exportPollResults,
 
     // Q&A procedures
     getQuestion: qaProcedures.getQuestion,
@@ -147,4 +176,10 @@ export const communityRouter = router({
     createAnswerComment: qaProcedures.createAnswerComment,
     updateAnswerComment: qaProcedures.updateAnswerComment,
     deleteAnswerComment: qaProcedures.deleteAnswerComment,
+
+    // Report and moderation procedures
+    reportContent: reportProcedures.reportContent,
+    getReportQueue: reportProcedures.getReportQueue,
+    resolveReport: reportProcedures.resolveReport,
+    getModerationLog: reportProcedures.getModerationLog,
 });
@@ -8,6 +8,9 @@ import { organizationsRouter } from './organizations';
 import { badgesRouter } from './badges';
 import { profilesRouter } from './profiles';
 import { resumeRouter } from './resume';
+import { searchRouter } from './search';
+import { auditLogRouter } from './audit-log';
+import { mentionsRouter } from './mentions';
 
 export const appRouter = router({
     hello: publicProcedure.query(() => 'Hello world'),
@@ -20,6 +23,9 @@ export const appRouter = router({
     badges: badgesRouter,
     profiles: profilesRouter,
     resume: resumeRouter,
+    search: searchRouter,
+    auditLog: auditLogRouter,
+    mentions: mentionsRouter,
 });
 
 export type AppRouter = typeof appRouter;
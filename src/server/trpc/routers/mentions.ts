@@ -0,0 +1,196 @@
+import { z } from 'zod';
+import { router, authProcedure } from '../trpc';
+import { db } from '@/server/db';
+import { TRPCError } from '@trpc/server';
+import {
+    and,
+    desc,
+    eq,
+    exists,
+    inArray,
+    isNull,
+    lt,
+    or,
+    type SQL,
+} from 'drizzle-orm';
+import { comments, mentions, posts, users } from '@/server/db/schema';
+import { assertThreadParticipant } from '@/server/trpc/services/chat-service';
+import {
+    searchMentionableUsers,
+    type MentionScope,
+} from '@/server/trpc/services/mention-service';
+import {
+    assertCanReadCommunity,
+    assertCanReadPost,
+} from '@/server/trpc/services/post-access-service';
+
+export const mentionsRouter = router({
+    // Autocomplete for @mentions. Scoped to a chat thread, a community (or the
+    // community of a post), and otherwise to the caller's organization. The
+    // caller must be able to read the thread, community or post.
+    searchUsers: authProcedure
+        .input(
+            z.object({
+                query: z.string().max(50),
+                communityId: z.number().optional(),
+                postId: z.number().optional(),
+                threadId: z.number().optional(),
+                limit: z.number().min(1).max(20).default(8),
+            }),
+        )
+        .query(async ({ input, ctx }) => {
+            try {
+                const userId = ctx.session.user.id;
+                let scope: MentionScope | null = null;
+
+                if (input.threadId) {
+                    await assertThreadParticipant(input.threadId, userId);
+                    scope = { type: 'thread', threadId: input.threadId };
+                } else if (input.communityId) {
+                    await assertCanReadCommunity(
+                        ctx.session.user,
+                        input.communityId,
+                    );
+                    scope = {
+                        type: 'community',
+                        communityId: input.communityId,
+                    };
+                } else {
+                    const user = await db.query.users.findFirst({
+                        where: eq(users.id, userId),
+                        columns: { orgId: true },
+                    });
+
+                    if (input.postId) {
+                        const post = await assertCanReadPost(
+                            ctx.session.user,
+                            input.postId,
+                        );
+                        if (post.communityId) {
+                            scope = {
+                                type: 'community',
+                                communityId: post.communityId,
+                            };
+                        } else if (post.orgId === user?.orgId) {
+                            // Org-wide posts only list the caller's own org
+                            scope = { type: 'org', orgId: post.orgId };
+                        }
+                    } else if (user?.orgId) {
+                        scope = { type: 'org', orgId: user.orgId };
+                    }
+                }
+
+                if (!scope) return [];
+
+                return await searchMentionableUsers(
+                    scope,
+                    input.query,
+                    userId,
+                    input.limit,
+                );
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error searching mentionable users:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to search users',
+                });
+            }
+        }),
+
+    // Posts and comments that mention the current user, newest first
+    getMyMentions: authProcedure
+        .input(
+            z.object({
+                limit: z.number().min(1).max(50).default(20),
+                cursor: z.number().optional(), // mention ID for cursor-based pagination
+            }),
+        )
+        .query(async ({ input, ctx }) => {
+            try {
+                const whereConditions: (SQL | undefined)[] = [
+                    eq(mentions.mentionedUserId, ctx.session.user.id),
+                    inArray(mentions.sourceType, ['post', 'comment']),
+                    // Content deleted or hidden since the mention is left out
+                    or(
+                        isNull(mentions.postId),
+                        exists(
+                            db
+                                .select({ id: posts.id })
+                                .from(posts)
+                                .where(
+                                    and(
+                                        eq(posts.id, mentions.postId),
+                                        eq(posts.isDeleted, false),
+                                        eq(posts.isHidden, false),
+                                    ),
+                                ),
+                        ),
+                    ),
+                    or(
+                        isNull(mentions.commentId),
+                        exists(
+                            db
+                                .select({ id: comments.id })
+                                .from(comments)
+                                .where(
+                                    and(
+                                        eq(comments.id, mentions.commentId),
+                                        eq(comments.isDeleted, false),
+                                        eq(comments.isHidden, false),
+                                    ),
+                                ),
+                        ),
+                    ),
+                ];
+
+                if (input.cursor) {
+                    whereConditions.push(lt(mentions.id, input.cursor));
+                }
+
+                const items = await db.query.mentions.findMany({
+                    where: and(...whereConditions),
+                    with: {
+                        author: {
+                            columns: { id: true, name: true, image: true },
+                        },
+                        post: {
+                            columns: {
+                                id: true,
+                                title: true,
+                                isDeleted: true,
+                                isHidden: true,
+                            },
+                        },
+                        comment: {
+                            columns: {
+                                id: true,
+                                content: true,
+                                isDeleted: true,
+                                isHidden: true,
+                            },
+                        },
+                        community: {
+                            columns: { id: true, name: true, slug: true },
+                        },
+                    },
+                    orderBy: [desc(mentions.id)],
+                    limit: input.limit + 1, // Get one extra to check if there are more
+                });
+
+                let nextCursor: number | undefined = undefined;
+                if (items.length > input.limit) {
+                    items.pop();
+                    nextCursor = items[items.length - 1]?.id;
+                }
+
+                return { items, nextCursor };
+            } catch (error) {
+                console.error('Error fetching mentions:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch mentions',
+                });
+            }
+        }),
+});
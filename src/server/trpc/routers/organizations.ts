@@ -52,6 +52,8 @@ import { ServerPermissions } from '@/server/utils/permission';
 import { PERMISSIONS } from '@/lib/permissions/permission-const';
 import { nanoid } from 'nanoid';
 import crypto from 'crypto';
+import { recordAuditLog } from '@/server/trpc/services/audit-log-service';
+import { getOrgStorageOverview } from '@/server/trpc/services/storage-service';
 
 export const organizationsRouter = router({
     // Get organization details by ID
@@ -481,6 +483,198 @@ export const organizationsRouter = router({
             return { success: true, message: 'User has been made an admin' };
         }),
 
+    // Allow or block direct messages with users of other organizations
+    updateCrossOrgDM: authProcedure
+        .input(z.object({ orgId: z.string(), allowCrossOrgDM: z.boolean() }))
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const currentUser = await db.query.users.findFirst({
+                    where: eq(users.id, ctx.session.user.id),
+                    columns: { orgId: true, role: true, appRole: true },
+                });
+
+                // Super admins or org admins of the target organization
+                const isSuperAdmin = currentUser?.appRole === 'admin';
+                const isOrgAdmin =
+                    currentUser?.role === 'admin' &&
+                    currentUser.orgId === input.orgId;
+
+                if (!isSuperAdmin && !isOrgAdmin) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message:
+                            'You do not have permission to update this organization',
+                    });
+                }
+
+                const org = await db.query.orgs.findFirst({
+                    where: eq(orgs.id, input.orgId),
+                });
+
+                if (!org) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Organization not found',
+                    });
+                }
+
+                if (org.allowCrossOrgDM === input.allowCrossOrgDM) {
+                    return { allowCrossOrgDM: org.allowCrossOrgDM };
+                }
+
+                await db
+                    .update(orgs)
+                    .set({ allowCrossOrgDM: input.allowCrossOrgDM })
+                    .where(eq(orgs.id, input.orgId));
+
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'org.update_cross_org_dm',
+                    orgId: input.orgId,
+                    targetType: 'org',
+                    targetId: input.orgId,
+                    targetLabel: org.name,
+                    before: { allowCrossOrgDM: org.allowCrossOrgDM },
+                    after: { allowCrossOrgDM: input.allowCrossOrgDM },
+                });
+
+                return { allowCrossOrgDM: input.allowCrossOrgDM };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error updating cross-org DM setting:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to update organization settings',
+                });
+            }
+        }),
+
+    // Storage used against the org's quotas, and the members using the most
+    getStorageUsage: authProcedure
+        .input(z.object({ orgId: z.string() }))
+        .query(async ({ input, ctx }) => {
+            try {
+                const currentUser = await db.query.users.findFirst({
+                    where: eq(users.id, ctx.session.user.id),
+                    columns: { orgId: true, role: true, appRole: true },
+                });
+
+                // Super admins or org admins of the target organization
+                const isSuperAdmin = currentUser?.appRole === 'admin';
+                const isOrgAdmin =
+                    currentUser?.role === 'admin' &&
+                    currentUser.orgId === input.orgId;
+
+                if (!isSuperAdmin && !isOrgAdmin) {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message:
+                            'You do not have permission to view storage usage',
+                    });
+                }
+
+                const org = await db.query.orgs.findFirst({
+                    where: eq(orgs.id, input.orgId),
+                    columns: {
+                        storageQuotaMb: true,
+                        userStorageQuotaMb: true,
+                    },
+                });
+
+                if (!org) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Organization not found',
+                    });
+                }
+
+                return {
+                    ...(await getOrgStorageOverview(input.orgId)),
+                    // The org's own settings; null when using the defaults
+                    storageQuotaMb: org.storageQuotaMb,
+                    userStorageQuotaMb: org.userStorageQuotaMb,
+                    canEditQuotas: isSuperAdmin,
+                };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error fetching storage usage:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to fetch storage usage',
+                });
+            }
+        }),
+
+    // Quotas are set by super admins; null restores the default
+    updateStorageQuotas: authProcedure
+        .input(
+            z.object({
+                orgId: z.string(),
+                storageQuotaMb: z.number().int().positive().nullable(),
+                userStorageQuotaMb: z.number().int().positive().nullable(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                const currentUser = await db.query.users.findFirst({
+                    where: eq(users.id, ctx.session.user.id),
+                    columns: { appRole: true },
+                });
+
+                if (currentUser?.appRole !== 'admin') {
+                    throw new TRPCError({
+                        code: 'FORBIDDEN',
+                        message: 'Only super admins can change storage quotas',
+                    });
+                }
+
+                const org = await db.query.orgs.findFirst({
+                    where: eq(orgs.id, input.orgId),
+                });
+
+                if (!org) {
+                    throw new TRPCError({
+                        code: 'NOT_FOUND',
+                        message: 'Organization not found',
+                    });
+                }
+
+                await db
+                    .update(orgs)
+                    .set({
+                        storageQuotaMb: input.storageQuotaMb,
+                        userStorageQuotaMb: input.userStorageQuotaMb,
+                    })
+                    .where(eq(orgs.id, input.orgId));
+
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'org.update_storage_quotas',
+                    orgId: input.orgId,
+                    targetType: 'org',
+                    targetId: input.orgId,
+                    targetLabel: org.name,
+                    before: {
+                        storageQuotaMb: org.storageQuotaMb,
+                        userStorageQuotaMb: org.userStorageQuotaMb,
+                    },
+                    after: {
+                        storageQuotaMb: input.storageQuotaMb,
+                        userStorageQuotaMb: input.userStorageQuotaMb,
+                    },
+                });
+
+                return { success: true };
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error updating storage quotas:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to update storage quotas',
+                });
+            }
+        }),
+
     // Get paginated organization members with search and filtering
     getOrganizationMembersPaginated: publicProcedure
         .input(
@@ -818,6 +1012,16 @@ export const organizationsRouter = router({
                     }
                 });
 
+                await recordAuditLog({
+                    actorId: ctx.session.user.id,
+                    action: 'org.remove_member',
+                    orgId: input.orgId,
+                    targetType: 'user',
+                    targetId: input.userId,
+                    targetLabel: user.name || user.email,
+                    before: { email: user.email, role: user.role },
+                });
+
                 return result;
             } catch (error) {
                 console.error('Detailed error in removeOrgMember:', error);
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { router, authProcedure } from '../trpc';
+import { TRPCError } from '@trpc/server';
+import {
+    getSearchFilterOptions,
+    searchContent,
+} from '@/server/trpc/services/search-service';
+
+export const searchRouter = router({
+    // Ranked full-text search across posts, comments and Q&A answers
+    search: authProcedure
+        .input(
+            z.object({
+                query: z.string().trim().min(1).max(200),
+                type: z
+                    .enum(['all', 'post', 'comment', 'answer'])
+                    .default('all'),
+                communityId: z.number().optional(),
+                tagId: z.number().optional(),
+                authorId: z.string().optional(),
+                startDate: z.date().optional(),
+                endDate: z.date().optional(),
+                limit: z.number().min(1).max(50).default(10),
+                offset: z.number().min(0).default(0),
+            }),
+        )
+        .query(async ({ ctx, input }) => {
+            try {
+                return await searchContent(ctx.session.user, input);
+            } catch (error) {
+                if (error instanceof TRPCError) throw error;
+                console.error('Error searching content:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to search',
+                });
+            }
+        }),
+
+    // Communities and tags available as search filters
+    getFilterOptions: authProcedure.query(async ({ ctx }) => {
+        try {
+            return await getSearchFilterOptions(ctx.session.user);
+        } catch (error) {
+            if (error instanceof TRPCError) throw error;
+            console.error('Error fetching search filter options:', error);
+            throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to fetch search filter options',
+            });
+        }
+    }),
+});
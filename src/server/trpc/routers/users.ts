@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { router, publicProcedure } from '../trpc';
+import { router, publicProcedure, authProcedure } from '../trpc';
 import { db } from '@/server/db';
 import { TRPCError } from '@trpc/server';
 import { eq, and, inArray, desc } from 'drizzle-orm';
@@ -12,6 +12,18 @@ import {
     posts,
 } from '@/server/db/schema';
 import { getUserPermission } from '../services/user-service';
+import {
+    ensureDigestPreference,
+    setDigestFrequency,
+} from '@/lib/email-digest';
+import {
+    getNotificationPreferenceMatrix,
+    setNotificationPreference,
+} from '@/lib/notification-dispatch';
+import {
+    NOTIFICATION_CHANNELS,
+    NOTIFICATION_EVENTS,
+} from '@/lib/notification-events';
 
 export const usersRouter = router({
     // Get a user's profile information
@@ -180,4 +192,83 @@ export const usersRouter = router({
 
         return await getUserPermission(ctx.session.user.id);
     }),
+
+    // Get how often the current user receives email digests
+    getDigestPreference: authProcedure.query(async ({ ctx }) => {
+        try {
+            const preference = await ensureDigestPreference(
+                ctx.session.user.id,
+            );
+            return {
+                frequency: preference.frequency as 'daily' | 'weekly' | 'off',
+                lastSentAt: preference.lastSentAt,
+            };
+        } catch (error) {
+            console.error('Error fetching digest preference:', error);
+            throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to fetch digest preference',
+            });
+        }
+    }),
+
+    // Update how often the current user receives email digests
+    updateDigestPreference: authProcedure
+        .input(
+            z.object({
+                frequency: z.enum(['daily', 'weekly', 'off']),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                await setDigestFrequency(ctx.session.user.id, input.frequency);
+                return { frequency: input.frequency };
+            } catch (error) {
+                console.error('Error updating digest preference:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to update digest preference',
+                });
+            }
+        }),
+
+    // Event type × channel notification settings for the current user
+    getNotificationPreferences: authProcedure.query(async ({ ctx }) => {
+        try {
+            return await getNotificationPreferenceMatrix(ctx.session.user.id);
+        } catch (error) {
+            console.error('Error fetching notification preferences:', error);
+            throw new TRPCError({
+                code: 'INTERNAL_SERVER_ERROR',
+                message: 'Failed to fetch notification preferences',
+            });
+        }
+    }),
+
+    // Turn one event type on or off for one channel
+    updateNotificationPreference: authProcedure
+        .input(
+            z.object({
+                event: z.enum(NOTIFICATION_EVENTS),
+                channel: z.enum(NOTIFICATION_CHANNELS),
+                enabled: z.boolean(),
+            }),
+        )
+        .mutation(async ({ input, ctx }) => {
+            try {
+                await setNotificationPreference(
+                    ctx.session.user.id,
+                    input.event,
+                    input.channel,
+                    input.enabled,
+                );
+                return input;
+            } catch (error) {
+                console.error('Error updating notification preference:', error);
+                throw new TRPCError({
+                    code: 'INTERNAL_SERVER_ERROR',
+                    message: 'Failed to update notification preference',
+                });
+            }
+        }),
 });
@@ -0,0 +1,230 @@
+import { TRPCError } from '@trpc/server';
+import {
+    and,
+    count,
+    desc,
+    eq,
+    gte,
+    inArray,
+    lte,
+    or,
+    type SQL,
+} from 'drizzle-orm';
+import { db } from '@/server/db';
+import { auditLogs, communities, orgs, users } from '@/server/db/schema';
+import { ServerPermissions } from '@/server/utils/permission';
+import { hasPermission } from '@/lib/permissions/permission';
+import { PERMISSIONS } from '@/lib/permissions/permission-const';
+import type { AuditAction } from '@/lib/audit-actions';
+
+export type AuditLogEntry = {
+    actorId: string;
+    action: AuditAction;
+    // Community-scoped entries get their orgId filled in from the community
+    communityId?: number | null;
+    orgId?: string | null;
+    targetType: 'user' | 'tag' | 'org';
+    targetId: string;
+    // Looked up for user targets when omitted; pass it explicitly when the
+    // target is being deleted
+    targetLabel?: string | null;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+};
+
+export type AuditLogFilters = {
+    communityId?: number;
+    orgId?: string;
+    action?: AuditAction;
+    actorId?: string;
+    targetId?: string;
+    startDate?: Date;
+    endDate?: Date;
+    limit: number;
+    offset: number;
+};
+
+// Records an admin action. Called after the action has been applied, so a
+// failure here is logged rather than surfaced as a failed mutation.
+export async function recordAuditLog(entry: AuditLogEntry) {
+    try {
+        const [actor, community, targetUser] = await Promise.all([
+            db.query.users.findFirst({
+                where: eq(users.id, entry.actorId),
+                columns: { name: true },
+            }),
+            entry.communityId && entry.orgId === undefined
+                ? db.query.communities.findFirst({
+                      where: eq(communities.id, entry.communityId),
+                      columns: { orgId: true },
+                  })
+                : Promise.resolve(null),
+            entry.targetType === 'user' && entry.targetLabel === undefined
+                ? db.query.users.findFirst({
+                      where: eq(users.id, entry.targetId),
+                      columns: { name: true, email: true },
+                  })
+                : Promise.resolve(null),
+        ]);
+
+        await db.insert(auditLogs).values({
+            actorId: entry.actorId,
+            actorName: actor?.name ?? null,
+            action: entry.action,
+            communityId: entry.communityId ?? null,
+            orgId: entry.orgId ?? community?.orgId ?? null,
+            targetType: entry.targetType,
+            targetId: entry.targetId,
+            targetLabel:
+                entry.targetLabel ??
+                (targetUser ? targetUser.name || targetUser.email : null),
+            before: entry.before ?? null,
+            after: entry.after ?? null,
+        });
+    } catch (error) {
+        console.error('Error writing audit log entry:', error);
+    }
+}
+
+// What a user may read: super admins see everything, org admins their org
+// (including its communities) and community admins their communities
+async function getAuditLogScope(userId: string) {
+    const permission = await ServerPermissions.fromUserId(userId);
+    const isAppAdmin = permission.isAppAdmin();
+    const orgId =
+        permission.getOrgRole() === 'admin' &&
+        permission.checkOrgPermission(PERMISSIONS.VIEW_AUDIT_LOG)
+            ? (permission.getUserDetails()?.orgId ?? null)
+            : null;
+    const communityIds = permission
+        .getCommunityRoles()
+        .filter((record) =>
+            hasPermission('community', record.role, PERMISSIONS.VIEW_AUDIT_LOG),
+        )
+        .map((record) => Number(record.communityId));
+
+    return { isAppAdmin, orgId, communityIds };
+}
+
+export async function listAuditLogs(userId: string, filters: AuditLogFilters) {
+    const scope = await getAuditLogScope(userId);
+
+    const conditions: (SQL | undefined)[] = [];
+
+    if (!scope.isAppAdmin) {
+        const scopeConditions: SQL[] = [];
+        if (scope.orgId) scopeConditions.push(eq(auditLogs.orgId, scope.orgId));
+        if (scope.communityIds.length > 0) {
+            scopeConditions.push(
+                inArray(auditLogs.communityId, scope.communityIds),
+            );
+        }
+
+        if (scopeConditions.length === 0) {
+            throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: 'You do not have access to the audit log',
+            });
+        }
+
+        conditions.push(or(...scopeConditions));
+    }
+
+    if (filters.communityId) {
+        conditions.push(eq(auditLogs.communityId, filters.communityId));
+    }
+    if (filters.orgId) conditions.push(eq(auditLogs.orgId, filters.orgId));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.actorId) {
+        conditions.push(eq(auditLogs.actorId, filters.actorId));
+    }
+    if (filters.targetId) {
+        conditions.push(eq(auditLogs.targetId, filters.targetId));
+    }
+    if (filters.startDate) {
+        conditions.push(gte(auditLogs.createdAt, filters.startDate));
+    }
+    if (filters.endDate) {
+        conditions.push(lte(auditLogs.createdAt, filters.endDate));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [totalResult, logs] = await Promise.all([
+        db.select({ count: count() }).from(auditLogs).where(where),
+        db.query.auditLogs.findMany({
+            where,
+            with: {
+                community: { columns: { id: true, name: true, slug: true } },
+            },
+            orderBy: [desc(auditLogs.createdAt), desc(auditLogs.id)],
+            limit: filters.limit,
+            offset: filters.offset,
+        }),
+    ]);
+
+    const totalCount = totalResult[0]?.count || 0;
+    const hasNextPage = filters.offset + filters.limit < totalCount;
+
+    return {
+        logs,
+        totalCount,
+        hasNextPage,
+        nextOffset: hasNextPage ? filters.offset + filters.limit : null,
+    };
+}
+
+// Organizations and communities the user can filter the audit log by
+export async function getAuditLogFilterOptions(userId: string) {
+    const scope = await getAuditLogScope(userId);
+
+    if (scope.isAppAdmin) {
+        const [orgRows, communityRows] = await Promise.all([
+            db.query.orgs.findMany({
+                columns: { id: true, name: true },
+                orderBy: orgs.name,
+            }),
+            db.query.communities.findMany({
+                columns: { id: true, name: true, orgId: true },
+                orderBy: communities.name,
+            }),
+        ]);
+        return {
+            isAppAdmin: true,
+            hasAccess: true,
+            orgs: orgRows,
+            communities: communityRows,
+        };
+    }
+
+    const communityConditions: SQL[] = [];
+    if (scope.orgId) {
+        communityConditions.push(eq(communities.orgId, scope.orgId));
+    }
+    if (scope.communityIds.length > 0) {
+        communityConditions.push(inArray(communities.id, scope.communityIds));
+    }
+
+    const [orgRows, communityRows] = await Promise.all([
+        scope.orgId
+            ? db.query.orgs.findMany({
+                  where: eq(orgs.id, scope.orgId),
+                  columns: { id: true, name: true },
+              })
+            : Promise.resolve([]),
+        communityConditions.length > 0
+            ? db.query.communities.findMany({
+                  where: or(...communityConditions),
+                  columns: { id: true, name: true, orgId: true },
+                  orderBy: communities.name,
+              })
+            : Promise.resolve([]),
+    ]);
+
+    return {
+        isAppAdmin: false,
+        hasAccess: communityConditions.length > 0,
+        orgs: orgRows,
+        communities: communityRows,
+    };
+}
@@ -0,0 +1,289 @@
+import {
+    and,
+    eq,
+    exists,
+    inArray,
+    isNotNull,
+    lte,
+    ne,
+    notInArray,
+    sql,
+} from 'drizzle-orm';
+import { db } from '@/server/db';
+import {
+    comments,
+    communities,
+    posts,
+    qaAnswerHelpful,
+    qaAnswers,
+    userBadgeAssignments,
+    userBadges,
+    users,
+} from '@/server/db/schema';
+import {
+    describeBadgeRule,
+    type BadgeRule,
+    type BadgeRuleType,
+} from '@/lib/badge-rules';
+
+/**
+ * Badge Rules
+ *
+ * Badges with an award rule are assigned automatically to members of the
+ * badge's organization who meet it. Rules are checked for the acting user
+ * after the writes that can change the outcome (posts, comments, helpful
+ * votes), for the whole organization when a rule is saved, and for everyone
+ * by a daily backfill, which is also what picks up membership anniversaries.
+ *
+ * Automatic assignments are marked awardedByRule and carry a generated note;
+ * they are revoked when the rule stops holding only if the badge says so.
+ * Assignments made by hand are never touched.
+ */
+
+export const EVALUATE_BADGE_RULES_JOB = 'evaluate-badge-rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INSERT_BATCH_SIZE = 1000;
+
+type RuleBadge = Pick<
+    typeof userBadges.$inferSelect,
+    'id' | 'orgId' | 'createdBy' | 'revokeWhenUnmet'
+> & { awardRule: BadgeRule };
+
+// Members of the badge's organization (among `userIds`, when given) who meet
+// its rule. Deleted and moderator-hidden content does not count.
+async function findQualifyingUserIds(badge: RuleBadge, userIds?: string[]) {
+    const { type, threshold, communityId } = badge.awardRule;
+    const inOrg = and(
+        eq(users.orgId, badge.orgId),
+        userIds ? inArray(users.id, userIds) : undefined,
+    );
+    const inCommunity = communityId
+        ? eq(posts.communityId, communityId)
+        : undefined;
+    const atLeastThreshold = sql`count(*) >= ${threshold}`;
+
+    let rows: { userId: string }[];
+    switch (type) {
+        case 'posts':
+            rows = await db
+                .select({ userId: posts.authorId })
+                .from(posts)
+                .innerJoin(users, eq(users.id, posts.authorId))
+                .where(
+                    and(
+                        inOrg,
+                        inCommunity,
+                        eq(posts.isDeleted, false),
+                        eq(posts.isHidden, false),
+                    ),
+                )
+                .groupBy(posts.authorId)
+                .having(atLeastThreshold);
+            break;
+        case 'comments':
+            rows = await db
+                .select({ userId: comments.authorId })
+                .from(comments)
+                .innerJoin(posts, eq(posts.id, comments.postId))
+                .innerJoin(users, eq(users.id, comments.authorId))
+                .where(
+                    and(
+                        inOrg,
+                        inCommunity,
+                        eq(comments.isDeleted, false),
+                        eq(comments.isHidden, false),
+                    ),
+                )
+                .groupBy(comments.authorId)
+                .having(atLeastThreshold);
+            break;
+        case 'helpful_answers':
+            // Marking your own answer helpful does not count
+            rows = await db
+                .select({ userId: qaAnswers.authorId })
+                .from(qaAnswers)
+                .innerJoin(posts, eq(posts.id, qaAnswers.postId))
+                .innerJoin(users, eq(users.id, qaAnswers.authorId))
+                .where(
+                    and(
+                        inOrg,
+                        inCommunity,
+                        eq(qaAnswers.isDeleted, false),
+                        eq(qaAnswers.isHidden, false),
+                        exists(
+                            db
+                                .select({ id: qaAnswerHelpful.id })
+                                .from(qaAnswerHelpful)
+                                .where(
+                                    and(
+                                        eq(
+                                            qaAnswerHelpful.answerId,
+                                            qaAnswers.id,
+                                        ),
+                                        ne(
+                                            qaAnswerHelpful.userId,
+                                            qaAnswers.authorId,
+                                        ),
+                                    ),
+                                ),
+                        ),
+                    ),
+                )
+                .groupBy(qaAnswers.authorId)
+                .having(atLeastThreshold);
+            break;
+        case 'membership_days':
+            rows = await db
+                .select({ userId: users.id })
+                .from(users)
+                .where(
+                    and(
+                        inOrg,
+                        lte(
+                            users.createdAt,
+                            new Date(Date.now() - threshold * DAY_MS),
+                        ),
+                    ),
+                );
+            break;
+    }
+    return rows.map((row) => row.userId);
+}
+
+async function generateAwardNote(rule: BadgeRule) {
+    const community = rule.communityId
+        ? await db.query.communities.findFirst({
+              where: eq(communities.id, rule.communityId),
+              columns: { name: true },
+          })
+        : undefined;
+    return `Awarded automatically: ${describeBadgeRule(rule, community?.name)}`;
+}
+
+async function evaluateBadge(badge: RuleBadge, userIds?: string[]) {
+    const qualifying = await findQualifyingUserIds(badge, userIds);
+
+    let awarded = 0;
+    if (qualifying.length > 0) {
+        const note = await generateAwardNote(badge.awardRule);
+        for (let i = 0; i < qualifying.length; i += INSERT_BATCH_SIZE) {
+            const inserted = await db
+                .insert(userBadgeAssignments)
+                .values(
+                    qualifying
+                        .slice(i, i + INSERT_BATCH_SIZE)
+                        .map((userId) => ({
+                            userId,
+                            badgeId: badge.id,
+                            // The rule acts on behalf of the badge's creator
+                            assignedBy: badge.createdBy,
+                            note,
+                            awardedByRule: true,
+                        })),
+                )
+                .onConflictDoNothing()
+                .returning({ userId: userBadgeAssignments.userId });
+            awarded += inserted.length;
+        }
+    }
+
+    let revoked = 0;
+    if (badge.revokeWhenUnmet) {
+        const removed = await db
+            .delete(userBadgeAssignments)
+            .where(
+                and(
+                    eq(userBadgeAssignments.badgeId, badge.id),
+                    eq(userBadgeAssignments.awardedByRule, true),
+                    userIds
+                        ? inArray(userBadgeAssignments.userId, userIds)
+                        : undefined,
+                    qualifying.length > 0
+                        ? notInArray(userBadgeAssignments.userId, qualifying)
+                        : undefined,
+                ),
+            )
+            .returning({ userId: userBadgeAssignments.userId });
+        revoked = removed.length;
+    }
+
+    return { awarded, revoked };
+}
+
+/**
+ * Awards (and where enabled revokes) rule-based badges. Narrow it down to
+ * one badge, one organization, some users or some rule types; with no
+ * options every rule is checked for every member.
+ */
+export async function evaluateBadgeRules(
+    options: {
+        badgeId?: number;
+        orgId?: string;
+        userIds?: string[];
+        types?: BadgeRuleType[];
+    } = {},
+) {
+    const badges = await db
+        .select({
+            id: userBadges.id,
+            orgId: userBadges.orgId,
+            createdBy: userBadges.createdBy,
+            revokeWhenUnmet: userBadges.revokeWhenUnmet,
+            awardRule: userBadges.awardRule,
+        })
+        .from(userBadges)
+        .where(
+            and(
+                isNotNull(userBadges.awardRule),
+                options.badgeId !== undefined
+                    ? eq(userBadges.id, options.badgeId)
+                    : undefined,
+                options.orgId ? eq(userBadges.orgId, options.orgId) : undefined,
+                options.types
+                    ? inArray(
+                          sql`${userBadges.awardRule}->>'type'`,
+                          options.types,
+                      )
+                    : undefined,
+            ),
+        );
+
+    let awarded = 0;
+    let revoked = 0;
+    for (const badge of badges) {
+        const result = await evaluateBadge(
+            { ...badge, awardRule: badge.awardRule! },
+            options.userIds,
+        );
+        awarded += result.awarded;
+        revoked += result.revoked;
+    }
+    return { badges: badges.length, awarded, revoked };
+}
+
+/**
+ * Re-checks the given kinds of rules for one user after they (or someone
+ * voting on their answers) changed something. Failures are logged, never
+ * thrown: badges must not break the write that triggered them, and the
+ * backfill catches up.
+ */
+export async function evaluateUserBadgeRules(
+    userId: string,
+    types: BadgeRuleType[],
+) {
+    try {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { orgId: true },
+        });
+        if (!user?.orgId) return;
+        await evaluateBadgeRules({
+            orgId: user.orgId,
+            userIds: [userId],
+            types,
+        });
+    } catch (error) {
+        console.error(`Failed to evaluate badge rules for ${userId}:`, error);
+    }
+}
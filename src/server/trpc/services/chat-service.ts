@@ -0,0 +1,324 @@
+import { db } from '@/server/db';
+import {
+    chatThreadParticipants,
+    communityMembers,
+    directMessages,
+    orgs,
+    users,
+} from '@/server/db/schema';
+import { TRPCError } from '@trpc/server';
+import {
+    and,
+    eq,
+    gt,
+    inArray,
+    isNull,
+    lt,
+    max,
+    ne,
+    or,
+    sql,
+} from 'drizzle-orm';
+import { publishChatEvent, type ChatStreamMessage } from '@/lib/chat-events';
+
+// Upper bound for group conversations, including the creator
+export const MAX_GROUP_PARTICIPANTS = 20;
+
+export const chatUserColumns = {
+    id: true,
+    name: true,
+    email: true,
+    image: true,
+} as const;
+
+// Everything a message is rendered with
+export const chatMessageWith = {
+    sender: { columns: chatUserColumns },
+    attachments: {
+        columns: {
+            id: true,
+            filename: true,
+            mimetype: true,
+            type: true,
+            size: true,
+            publicUrl: true,
+        },
+    },
+    reactions: { columns: { userId: true, emoji: true } },
+} as const;
+
+export async function getChatMessage(messageId: number) {
+    return db.query.directMessages.findFirst({
+        where: eq(directMessages.id, messageId),
+        with: chatMessageWith,
+    });
+}
+
+type ChatOrgUser = { id: string; orgId: string | null };
+
+// Community ids where the user is an active member (followers don't count)
+function activeMembershipsQuery(userId: string) {
+    return db
+        .select({ communityId: communityMembers.communityId })
+        .from(communityMembers)
+        .where(
+            and(
+                eq(communityMembers.userId, userId),
+                eq(communityMembers.membershipType, 'member'),
+                eq(communityMembers.status, 'active'),
+            ),
+        );
+}
+
+// Users in other orgs who are active members of a community with the user
+export async function getSharedCommunityUserIds(userId: string) {
+    const rows = await db
+        .selectDistinct({ userId: communityMembers.userId })
+        .from(communityMembers)
+        .where(
+            and(
+                inArray(
+                    communityMembers.communityId,
+                    activeMembershipsQuery(userId),
+                ),
+                ne(communityMembers.userId, userId),
+                eq(communityMembers.membershipType, 'member'),
+                eq(communityMembers.status, 'active'),
+            ),
+        );
+    return rows.map((row) => row.userId);
+}
+
+async function sharesCommunity(userAId: string, userBId: string) {
+    const [shared] = await db
+        .select({ communityId: communityMembers.communityId })
+        .from(communityMembers)
+        .where(
+            and(
+                eq(communityMembers.userId, userBId),
+                eq(communityMembers.membershipType, 'member'),
+                eq(communityMembers.status, 'active'),
+                inArray(
+                    communityMembers.communityId,
+                    activeMembershipsQuery(userAId),
+                ),
+            ),
+        )
+        .limit(1);
+    return !!shared;
+}
+
+/**
+ * Users of the same org can always message each other. Across orgs, both
+ * orgs have to allow cross-org DMs, or the two users have to be active
+ * members of a shared community.
+ */
+export async function canMessageUser(
+    sender: ChatOrgUser,
+    recipient: ChatOrgUser,
+) {
+    if (!sender.orgId || !recipient.orgId) return false;
+    if (sender.orgId === recipient.orgId) return true;
+
+    const orgRows = await db
+        .select({ allowCrossOrgDM: orgs.allowCrossOrgDM })
+        .from(orgs)
+        .where(inArray(orgs.id, [sender.orgId, recipient.orgId]));
+    if (orgRows.length === 2 && orgRows.every((org) => org.allowCrossOrgDM)) {
+        return true;
+    }
+
+    return sharesCommunity(sender.id, recipient.id);
+}
+
+// Org name of each participant, keyed by user id
+export async function getParticipantOrgNames(threadId: number) {
+    const rows = await db
+        .select({ userId: chatThreadParticipants.userId, orgName: orgs.name })
+        .from(chatThreadParticipants)
+        .innerJoin(users, eq(users.id, chatThreadParticipants.userId))
+        .innerJoin(orgs, eq(orgs.id, users.orgId))
+        .where(eq(chatThreadParticipants.threadId, threadId));
+    return Object.fromEntries(rows.map((row) => [row.userId, row.orgName]));
+}
+
+export async function getThreadParticipant(threadId: number, userId: string) {
+    return db.query.chatThreadParticipants.findFirst({
+        where: and(
+            eq(chatThreadParticipants.threadId, threadId),
+            eq(chatThreadParticipants.userId, userId),
+        ),
+    });
+}
+
+export async function assertThreadParticipant(
+    threadId: number,
+    userId: string,
+) {
+    const participant = await getThreadParticipant(threadId, userId);
+    if (!participant) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have access to this chat thread',
+        });
+    }
+    return participant;
+}
+
+export async function getThreadParticipantIds(threadId: number) {
+    const rows = await db
+        .select({ userId: chatThreadParticipants.userId })
+        .from(chatThreadParticipants)
+        .where(eq(chatThreadParticipants.threadId, threadId));
+    return rows.map((row) => row.userId);
+}
+
+// Unread messages are those sent by someone else after the participant's read marker
+function unreadCountQuery(userId: string, threadIds?: number[]) {
+    const conditions = [
+        ne(directMessages.senderId, userId),
+        gt(
+            directMessages.id,
+            sql`coalesce(${chatThreadParticipants.lastReadMessageId}, 0)`,
+        ),
+    ];
+    if (threadIds) {
+        conditions.push(inArray(directMessages.threadId, threadIds));
+    }
+
+    return db
+        .select({
+            threadId: directMessages.threadId,
+            count: sql<number>`count(*)::int`,
+        })
+        .from(directMessages)
+        .innerJoin(
+            chatThreadParticipants,
+            and(
+                eq(chatThreadParticipants.threadId, directMessages.threadId),
+                eq(chatThreadParticipants.userId, userId),
+            ),
+        )
+        .where(and(...conditions))
+        .groupBy(directMessages.threadId);
+}
+
+export async function getUnreadCountsByThread(
+    userId: string,
+    threadIds: number[],
+) {
+    const counts = new Map<number, number>();
+    if (threadIds.length === 0) return counts;
+
+    const rows = await unreadCountQuery(userId, threadIds);
+    rows.forEach((row) => counts.set(row.threadId, row.count));
+    return counts;
+}
+
+export async function getThreadUnreadCount(threadId: number, userId: string) {
+    const counts = await getUnreadCountsByThread(userId, [threadId]);
+    return counts.get(threadId) || 0;
+}
+
+export async function getTotalUnreadCount(userId: string) {
+    const rows = await unreadCountQuery(userId);
+    return rows.reduce((total, row) => total + row.count, 0);
+}
+
+// Moves the user's read marker to the latest message in the thread and pushes
+// the new unread counts to their open chat streams
+export async function markThreadReadForUser(threadId: number, userId: string) {
+    const [latest] = await db
+        .select({ id: max(directMessages.id) })
+        .from(directMessages)
+        .where(eq(directMessages.threadId, threadId));
+
+    if (!latest?.id) {
+        return { success: true };
+    }
+
+    const updated = await db
+        .update(chatThreadParticipants)
+        .set({ lastReadMessageId: latest.id })
+        .where(
+            and(
+                eq(chatThreadParticipants.threadId, threadId),
+                eq(chatThreadParticipants.userId, userId),
+                or(
+                    isNull(chatThreadParticipants.lastReadMessageId),
+                    lt(chatThreadParticipants.lastReadMessageId, latest.id),
+                ),
+            ),
+        )
+        .returning({ threadId: chatThreadParticipants.threadId });
+
+    if (updated.length > 0) {
+        publishChatEvent(userId, {
+            type: 'read',
+            threadId,
+            unreadCount: 0,
+            totalUnreadCount: await getTotalUnreadCount(userId),
+        });
+    }
+
+    return { success: true };
+}
+
+// Pushes a new message to every participant's open chat streams. Recipients
+// also get their refreshed unread counts.
+export async function publishMessageToParticipants(
+    participantIds: string[],
+    message: ChatStreamMessage,
+    lastMessageAt: Date,
+    lastMessagePreview: string,
+) {
+    await Promise.all(
+        participantIds.map(async (participantId) => {
+            if (participantId === message.senderId) {
+                publishChatEvent(participantId, {
+                    type: 'message',
+                    threadId: message.threadId,
+                    message,
+                    lastMessageAt,
+                    lastMessagePreview,
+                });
+                return;
+            }
+
+            const [unreadCount, totalUnreadCount] = await Promise.all([
+                getThreadUnreadCount(message.threadId, participantId),
+                getTotalUnreadCount(participantId),
+            ]);
+
+            publishChatEvent(participantId, {
+                type: 'message',
+                threadId: message.threadId,
+                message,
+                lastMessageAt,
+                lastMessagePreview,
+                unreadCount,
+                totalUnreadCount,
+            });
+        }),
+    );
+}
+
+// Pushes an edited, deleted or reacted-to message to every participant
+export async function publishMessageUpdate(
+    threadId: number,
+    messageId: number,
+) {
+    const [participantIds, message] = await Promise.all([
+        getThreadParticipantIds(threadId),
+        getChatMessage(messageId),
+    ]);
+    if (!message) return;
+
+    for (const participantId of participantIds) {
+        publishChatEvent(participantId, {
+            type: 'message_updated',
+            threadId,
+            message,
+        });
+    }
+}
@@ -0,0 +1,22 @@
+import { and, isNull, lt } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { communityInvites } from '@/server/db/schema';
+
+/**
+ * Deletes unused invites that expired more than `graceDays` ago. The grace
+ * period keeps recently expired invites around, so people following an old
+ * link are still told it expired rather than that it doesn't exist.
+ */
+export async function deleteExpiredInvites(graceDays: number) {
+    const cutoff = new Date(Date.now() - graceDays * 24 * 60 * 60 * 1000);
+    const deleted = await db
+        .delete(communityInvites)
+        .where(
+            and(
+                isNull(communityInvites.usedAt),
+                lt(communityInvites.expiresAt, cutoff),
+            ),
+        )
+        .returning({ id: communityInvites.id });
+    return { deleted: deleted.length };
+}
@@ -0,0 +1,115 @@
+import { TRPCError } from '@trpc/server';
+import { and, eq, gt, inArray, isNull, or } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { communityBans, communityMutes } from '@/server/db/schema';
+
+// A ban without an expiry is permanent; expired rows are ignored rather than
+// cleaned up, and are overwritten when the user is banned or muted again
+const activeBanCondition = () =>
+    or(
+        isNull(communityBans.expiresAt),
+        gt(communityBans.expiresAt, new Date()),
+    );
+
+const activeMuteCondition = () => gt(communityMutes.expiresAt, new Date());
+
+const formatExpiry = (expiresAt: Date) =>
+    `${expiresAt.toLocaleString('en-US', {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+        timeZone: 'UTC',
+    })} UTC`;
+
+export async function getActiveBan(communityId: number, userId: string) {
+    return db.query.communityBans.findFirst({
+        where: and(
+            eq(communityBans.communityId, communityId),
+            eq(communityBans.userId, userId),
+            activeBanCondition(),
+        ),
+    });
+}
+
+export async function getActiveMute(communityId: number, userId: string) {
+    return db.query.communityMutes.findFirst({
+        where: and(
+            eq(communityMutes.communityId, communityId),
+            eq(communityMutes.userId, userId),
+            activeMuteCondition(),
+        ),
+    });
+}
+
+// Users from the list who are currently banned from the community
+export async function getBannedUserIds(communityId: number, userIds: string[]) {
+    if (userIds.length === 0) return [];
+
+    const bans = await db
+        .select({ userId: communityBans.userId })
+        .from(communityBans)
+        .where(
+            and(
+                eq(communityBans.communityId, communityId),
+                inArray(communityBans.userId, userIds),
+                activeBanCondition(),
+            ),
+        );
+
+    return bans.map((ban) => ban.userId);
+}
+
+export async function getActiveRestrictions(communityId: number) {
+    const [bans, mutes] = await Promise.all([
+        db.query.communityBans.findMany({
+            where: and(
+                eq(communityBans.communityId, communityId),
+                activeBanCondition(),
+            ),
+            with: {
+                user: {
+                    columns: { id: true, name: true, email: true, image: true },
+                },
+                bannedByUser: { columns: { id: true, name: true } },
+            },
+            orderBy: (table, { desc }) => desc(table.createdAt),
+        }),
+        db.query.communityMutes.findMany({
+            where: and(
+                eq(communityMutes.communityId, communityId),
+                activeMuteCondition(),
+            ),
+            with: {
+                user: {
+                    columns: { id: true, name: true, email: true, image: true },
+                },
+                mutedByUser: { columns: { id: true, name: true } },
+            },
+            orderBy: (table, { desc }) => desc(table.createdAt),
+        }),
+    ]);
+
+    return { bans, mutes };
+}
+
+export async function assertNotBanned(communityId: number, userId: string) {
+    const ban = await getActiveBan(communityId, userId);
+    if (!ban) return;
+
+    throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: ban.expiresAt
+            ? `You are banned from this community until ${formatExpiry(ban.expiresAt)}`
+            : 'You are banned from this community',
+    });
+}
+
+// Muted members can still read, but cannot post, comment, answer or vote
+export async function assertNotMuted(communityId: number, userId: string) {
+    const mute = await getActiveMute(communityId, userId);
+    if (!mute) return;
+
+    throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `You are muted in this community until ${formatExpiry(mute.expiresAt)}`,
+    });
+}
@@ -0,0 +1,642 @@
+import { TRPCError } from '@trpc/server';
+import {
+    and,
+    asc,
+    desc,
+    eq,
+    gte,
+    inArray,
+    isNotNull,
+    isNull,
+    lte,
+    or,
+    sql,
+    type SQL,
+} from 'drizzle-orm';
+import { db } from '@/server/db';
+import {
+    communities,
+    communityMembers,
+    orgs,
+    pollOptions,
+    posts,
+    users,
+} from '@/server/db/schema';
+import type { FeedSort, ForMeSort } from '@/lib/feed-sorts';
+import { rankPosts } from '@/lib/for-me-ranking';
+import { getRankingSignals } from '@/server/trpc/services/for-me-ranking-service';
+
+/**
+ * Feed Service
+ *
+ * Every post listing goes through getFeedPage: a scope decides which posts
+ * are in the feed, a sort decides their order, and pages are cut with a
+ * keyset cursor on (sort key, post id). Unlike offsets, a keyset cursor
+ * doesn't shift when new posts arrive, so those pages never skip or repeat
+ * posts. The recommended sort ranks the newest posts in memory instead and
+ * keys its cursor on the score; scores decay between requests, so a post
+ * can occasionally move across a page boundary.
+ */
+
+export type FeedScope =
+    // The viewer's org-wide posts (outside any community)
+    | 'org'
+    // Posts from the viewer's communities
+    | 'communities'
+    // Org-wide posts plus posts from the viewer's communities
+    | 'all'
+    // Posts from communities the viewer is a member of (not a follower)
+    | 'members'
+    // 'all' plus posts from public communities in the viewer's org
+    | 'for-me';
+
+export type FeedDateFilter = {
+    type: 'all' | 'today' | 'week' | 'month' | 'custom';
+    startDate?: Date;
+    endDate?: Date;
+};
+
+export type FeedPageInput = {
+    scope: FeedScope;
+    // 'recommended' ranks the feed for the viewer, see for-me-ranking
+    sort: ForMeSort;
+    limit: number;
+    cursor?: string | null;
+    dateFilter?: FeedDateFilter;
+};
+
+type FeedViewer = {
+    id: string;
+    isSuperAdmin: boolean;
+    orgId: string | null;
+    isOrgAdmin: boolean;
+};
+
+type FeedCursor = {
+    key: string; // sort key of the last post, as Postgres text
+    id: number;
+    asOf: string; // trending scores are computed as of the first page
+};
+
+// Where the viewer's access to a community comes from
+type CommunityAccess = 'member' | 'follower' | 'org-admin';
+
+export type ViewerCommunities = {
+    access: Map<number, CommunityAccess>;
+    // Communities whose posts the viewer can read
+    readableIds: number[];
+};
+
+const HOUR_SECONDS = 60 * 60;
+
+// Recommended feeds rank this many of the newest matching posts
+const RANKING_POOL_SIZE = 300;
+
+const postRelations = {
+    author: {
+        with: {
+            organization: true,
+        },
+    },
+    community: true,
+    comments: true,
+    postTags: {
+        with: {
+            tag: true,
+        },
+    },
+    poll: {
+        with: {
+            options: {
+                orderBy: asc(pollOptions.orderIndex),
+            },
+        },
+    },
+    qa: true,
+    attachments: true,
+} as const;
+
+export async function getFeedViewer(userId: string): Promise<FeedViewer> {
+    const user = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: { appRole: true, role: true, orgId: true },
+    });
+
+    if (!user) {
+        throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'User not found.',
+        });
+    }
+
+    const isSuperAdmin = user.appRole === 'admin';
+    if (!isSuperAdmin && !user.orgId) {
+        throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'User does not have an organization.',
+        });
+    }
+
+    return {
+        id: userId,
+        isSuperAdmin,
+        orgId: user.orgId,
+        isOrgAdmin: user.role === 'admin',
+    };
+}
+
+/**
+ * Communities the viewer can read posts from: those they are an active
+ * member of, public ones they follow, and (for org admins) every community
+ * in their org. Following a private community doesn't grant access.
+ */
+export async function getViewerCommunities(
+    viewer: Pick<FeedViewer, 'id' | 'orgId' | 'isOrgAdmin'>,
+): Promise<ViewerCommunities> {
+    const memberships = await db
+        .select({
+            communityId: communityMembers.communityId,
+            membershipType: communityMembers.membershipType,
+            communityType: communities.type,
+        })
+        .from(communityMembers)
+        .innerJoin(
+            communities,
+            eq(communities.id, communityMembers.communityId),
+        )
+        .where(
+            and(
+                eq(communityMembers.userId, viewer.id),
+                eq(communityMembers.status, 'active'),
+            ),
+        );
+
+    const access = new Map<number, CommunityAccess>();
+
+    // --- ORG ADMIN OVERRIDE ---
+    if (viewer.isOrgAdmin && viewer.orgId) {
+        const orgCommunities = await db.query.communities.findMany({
+            where: eq(communities.orgId, viewer.orgId),
+            columns: { id: true },
+        });
+        for (const community of orgCommunities) {
+            access.set(community.id, 'org-admin');
+        }
+    }
+
+    for (const membership of memberships) {
+        if (membership.membershipType === 'member') {
+            access.set(membership.communityId, 'member');
+        } else if (
+            membership.communityType === 'public' &&
+            !access.has(membership.communityId)
+        ) {
+            access.set(membership.communityId, 'follower');
+        }
+    }
+
+    return { access, readableIds: [...access.keys()] };
+}
+
+/**
+ * Posts the viewer may read anywhere in the app: SuperAdmins see
+ * everything, everyone else sees their org's posts outside communities plus
+ * posts from the communities returned by getViewerCommunities. Deleted posts
+ * and posts hidden by moderators are always excluded.
+ */
+export async function getVisiblePostsCondition(userId: string): Promise<SQL> {
+    const viewer = await getFeedViewer(userId);
+    const live = and(eq(posts.isDeleted, false), eq(posts.isHidden, false))!;
+    if (viewer.isSuperAdmin) return live;
+
+    const { readableIds } = await getViewerCommunities(viewer);
+    return and(
+        live,
+        or(
+            and(eq(posts.orgId, viewer.orgId!), isNull(posts.communityId)),
+            readableIds.length > 0
+                ? inArray(posts.communityId, readableIds)
+                : sql`false`,
+        ),
+    )!;
+}
+
+export function getDateFilterCondition(dateFilter?: FeedDateFilter) {
+    if (!dateFilter || dateFilter.type === 'all') return undefined;
+
+    const now = new Date();
+    let startDate: Date;
+    let endDate: Date = now;
+
+    switch (dateFilter.type) {
+        case 'today':
+            startDate = new Date(
+                now.getFullYear(),
+                now.getMonth(),
+                now.getDate(),
+            );
+            endDate = new Date(
+                now.getFullYear(),
+                now.getMonth(),
+                now.getDate(),
+                23,
+                59,
+                59,
+                999,
+            );
+            break;
+        case 'week':
+            startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+            break;
+        case 'month':
+            startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+            break;
+        case 'custom':
+            if (!dateFilter.startDate || !dateFilter.endDate) return undefined;
+            startDate = dateFilter.startDate;
+            endDate = dateFilter.endDate;
+            break;
+    }
+
+    return and(gte(posts.createdAt, startDate), lte(posts.createdAt, endDate));
+}
+
+// Which posts are in the feed for the scope, before date filter and cursor
+async function getScopeCondition(
+    viewer: FeedViewer,
+    scope: FeedScope,
+    viewerCommunities: ViewerCommunities,
+): Promise<SQL | null> {
+    const orgPosts = viewer.orgId
+        ? and(eq(posts.orgId, viewer.orgId), isNull(posts.communityId))!
+        : null;
+
+    if (viewer.isSuperAdmin && scope !== 'members') {
+        if (scope === 'org') return orgPosts;
+        if (scope === 'communities') return isNotNull(posts.communityId);
+        return sql`true`;
+    }
+
+    const { access, readableIds } = viewerCommunities;
+    const inCommunities = (ids: number[]) =>
+        ids.length > 0 ? inArray(posts.communityId, ids) : null;
+
+    switch (scope) {
+        case 'org':
+            return orgPosts;
+        case 'communities':
+            return inCommunities(readableIds);
+        case 'members':
+            return inCommunities(
+                readableIds.filter((id) => access.get(id) === 'member'),
+            );
+        case 'all':
+            return (
+                or(
+                    orgPosts ?? undefined,
+                    inCommunities(readableIds) ?? undefined,
+                ) ?? null
+            );
+        case 'for-me': {
+            // Public communities of the viewer's org surface their org's posts
+            // even to non-members
+            const publicCommunities = viewer.orgId
+                ? await db.query.communities.findMany({
+                      where: and(
+                          eq(communities.type, 'public'),
+                          eq(communities.orgId, viewer.orgId),
+                      ),
+                      columns: { id: true },
+                  })
+                : [];
+            const publicIds = publicCommunities
+                .map((community) => community.id)
+                .filter((id) => !access.has(id));
+            return (
+                or(
+                    orgPosts ?? undefined,
+                    inCommunities(readableIds) ?? undefined,
+                    publicIds.length > 0 && viewer.orgId
+                        ? and(
+                              inArray(posts.communityId, publicIds),
+                              eq(posts.orgId, viewer.orgId),
+                          )
+                        : undefined,
+                ) ?? null
+            );
+        }
+    }
+}
+
+const commentCount = sql`(
+    SELECT COUNT(*) FROM comments c
+    WHERE c.post_id = ${posts.id} AND c.is_deleted = false
+)`;
+
+const likeCount = sql`(
+    SELECT COUNT(*) FROM reactions r
+    WHERE r.post_id = ${posts.id} AND r.type = 'like'
+)`;
+
+// Sort key expression, its Postgres type (to read a cursor back) and order
+function getSortKey(sort: FeedSort, asOf: Date) {
+    switch (sort) {
+        case 'latest':
+            return {
+                key: sql`${posts.createdAt}`,
+                type: sql`timestamp`,
+                desc: true,
+            };
+        case 'oldest':
+            return {
+                key: sql`${posts.createdAt}`,
+                type: sql`timestamp`,
+                desc: false,
+            };
+        case 'most-liked':
+            return { key: likeCount, type: sql`bigint`, desc: true };
+        case 'most-commented':
+            return { key: commentCount, type: sql`bigint`, desc: true };
+        case 'trending': {
+            // Engagement decayed by age, so new activity outranks old totals.
+            // Ages are measured from asOf, which stays fixed across pages.
+            const ageHours = sql`GREATEST(EXTRACT(EPOCH FROM ((${asOf.toISOString()}::timestamptz AT TIME ZONE 'UTC') - ${posts.createdAt})) / ${HOUR_SECONDS}, 0)`;
+            return {
+                key: sql`((${likeCount} + 2 * ${commentCount} + 1)::double precision / POWER(${ageHours} + 2, 1.5))`,
+                type: sql`double precision`,
+                desc: true,
+            };
+        }
+    }
+}
+
+function encodeCursor(cursor: FeedCursor) {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): FeedCursor {
+    try {
+        const parsed = JSON.parse(
+            Buffer.from(cursor, 'base64url').toString('utf8'),
+        );
+        if (
+            typeof parsed.key === 'string' &&
+            typeof parsed.id === 'number' &&
+            typeof parsed.asOf === 'string'
+        ) {
+            return parsed;
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'Invalid cursor',
+    });
+}
+
+// Why a post shows up in the viewer's feed
+function getPostSource(
+    post: { orgId: string; communityId: number | null },
+    viewer: FeedViewer,
+    access: Map<number, CommunityAccess>,
+    orgName: string,
+    communityName?: string,
+) {
+    if (viewer.isSuperAdmin) {
+        return {
+            type: post.communityId ? 'community' : 'org',
+            orgId: post.orgId,
+            communityId: post.communityId ?? undefined,
+            reason: post.communityId
+                ? `SuperAdmin access to ${communityName || 'community'}`
+                : 'SuperAdmin access to organization',
+        };
+    }
+
+    if (!post.communityId) {
+        return {
+            type: 'org',
+            orgId: post.orgId,
+            reason: `Because you are part of ${orgName}`,
+        };
+    }
+
+    return {
+        type: 'community',
+        communityId: post.communityId,
+        // Members and followers don't need a reason; anything else was
+        // surfaced for them
+        reason:
+            access.get(post.communityId) === 'member' ||
+            access.get(post.communityId) === 'follower'
+                ? ''
+                : 'Based on your interests',
+    };
+}
+
+// One page in sort order, cut by comparing (sort key, id) with the cursor
+async function getSortedPage(
+    where: SQL | undefined,
+    sort: FeedSort,
+    limit: number,
+    cursor: FeedCursor | null,
+    asOf: Date,
+) {
+    const sortKey = getSortKey(sort, asOf);
+    const direction = sortKey.desc ? sql`DESC` : sql`ASC`;
+    const cursorCondition = cursor
+        ? sortKey.desc
+            ? sql`(${sortKey.key}, ${posts.id}) < (${cursor.key}::${sortKey.type}, ${cursor.id})`
+            : sql`(${sortKey.key}, ${posts.id}) > (${cursor.key}::${sortKey.type}, ${cursor.id})`
+        : undefined;
+
+    const rows = await db.query.posts.findMany({
+        where: and(where, cursorCondition),
+        extras: {
+            sortKey: sql<string>`(${sortKey.key})::text`.as('sort_key'),
+        },
+        orderBy: [
+            sql`${sortKey.key} ${direction}`,
+            sql`${posts.id} ${direction}`,
+        ],
+        // One extra row tells us whether there is another page
+        limit: limit + 1,
+        with: postRelations,
+    });
+
+    const page = rows.slice(0, limit);
+    const last = page.at(-1);
+    return {
+        posts: page.map(({ sortKey: _sortKey, ...post }) => post),
+        explanations: new Map<number, string>(),
+        next:
+            rows.length > limit && last
+                ? { key: last.sortKey, id: last.id }
+                : null,
+    };
+}
+
+// One page of the newest posts ranked for the viewer. Scores are recomputed
+// on every page (as of the first page), and the cursor holds the last
+// (score, id) so a page picks up strictly after it.
+async function getRankedPage(
+    where: SQL | undefined,
+    viewer: FeedViewer,
+    access: Map<number, CommunityAccess>,
+    limit: number,
+    cursor: FeedCursor | null,
+    asOf: Date,
+) {
+    const [candidates, signals] = await Promise.all([
+        db.query.posts.findMany({
+            where: and(where, lte(posts.createdAt, asOf)),
+            columns: {
+                id: true,
+                title: true,
+                createdAt: true,
+                authorId: true,
+                communityId: true,
+            },
+            with: {
+                author: { columns: { name: true } },
+                community: { columns: { name: true } },
+                postTags: {
+                    with: {
+                        tag: { columns: { name: true } },
+                    },
+                },
+            },
+            orderBy: [desc(posts.createdAt), desc(posts.id)],
+            limit: RANKING_POOL_SIZE,
+        }),
+        getRankingSignals(viewer.id, access),
+    ]);
+
+    const ranked = rankPosts(
+        candidates.map((post) => ({
+            id: post.id,
+            title: post.title,
+            createdAt: post.createdAt,
+            authorId: post.authorId,
+            authorName: post.author?.name ?? null,
+            communityId: post.communityId,
+            communityName: post.community?.name ?? null,
+            tags: post.postTags.map(({ tag }) => tag.name),
+        })),
+        signals,
+        asOf,
+    );
+
+    const cursorScore = cursor ? Number(cursor.key) : null;
+    const remaining =
+        cursor && cursorScore !== null
+            ? ranked.filter(
+                  (post) =>
+                      post.score < cursorScore ||
+                      (post.score === cursorScore && post.id < cursor.id),
+              )
+            : ranked;
+    const ranks = remaining.slice(0, limit);
+    const last = ranks.at(-1);
+
+    const rows =
+        ranks.length > 0
+            ? await db.query.posts.findMany({
+                  where: inArray(
+                      posts.id,
+                      ranks.map((post) => post.id),
+                  ),
+                  with: postRelations,
+              })
+            : [];
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+    return {
+        posts: ranks
+            .map((post) => rowsById.get(post.id))
+            .filter((row): row is (typeof rows)[number] => !!row),
+        explanations: new Map(
+            ranks.flatMap((post) =>
+                post.explanation ? [[post.id, post.explanation] as const] : [],
+            ),
+        ),
+        next:
+            remaining.length > limit && last
+                ? { key: String(last.score), id: last.id }
+                : null,
+    };
+}
+
+/**
+ * Returns one page of a feed and the cursor for the next one (null on the
+ * last page). Pass the returned cursor back unchanged, with the same scope,
+ * sort and filters.
+ */
+export async function getFeedPage(userId: string, input: FeedPageInput) {
+    const viewer = await getFeedViewer(userId);
+    const cursor = input.cursor ? decodeCursor(input.cursor) : null;
+    const asOf = cursor ? new Date(cursor.asOf) : new Date();
+
+    const viewerCommunities = viewer.isSuperAdmin
+        ? { access: new Map<number, CommunityAccess>(), readableIds: [] }
+        : await getViewerCommunities(viewer);
+    const scopeCondition = await getScopeCondition(
+        viewer,
+        input.scope,
+        viewerCommunities,
+    );
+
+    if (!scopeCondition) {
+        return { posts: [], nextCursor: null, hasNextPage: false };
+    }
+
+    const where = and(
+        eq(posts.isDeleted, false),
+        eq(posts.isHidden, false),
+        scopeCondition,
+        getDateFilterCondition(input.dateFilter),
+    );
+
+    const page =
+        input.sort === 'recommended'
+            ? await getRankedPage(
+                  where,
+                  viewer,
+                  viewerCommunities.access,
+                  input.limit,
+                  cursor,
+                  asOf,
+              )
+            : await getSortedPage(where, input.sort, input.limit, cursor, asOf);
+
+    const organization =
+        viewer.orgId && !viewer.isSuperAdmin
+            ? await db.query.orgs.findFirst({
+                  where: eq(orgs.id, viewer.orgId),
+                  columns: { name: true },
+              })
+            : null;
+    const orgName = organization?.name || 'your organization';
+
+    return {
+        posts: page.posts.map(({ postTags, ...post }) => ({
+            ...post,
+            tags: postTags.map((pt) => pt.tag),
+            source: {
+                ...getPostSource(
+                    post,
+                    viewer,
+                    viewerCommunities.access,
+                    orgName,
+                    post.community?.name,
+                ),
+                explanation: page.explanations.get(post.id),
+            },
+        })),
+        nextCursor: page.next
+            ? encodeCursor({ ...page.next, asOf: asOf.toISOString() })
+            : null,
+        hasNextPage: !!page.next,
+    };
+}
@@ -0,0 +1,150 @@
+import { and, desc, eq, gte, inArray } from 'drizzle-orm';
+import { db } from '@/server/db';
+import {
+    comments,
+    posts,
+    reactions,
+    savedPosts,
+    userProfiles,
+} from '@/server/db/schema';
+import { INTERACTION_WEIGHTS, type RankingSignals } from '@/lib/for-me-ranking';
+import type { UserProfileMetadata } from '@/types/models';
+
+// How far back likes, saves and comments shape the viewer's affinities
+const AFFINITY_WINDOW_DAYS = 90;
+// Per interaction type, newest first
+const MAX_INTERACTIONS = 300;
+
+const asStrings = (value: unknown): string[] =>
+    Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string')
+        : [];
+
+async function getProfileTerms(userId: string) {
+    const profile = await db.query.userProfiles.findFirst({
+        where: eq(userProfiles.userId, userId),
+        columns: { metadata: true },
+    });
+    // Metadata is free-form JSON, so read it defensively
+    const metadata = (profile?.metadata ?? {}) as UserProfileMetadata;
+
+    return {
+        interests: asStrings(metadata.interests),
+        industries: asStrings(metadata.industries),
+        skills: Array.isArray(metadata.skills)
+            ? metadata.skills
+                  .map((skill) => skill?.name)
+                  .filter((name): name is string => typeof name === 'string')
+            : [],
+    };
+}
+
+// Weighted interactions per post from the viewer's recent likes, saves and
+// comments
+async function getInteractionWeights(userId: string) {
+    const since = new Date(
+        Date.now() - AFFINITY_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    const [likes, saves, commented] = await Promise.all([
+        db
+            .select({ postId: reactions.postId })
+            .from(reactions)
+            .where(
+                and(
+                    eq(reactions.userId, userId),
+                    eq(reactions.type, 'like'),
+                    gte(reactions.createdAt, since),
+                ),
+            )
+            .orderBy(desc(reactions.createdAt))
+            .limit(MAX_INTERACTIONS),
+        db
+            .select({ postId: savedPosts.postId })
+            .from(savedPosts)
+            .where(
+                and(
+                    eq(savedPosts.userId, userId),
+                    gte(savedPosts.createdAt, since),
+                ),
+            )
+            .orderBy(desc(savedPosts.createdAt))
+            .limit(MAX_INTERACTIONS),
+        db
+            .selectDistinct({ postId: comments.postId })
+            .from(comments)
+            .where(
+                and(
+                    eq(comments.authorId, userId),
+                    eq(comments.isDeleted, false),
+                    gte(comments.createdAt, since),
+                ),
+            )
+            .limit(MAX_INTERACTIONS),
+    ]);
+
+    const weights = new Map<number, number>();
+    const add = (rows: { postId: number }[], weight: number) => {
+        for (const { postId } of rows) {
+            weights.set(postId, (weights.get(postId) ?? 0) + weight);
+        }
+    };
+    add(likes, INTERACTION_WEIGHTS.like);
+    add(saves, INTERACTION_WEIGHTS.save);
+    add(commented, INTERACTION_WEIGHTS.comment);
+    return weights;
+}
+
+/**
+ * Everything the For Me ranking knows about the viewer: tag and author
+ * affinities from what they liked, saved and commented on, the interests,
+ * industries and skills on their profile, and their community access.
+ */
+export async function getRankingSignals(
+    userId: string,
+    communityAccess: RankingSignals['communityAccess'],
+): Promise<RankingSignals> {
+    const [profileTerms, interactionWeights] = await Promise.all([
+        getProfileTerms(userId),
+        getInteractionWeights(userId),
+    ]);
+
+    const tagAffinity = new Map<string, number>();
+    const authorAffinity = new Map<string, number>();
+
+    if (interactionWeights.size > 0) {
+        const interactedPosts = await db.query.posts.findMany({
+            where: inArray(posts.id, [...interactionWeights.keys()]),
+            columns: { id: true, authorId: true },
+            with: {
+                postTags: {
+                    with: {
+                        tag: { columns: { name: true } },
+                    },
+                },
+            },
+        });
+
+        for (const post of interactedPosts) {
+            const weight = interactionWeights.get(post.id) ?? 0;
+            if (post.authorId !== userId) {
+                authorAffinity.set(
+                    post.authorId,
+                    (authorAffinity.get(post.authorId) ?? 0) + weight,
+                );
+            }
+            for (const { tag } of post.postTags) {
+                const name = tag.name.trim().toLowerCase();
+                tagAffinity.set(name, (tagAffinity.get(name) ?? 0) + weight);
+            }
+        }
+    }
+
+    return {
+        viewerId: userId,
+        tagAffinity,
+        authorAffinity,
+        communityAccess,
+        ...profileTerms,
+    };
+}
@@ -0,0 +1,107 @@
+import sharp from 'sharp';
+import { encode } from 'blurhash';
+import { eq } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { attachments } from '@/server/db/schema';
+import { downloadObject, uploadObject } from '@/lib/r2-objects';
+import { encodeR2KeyForUrl } from '@/lib/utils';
+import {
+    IMAGE_VARIANTS,
+    imageVariantKey,
+    type ImageVariantName,
+    type ImageVariants,
+} from '@/lib/image-variants';
+
+/**
+ * Image Processing
+ *
+ * Runs once per uploaded image, from confirm-upload (or the process-image
+ * job when that attempt fails). The original is re-encoded in place with
+ * its EXIF orientation applied and all metadata (camera, GPS, XMP) dropped,
+ * so links already in post content serve the stripped file. Resized WebP
+ * variants and a blurhash are stored next to it and recorded on the
+ * attachment for the image renderers.
+ */
+
+export const PROCESS_IMAGE_JOB = 'process-image';
+
+// GIFs are left as uploaded so animations survive
+const PROCESSABLE_FORMATS: Record<string, 'jpeg' | 'png' | 'webp'> = {
+    'image/jpeg': 'jpeg',
+    'image/jpg': 'jpeg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+};
+
+const BLURHASH_SIZE = 32;
+
+const publicUrlFor = (key: string) =>
+    `${process.env.R2_PUBLIC_URL}/${encodeR2KeyForUrl(key)}`;
+
+async function computeBlurhash(image: Buffer) {
+    const { data, info } = await sharp(image)
+        .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: 'inside' })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    return encode(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+}
+
+/**
+ * Strips and resizes an image attachment. Returns the updated attachment, or
+ * null when it is not an image we process. Safe to call again: processed
+ * attachments are returned unchanged.
+ */
+export async function processImageAttachment(attachmentId: number) {
+    const attachment = await db.query.attachments.findFirst({
+        where: eq(attachments.id, attachmentId),
+    });
+    if (!attachment || attachment.type !== 'image') return null;
+    if (attachment.variants) return attachment;
+
+    const format = PROCESSABLE_FORMATS[attachment.mimetype];
+    if (!format) return null;
+
+    const original = await downloadObject(attachment.r2Key);
+
+    // sharp keeps no metadata unless asked to; rotate() first so photos
+    // don't lose their orientation along with the EXIF
+    const stripped = await sharp(original)
+        .rotate()
+        .toFormat(format, { quality: 90 })
+        .toBuffer({ resolveWithObject: true });
+    await uploadObject(attachment.r2Key, stripped.data, `image/${format}`);
+
+    const variants: ImageVariants = {};
+    for (const [name, width] of Object.entries(IMAGE_VARIANTS) as [
+        ImageVariantName,
+        number,
+    ][]) {
+        const { data, info } = await sharp(stripped.data)
+            .resize({ width, withoutEnlargement: true })
+            .webp({ quality: 80 })
+            .toBuffer({ resolveWithObject: true });
+        const key = imageVariantKey(attachment.r2Key, name);
+        await uploadObject(key, data, 'image/webp');
+        variants[name] = {
+            key,
+            url: publicUrlFor(key),
+            width: info.width,
+            height: info.height,
+        };
+    }
+
+    const [updated] = await db
+        .update(attachments)
+        .set({
+            size: stripped.data.length,
+            width: stripped.info.width,
+            height: stripped.info.height,
+            variants,
+            blurhash: await computeBlurhash(stripped.data),
+            updatedAt: new Date(),
+        })
+        .where(eq(attachments.id, attachmentId))
+        .returning();
+    return updated;
+}
@@ -0,0 +1,279 @@
+import { Parser } from 'htmlparser2';
+import { and, eq, gt, lt } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { linkPreviews } from '@/server/db/schema';
+import type { LinkPreview } from '@/lib/link-preview';
+import { safeFetch } from '@/server/utils/safe-fetch';
+
+/**
+ * Link Unfurling
+ *
+ * Builds previews for links in posts and chat messages from a page's
+ * OpenGraph and Twitter card tags, its <title> and description, and the
+ * oEmbed endpoint it advertises. Pages are fetched through safeFetch, so
+ * internal addresses are never reached. Results (failures included) are
+ * cached in link_previews, and the preview of a post's or message's first
+ * link is stored on it when it is written, so rendering never fetches.
+ */
+
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+const FAILED_PREVIEW_TTL_MS = 60 * 60 * 1000;
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Normalizes a URL for fetching and caching, or returns null when it is not
+// an http(s) URL
+export function normalizeLinkUrl(rawUrl: string) {
+    try {
+        const url = new URL(rawUrl.trim());
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+        url.hash = '';
+        return url.toString();
+    } catch {
+        return null;
+    }
+}
+
+// Links in HTML content (hrefs) first, then bare URLs. Media we embed
+// ourselves ([VIDEO:...] markers and <img> tags) is not a link to preview.
+export function extractFirstLink(content: string) {
+    const text = content
+        .replace(/\[VIDEO:[^\]]*\]/g, '')
+        .replace(/<img\b[^>]*>/gi, '');
+    const href = text.match(/href=["'](https?:\/\/[^"']+)["']/i)?.[1];
+    const bare = text.match(/https?:\/\/[^\s<>"'()\[\]]+/i)?.[0];
+    const candidate = href ?? bare?.replace(/[.,;:!?]+$/, '');
+    return candidate ? normalizeLinkUrl(decodeEntities(candidate)) : null;
+}
+
+function decodeEntities(value: string) {
+    return value
+        .replace(/&amp;/g, '&')
+        .replace(/&quot;/g, '"')
+        .replace(/&#0?39;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>');
+}
+
+const clean = (value: string | undefined, maxLength: number) => {
+    const text = value?.replace(/\s+/g, ' ').trim();
+    return text ? text.slice(0, maxLength) : undefined;
+};
+
+// Images must be http(s); relative ones resolve against the page
+function resolveImageUrl(value: string | undefined, pageUrl: string) {
+    if (!value) return undefined;
+    try {
+        const url = new URL(value.trim(), pageUrl);
+        return url.protocol === 'http:' || url.protocol === 'https:'
+            ? url.toString()
+            : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+interface PageMetadata {
+    meta: Record<string, string>; // og:*, twitter:* and name= tags, first wins
+    title?: string;
+    oembedUrl?: string;
+}
+
+function parseHtml(html: string) {
+    const page: PageMetadata = { meta: {} };
+    let inTitle = false;
+    let title = '';
+
+    const parser = new Parser(
+        {
+            onopentag(name, attributes) {
+                if (name === 'title') inTitle = true;
+                if (name === 'meta') {
+                    const key = (
+                        attributes.property ?? attributes.name
+                    )?.toLowerCase();
+                    if (key && attributes.content && !(key in page.meta)) {
+                        page.meta[key] = attributes.content;
+                    }
+                }
+                if (
+                    name === 'link' &&
+                    attributes.rel?.toLowerCase() === 'alternate' &&
+                    attributes.type?.toLowerCase() ===
+                        'application/json+oembed' &&
+                    attributes.href &&
+                    !page.oembedUrl
+                ) {
+                    page.oembedUrl = attributes.href;
+                }
+            },
+            ontext(text) {
+                if (inTitle) title += text;
+            },
+            onclosetag(name) {
+                if (name === 'title' && inTitle) {
+                    inTitle = false;
+                    page.title ??= title;
+                }
+            },
+        },
+        { decodeEntities: true },
+    );
+    parser.write(html);
+    parser.end();
+    return page;
+}
+
+interface OEmbed {
+    type?: string;
+    title?: string;
+    author_name?: string;
+    provider_name?: string;
+    thumbnail_url?: string;
+}
+
+// Only the descriptive fields are used; embed HTML is never stored
+async function fetchOEmbed(endpoint: string, pageUrl: string) {
+    try {
+        const response = await safeFetch(
+            new URL(endpoint, pageUrl).toString(),
+            {
+                accept: 'application/json',
+                maxBytes: 256 * 1024,
+            },
+        );
+        if (response.status !== 200) return null;
+        const data = JSON.parse(response.body.toString('utf8'));
+        return data && typeof data === 'object' ? (data as OEmbed) : null;
+    } catch {
+        return null;
+    }
+}
+
+const asString = (value: unknown) =>
+    typeof value === 'string' ? value : undefined;
+
+async function fetchLinkPreview(url: string): Promise<LinkPreview | null> {
+    const response = await safeFetch(url, {
+        accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.5',
+    });
+    if (response.status !== 200) return null;
+    if (!/text\/html|application\/xhtml\+xml/i.test(response.contentType)) {
+        return null;
+    }
+
+    const page = parseHtml(response.body.toString('utf8'));
+    const { meta } = page;
+    const oembed = page.oembedUrl
+        ? await fetchOEmbed(page.oembedUrl, response.url)
+        : null;
+
+    const domain = new URL(response.url).hostname;
+    return {
+        url,
+        domain,
+        title:
+            clean(
+                meta['og:title'] ??
+                    meta['twitter:title'] ??
+                    asString(oembed?.title) ??
+                    page.title,
+                MAX_TITLE_LENGTH,
+            ) ?? domain,
+        description: clean(
+            meta['og:description'] ??
+                meta['twitter:description'] ??
+                meta['description'],
+            MAX_DESCRIPTION_LENGTH,
+        ),
+        image: resolveImageUrl(
+            meta['og:image:secure_url'] ??
+                meta['og:image'] ??
+                meta['og:image:url'] ??
+                meta['twitter:image'] ??
+                meta['twitter:image:src'] ??
+                asString(oembed?.thumbnail_url),
+            response.url,
+        ),
+        siteName: clean(
+            meta['og:site_name'] ?? asString(oembed?.provider_name),
+            MAX_TITLE_LENGTH,
+        ),
+        author: clean(
+            asString(oembed?.author_name) ??
+                meta['author'] ??
+                meta['twitter:creator'],
+            MAX_TITLE_LENGTH,
+        ),
+        type: clean(
+            asString(oembed?.type) ?? meta['og:type'] ?? meta['twitter:card'],
+            50,
+        ),
+    };
+}
+
+/**
+ * Returns the preview for `rawUrl`, from the cache when it has not expired.
+ * Returns null for URLs that are not http(s), are blocked, or did not yield
+ * an HTML page; never throws for unreachable sites.
+ */
+export async function unfurlLink(rawUrl: string): Promise<LinkPreview | null> {
+    const url = normalizeLinkUrl(rawUrl);
+    if (!url) return null;
+
+    const cached = await db.query.linkPreviews.findFirst({
+        where: and(
+            eq(linkPreviews.url, url),
+            gt(linkPreviews.expiresAt, new Date()),
+        ),
+    });
+    if (cached) return cached.preview;
+
+    let preview: LinkPreview | null = null;
+    try {
+        preview = await fetchLinkPreview(url);
+    } catch (error) {
+        console.warn(
+            `Could not unfurl ${url}:`,
+            error instanceof Error ? error.message : error,
+        );
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(
+        now.getTime() + (preview ? PREVIEW_TTL_MS : FAILED_PREVIEW_TTL_MS),
+    );
+    await db
+        .insert(linkPreviews)
+        .values({ url, preview, fetchedAt: now, expiresAt })
+        .onConflictDoUpdate({
+            target: linkPreviews.url,
+            set: { preview, fetchedAt: now, expiresAt },
+        });
+
+    return preview;
+}
+
+/**
+ * The preview to store with a post or message: that of the first link in
+ * its content. Failures only cost the preview, never the write.
+ */
+export async function unfurlContentLink(content: string) {
+    const url = extractFirstLink(content);
+    if (!url) return null;
+    try {
+        return await unfurlLink(url);
+    } catch (error) {
+        console.error(`Failed to unfurl ${url}:`, error);
+        return null;
+    }
+}
+
+export async function pruneExpiredLinkPreviews() {
+    const deleted = await db
+        .delete(linkPreviews)
+        .where(lt(linkPreviews.expiresAt, new Date()))
+        .returning({ id: linkPreviews.id });
+    return { deleted: deleted.length };
+}
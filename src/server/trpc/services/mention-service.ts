@@ -0,0 +1,263 @@
+import { and, eq, ilike, inArray, ne, or, type SQL } from 'drizzle-orm';
+import { db } from '@/server/db';
+import {
+    chatThreadParticipants,
+    communities,
+    communityMembers,
+    mentions,
+    posts,
+    users,
+} from '@/server/db/schema';
+import { sendMentionNotifications } from '@/lib/mention-notifications';
+
+// Who can be mentioned: members of a community (plus the users of its org
+// when the community is public), everyone in an org, or a chat's participants
+export type MentionScope =
+    | { type: 'community'; communityId: number }
+    | { type: 'org'; orgId: string }
+    | { type: 'thread'; threadId: number };
+
+export type MentionSource =
+    | { type: 'post'; postId: number }
+    | { type: 'comment'; postId: number; commentId: number }
+    | { type: 'message'; threadId: number; messageId: number };
+
+const MENTION_TAG_PATTERN = /<span\b[^>]*\bdata-type=["']mention["'][^>]*>/gi;
+const MENTION_ID_PATTERN = /\bdata-id=["']([^"']+)["']/i;
+
+// Mentions are stored in rich text as <span data-type="mention" data-id="...">
+export function extractMentionedUserIds(html: string): string[] {
+    const ids = new Set<string>();
+    for (const tag of html.match(MENTION_TAG_PATTERN) ?? []) {
+        const id = tag.match(MENTION_ID_PATTERN)?.[1];
+        if (id) ids.add(id);
+    }
+    return [...ids];
+}
+
+async function getAudienceCondition(
+    scope: MentionScope,
+): Promise<SQL | undefined> {
+    if (scope.type === 'org') {
+        return eq(users.orgId, scope.orgId);
+    }
+
+    if (scope.type === 'thread') {
+        return inArray(
+            users.id,
+            db
+                .select({ userId: chatThreadParticipants.userId })
+                .from(chatThreadParticipants)
+                .where(eq(chatThreadParticipants.threadId, scope.threadId)),
+        );
+    }
+
+    const community = await db.query.communities.findFirst({
+        where: eq(communities.id, scope.communityId),
+        columns: { type: true, orgId: true },
+    });
+    if (!community) return undefined;
+
+    const memberCondition = inArray(
+        users.id,
+        db
+            .select({ userId: communityMembers.userId })
+            .from(communityMembers)
+            .where(
+                and(
+                    eq(communityMembers.communityId, scope.communityId),
+                    eq(communityMembers.status, 'active'),
+                ),
+            ),
+    );
+
+    return community.type === 'public' && community.orgId
+        ? or(memberCondition, eq(users.orgId, community.orgId))
+        : memberCondition;
+}
+
+export async function searchMentionableUsers(
+    scope: MentionScope,
+    query: string,
+    excludeUserId: string,
+    limit: number,
+) {
+    const audience = await getAudienceCondition(scope);
+    if (!audience) return [];
+
+    const trimmed = query.trim();
+    return db.query.users.findMany({
+        where: and(
+            audience,
+            ne(users.id, excludeUserId),
+            // Names only: matching emails would let anyone probe for them
+            trimmed ? ilike(users.name, `%${trimmed}%`) : undefined,
+        ),
+        columns: { id: true, name: true, image: true },
+        orderBy: users.name,
+        limit,
+    });
+}
+
+async function filterMentionableUserIds(
+    scope: MentionScope,
+    userIds: string[],
+) {
+    if (userIds.length === 0) return [];
+
+    const audience = await getAudienceCondition(scope);
+    if (!audience) return [];
+
+    const rows = await db
+        .select({ id: users.id })
+        .from(users)
+        .where(and(audience, inArray(users.id, userIds)));
+    return rows.map((row) => row.id);
+}
+
+function sourceCondition(source: MentionSource) {
+    switch (source.type) {
+        case 'post':
+            return and(
+                eq(mentions.sourceType, 'post'),
+                eq(mentions.postId, source.postId),
+            );
+        case 'comment':
+            return and(
+                eq(mentions.sourceType, 'comment'),
+                eq(mentions.commentId, source.commentId),
+            );
+        case 'message':
+            return and(
+                eq(mentions.sourceType, 'message'),
+                eq(mentions.messageId, source.messageId),
+            );
+    }
+}
+
+// Resolves where the mention happened: who may be mentioned there, and how to
+// describe and link to it in the notification
+async function describeSource(source: MentionSource) {
+    if (source.type === 'message') {
+        return {
+            scope: { type: 'thread', threadId: source.threadId } as const,
+            communityId: null,
+            communitySlug: null,
+            contextLabel: 'a chat',
+            url: `/chat/${source.threadId}`,
+        };
+    }
+
+    const post = await db.query.posts.findFirst({
+        where: eq(posts.id, source.postId),
+        columns: { id: true, orgId: true, communityId: true },
+        with: { community: { columns: { slug: true, name: true } } },
+    });
+    if (!post) return null;
+
+    const noun = source.type === 'post' ? 'a post' : 'a comment';
+    return {
+        scope: post.communityId
+            ? ({ type: 'community', communityId: post.communityId } as const)
+            : ({ type: 'org', orgId: post.orgId } as const),
+        communityId: post.communityId,
+        communitySlug: post.community?.slug ?? null,
+        contextLabel: post.community
+            ? `${noun} in ${post.community.name}`
+            : noun,
+        url: post.community
+            ? `/communities/${post.community.slug}/posts/${post.id}`
+            : `/posts/${post.id}`,
+    };
+}
+
+// Brings the stored mentions for a post, comment or message in line with its
+// current content. Only users who were not mentioned before are notified, so
+// editing content does not notify the same people twice. Called after the
+// content is saved; failures are logged rather than failing the save.
+export async function syncMentions({
+    authorId,
+    source,
+    mentionedUserIds,
+    preview,
+}: {
+    authorId: string;
+    source: MentionSource;
+    mentionedUserIds: string[];
+    preview: string;
+}) {
+    try {
+        const context = await describeSource(source);
+        if (!context) return;
+
+        const candidates = [...new Set(mentionedUserIds)].filter(
+            (id) => id !== authorId,
+        );
+        const allowedIds = await filterMentionableUserIds(
+            context.scope,
+            candidates,
+        );
+
+        const existing = await db
+            .select({
+                id: mentions.id,
+                mentionedUserId: mentions.mentionedUserId,
+            })
+            .from(mentions)
+            .where(sourceCondition(source));
+
+        const existingIds = new Set(existing.map((row) => row.mentionedUserId));
+        const removedRowIds = existing
+            .filter((row) => !allowedIds.includes(row.mentionedUserId))
+            .map((row) => row.id);
+        const newIds = allowedIds.filter((id) => !existingIds.has(id));
+
+        if (removedRowIds.length > 0) {
+            await db
+                .delete(mentions)
+                .where(inArray(mentions.id, removedRowIds));
+        }
+
+        if (newIds.length === 0) return;
+
+        await db.insert(mentions).values(
+            newIds.map((mentionedUserId) => ({
+                mentionedUserId,
+                mentionedBy: authorId,
+                sourceType: source.type,
+                postId: source.type === 'message' ? null : source.postId,
+                commentId: source.type === 'comment' ? source.commentId : null,
+                messageId: source.type === 'message' ? source.messageId : null,
+                threadId: source.type === 'message' ? source.threadId : null,
+                communityId: context.communityId,
+            })),
+        );
+
+        const author = await db.query.users.findFirst({
+            where: eq(users.id, authorId),
+            columns: { name: true },
+        });
+
+        await sendMentionNotifications(
+            newIds,
+            author?.name || 'Someone',
+            context.contextLabel,
+            preview,
+            context.url,
+            {
+                authorId,
+                postId: source.type === 'message' ? undefined : source.postId,
+                commentId:
+                    source.type === 'comment' ? source.commentId : undefined,
+                communityId: context.communityId,
+                communitySlug: context.communitySlug,
+                threadId:
+                    source.type === 'message' ? source.threadId : undefined,
+                messageId:
+                    source.type === 'message' ? source.messageId : undefined,
+            },
+        );
+    } catch (error) {
+        console.error('Error recording mentions:', error);
+    }
+}
@@ -0,0 +1,29 @@
+import { ServerPermissions } from '@/server/utils/permission';
+import { PERMISSIONS } from '@/lib/permissions/permission-const';
+
+export type ModerationScope = {
+    communityId: number | null;
+    orgId: string;
+};
+
+// Community content is moderated by community moderators and admins (and org
+// admins of the community's org); org-wide posts by the org's admins
+export async function canModerateContent(
+    userId: string,
+    scope: ModerationScope,
+) {
+    const permission = await ServerPermissions.fromUserId(userId);
+
+    if (scope.communityId) {
+        return permission.checkCommunityPermission(
+            scope.communityId.toString(),
+            PERMISSIONS.MODERATE_CONTENT,
+        );
+    }
+
+    return (
+        permission.isAppAdmin() ||
+        (permission.checkOrgPermission(PERMISSIONS.MODERATE_CONTENT) &&
+            permission.getUserDetails()?.orgId === scope.orgId)
+    );
+}
@@ -0,0 +1,86 @@
+import { and, eq, isNotNull, lte } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { pollParticipants, pollVotes, polls } from '@/server/db/schema';
+import { dispatchNotification } from '@/lib/notification-dispatch';
+
+// Let the poll's author and everyone who voted know the results are final
+export async function notifyPollClosed(
+    poll: {
+        id: number;
+        question: string;
+        post: {
+            id: number;
+            authorId: string;
+            communityId: number | null;
+            community: { slug: string } | null;
+        };
+    },
+    closedBy: string | null,
+) {
+    try {
+        // Anonymous ballots carry no user, so their voters come from
+        // poll_participants
+        const [voters, participants] = await Promise.all([
+            db
+                .selectDistinct({ userId: pollVotes.userId })
+                .from(pollVotes)
+                .where(eq(pollVotes.pollId, poll.id)),
+            db
+                .select({ userId: pollParticipants.userId })
+                .from(pollParticipants)
+                .where(eq(pollParticipants.pollId, poll.id)),
+        ]);
+
+        const recipientIds = [
+            poll.post.authorId,
+            ...voters.map((voter) => voter.userId),
+            ...participants.map((participant) => participant.userId),
+        ].filter((id): id is string => !!id && id !== closedBy);
+
+        await dispatchNotification(recipientIds, {
+            event: 'poll_closed',
+            title: 'Poll closed',
+            body: `Results are in for "${poll.question}"`,
+            url: poll.post.community
+                ? `/communities/${poll.post.community.slug}/posts/${poll.post.id}`
+                : `/posts/${poll.post.id}`,
+            data: {
+                pollId: poll.id,
+                postId: poll.post.id,
+                communityId: poll.post.communityId,
+                communitySlug: poll.post.community?.slug ?? null,
+            },
+        });
+    } catch (error) {
+        console.error('Error sending poll closed notifications:', error);
+    }
+}
+
+/**
+ * Closes every open poll past its expiresAt and notifies its participants.
+ * The update claims the polls, so a poll is only announced once even when
+ * runs overlap or a moderator closes it at the same time.
+ */
+export async function closeExpiredPolls() {
+    const closed = await db
+        .update(polls)
+        .set({ isClosed: true, updatedAt: new Date() })
+        .where(
+            and(
+                eq(polls.isClosed, false),
+                isNotNull(polls.expiresAt),
+                lte(polls.expiresAt, new Date()),
+            ),
+        )
+        .returning({ id: polls.id });
+
+    for (const { id } of closed) {
+        const poll = await db.query.polls.findFirst({
+            where: eq(polls.id, id),
+            with: { post: { with: { community: true } } },
+        });
+        if (poll) await notifyPollClosed(poll, null);
+    }
+
+    return { closed: closed.length };
+}
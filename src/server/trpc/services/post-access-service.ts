@@ -0,0 +1,194 @@
+import { TRPCError } from '@trpc/server';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '@/server/db';
+import {
+    communities,
+    communityMembers,
+    posts,
+    users,
+} from '@/server/db/schema';
+import { isOrgAdminForCommunity } from '@/lib/utils';
+import { canModerateContent } from './moderation-service';
+import { getBannedUserIds } from './community-restriction-service';
+
+/**
+ * Post Access
+ *
+ * Who may read a post, by the rules of the post page itself (getPost): posts
+ * in private communities need an active membership or an admin of the
+ * community's org, and posts hidden by moderators are only shown to their
+ * author and to moderators. Procedures that expose something about a post
+ * (its reactors, comment notifications, who can be mentioned there) check
+ * the same rules.
+ */
+
+type AccessUser = {
+    id: string;
+    role?: string | null;
+    orgId?: string | null;
+};
+
+async function findPostForAccess(postId: number) {
+    return db.query.posts.findFirst({
+        where: eq(posts.id, postId),
+        columns: {
+            id: true,
+            authorId: true,
+            orgId: true,
+            communityId: true,
+            isHidden: true,
+        },
+        with: { community: { columns: { type: true, orgId: true } } },
+    });
+}
+
+type AccessPost = NonNullable<Awaited<ReturnType<typeof findPostForAccess>>>;
+
+async function isActiveMember(userId: string, communityId: number) {
+    const membership = await db.query.communityMembers.findFirst({
+        where: and(
+            eq(communityMembers.userId, userId),
+            eq(communityMembers.communityId, communityId),
+            eq(communityMembers.status, 'active'),
+        ),
+        columns: { userId: true },
+    });
+    return !!membership;
+}
+
+/**
+ * Throws NOT_FOUND for a missing community and FORBIDDEN when it is private
+ * and the user is neither an active member nor an admin of its org.
+ */
+export async function assertCanReadCommunity(
+    user: AccessUser,
+    communityId: number,
+) {
+    const community = await db.query.communities.findFirst({
+        where: eq(communities.id, communityId),
+        columns: { id: true, type: true, orgId: true },
+    });
+    if (!community) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Community not found',
+        });
+    }
+    if (
+        community.type === 'private' &&
+        !isOrgAdminForCommunity(user, community.orgId) &&
+        !(await isActiveMember(user.id, community.id))
+    ) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You must be a member of this community',
+        });
+    }
+    return community;
+}
+
+async function canReadPost(user: AccessUser, post: AccessPost) {
+    if (
+        post.communityId &&
+        post.community?.type === 'private' &&
+        !isOrgAdminForCommunity(user, post.community.orgId) &&
+        !(await isActiveMember(user.id, post.communityId))
+    ) {
+        return false;
+    }
+    if (post.isHidden && post.authorId !== user.id) {
+        return canModerateContent(user.id, {
+            communityId: post.communityId,
+            orgId: post.orgId,
+        });
+    }
+    return true;
+}
+
+/**
+ * Loads a post the user may read. Throws NOT_FOUND for a missing post and
+ * FORBIDDEN when getPost would refuse to show it.
+ */
+export async function assertCanReadPost(user: AccessUser, postId: number) {
+    const post = await findPostForAccess(postId);
+    if (!post) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Post not found',
+        });
+    }
+    if (!(await canReadPost(user, post))) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You do not have access to this post',
+        });
+    }
+    return post;
+}
+
+/**
+ * The users among `userIds` who can read the post now. Users banned from
+ * its community are left out too, and so are members who left or were
+ * removed from a private community.
+ */
+export async function filterPostReaders(postId: number, userIds: string[]) {
+    const post = await findPostForAccess(postId);
+    if (!post || userIds.length === 0) return [];
+
+    let readers = userIds;
+    if (post.communityId) {
+        const banned = new Set(
+            await getBannedUserIds(post.communityId, readers),
+        );
+        readers = readers.filter((id) => !banned.has(id));
+
+        if (post.community?.type === 'private' && readers.length > 0) {
+            const [members, orgAdmins] = await Promise.all([
+                db
+                    .select({ userId: communityMembers.userId })
+                    .from(communityMembers)
+                    .where(
+                        and(
+                            eq(communityMembers.communityId, post.communityId),
+                            eq(communityMembers.status, 'active'),
+                            inArray(communityMembers.userId, readers),
+                        ),
+                    ),
+                post.community.orgId
+                    ? db
+                          .select({ userId: users.id })
+                          .from(users)
+                          .where(
+                              and(
+                                  eq(users.role, 'admin'),
+                                  eq(users.orgId, post.community.orgId),
+                                  inArray(users.id, readers),
+                              ),
+                          )
+                    : Promise.resolve([]),
+            ]);
+            const allowed = new Set(
+                [...members, ...orgAdmins].map((row) => row.userId),
+            );
+            readers = readers.filter((id) => allowed.has(id));
+        }
+    }
+
+    if (post.isHidden) {
+        const visible: string[] = [];
+        for (const id of readers) {
+            if (
+                id === post.authorId ||
+                (await canModerateContent(id, {
+                    communityId: post.communityId,
+                    orgId: post.orgId,
+                }))
+            ) {
+                visible.push(id);
+            }
+        }
+        readers = visible;
+    }
+
+    return readers;
+}
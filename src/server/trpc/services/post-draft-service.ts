@@ -0,0 +1,122 @@
+import { TRPCError } from '@trpc/server';
+import { and, asc, eq, isNotNull, lte } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { attachments, postDrafts } from '@/server/db/schema';
+import {
+    createPostForUser,
+    pendingAttachmentConditions,
+    type NewPostInput,
+} from '@/server/trpc/services/post-service';
+
+type PostDraft = typeof postDrafts.$inferSelect;
+
+export async function getOwnDraft(userId: string, draftId: number) {
+    const draft = await db.query.postDrafts.findFirst({
+        where: and(eq(postDrafts.id, draftId), eq(postDrafts.authorId, userId)),
+    });
+
+    if (!draft) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Draft not found',
+        });
+    }
+
+    return draft;
+}
+
+// Moves the user's recent unlinked uploads onto the draft, so they are kept
+// however long it stays unpublished
+export async function claimPendingUploads(
+    userId: string,
+    draft: Pick<PostDraft, 'id' | 'communityId'>,
+) {
+    await db
+        .update(attachments)
+        .set({ draftId: draft.id, updatedAt: new Date() })
+        .where(and(...pendingAttachmentConditions(userId, draft.communityId)));
+}
+
+export function draftToPostInput(draft: PostDraft): NewPostInput {
+    return {
+        title: draft.title.trim() || undefined,
+        content: draft.content,
+        communityId: draft.communityId,
+        tagIds: draft.tagIds,
+        poll: draft.poll
+            ? {
+                  question: draft.poll.question,
+                  pollType: draft.poll.pollType,
+                  isAnonymous: draft.poll.isAnonymous,
+                  resultsVisibility: draft.poll.resultsVisibility,
+                  options: draft.poll.options,
+                  expiresAt: draft.poll.expiresAt
+                      ? new Date(draft.poll.expiresAt)
+                      : undefined,
+              }
+            : undefined,
+        qa: draft.qa
+            ? {
+                  answersVisibleAt: draft.qa.answersVisibleAt
+                      ? new Date(draft.qa.answersVisibleAt)
+                      : undefined,
+                  allowEditsUntil: draft.qa.allowEditsUntil
+                      ? new Date(draft.qa.allowEditsUntil)
+                      : undefined,
+              }
+            : undefined,
+        isAnnouncement: draft.isAnnouncement,
+    };
+}
+
+/**
+ * Publishes every scheduled draft that has come due. Each draft is claimed
+ * by clearing its publishAt before publishing, so overlapping runs can't
+ * publish it twice. A draft that fails (e.g. the author lost access to the
+ * community) stays a draft with the reason in publishError.
+ */
+export async function publishScheduledDrafts() {
+    const due = await db
+        .select({ id: postDrafts.id })
+        .from(postDrafts)
+        .where(
+            and(
+                isNotNull(postDrafts.publishAt),
+                lte(postDrafts.publishAt, new Date()),
+            ),
+        )
+        .orderBy(asc(postDrafts.publishAt));
+
+    const result = { published: 0, failed: 0 };
+
+    for (const { id } of due) {
+        const [draft] = await db
+            .update(postDrafts)
+            .set({ publishAt: null })
+            .where(and(eq(postDrafts.id, id), isNotNull(postDrafts.publishAt)))
+            .returning();
+        if (!draft) continue;
+
+        try {
+            await createPostForUser(draft.authorId, draftToPostInput(draft), {
+                draftId: draft.id,
+            });
+            result.published++;
+        } catch (error) {
+            console.error(`Error publishing scheduled draft ${id}:`, error);
+            await db
+                .update(postDrafts)
+                .set({
+                    publishError:
+                        error instanceof TRPCError
+                            ? error.message
+                            : 'Something went wrong while publishing',
+                    updatedAt: new Date(),
+                })
+                .where(eq(postDrafts.id, id));
+            result.failed++;
+        }
+    }
+
+    return result;
+}
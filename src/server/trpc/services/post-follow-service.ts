@@ -0,0 +1,183 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { comments, communities, postFollows, users } from '@/server/db/schema';
+import { dispatchNotification } from '@/lib/notification-dispatch';
+import { getHtmlPreview } from '@/lib/sanitize-server';
+import { filterPostReaders } from './post-access-service';
+
+// Busy threads send at most one push/email per recipient in this window
+const COMMENT_BATCH_WINDOW_MS = 15 * 60 * 1000;
+
+type FollowablePost = {
+    id: number;
+    title: string;
+    authorId: string;
+    communityId: number | null;
+};
+
+export async function isFollowingPost(userId: string, post: FollowablePost) {
+    const follow = await db.query.postFollows.findFirst({
+        where: and(
+            eq(postFollows.userId, userId),
+            eq(postFollows.postId, post.id),
+        ),
+    });
+    // Authors follow their own posts until they unfollow
+    return follow ? follow.isFollowing : post.authorId === userId;
+}
+
+export async function setPostFollow(
+    userId: string,
+    postId: number,
+    isFollowing: boolean,
+) {
+    await db
+        .insert(postFollows)
+        .values({ userId, postId, isFollowing })
+        .onConflictDoUpdate({
+            target: [postFollows.userId, postFollows.postId],
+            set: { isFollowing, updatedAt: new Date() },
+        });
+    return { isFollowing };
+}
+
+// Commenting follows the thread, unless the user explicitly unfollowed it
+export async function autoFollowPost(userId: string, postId: number) {
+    await db
+        .insert(postFollows)
+        .values({ userId, postId, isFollowing: true })
+        .onConflictDoNothing();
+}
+
+async function getFollowerIds(post: FollowablePost) {
+    const rows = await db
+        .select({
+            userId: postFollows.userId,
+            isFollowing: postFollows.isFollowing,
+        })
+        .from(postFollows)
+        .where(eq(postFollows.postId, post.id));
+
+    const followers = new Set(
+        rows.filter((row) => row.isFollowing).map((row) => row.userId),
+    );
+    if (!rows.some((row) => row.userId === post.authorId)) {
+        followers.add(post.authorId);
+    }
+    // Followers who were removed, banned or can no longer see a hidden post
+    // stop hearing about it
+    return new Set(await filterPostReaders(post.id, [...followers]));
+}
+
+/**
+ * Notifies about a new comment:
+ * - the author of the parent comment gets a 'reply' notification
+ * - the post author and thread followers get a 'comment' notification
+ * The commenter and users mentioned in the comment (who already get a
+ * mention notification) are left out. Pushes are batched per post.
+ */
+export async function notifyCommentActivity(params: {
+    comment: {
+        id: number;
+        postId: number;
+        parentId: number | null;
+        authorId: string;
+        content: string;
+    };
+    post: FollowablePost;
+    mentionedUserIds: string[];
+}) {
+    const { comment, post, mentionedUserIds } = params;
+
+    try {
+        const [commenter, community, parent, followers] = await Promise.all([
+            db.query.users.findFirst({
+                where: eq(users.id, comment.authorId),
+                columns: { name: true },
+            }),
+            post.communityId
+                ? db.query.communities.findFirst({
+                      where: eq(communities.id, post.communityId),
+                      columns: { slug: true },
+                  })
+                : Promise.resolve(undefined),
+            comment.parentId
+                ? db.query.comments.findFirst({
+                      where: eq(comments.id, comment.parentId),
+                      columns: { id: true, authorId: true },
+                  })
+                : Promise.resolve(undefined),
+            getFollowerIds(post),
+        ]);
+
+        const excluded = new Set([comment.authorId, ...mentionedUserIds]);
+        const commenterName = commenter?.name || 'Someone';
+        const preview = getHtmlPreview(comment.content);
+        const url = community
+            ? `/communities/${community.slug}/posts/${post.id}`
+            : `/posts/${post.id}`;
+        const data = {
+            postId: post.id,
+            commentId: comment.id,
+            communityId: post.communityId,
+            communitySlug: community?.slug ?? null,
+        };
+
+        // The parent comment's author hears about it once, as a reply, if
+        // they can still read the post
+        const parentAuthorCanRead =
+            !!parent &&
+            (await filterPostReaders(post.id, [parent.authorId])).length > 0;
+        if (parent && parentAuthorCanRead && !excluded.has(parent.authorId)) {
+            excluded.add(parent.authorId);
+            await dispatchNotification([parent.authorId], {
+                event: 'reply',
+                title: `${commenterName} replied to your comment`,
+                body: preview,
+                url,
+                data: { ...data, parentId: parent.id },
+                batch: {
+                    key: `comment:${parent.id}:replies`,
+                    windowMs: COMMENT_BATCH_WINDOW_MS,
+                    summarize: (count) => ({
+                        title: `${count} new replies to your comment`,
+                        body: `On "${post.title}"`,
+                    }),
+                },
+            });
+        }
+
+        const batch = {
+            key: `post:${post.id}:comments`,
+            windowMs: COMMENT_BATCH_WINDOW_MS,
+            summarize: (count: number) => ({
+                title: `${count} new comments on "${post.title}"`,
+                body: `Latest from ${commenterName}: ${preview}`,
+            }),
+        };
+
+        if (followers.has(post.authorId) && !excluded.has(post.authorId)) {
+            excluded.add(post.authorId);
+            await dispatchNotification([post.authorId], {
+                event: 'comment',
+                title: `${commenterName} commented on your post`,
+                body: preview,
+                url,
+                data,
+                batch,
+            });
+        }
+
+        const otherFollowers = [...followers].filter((id) => !excluded.has(id));
+        await dispatchNotification(otherFollowers, {
+            event: 'comment',
+            title: `${commenterName} commented on "${post.title}"`,
+            body: preview,
+            url,
+            data,
+            batch,
+        });
+    } catch (error) {
+        console.error('Error sending comment notifications:', error);
+    }
+}
@@ -0,0 +1,55 @@
+import { TRPCError } from '@trpc/server';
+import { and, asc, eq, isNotNull, lte } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { posts } from '@/server/db/schema';
+import { ServerPermissions } from '@/server/utils/permission';
+import { PERMISSIONS } from '@/lib/permissions/permission-const';
+import { isPinActive } from '@/lib/pinned-posts';
+
+// Community admins (and org admins of the community's org) pin posts and
+// mark announcements
+export async function canPinPosts(userId: string, communityId: number) {
+    const permission = await ServerPermissions.fromUserId(userId);
+    return permission.checkCommunityPermission(
+        communityId.toString(),
+        PERMISSIONS.PIN_POST,
+    );
+}
+
+export async function assertCanPinPosts(userId: string, communityId: number) {
+    if (!(await canPinPosts(userId, communityId))) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message:
+                'You do not have permission to pin posts in this community',
+        });
+    }
+}
+
+// Clears lapsed pins so they stop taking up slots, then returns the
+// community's visible pinned posts in order
+export async function getActivePins(communityId: number) {
+    await db
+        .update(posts)
+        .set({ pinPosition: null, pinnedUntil: null })
+        .where(
+            and(
+                eq(posts.communityId, communityId),
+                isNotNull(posts.pinPosition),
+                lte(posts.pinnedUntil, new Date()),
+            ),
+        );
+
+    const pinned = await db.query.posts.findMany({
+        where: and(
+            eq(posts.communityId, communityId),
+            isNotNull(posts.pinPosition),
+            eq(posts.isDeleted, false),
+            eq(posts.isHidden, false),
+        ),
+        columns: { id: true, pinPosition: true, pinnedUntil: true },
+        orderBy: [asc(posts.pinPosition), asc(posts.id)],
+    });
+
+    return pinned.filter((post) => isPinActive(post));
+}
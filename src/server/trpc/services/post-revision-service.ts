@@ -0,0 +1,69 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { postRevisions } from '@/server/db/schema';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type RevisedPost = {
+    id: number;
+    title: string;
+    content: string;
+    authorId: string;
+    createdAt: Date;
+};
+
+/**
+ * Records a new version of a post's title and content. The first edit also
+ * stores the original, attributed to the author at creation time, so the
+ * history always starts from what was first published. Returns false when
+ * nothing changed.
+ */
+export async function recordPostRevision(
+    tx: Transaction,
+    post: RevisedPost,
+    next: { title: string; content: string },
+    editorId: string,
+    restoredFromId?: number,
+) {
+    if (next.title === post.title && next.content === post.content) {
+        return false;
+    }
+
+    const existing = await tx.query.postRevisions.findFirst({
+        where: eq(postRevisions.postId, post.id),
+        columns: { id: true },
+    });
+
+    if (!existing) {
+        await tx.insert(postRevisions).values({
+            postId: post.id,
+            title: post.title,
+            content: post.content,
+            editorId: post.authorId,
+            createdAt: post.createdAt,
+        });
+    }
+
+    await tx.insert(postRevisions).values({
+        postId: post.id,
+        title: next.title,
+        content: next.content,
+        editorId,
+        restoredFromId: restoredFromId ?? null,
+    });
+
+    return true;
+}
+
+// Oldest first; empty for posts that were never edited
+export async function getPostRevisions(postId: number) {
+    return db.query.postRevisions.findMany({
+        where: eq(postRevisions.postId, postId),
+        orderBy: [asc(postRevisions.createdAt), asc(postRevisions.id)],
+        with: {
+            editor: {
+                columns: { id: true, name: true, image: true },
+            },
+        },
+    });
+}
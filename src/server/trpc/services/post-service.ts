@@ -0,0 +1,396 @@
+import { TRPCError } from '@trpc/server';
+import { and, eq, gte, inArray, isNull } from 'drizzle-orm';
+import { db } from '@/server/db';
+import {
+    attachments,
+    communities,
+    communityMembers,
+    pollOptions,
+    polls,
+    postDrafts,
+    postTags,
+    posts,
+    qaQuestions,
+    tags,
+    users,
+} from '@/server/db/schema';
+import { isOrgAdminForCommunity } from '@/lib/utils';
+import type { PollResultVisibility, PollType } from '@/lib/polls';
+import { assertNotMuted } from '@/server/trpc/services/community-restriction-service';
+import { assertCanPinPosts } from '@/server/trpc/services/post-pin-service';
+import { sendCommunityPostNotification } from '@/lib/community-notifications';
+import {
+    extractMentionedUserIds,
+    syncMentions,
+} from '@/server/trpc/services/mention-service';
+import { unfurlContentLink } from '@/server/trpc/services/link-unfurl-service';
+import { evaluateUserBadgeRules } from '@/server/trpc/services/badge-rule-service';
+
+export type NewPostInput = {
+    title?: string;
+    content: string;
+    communityId?: number | null;
+    tagIds?: number[];
+    poll?: {
+        question: string;
+        pollType: PollType;
+        isAnonymous?: boolean;
+        resultsVisibility?: PollResultVisibility;
+        options: string[];
+        expiresAt?: Date;
+    };
+    qa?: {
+        answersVisibleAt?: Date;
+        allowEditsUntil?: Date;
+    };
+    isAnnouncement?: boolean;
+};
+
+type PostAuthor = typeof users.$inferSelect;
+
+// Define role hierarchy (higher number = higher privilege)
+const roleHierarchy = {
+    member: 1,
+    moderator: 2,
+    admin: 3,
+};
+
+export async function getPostAuthor(userId: string) {
+    const user = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+    });
+
+    if (!user) {
+        throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'User not found.',
+        });
+    }
+
+    // Super admins don't need an orgId
+    if (user.appRole !== 'admin' && !user.orgId) {
+        throw new TRPCError({
+            code: 'UNAUTHORIZED',
+            message: 'User does not have an organization.',
+        });
+    }
+
+    return user;
+}
+
+/**
+ * Verifies the user may post in the community (membership, mute, minimum
+ * role) and that the tags belong to it. Returns the community.
+ */
+export async function assertCanPostInCommunity(
+    user: PostAuthor,
+    communityId: number,
+    tagIds: number[] = [],
+) {
+    const community = await db.query.communities.findFirst({
+        where: eq(communities.id, communityId),
+        with: {
+            members: {
+                where: eq(communityMembers.userId, user.id),
+            },
+        },
+    });
+
+    if (!community) {
+        throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Community not found',
+        });
+    }
+
+    const isSuperAdmin = user.appRole === 'admin';
+
+    // Check if user is a member, regardless of community type
+    const userMembership = community.members.find(
+        (m) => m.membershipType === 'member' && m.status === 'active',
+    );
+
+    // --- PERMISSION OVERRIDES ---
+    // Check if user is org admin for this community
+    const isOrgAdminForCommunityCheck = isOrgAdminForCommunity(
+        { role: user.role, orgId: user.orgId },
+        community.orgId,
+    );
+
+    // Super admins can create posts in ANY community across all organizations
+    // Org admins can create posts in ANY community within their organization
+    if (isSuperAdmin) {
+        // Super admin can create posts anywhere - skip all checks
+    } else if (isOrgAdminForCommunityCheck) {
+        // Org admin can create posts in their org's communities - skip membership check
+    } else if (!userMembership) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'You must be a member to post in this community',
+        });
+    }
+
+    await assertNotMuted(communityId, user.id);
+
+    // Check if user's role meets the minimum requirement for post creation
+    // Super admins and org admins bypass role hierarchy checks
+    if (!isSuperAdmin && !isOrgAdminForCommunityCheck) {
+        const userRole = userMembership?.role || 'member';
+        const minRole = community.postCreationMinRole;
+
+        const userRoleLevel =
+            roleHierarchy[userRole as keyof typeof roleHierarchy] || 0;
+        const minRoleLevel =
+            roleHierarchy[minRole as keyof typeof roleHierarchy] || 1;
+
+        if (userRoleLevel < minRoleLevel) {
+            const roleDisplay = {
+                member: 'members',
+                moderator: 'moderators and admins',
+                admin: 'admins',
+            };
+
+            throw new TRPCError({
+                code: 'FORBIDDEN',
+                message: `Only ${roleDisplay[minRole as keyof typeof roleDisplay]} can create posts in this community`,
+            });
+        }
+    }
+
+    // If tagIds are provided, verify they belong to the community
+    if (tagIds.length > 0) {
+        const communityTags = await db.query.tags.findMany({
+            where: and(
+                eq(tags.communityId, communityId),
+                inArray(tags.id, tagIds),
+            ),
+        });
+
+        if (communityTags.length !== tagIds.length) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'Some tags do not belong to this community',
+            });
+        }
+    }
+
+    return community;
+}
+
+// Recent uploads from this user that aren't attached to anything yet
+export function pendingAttachmentConditions(
+    userId: string,
+    communityId?: number | null,
+) {
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const conditions = [
+        eq(attachments.uploadedBy, userId),
+        isNull(attachments.postId),
+        isNull(attachments.draftId),
+        isNull(attachments.messageId),
+        isNull(attachments.purpose),
+        gte(attachments.createdAt, oneHourAgo),
+    ];
+    if (communityId) {
+        conditions.push(eq(attachments.communityId, communityId));
+    }
+    return conditions;
+}
+
+/**
+ * Creates a post and sends its notifications. Used both when a user posts
+ * and when a scheduled draft comes due, so members are notified at publish
+ * time. With `draftId`, the draft's attachments move to the post and the
+ * draft is deleted; otherwise the user's pending uploads are attached.
+ */
+export async function createPostForUser(
+    authorId: string,
+    input: NewPostInput,
+    options: { draftId?: number } = {},
+) {
+    const user = await getPostAuthor(authorId);
+    const isSuperAdmin = user.appRole === 'admin';
+    const orgId = user.orgId;
+
+    // If communityId is provided, verify the community exists and user has access
+    let community: Awaited<ReturnType<typeof assertCanPostInCommunity>> | null =
+        null;
+    if (input.communityId) {
+        community = await assertCanPostInCommunity(
+            user,
+            input.communityId,
+            input.tagIds,
+        );
+    }
+
+    if (input.isAnnouncement) {
+        if (!input.communityId) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'Only community posts can be announcements',
+            });
+        }
+        await assertCanPinPosts(authorId, input.communityId);
+    }
+
+    const attachmentConds = options.draftId
+        ? [eq(attachments.draftId, options.draftId)]
+        : pendingAttachmentConditions(authorId, input.communityId);
+    const pendingAttachments = await db.query.attachments.findMany({
+        where: and(...attachmentConds),
+    });
+
+    // Allow media-only posts if there are pending attachments
+    // Also allow polls without content
+    const textOnlyContent = (input.content || '')
+        .replace(/<[^>]*>/g, '')
+        .trim();
+    const hasPoll =
+        input.poll &&
+        input.poll.question.trim() &&
+        input.poll.options.length > 0;
+
+    if (!textOnlyContent && pendingAttachments.length === 0 && !hasPoll) {
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message:
+                'Post must have text content, at least one image/video, or a poll.',
+        });
+    }
+
+    // Determine the post title
+    const postTitle =
+        input.title?.trim() ||
+        (input.poll ? input.poll.question.trim() : 'Untitled Post');
+
+    // Fetched before the transaction so it is not held open on the network
+    const linkPreview = await unfurlContentLink(input.content);
+
+    // Use a transaction to create post and link tags
+    const result = await db.transaction(async (tx) => {
+        // Determine the orgId for the post
+        // For super admins posting in communities, use the community's orgId
+        // For regular users, use their own orgId
+        const postOrgId =
+            isSuperAdmin && community ? community.orgId || orgId : orgId;
+
+        // Ensure we have a valid orgId
+        if (!postOrgId) {
+            throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: 'Unable to determine organization for post creation',
+            });
+        }
+
+        // Create the post
+        const [post] = await tx
+            .insert(posts)
+            .values({
+                title: postTitle,
+                content: input.content,
+                linkPreview,
+                authorId,
+                orgId: postOrgId,
+                communityId: input.communityId || null,
+                visibility: input.communityId ? 'community' : 'public',
+                isAnnouncement: input.isAnnouncement ?? false,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .returning();
+
+        // Link the post with tags if any are provided
+        if (input.tagIds && input.tagIds.length > 0) {
+            const postTagValues = input.tagIds.map((tagId) => ({
+                postId: post.id,
+                tagId: tagId,
+            }));
+
+            await tx.insert(postTags).values(postTagValues);
+        }
+
+        // Link any pending attachments to this new post
+        await tx
+            .update(attachments)
+            .set({ postId: post.id, draftId: null, updatedAt: new Date() })
+            .where(and(...attachmentConds));
+
+        // Create poll if provided
+        let poll = null;
+        if (input.poll) {
+            const [createdPoll] = await tx
+                .insert(polls)
+                .values({
+                    postId: post.id,
+                    question: input.poll.question,
+                    pollType: input.poll.pollType,
+                    isAnonymous: input.poll.isAnonymous ?? false,
+                    resultsVisibility: input.poll.resultsVisibility ?? 'always',
+                    expiresAt: input.poll.expiresAt || null,
+                    createdAt: new Date(),
+                    updatedAt: new Date(),
+                })
+                .returning();
+
+            // Create poll options
+            const options = input.poll.options.map((text, index) => ({
+                pollId: createdPoll.id,
+                text,
+                orderIndex: index,
+                createdAt: new Date(),
+            }));
+
+            await tx.insert(pollOptions).values(options);
+            poll = createdPoll;
+        }
+
+        // Create Q&A configuration if provided
+        if (input.qa) {
+            await tx.insert(qaQuestions).values({
+                postId: post.id,
+                answersVisibleAt: input.qa.answersVisibleAt || null,
+                allowEditsUntil: input.qa.allowEditsUntil || null,
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            });
+        }
+
+        if (options.draftId) {
+            await tx
+                .delete(postDrafts)
+                .where(eq(postDrafts.id, options.draftId));
+        }
+
+        return { post, poll };
+    });
+
+    // Send notifications if post is in a community
+    if (community) {
+        try {
+            // Notify members on their preferred channels
+            await sendCommunityPostNotification(
+                community.id,
+                postTitle,
+                user.name || 'Unknown User',
+                community.name,
+                result.post.id,
+                authorId, // Pass authorId to exclude post creator
+                result.post.isAnnouncement,
+            );
+        } catch (notificationError) {
+            // Log error but don't fail the post creation
+            console.error('Error sending notifications:', notificationError);
+        }
+    }
+
+    await syncMentions({
+        authorId,
+        source: { type: 'post', postId: result.post.id },
+        mentionedUserIds: extractMentionedUserIds(input.content),
+        preview: postTitle,
+    });
+
+    await evaluateUserBadgeRules(authorId, ['posts']);
+
+    return result.post;
+}
@@ -0,0 +1,71 @@
+import { and, eq, isNotNull, isNull, lte } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { qaAnswers, qaQuestions } from '@/server/db/schema';
+import { dispatchNotification } from '@/lib/notification-dispatch';
+
+/**
+ * Marks Q&A questions whose answersVisibleAt has passed as revealed and lets
+ * the asker and everyone who answered know the answers are now visible.
+ * Reads still compare answersVisibleAt themselves; this only announces it.
+ */
+export async function revealDueQaAnswers() {
+    const revealed = await db
+        .update(qaQuestions)
+        .set({ answersRevealedAt: new Date(), updatedAt: new Date() })
+        .where(
+            and(
+                isNotNull(qaQuestions.answersVisibleAt),
+                lte(qaQuestions.answersVisibleAt, new Date()),
+                isNull(qaQuestions.answersRevealedAt),
+            ),
+        )
+        .returning({ postId: qaQuestions.postId });
+
+    for (const { postId } of revealed) {
+        try {
+            const question = await db.query.qaQuestions.findFirst({
+                where: eq(qaQuestions.postId, postId),
+                with: { post: { with: { community: true } } },
+            });
+            if (!question) continue;
+            const { post } = question;
+
+            const answerers = await db
+                .selectDistinct({ userId: qaAnswers.authorId })
+                .from(qaAnswers)
+                .where(
+                    and(
+                        eq(qaAnswers.postId, postId),
+                        eq(qaAnswers.isDeleted, false),
+                    ),
+                );
+
+            await dispatchNotification(
+                [
+                    post.authorId,
+                    ...answerers.map((answerer) => answerer.userId),
+                ],
+                {
+                    event: 'qa_revealed',
+                    title: 'Answers are now visible',
+                    body: post.title,
+                    url: post.community
+                        ? `/communities/${post.community.slug}/posts/${post.id}`
+                        : `/posts/${post.id}`,
+                    data: {
+                        postId: post.id,
+                        communityId: post.communityId,
+                        communitySlug: post.community?.slug ?? null,
+                    },
+                },
+            );
+        } catch (error) {
+            console.error(
+                `Error sending Q&A reveal notifications for post ${postId}:`,
+                error,
+            );
+        }
+    }
+
+    return { revealed: revealed.length };
+}
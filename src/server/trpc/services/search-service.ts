@@ -0,0 +1,410 @@
+import { db } from '@/server/db';
+import {
+    comments,
+    communities,
+    postTags,
+    posts,
+    qaAnswers,
+    qaQuestions,
+    tags,
+    users,
+} from '@/server/db/schema';
+import {
+    contentSearchDocument,
+    postSearchDocument,
+    searchQuery,
+    stripHtml,
+} from '@/server/db/search';
+import {
+    and,
+    asc,
+    desc,
+    eq,
+    exists,
+    gte,
+    inArray,
+    isNull,
+    lte,
+    or,
+    sql,
+    type SQL,
+} from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import {
+    getFeedViewer,
+    getViewerCommunities,
+    getVisiblePostsCondition,
+} from '@/server/trpc/services/feed-service';
+
+export type SearchResultType = 'post' | 'comment' | 'answer';
+
+export type SearchFilters = {
+    communityId?: number;
+    tagId?: number;
+    authorId?: string;
+    startDate?: Date;
+    endDate?: Date;
+};
+
+export type SearchInput = SearchFilters & {
+    query: string;
+    type: 'all' | SearchResultType;
+    limit: number;
+    offset: number;
+};
+
+type SearchViewer = {
+    id: string;
+    appRole?: string | null;
+};
+
+export type HighlightSegment = {
+    text: string;
+    highlighted: boolean;
+};
+
+// ts_headline wraps matches in these markers; the service turns them into
+// segments so clients never have to render search output as HTML
+const HIGHLIGHT_START = '[[[hl]]]';
+const HIGHLIGHT_END = '[[[/hl]]]';
+const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" … "`;
+const TITLE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, HighlightAll=true`;
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&nbsp;': ' ',
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+};
+
+function decodeEntities(text: string) {
+    return text.replace(
+        /&(nbsp|amp|lt|gt|quot|#39);/g,
+        (entity) => HTML_ENTITIES[entity] ?? entity,
+    );
+}
+
+export function toHighlightSegments(headline: string): HighlightSegment[] {
+    const segments: HighlightSegment[] = [];
+    const normalized = decodeEntities(headline).replace(/\s+/g, ' ').trim();
+
+    normalized.split(HIGHLIGHT_START).forEach((chunk, index) => {
+        if (index === 0) {
+            if (chunk) segments.push({ text: chunk, highlighted: false });
+            return;
+        }
+        const [match, rest] = chunk.split(HIGHLIGHT_END);
+        if (match) segments.push({ text: match, highlighted: true });
+        if (rest) segments.push({ text: rest, highlighted: false });
+    });
+
+    return segments;
+}
+
+// Filters that apply to the post a result belongs to
+function postFilterConditions(filters: SearchFilters) {
+    const conditions: SQL[] = [];
+    if (filters.communityId) {
+        conditions.push(eq(posts.communityId, filters.communityId));
+    }
+    if (filters.tagId) {
+        conditions.push(
+            exists(
+                db
+                    .select({ postId: postTags.postId })
+                    .from(postTags)
+                    .where(
+                        and(
+                            eq(postTags.postId, posts.id),
+                            eq(postTags.tagId, filters.tagId),
+                        ),
+                    ),
+            ),
+        );
+    }
+    return conditions;
+}
+
+// Filters that apply to the matched item itself
+function itemFilterConditions(
+    filters: SearchFilters,
+    columns: { authorId: AnyPgColumn; createdAt: AnyPgColumn },
+) {
+    const conditions: SQL[] = [];
+    if (filters.authorId) {
+        conditions.push(eq(columns.authorId, filters.authorId));
+    }
+    if (filters.startDate) {
+        conditions.push(gte(columns.createdAt, filters.startDate));
+    }
+    if (filters.endDate) {
+        conditions.push(lte(columns.createdAt, filters.endDate));
+    }
+    return conditions;
+}
+
+const authorColumns = {
+    id: users.id,
+    name: users.name,
+    image: users.image,
+};
+
+const communityColumns = {
+    id: communities.id,
+    name: communities.name,
+    slug: communities.slug,
+};
+
+async function searchPosts(
+    input: SearchInput,
+    visibility: SQL,
+    fetchResults: boolean,
+) {
+    const tsQuery = searchQuery(input.query);
+    const document = postSearchDocument(posts.title, posts.content);
+    const rank = sql<number>`ts_rank_cd(${document}, ${tsQuery})`;
+    const where = and(
+        sql`${document} @@ ${tsQuery}`,
+        visibility,
+        ...postFilterConditions(input),
+        ...itemFilterConditions(input, posts),
+    );
+
+    const [countResult, rows] = await Promise.all([
+        db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(posts)
+            .where(where),
+        fetchResults
+            ? db
+                  .select({
+                      id: posts.id,
+                      title: posts.title,
+                      createdAt: posts.createdAt,
+                      titleHeadline: sql<string>`ts_headline('english', ${posts.title}, ${tsQuery}, ${TITLE_OPTIONS})`,
+                      snippet: sql<string>`ts_headline('english', ${stripHtml(posts.content)}, ${tsQuery}, ${SNIPPET_OPTIONS})`,
+                      rank,
+                      author: authorColumns,
+                      community: communityColumns,
+                  })
+                  .from(posts)
+                  .leftJoin(users, eq(users.id, posts.authorId))
+                  .leftJoin(communities, eq(communities.id, posts.communityId))
+                  .where(where)
+                  .orderBy(desc(rank), desc(posts.createdAt))
+                  .limit(input.limit)
+                  .offset(input.offset)
+            : Promise.resolve([]),
+    ]);
+
+    const postIds = rows.map((row) => row.id);
+    const postTagRows =
+        postIds.length > 0
+            ? await db
+                  .select({
+                      postId: postTags.postId,
+                      id: tags.id,
+                      name: tags.name,
+                  })
+                  .from(postTags)
+                  .innerJoin(tags, eq(tags.id, postTags.tagId))
+                  .where(inArray(postTags.postId, postIds))
+                  .orderBy(asc(tags.name))
+            : [];
+
+    return {
+        totalCount: countResult[0]?.count || 0,
+        results: rows.map(({ titleHeadline, snippet, ...row }) => ({
+            ...row,
+            type: 'post' as const,
+            titleHighlights: toHighlightSegments(titleHeadline),
+            highlights: toHighlightSegments(snippet),
+            tags: postTagRows
+                .filter((tag) => tag.postId === row.id)
+                .map(({ id, name }) => ({ id, name })),
+        })),
+    };
+}
+
+async function searchComments(
+    input: SearchInput,
+    visibility: SQL,
+    fetchResults: boolean,
+) {
+    const tsQuery = searchQuery(input.query);
+    const document = contentSearchDocument(comments.content);
+    const rank = sql<number>`ts_rank_cd(${document}, ${tsQuery})`;
+    const where = and(
+        sql`${document} @@ ${tsQuery}`,
+        eq(comments.isDeleted, false),
+        eq(comments.isHidden, false),
+        visibility,
+        ...postFilterConditions(input),
+        ...itemFilterConditions(input, comments),
+    );
+
+    const [countResult, rows] = await Promise.all([
+        db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(comments)
+            .innerJoin(posts, eq(posts.id, comments.postId))
+            .where(where),
+        fetchResults
+            ? db
+                  .select({
+                      id: comments.id,
+                      createdAt: comments.createdAt,
+                      snippet: sql<string>`ts_headline('english', ${stripHtml(comments.content)}, ${tsQuery}, ${SNIPPET_OPTIONS})`,
+                      rank,
+                      post: { id: posts.id, title: posts.title },
+                      author: authorColumns,
+                      community: communityColumns,
+                  })
+                  .from(comments)
+                  .innerJoin(posts, eq(posts.id, comments.postId))
+                  .leftJoin(users, eq(users.id, comments.authorId))
+                  .leftJoin(communities, eq(communities.id, posts.communityId))
+                  .where(where)
+                  .orderBy(desc(rank), desc(comments.createdAt))
+                  .limit(input.limit)
+                  .offset(input.offset)
+            : Promise.resolve([]),
+    ]);
+
+    return {
+        totalCount: countResult[0]?.count || 0,
+        results: rows.map(({ snippet, ...row }) => ({
+            ...row,
+            type: 'comment' as const,
+            highlights: toHighlightSegments(snippet),
+        })),
+    };
+}
+
+async function searchAnswers(
+    input: SearchInput,
+    visibility: SQL,
+    viewerId: string,
+    fetchResults: boolean,
+) {
+    const tsQuery = searchQuery(input.query);
+    const document = contentSearchDocument(qaAnswers.content);
+    const rank = sql<number>`ts_rank_cd(${document}, ${tsQuery})`;
+    const where = and(
+        sql`${document} @@ ${tsQuery}`,
+        eq(qaAnswers.isDeleted, false),
+        eq(qaAnswers.isHidden, false),
+        // Answers stay hidden until the question reveals them, except to their author
+        or(
+            isNull(qaQuestions.answersVisibleAt),
+            lte(qaQuestions.answersVisibleAt, new Date()),
+            eq(qaAnswers.authorId, viewerId),
+        ),
+        visibility,
+        ...postFilterConditions(input),
+        ...itemFilterConditions(input, qaAnswers),
+    );
+
+    const [countResult, rows] = await Promise.all([
+        db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(qaAnswers)
+            .innerJoin(posts, eq(posts.id, qaAnswers.postId))
+            .innerJoin(qaQuestions, eq(qaQuestions.postId, qaAnswers.postId))
+            .where(where),
+        fetchResults
+            ? db
+                  .select({
+                      id: qaAnswers.id,
+                      createdAt: qaAnswers.createdAt,
+                      snippet: sql<string>`ts_headline('english', ${stripHtml(qaAnswers.content)}, ${tsQuery}, ${SNIPPET_OPTIONS})`,
+                      rank,
+                      post: { id: posts.id, title: posts.title },
+                      author: authorColumns,
+                      community: communityColumns,
+                  })
+                  .from(qaAnswers)
+                  .innerJoin(posts, eq(posts.id, qaAnswers.postId))
+                  .innerJoin(
+                      qaQuestions,
+                      eq(qaQuestions.postId, qaAnswers.postId),
+                  )
+                  .leftJoin(users, eq(users.id, qaAnswers.authorId))
+                  .leftJoin(communities, eq(communities.id, posts.communityId))
+                  .where(where)
+                  .orderBy(desc(rank), desc(qaAnswers.createdAt))
+                  .limit(input.limit)
+                  .offset(input.offset)
+            : Promise.resolve([]),
+    ]);
+
+    return {
+        totalCount: countResult[0]?.count || 0,
+        results: rows.map(({ snippet, ...row }) => ({
+            ...row,
+            type: 'answer' as const,
+            highlights: toHighlightSegments(snippet),
+        })),
+    };
+}
+
+// Ranked full-text search across posts, comments and Q&A answers. Every group
+// always reports its total so clients can show per-type counts, but results
+// are only fetched for the requested type (or all types).
+export async function searchContent(viewer: SearchViewer, input: SearchInput) {
+    const visibility = await getVisiblePostsCondition(viewer.id);
+    const wants = (type: SearchResultType) =>
+        input.type === 'all' || input.type === type;
+
+    const [postGroup, commentGroup, answerGroup] = await Promise.all([
+        searchPosts(input, visibility, wants('post')),
+        searchComments(input, visibility, wants('comment')),
+        searchAnswers(input, visibility, viewer.id, wants('answer')),
+    ]);
+
+    const withPaging = <T>(group: { totalCount: number; results: T[] }) => {
+        const hasNextPage = input.offset + input.limit < group.totalCount;
+        return {
+            ...group,
+            hasNextPage,
+            nextOffset: hasNextPage ? input.offset + input.limit : null,
+        };
+    };
+
+    return {
+        posts: withPaging(postGroup),
+        comments: withPaging(commentGroup),
+        answers: withPaging(answerGroup),
+    };
+}
+
+// Communities (with their tags) the viewer can narrow a search down to
+export async function getSearchFilterOptions(viewer: SearchViewer) {
+    let communityCondition: SQL | undefined;
+
+    if (viewer.appRole !== 'admin') {
+        const { readableIds } = await getViewerCommunities(
+            await getFeedViewer(viewer.id),
+        );
+        if (readableIds.length === 0) {
+            return { communities: [] };
+        }
+        communityCondition = inArray(communities.id, readableIds);
+    }
+
+    const visibleCommunities = await db.query.communities.findMany({
+        where: communityCondition,
+        columns: { id: true, name: true, slug: true },
+        with: {
+            tags: {
+                columns: { id: true, name: true },
+                orderBy: asc(tags.name),
+            },
+        },
+        orderBy: asc(communities.name),
+    });
+
+    return { communities: visibleCommunities };
+}
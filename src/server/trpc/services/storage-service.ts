@@ -0,0 +1,309 @@
+import {
+    and,
+    desc,
+    eq,
+    isNotNull,
+    isNull,
+    lt,
+    ne,
+    or,
+    sql,
+    type AnyColumn,
+} from 'drizzle-orm';
+import { db } from '@/server/db';
+import {
+    attachments,
+    comments,
+    communities,
+    directMessages,
+    orgs,
+    posts,
+    qaAnswerComments,
+    qaAnswers,
+    users,
+} from '@/server/db/schema';
+import { deleteObject } from '@/lib/r2-objects';
+import { videoThumbnailKey } from '@/lib/video-conversion';
+
+/**
+ * Attachment Storage
+ *
+ * Usage is the sum of attachment sizes, per uploader and per organization
+ * (through the uploader's org). Quotas come from the org's own settings, or
+ * STORAGE_QUOTA_ORG_MB / STORAGE_QUOTA_USER_MB; without either there is no
+ * limit. The upload routes check them before handing out or forwarding an
+ * upload, and again against the stored size when a direct upload is
+ * confirmed.
+ *
+ * The sweeper deletes attachments nothing uses any more, both the stored
+ * files and the rows: uploads never attached to a post, draft or message,
+ * and attachments of posts or messages deleted more than a grace period
+ * ago. Either way only when no picture or live content shows the file.
+ */
+
+const MB = 1024 * 1024;
+
+export type StorageQuotas = {
+    // Bytes; null means unlimited
+    orgQuota: number | null;
+    userQuota: number | null;
+};
+
+function quotaFromEnv(name: string) {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value * MB : null;
+}
+
+export async function getStorageQuotas(
+    orgId: string | null,
+): Promise<StorageQuotas> {
+    const org = orgId
+        ? await db.query.orgs.findFirst({
+              where: eq(orgs.id, orgId),
+              columns: { storageQuotaMb: true, userStorageQuotaMb: true },
+          })
+        : undefined;
+
+    return {
+        orgQuota:
+            org?.storageQuotaMb != null
+                ? org.storageQuotaMb * MB
+                : quotaFromEnv('STORAGE_QUOTA_ORG_MB'),
+        userQuota:
+            org?.userStorageQuotaMb != null
+                ? org.userStorageQuotaMb * MB
+                : quotaFromEnv('STORAGE_QUOTA_USER_MB'),
+    };
+}
+
+const bytesUsed = sql<number>`coalesce(sum(${attachments.size}), 0)::bigint`;
+
+export async function getUserStorageUsage(userId: string) {
+    const [row] = await db
+        .select({ bytes: bytesUsed })
+        .from(attachments)
+        .where(eq(attachments.uploadedBy, userId));
+    return Number(row?.bytes ?? 0);
+}
+
+export async function getOrgStorageUsage(orgId: string) {
+    const [row] = await db
+        .select({ bytes: bytesUsed })
+        .from(attachments)
+        .innerJoin(users, eq(users.id, attachments.uploadedBy))
+        .where(eq(users.orgId, orgId));
+    return Number(row?.bytes ?? 0);
+}
+
+const formatMb = (bytes: number) => `${Math.round(bytes / MB)} MB`;
+
+/**
+ * Checks whether `userId` may store `incomingBytes` more. Returns the reason
+ * when an upload would exceed the user's or their organization's quota,
+ * otherwise null.
+ */
+export async function checkStorageQuota(userId: string, incomingBytes: number) {
+    const user = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: { orgId: true },
+    });
+    const { orgQuota, userQuota } = await getStorageQuotas(user?.orgId ?? null);
+
+    if (userQuota !== null) {
+        const used = await getUserStorageUsage(userId);
+        if (used + incomingBytes > userQuota) {
+            return `This upload would exceed your storage quota of ${formatMb(userQuota)}. Delete some uploads and try again.`;
+        }
+    }
+    if (orgQuota !== null && user?.orgId) {
+        const used = await getOrgStorageUsage(user.orgId);
+        if (used + incomingBytes > orgQuota) {
+            return `Your organization has used its storage quota of ${formatMb(orgQuota)}. Ask an organization admin for help.`;
+        }
+    }
+    return null;
+}
+
+// Usage overview for the organization settings page
+export async function getOrgStorageOverview(orgId: string, topUsers = 10) {
+    const [quotas, used, heaviestUsers] = await Promise.all([
+        getStorageQuotas(orgId),
+        getOrgStorageUsage(orgId),
+        db
+            .select({
+                userId: users.id,
+                name: users.name,
+                email: users.email,
+                bytes: bytesUsed,
+                files: sql<number>`count(${attachments.id})::int`,
+            })
+            .from(attachments)
+            .innerJoin(users, eq(users.id, attachments.uploadedBy))
+            .where(eq(users.orgId, orgId))
+            .groupBy(users.id, users.name, users.email)
+            .orderBy(desc(bytesUsed))
+            .limit(topUsers),
+    ]);
+
+    return {
+        ...quotas,
+        used,
+        users: heaviestUsers.map((user) => ({
+            ...user,
+            bytes: Number(user.bytes),
+        })),
+    };
+}
+
+// Picture and content references are stored as the public URL, or for
+// profile pictures as /api/images/<id>
+const attachmentPath = sql`'/api/images/' || ${attachments.id}`;
+const usedInContent = (content: AnyColumn) =>
+    sql`strpos(${content}, ${attachments.publicUrl}) > 0`;
+
+// Content that is deleted itself doesn't count, or a deleted post would
+// keep its own images forever
+const notReferenced = and(
+    sql`not exists (select 1 from ${users} where ${users.image} in (${attachments.publicUrl}, ${attachmentPath}))`,
+    sql`not exists (select 1 from ${communities} where ${communities.avatar} in (${attachments.publicUrl}, ${attachmentPath}) or ${communities.banner} in (${attachments.publicUrl}, ${attachmentPath}))`,
+    sql`not exists (select 1 from ${posts} where ${posts.isDeleted} = false and ${usedInContent(posts.content)})`,
+    sql`not exists (select 1 from ${comments} where ${comments.isDeleted} = false and ${usedInContent(comments.content)})`,
+    sql`not exists (select 1 from ${qaAnswers} where ${qaAnswers.isDeleted} = false and ${usedInContent(qaAnswers.content)})`,
+    sql`not exists (select 1 from ${qaAnswerComments} where ${qaAnswerComments.isDeleted} = false and ${usedInContent(qaAnswerComments.content)})`,
+);
+
+type StoredAttachment = Pick<
+    typeof attachments.$inferSelect,
+    'id' | 'type' | 'r2Key' | 'variants'
+>;
+
+// Files first: a row left behind is retried on the next sweep, a file left
+// behind would never be found again. Files another row still points to are
+// left alone.
+async function deleteStoredAttachment(attachment: StoredAttachment) {
+    const [sharedWith] = await db
+        .select({ id: attachments.id })
+        .from(attachments)
+        .where(
+            and(
+                eq(attachments.r2Key, attachment.r2Key),
+                ne(attachments.id, attachment.id),
+            ),
+        )
+        .limit(1);
+    if (sharedWith) {
+        await db.delete(attachments).where(eq(attachments.id, attachment.id));
+        return;
+    }
+
+    const keys = [
+        attachment.r2Key,
+        ...Object.values(attachment.variants ?? {}).map(
+            (variant) => variant.key,
+        ),
+        ...(attachment.type === 'video'
+            ? [videoThumbnailKey(attachment.r2Key)]
+            : []),
+    ];
+    for (const key of keys) await deleteObject(key);
+    await db.delete(attachments).where(eq(attachments.id, attachment.id));
+}
+
+/**
+ * Deletes the attachments of a message right away, when its sender deletes
+ * it. Files still used elsewhere, and failures, are left to the sweeper,
+ * which looks at them again once the grace period for deleted messages is
+ * over. Failures are logged, never thrown.
+ */
+export async function deleteMessageAttachments(messageId: number) {
+    const rows = await db
+        .select({
+            id: attachments.id,
+            type: attachments.type,
+            r2Key: attachments.r2Key,
+            variants: attachments.variants,
+        })
+        .from(attachments)
+        .where(and(eq(attachments.messageId, messageId), notReferenced));
+
+    for (const attachment of rows) {
+        try {
+            await deleteStoredAttachment(attachment);
+        } catch (error) {
+            console.error(
+                `Failed to delete attachment ${attachment.id}:`,
+                error,
+            );
+        }
+    }
+}
+
+/**
+ * Deletes attachments (files and rows) that are no longer used: uploads
+ * left unattached for `orphanGraceHours`, and attachments of posts or chat
+ * messages deleted more than `deletedGraceDays` ago. Deleted posts are
+ * never edited again, so their updatedAt is when they were deleted.
+ */
+export async function sweepAttachments(options: {
+    orphanGraceHours: number;
+    deletedGraceDays: number;
+    batchSize?: number;
+}) {
+    const orphanCutoff = new Date(
+        Date.now() - options.orphanGraceHours * 60 * 60 * 1000,
+    );
+    const deletedCutoff = new Date(
+        Date.now() - options.deletedGraceDays * 24 * 60 * 60 * 1000,
+    );
+
+    const candidates = await db
+        .select({
+            id: attachments.id,
+            type: attachments.type,
+            r2Key: attachments.r2Key,
+            variants: attachments.variants,
+        })
+        .from(attachments)
+        .leftJoin(posts, eq(posts.id, attachments.postId))
+        .leftJoin(directMessages, eq(directMessages.id, attachments.messageId))
+        .where(
+            and(
+                or(
+                    and(
+                        isNull(attachments.postId),
+                        isNull(attachments.draftId),
+                        isNull(attachments.messageId),
+                        lt(attachments.createdAt, orphanCutoff),
+                    ),
+                    and(
+                        eq(posts.isDeleted, true),
+                        lt(posts.updatedAt, deletedCutoff),
+                    ),
+                    and(
+                        isNotNull(directMessages.deletedAt),
+                        lt(directMessages.deletedAt, deletedCutoff),
+                    ),
+                ),
+                // An image of a deleted post may still be shown elsewhere
+                notReferenced,
+            ),
+        )
+        .limit(options.batchSize ?? 200);
+
+    let deleted = 0;
+    let failed = 0;
+    for (const attachment of candidates) {
+        try {
+            await deleteStoredAttachment(attachment);
+            deleted++;
+        } catch (error) {
+            failed++;
+            console.error(
+                `Failed to delete attachment ${attachment.id}:`,
+                error,
+            );
+        }
+    }
+
+    return { deleted, failed };
+}
@@ -0,0 +1,344 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { attachments } from '@/server/db/schema';
+import { enqueueJob } from '@/server/jobs';
+import { TRANSCODE_VIDEO_JOB } from '@/server/jobs/transcode-video';
+import { encodeR2KeyForUrl } from '@/lib/utils';
+import { videoThumbnailKey } from '@/lib/video-conversion';
+
+/**
+ * Video Transcoding
+ *
+ * Uploaded videos in formats browsers play poorly are handed to a
+ * transcoding backend, which writes an H.264/AAC MP4 back over the original
+ * key (so `[VIDEO:url]` links in post content stay valid) and then calls one
+ * of two signed callback URLs. The backend is chosen with VIDEO_TRANSCODER:
+ * 'local' queues the job for the ffmpeg worker (pnpm jobs:video), 'coconut'
+ * or 'zencoder' submit it to those services, 'none' disables transcoding.
+ * When unset, the first configured hosted service is used, if any.
+ *
+ * Callback URLs carry the attachment id, an expiry and an HMAC-SHA256
+ * signature made with VIDEO_CALLBACK_SECRET. Callbacks only ever change the
+ * attachment's conversion status and thumbnail, never which file it points
+ * to.
+ */
+
+export type VideoCallbackKind = 'complete' | 'error';
+
+export interface TranscodingRequest {
+    attachmentId: number;
+    key: string;
+    sourceUrl: string;
+    completeUrl: string;
+    errorUrl: string;
+}
+
+interface TranscodingBackend {
+    name: string;
+    isConfigured(): boolean;
+    submit(request: TranscodingRequest): Promise<void>;
+}
+
+const CALLBACK_TTL_MS = 48 * 60 * 60 * 1000;
+
+// Queued for the ffmpeg worker in src/server/jobs/transcode-video.ts
+const localBackend: TranscodingBackend = {
+    name: 'local',
+    isConfigured: () => true,
+    async submit(request) {
+        await enqueueJob(
+            TRANSCODE_VIDEO_JOB,
+            { ...request },
+            {
+                dedupeKey: `${TRANSCODE_VIDEO_JOB}:${request.attachmentId}`,
+            },
+        );
+    },
+};
+
+const coconutBackend: TranscodingBackend = {
+    name: 'coconut',
+    isConfigured: () => !!process.env.COCONUT_API_KEY,
+    async submit({ attachmentId, key, sourceUrl, completeUrl }) {
+        const response = await fetch('https://api.coconut.co/v1/jobs', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Basic ${Buffer.from(process.env.COCONUT_API_KEY + ':').toString('base64')}`,
+            },
+            body: JSON.stringify({
+                input: sourceUrl,
+                webhook: completeUrl,
+                outputs: {
+                    mp4: {
+                        path: key,
+                        video_codec: 'h264',
+                        audio_codec: 'aac',
+                        quality: 'web_optimized',
+                        size: '1280x720',
+                    },
+                },
+                metadata: { attachmentId: attachmentId.toString() },
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Coconut API failed: ${response.statusText}`);
+        }
+    },
+};
+
+const zencoderBackend: TranscodingBackend = {
+    name: 'zencoder',
+    isConfigured: () => !!process.env.ZENCODER_API_KEY,
+    async submit({ attachmentId, key, sourceUrl, completeUrl }) {
+        const response = await fetch('https://app.zencoder.com/api/v2/jobs', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Zencoder-Api-Key': process.env.ZENCODER_API_KEY!,
+            },
+            body: JSON.stringify({
+                input: sourceUrl,
+                outputs: [
+                    {
+                        url: key,
+                        video_codec: 'h264',
+                        audio_codec: 'aac',
+                        quality: 'web_optimized',
+                        width: 1280,
+                        height: 720,
+                        notifications: [completeUrl],
+                        metadata: { attachmentId: attachmentId.toString() },
+                    },
+                ],
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Zencoder API failed: ${response.statusText}`);
+        }
+    },
+};
+
+const hostedBackends = [coconutBackend, zencoderBackend];
+
+export function getTranscodingBackend(): TranscodingBackend | null {
+    const choice = process.env.VIDEO_TRANSCODER;
+    if (choice === 'none') return null;
+    if (choice) {
+        const backend = [localBackend, ...hostedBackends].find(
+            (candidate) => candidate.name === choice,
+        );
+        if (!backend?.isConfigured()) {
+            console.error(
+                `VIDEO_TRANSCODER is "${choice}" but that backend is not available`,
+            );
+            return null;
+        }
+        return backend;
+    }
+    return hostedBackends.find((backend) => backend.isConfigured()) ?? null;
+}
+
+function getCallbackSecret() {
+    const secret = process.env.VIDEO_CALLBACK_SECRET;
+    if (!secret) {
+        throw new Error(
+            'VIDEO_CALLBACK_SECRET environment variable is not set',
+        );
+    }
+    return secret;
+}
+
+const signCallback = (
+    kind: VideoCallbackKind,
+    attachmentId: number,
+    expires: number,
+) =>
+    createHmac('sha256', getCallbackSecret())
+        .update(`${kind}:${attachmentId}:${expires}`)
+        .digest('hex');
+
+export function createVideoCallbackUrl(
+    kind: VideoCallbackKind,
+    attachmentId: number,
+) {
+    const expires = Date.now() + CALLBACK_TTL_MS;
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const url = new URL(`/api/video/conversion-${kind}`, baseUrl);
+    url.searchParams.set('attachmentId', attachmentId.toString());
+    url.searchParams.set('expires', expires.toString());
+    url.searchParams.set(
+        'signature',
+        signCallback(kind, attachmentId, expires),
+    );
+    return url.toString();
+}
+
+/**
+ * Checks a callback URL's signature and expiry. Returns the attachment id it
+ * was issued for, or null if the URL is not one we signed or has expired.
+ */
+export function verifyVideoCallback(
+    kind: VideoCallbackKind,
+    params: URLSearchParams,
+) {
+    const attachmentId = Number(params.get('attachmentId'));
+    const expires = Number(params.get('expires'));
+    const signature = params.get('signature') ?? '';
+    if (!Number.isInteger(attachmentId) || !Number.isFinite(expires)) {
+        return null;
+    }
+    if (expires < Date.now()) return null;
+
+    let expected: Buffer;
+    try {
+        expected = Buffer.from(
+            signCallback(kind, attachmentId, expires),
+            'hex',
+        );
+    } catch (error) {
+        console.error('Cannot verify video callback:', error);
+        return null;
+    }
+    const actual = Buffer.from(signature, 'hex');
+    if (
+        actual.length !== expected.length ||
+        !timingSafeEqual(actual, expected)
+    ) {
+        return null;
+    }
+    return attachmentId;
+}
+
+/**
+ * Hosted services report failures on the same webhook as successes. Reads
+ * the outcome from our worker's body ({ error }), a Coconut webhook
+ * ({ event: 'job.failed' }) or a Zencoder notification ({ job: { state } }).
+ */
+export function readCallbackFailure(body: unknown): string | null {
+    if (!body || typeof body !== 'object') return null;
+    const payload = body as {
+        error?: unknown;
+        event?: unknown;
+        job?: { state?: unknown };
+        output?: { state?: unknown; error_message?: unknown };
+    };
+
+    if (typeof payload.error === 'string') return payload.error;
+    if (payload.event === 'job.failed') return 'Coconut job failed';
+    if (payload.job?.state === 'failed' || payload.output?.state === 'failed') {
+        return typeof payload.output?.error_message === 'string'
+            ? payload.output.error_message
+            : 'Zencoder job failed';
+    }
+    return null;
+}
+
+const publicUrlFor = (key: string) =>
+    `${process.env.R2_PUBLIC_URL}/${encodeR2KeyForUrl(key)}`;
+
+/**
+ * Sends an uploaded video to the configured backend. Returns the attachment's
+ * new conversion status, or null when no backend is configured and the
+ * video is served as uploaded.
+ */
+export async function startVideoTranscoding(attachment: {
+    id: number;
+    r2Key: string;
+}) {
+    const backend = getTranscodingBackend();
+    if (!backend) return null;
+
+    await db
+        .update(attachments)
+        .set({
+            conversionStatus: 'pending',
+            conversionError: null,
+            updatedAt: new Date(),
+        })
+        .where(eq(attachments.id, attachment.id));
+
+    try {
+        await backend.submit({
+            attachmentId: attachment.id,
+            key: attachment.r2Key,
+            sourceUrl: publicUrlFor(attachment.r2Key),
+            completeUrl: createVideoCallbackUrl('complete', attachment.id),
+            errorUrl: createVideoCallbackUrl('error', attachment.id),
+        });
+        return 'pending' as const;
+    } catch (error) {
+        console.error(
+            `Failed to submit attachment ${attachment.id} to ${backend.name} transcoding:`,
+            error,
+        );
+        await failVideoTranscoding(
+            attachment.id,
+            error instanceof Error ? error.message : 'Submission failed',
+        );
+        return 'failed' as const;
+    }
+}
+
+// Late or repeated callbacks for a finished conversion are ignored
+export async function completeVideoTranscoding(
+    attachmentId: number,
+    options: { hasThumbnail?: boolean } = {},
+) {
+    const attachment = await db.query.attachments.findFirst({
+        where: eq(attachments.id, attachmentId),
+        columns: { r2Key: true },
+    });
+    if (!attachment) return false;
+
+    const [updated] = await db
+        .update(attachments)
+        .set({
+            conversionStatus: 'ready',
+            conversionError: null,
+            ...(options.hasThumbnail && {
+                thumbnailUrl: publicUrlFor(videoThumbnailKey(attachment.r2Key)),
+            }),
+            updatedAt: new Date(),
+        })
+        .where(
+            and(
+                eq(attachments.id, attachmentId),
+                inArray(attachments.conversionStatus, [
+                    'pending',
+                    'processing',
+                ]),
+            ),
+        )
+        .returning({ id: attachments.id });
+    return !!updated;
+}
+
+// The original upload stays in place, so the video still plays where the
+// browser supports its format
+export async function failVideoTranscoding(
+    attachmentId: number,
+    error: string,
+) {
+    const [updated] = await db
+        .update(attachments)
+        .set({
+            conversionStatus: 'failed',
+            conversionError: error.slice(0, 500),
+            updatedAt: new Date(),
+        })
+        .where(
+            and(
+                eq(attachments.id, attachmentId),
+                inArray(attachments.conversionStatus, [
+                    'pending',
+                    'processing',
+                ]),
+            ),
+        )
+        .returning({ id: attachments.id });
+    return !!updated;
+}
@@ -0,0 +1,240 @@
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+
+/**
+ * Fetches user-supplied URLs from the server without reaching internal
+ * services. Only http(s) on the standard ports is allowed, every address a
+ * hostname resolves to is checked at connect time (so DNS rebinding gets the
+ * same check), redirects are followed by hand and re-checked, and responses
+ * are cut off by size and time.
+ */
+
+export class SafeFetchError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SafeFetchError';
+    }
+}
+
+// Loopback, private, link-local, shared, documentation, multicast and
+// reserved ranges. BlockList also checks IPv4-mapped IPv6 addresses
+// (::ffff:127.0.0.1) against the IPv4 ranges.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.88.99.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96], // NAT64
+    ['100::', 64],
+    ['2001:db8::', 32],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isBlockedAddress(address: string) {
+    const family = isIP(address);
+    if (family === 0) return true;
+    return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves like dns.lookup but refuses hostnames with any blocked address.
+// Node asks for every address when it races IPv4 and IPv6.
+function safeLookup(
+    hostname: string,
+    options: LookupOptions,
+    callback: (
+        error: NodeJS.ErrnoException | null,
+        address: string | LookupAddress[],
+        family?: number,
+    ) => void,
+) {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '');
+        const blocked = addresses.find(({ address }) =>
+            isBlockedAddress(address),
+        );
+        if (addresses.length === 0 || blocked) {
+            return callback(
+                new SafeFetchError(`${hostname} resolves to a blocked address`),
+                '',
+            );
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+}
+
+const ALLOWED_PORTS: Record<string, string> = {
+    'http:': '80',
+    'https:': '443',
+};
+
+function assertFetchableUrl(url: URL) {
+    if (!(url.protocol in ALLOWED_PORTS)) {
+        throw new SafeFetchError(`Unsupported protocol ${url.protocol}`);
+    }
+    if (url.port && url.port !== ALLOWED_PORTS[url.protocol]) {
+        throw new SafeFetchError(`Port ${url.port} is not allowed`);
+    }
+    if (url.username || url.password) {
+        throw new SafeFetchError('URLs with credentials are not allowed');
+    }
+    // IP literals never go through the lookup
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && isBlockedAddress(host)) {
+        throw new SafeFetchError(`${host} is a blocked address`);
+    }
+}
+
+export interface SafeFetchOptions {
+    accept?: string;
+    maxRedirects?: number;
+    maxBytes?: number;
+    timeoutMs?: number;
+}
+
+export interface SafeFetchResponse {
+    url: string; // after redirects
+    status: number;
+    contentType: string;
+    body: Buffer;
+    truncated: boolean; // the body was cut off at maxBytes
+}
+
+function requestOnce(
+    url: URL,
+    options: Required<SafeFetchOptions>,
+    signal: AbortSignal,
+) {
+    return new Promise<SafeFetchResponse & { location?: string }>(
+        (resolve, reject) => {
+            const client = url.protocol === 'https:' ? https : http;
+            const request = client.get(
+                url,
+                {
+                    headers: {
+                        'User-Agent':
+                            'Mozilla/5.0 (compatible; CommunityX-LinkPreview/1.0)',
+                        Accept: options.accept,
+                        'Accept-Encoding': 'identity',
+                    },
+                    lookup: safeLookup,
+                    signal,
+                },
+                (response) => {
+                    const status = response.statusCode ?? 0;
+                    const base = {
+                        url: url.toString(),
+                        status,
+                        contentType: response.headers['content-type'] ?? '',
+                    };
+                    if (status >= 300 && status < 400) {
+                        response.resume();
+                        resolve({
+                            ...base,
+                            body: Buffer.alloc(0),
+                            truncated: false,
+                            location: response.headers.location,
+                        });
+                        return;
+                    }
+
+                    const chunks: Buffer[] = [];
+                    let size = 0;
+                    let truncated = false;
+                    response.on('data', (chunk: Buffer) => {
+                        const remaining = options.maxBytes - size;
+                        if (chunk.length >= remaining) {
+                            chunks.push(chunk.subarray(0, remaining));
+                            size += remaining;
+                            truncated = true;
+                            response.destroy();
+                            resolve({
+                                ...base,
+                                body: Buffer.concat(chunks),
+                                truncated,
+                            });
+                            return;
+                        }
+                        chunks.push(chunk);
+                        size += chunk.length;
+                    });
+                    response.on('end', () =>
+                        resolve({
+                            ...base,
+                            body: Buffer.concat(chunks),
+                            truncated,
+                        }),
+                    );
+                    response.on('error', (error) => {
+                        if (!truncated) reject(error);
+                    });
+                },
+            );
+            request.on('error', reject);
+        },
+    );
+}
+
+/**
+ * GETs `rawUrl` under the restrictions above. Throws a SafeFetchError for
+ * blocked URLs and too many redirects; network errors and timeouts are
+ * thrown as they come. Bodies over maxBytes are cut off rather than
+ * rejected, since the head of a page is all a preview needs.
+ */
+export async function safeFetch(
+    rawUrl: string,
+    {
+        accept = '*/*',
+        maxRedirects = 3,
+        maxBytes = 1024 * 1024,
+        timeoutMs = 5000,
+    }: SafeFetchOptions = {},
+): Promise<SafeFetchResponse> {
+    const options = { accept, maxRedirects, maxBytes, timeoutMs };
+    // One deadline for the whole redirect chain
+    const signal = AbortSignal.timeout(timeoutMs);
+
+    let url = new URL(rawUrl);
+    for (let redirects = 0; ; redirects++) {
+        assertFetchableUrl(url);
+        const { location, ...response } = await requestOnce(
+            url,
+            options,
+            signal,
+        );
+        if (response.status < 300 || response.status >= 400) return response;
+        if (!location) {
+            throw new SafeFetchError(
+                `Redirect without a location from ${url.toString()}`,
+            );
+        }
+        if (redirects >= maxRedirects) {
+            throw new SafeFetchError(`Too many redirects from ${rawUrl}`);
+        }
+        url = new URL(location, url);
+    }
+}
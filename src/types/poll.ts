@@ -1,4 +1,6 @@
-export type PollType = 'single' | 'multiple';
+import type { PollResultVisibility, PollType } from '@/lib/polls';
+
+export type { PollResultVisibility, PollType };
 
 export interface PollOption {
     id: number;
@@ -13,6 +15,8 @@ export interface Poll {
     postId: number;
     question: string;
     pollType: PollType;
+    isAnonymous: boolean;
+    resultsVisibility: PollResultVisibility;
     expiresAt: string | null;
     isClosed: boolean;
     createdAt: string;
@@ -24,7 +28,9 @@ export interface PollVote {
     id: number;
     pollId: number;
     pollOptionId: number;
-    userId: string;
+    userId: string | null;
+    ballotId: string | null;
+    rank: number | null;
     createdAt: string;
 }
 
@@ -47,6 +53,8 @@ export interface PollWithResults extends Poll {
 export interface CreatePollData {
     question: string;
     pollType: PollType;
+    isAnonymous: boolean;
+    resultsVisibility: PollResultVisibility;
     options: string[];
     expiresAt?: Date;
 }
@@ -55,6 +63,8 @@ export interface PollCreationState {
     isCreating: boolean;
     question: string;
     pollType: PollType;
+    isAnonymous: boolean;
+    resultsVisibility: PollResultVisibility;
     options: string[];
     expiresAt: Date | null;
     hasExpiration: boolean;